@@ -1,6 +1,17 @@
 package com.alpha0010.pdf
 
+import android.graphics.Canvas
+import android.graphics.Color
+import android.graphics.Paint
+import android.graphics.Path
+import android.graphics.Rect
+import android.util.DisplayMetrics
+import android.util.TypedValue
+import android.util.TypedValue.COMPLEX_UNIT_DIP
 import kotlinx.serialization.Serializable
+import kotlinx.serialization.decodeFromString
+import kotlinx.serialization.json.Json
+import kotlin.math.hypot
 
 @Serializable
 data class PositionedText(
@@ -21,4 +32,104 @@ data class Stroke(
 data class AnnotationPage(
   val strokes: List<Stroke>,
   val text: List<PositionedText>
-)
+) {
+  companion object {
+    /**
+     * Parse the `annotations` prop of the multi page viewers, annotation
+     * pages keyed by page index. Returns an empty map for invalid JSON.
+     */
+    fun parseMap(json: String): Map<Int, AnnotationPage> {
+      if (json.isEmpty()) return emptyMap()
+      return try {
+        Json.decodeFromString(json)
+      } catch (e: Exception) {
+        emptyMap()
+      }
+    }
+  }
+}
+
+/**
+ * Draws PAS v1 annotations.
+ */
+object AnnotationRenderer {
+
+  /**
+   * Parse a `#RRGGBB` or `#RRGGBBAA` color. Returns black if invalid.
+   */
+  fun parseColor(hex: String): Int {
+    var androidColor = hex
+    if (hex.length == 9) {
+      androidColor = "#" + hex.takeLast(2) + hex.drop(1).take(6)
+    }
+    return try {
+      Color.parseColor(androidColor)
+    } catch (e: Exception) {
+      Color.BLACK
+    }
+  }
+
+  /**
+   * Draw the strokes and text of a page onto a canvas of [width] x [height]
+   * pixels, the displayed size of the page.
+   */
+  fun draw(canvas: Canvas, page: AnnotationPage, width: Int, height: Int, metrics: DisplayMetrics) {
+    val paint = Paint()
+
+    paint.isAntiAlias = true
+    paint.style = Paint.Style.STROKE
+    paint.strokeCap = Paint.Cap.ROUND
+    paint.strokeJoin = Paint.Join.ROUND
+    for (stroke in page.strokes) {
+      if (stroke.path.size < 2) {
+        continue
+      }
+      paint.color = parseColor(stroke.color)
+      paint.strokeWidth = TypedValue.applyDimension(COMPLEX_UNIT_DIP, stroke.width, metrics)
+      canvas.drawPath(computePath(stroke.path, width, height), paint)
+    }
+
+    paint.reset()
+    paint.isAntiAlias = true
+    paint.textAlign = Paint.Align.LEFT
+    val bounds = Rect()
+    val factor = TypedValue.applyDimension(COMPLEX_UNIT_DIP, 1000f, metrics)
+    for (msg in page.text) {
+      paint.color = parseColor(msg.color)
+      val scaledFont = 9 + (msg.fontSize * width) / factor
+      paint.textSize = TypedValue.applyDimension(COMPLEX_UNIT_DIP, scaledFont, metrics)
+      paint.getTextBounds(msg.str, 0, msg.str.length, bounds)
+      canvas.drawText(
+        msg.str,
+        width * msg.point[0],
+        height * msg.point[1] - bounds.top,
+        paint
+      )
+    }
+  }
+
+  private fun computeDist(a: List<Float>, b: List<Float>, scaleX: Int, scaleY: Int): Float {
+    return hypot(scaleX * (a[0] - b[0]), scaleY * (a[1] - b[1]))
+  }
+
+  private fun computePath(coordinates: List<List<Float>>, scaleX: Int, scaleY: Int): Path {
+    return Path().apply {
+      var prevPoint = coordinates.first()
+      moveTo(prevPoint[0] * scaleX, prevPoint[1] * scaleY)
+      for (point in coordinates.drop(1)) {
+        if (computeDist(prevPoint, point, scaleX, scaleY) < 8) {
+          continue
+        }
+        val midX = (prevPoint[0] + point[0]) / 2
+        val midY = (prevPoint[1] + point[1]) / 2
+        quadTo(
+          prevPoint[0] * scaleX, prevPoint[1] * scaleY,
+          midX * scaleX, midY * scaleY
+        )
+        prevPoint = point
+      }
+      prevPoint = coordinates.last()
+      lineTo(prevPoint[0] * scaleX, prevPoint[1] * scaleY)
+    }
+  }
+}
@@ -3,10 +3,19 @@ package com.alpha0010.pdf
 import android.graphics.Bitmap
 import android.graphics.Color
 import android.graphics.Matrix
+import android.graphics.PointF
+import android.graphics.pdf.LoadParams
 import android.graphics.pdf.PdfRenderer
+import android.os.Build
+import android.os.ParcelFileDescriptor
+import android.util.LruCache
+import java.io.File
+import java.security.MessageDigest
 import java.util.concurrent.locks.Lock
 import kotlin.concurrent.withLock
 import androidx.core.graphics.createBitmap
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.WritableMap
 
 const val SLICES = 4
 
@@ -15,6 +24,179 @@ enum class ResizeMode(val jsName: String) {
   FIT_WIDTH("fitWidth")
 }
 
+/**
+ * Error codes reported by error events and PdfUtil rejections. Keep in sync
+ * with PdfErrorCode in src/errors.ts.
+ */
+object PdfErrorCode {
+    const val FILE_NOT_FOUND = "FILE_NOT_FOUND"
+    const val INVALID_PDF = "INVALID_PDF"
+    const val PASSWORD_REQUIRED = "PASSWORD_REQUIRED"
+    const val PASSWORD_INCORRECT = "PASSWORD_INCORRECT"
+    const val PAGE_OUT_OF_RANGE = "PAGE_OUT_OF_RANGE"
+    const val RENDER_FAILED = "RENDER_FAILED"
+    const val INVALID_ARGUMENT = "INVALID_ARGUMENT"
+    const val NOT_SUPPORTED = "NOT_SUPPORTED"
+    const val NO_TEXT_LAYER = "NO_TEXT_LAYER"
+    const val CANCELLED = "CANCELLED"
+    const val DOWNLOAD_FAILED = "DOWNLOAD_FAILED"
+    const val UNKNOWN = "UNKNOWN"
+}
+
+/**
+ * Thrown when a document cannot be opened because of its password.
+ *
+ * @param code PdfErrorCode.PASSWORD_REQUIRED or PdfErrorCode.PASSWORD_INCORRECT
+ */
+class PdfPasswordException(val code: String, message: String) : Exception(message)
+
+/**
+ * Open a pdf, unlocking it with [password] if it is encrypted.
+ *
+ * @param password Empty string if no password was supplied
+ * @throws PdfPasswordException if the password is missing or incorrect
+ */
+fun openPdfRenderer(fd: ParcelFileDescriptor, password: String): PdfRenderer {
+    try {
+        if (password.isNotEmpty() && Build.VERSION.SDK_INT >= Build.VERSION_CODES.VANILLA_ICE_CREAM) {
+            return PdfRenderer(fd, LoadParams.Builder().setPassword(password).build())
+        }
+        return PdfRenderer(fd)
+    } catch (e: SecurityException) {
+        if (password.isEmpty()) {
+            throw PdfPasswordException(PdfErrorCode.PASSWORD_REQUIRED, "Document is password protected.")
+        }
+        if (Build.VERSION.SDK_INT < Build.VERSION_CODES.VANILLA_ICE_CREAM) {
+            throw UnsupportedOperationException("Password protected documents require Android 15 (API 35).")
+        }
+        throw PdfPasswordException(PdfErrorCode.PASSWORD_INCORRECT, "Incorrect document password.")
+    }
+}
+
+/**
+ * Viewer whose position can be read by [PdfViewerModule].
+ */
+interface PdfViewStateProvider {
+    /**
+     * Current page, zoom scale, and the top left corner of the viewport
+     * relative to the current page, normalized to page dimensions.
+     */
+    fun getViewState(): WritableMap
+}
+
+/**
+ * Payload of onPageTap, onPageDoubleTap and onPageLongPress: a point of a
+ * page, normalized to page dimensions and in PDF points, both relative to
+ * the top left corner of the page.
+ */
+fun pagePointEvent(page: Int, point: PointF, pdfPageWidth: Int, pdfPageHeight: Int): WritableMap {
+    val event = Arguments.createMap()
+    event.putInt("page", page)
+    event.putDouble("x", point.x.toDouble())
+    event.putDouble("y", point.y.toDouble())
+    event.putDouble("pdfX", (point.x * pdfPageWidth).toDouble())
+    event.putDouble("pdfY", (point.y * pdfPageHeight).toDouble())
+    return event
+}
+
+/**
+ * Thrown when a document handle is used after `PdfUtil.open()` closed it.
+ */
+class PdfDocumentClosedException(handle: String) : IllegalStateException("Document $handle is closed.")
+
+/**
+ * Document kept open by `PdfUtil.open()`. Util methods and viewers receive
+ * its handle in place of a file path, and share the renderer instead of
+ * reopening the file.
+ */
+class SharedPdfDocument internal constructor(
+    val file: File,
+    private val fd: ParcelFileDescriptor,
+    val renderer: PdfRenderer
+) {
+    // Holders: the registry, plus every viewer and util call using it.
+    internal var refCount = 1
+
+    internal fun close(pdfMutex: Lock) {
+        pdfMutex.withLock { renderer.close() }
+        fd.close()
+    }
+}
+
+object PdfDocumentRegistry {
+    private const val HANDLE_PREFIX = "pdfdocument:"
+    private val documents = HashMap<String, SharedPdfDocument>()
+    private var nextId = 1
+
+    fun isHandle(source: String) = source.startsWith(HANDLE_PREFIX)
+
+    /**
+     * Open a document and keep it open until [close]. Returns its handle.
+     *
+     * @throws PdfPasswordException if the password is missing or incorrect
+     */
+    fun open(file: File, password: String, pdfMutex: Lock): String {
+        val fd = ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
+        val renderer = try {
+            pdfMutex.withLock { openPdfRenderer(fd, password) }
+        } catch (e: Exception) {
+            fd.close()
+            throw e
+        }
+        synchronized(this) {
+            val handle = "$HANDLE_PREFIX${nextId++}"
+            documents[handle] = SharedPdfDocument(file, fd, renderer)
+            return handle
+        }
+    }
+
+    /**
+     * Take a reference to an open document. Pair with [release].
+     *
+     * @throws PdfDocumentClosedException if the handle was closed
+     */
+    fun acquire(handle: String): SharedPdfDocument = synchronized(this) {
+        val document = documents[handle] ?: throw PdfDocumentClosedException(handle)
+        document.refCount++
+        document
+    }
+
+    /**
+     * File of an open document.
+     *
+     * @throws PdfDocumentClosedException if the handle was closed
+     */
+    fun fileOf(handle: String): File = synchronized(this) {
+        documents[handle]?.file ?: throw PdfDocumentClosedException(handle)
+    }
+
+    fun release(document: SharedPdfDocument, pdfMutex: Lock) {
+        // Close outside the registry lock; callers may hold pdfMutex.
+        val unused = synchronized(this) { --document.refCount == 0 }
+        if (unused) {
+            document.close(pdfMutex)
+        }
+    }
+
+    /**
+     * Drop the registry's reference. The document closes once viewers
+     * displaying it release it too.
+     */
+    fun close(handle: String, pdfMutex: Lock) {
+        val document = synchronized(this) { documents.remove(handle) } ?: return
+        release(document, pdfMutex)
+    }
+
+    fun closeAll(pdfMutex: Lock) {
+        val closed = synchronized(this) {
+            val all = documents.values.toList()
+            documents.clear()
+            all
+        }
+        closed.forEach { release(it, pdfMutex) }
+    }
+}
+
 /**
  * Shared PDF page rendering utility.
  */
@@ -29,6 +211,7 @@ object PdfPageRenderer {
      * @param pageIndex Zero-based page index
      * @param viewWidth Width to render into
      * @param pageHeight Height to render into
+     * @param backgroundColor Fill behind the page content
      * @return Rendered bitmap or null on failure
      */
     fun renderPage(
@@ -36,7 +219,8 @@ object PdfPageRenderer {
         pdfMutex: Lock,
         pageIndex: Int,
         viewWidth: Int,
-        pageHeight: Int
+        pageHeight: Int,
+        backgroundColor: Int = Color.WHITE
     ): Bitmap? {
         if (viewWidth <= 0 || pageHeight <= 0) return null
 
@@ -44,7 +228,7 @@ object PdfPageRenderer {
             try {
                 val page = renderer.openPage(pageIndex)
                 val bitmap = createBitmap(viewWidth, pageHeight)
-                bitmap.eraseColor(Color.WHITE)
+                bitmap.eraseColor(backgroundColor)
 
                 val matrix = Matrix()
                 matrix.setScale(
@@ -61,3 +245,40 @@ object PdfPageRenderer {
         }
     }
 }
+
+/**
+ * Stable document identifier.
+ */
+object PdfFingerprint {
+    // Hashes by path, size and modification time; avoids rehashing files
+    // that are opened repeatedly (e.g. thumbnails in a list).
+    private val cache = LruCache<String, String>(64)
+
+    /**
+     * Hex encoded SHA-256 of the file contents. Identifies a document
+     * independent of where it is stored.
+     *
+     * @throws java.io.IOException if the file cannot be read
+     */
+    fun compute(file: File): String {
+        val cacheKey = "${file.absolutePath}:${file.length()}:${file.lastModified()}"
+        cache.get(cacheKey)?.let { return it }
+
+        val fingerprint = hash(file)
+        cache.put(cacheKey, fingerprint)
+        return fingerprint
+    }
+
+    private fun hash(file: File): String {
+        val digest = MessageDigest.getInstance("SHA-256")
+        file.inputStream().use { input ->
+            val buffer = ByteArray(64 * 1024)
+            while (true) {
+                val read = input.read(buffer)
+                if (read < 0) break
+                digest.update(buffer, 0, read)
+            }
+        }
+        return digest.digest().joinToString("") { "%02x".format(it) }
+    }
+}
@@ -5,15 +5,12 @@ import android.content.Context
 import android.graphics.*
 import android.graphics.pdf.PdfRenderer
 import android.os.ParcelFileDescriptor
-import android.util.TypedValue
-import android.util.TypedValue.COMPLEX_UNIT_DIP
 import android.view.GestureDetector
 import android.view.MotionEvent
 import android.view.ScaleGestureDetector
 import android.view.View
 import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.ReactContext
-import com.facebook.react.bridge.WritableMap
 import com.facebook.react.uimanager.events.RCTEventEmitter
 import kotlinx.coroutines.CoroutineScope
 import kotlinx.coroutines.Dispatchers
@@ -63,6 +60,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
   private val mBitmaps = MutableList(SLICES) { Bitmap.createBitmap(1, 1, Bitmap.Config.ARGB_8888) }
   private var mDirty = false
   private var mPage = 0
+  private var mPassword = ""
   private var mResizeMode = ResizeMode.CONTAIN
   private var mSource = ""
   private val mViewRects = List(SLICES) { Rect() }
@@ -86,12 +84,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
   private var mActiveStroke: DrawingStroke? = null
 
   // Paint for drawing strokes overlay
-  private val mStrokePaint = Paint().apply {
-    isAntiAlias = true
-    style = Paint.Style.STROKE
-    strokeCap = Paint.Cap.ROUND
-    strokeJoin = Paint.Join.ROUND
-  }
+  private val mStrokePainter = StrokePainter()
 
   // Erase threshold (3% of view size)
   private val eraseThresholdPercent = 0.03f
@@ -169,6 +162,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
       }
 
       override fun onDoubleTap(e: MotionEvent): Boolean {
+        onPageGesture("onPageDoubleTap", e)
         if (!mZoomEnabled || mDrawingMode != DrawingMode.VIEW) return false
 
         if (mScale > mMinScale) {
@@ -197,6 +191,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
       }
 
       override fun onSingleTapConfirmed(e: MotionEvent): Boolean {
+        onPageGesture("onPageTap", e)
         // Fire single tap in view mode when not zoomed
         if (mDrawingMode == DrawingMode.VIEW && mScale <= 1.01f) {
           onSingleTap()
@@ -204,6 +199,10 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
         }
         return false
       }
+
+      override fun onLongPress(e: MotionEvent) {
+        onPageGesture("onPageLongPress", e)
+      }
     })
   }
 
@@ -232,7 +231,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
       DrawingMode.ERASE.jsName -> DrawingMode.ERASE
       DrawingMode.HIGHLIGHT.jsName -> DrawingMode.HIGHLIGHT
       else -> {
-        onError("Unknown drawingMode '$mode'.")
+        onError("Unknown drawingMode '$mode'.", PdfErrorCode.INVALID_ARGUMENT)
         DrawingMode.VIEW
       }
     }
@@ -288,12 +287,11 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
       val parsed = Json.decodeFromString<List<StrokeData>>(strokesJson)
       mStrokes.clear()
       for (stroke in parsed) {
-        val points = stroke.path.map { PointF(it[0], it[1]) }.toMutableList()
-        mStrokes.add(DrawingStroke(stroke.id, stroke.color, stroke.width, stroke.opacity, points))
+        mStrokes.add(stroke.toDrawingStroke())
       }
       invalidate()
     } catch (e: Exception) {
-      onError("Failed to parse strokes JSON: ${e.message}")
+      onError("Failed to parse strokes JSON: ${e.message}", PdfErrorCode.INVALID_ARGUMENT)
     }
   }
 
@@ -316,7 +314,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
       }
       mDirty = true
     } catch (e: Exception) {
-      onError("Failed to load annotation from '$source'. ${e.message}")
+      onError("Failed to load annotation from '$source'. ${e.message}", PdfErrorCode.INVALID_ARGUMENT)
     }
   }
 
@@ -334,7 +332,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
       ResizeMode.CONTAIN.jsName -> ResizeMode.CONTAIN
       ResizeMode.FIT_WIDTH.jsName -> ResizeMode.FIT_WIDTH
       else -> {
-        onError("Unknown resizeMode '$mode'.")
+        onError("Unknown resizeMode '$mode'.", PdfErrorCode.INVALID_ARGUMENT)
         return
       }
     }
@@ -347,6 +345,11 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
     mDirty = true
   }
 
+  fun setPassword(password: String) {
+    mPassword = password
+    mDirty = true
+  }
+
   private fun computeDestRect(srcWidth: Int, srcHeight: Int): RectF {
     return when (mResizeMode) {
       ResizeMode.CONTAIN -> RectF(0f, 0f, width.toFloat(), height.toFloat())
@@ -388,49 +391,6 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
     return RectF(left, top, left + contentWidth, top + contentHeight)
   }
 
-  private fun parseColor(hex: String): Int {
-    var androidColor = hex
-    if (hex.length == 9) {
-      androidColor = "#" + hex.takeLast(2) + hex.drop(1).take(6)
-    }
-    return try {
-      Color.parseColor(androidColor)
-    } catch (e: Exception) {
-      Color.BLACK
-    }
-  }
-
-  private fun parseColorWithOpacity(hex: String, opacity: Float): Int {
-    val baseColor = parseColor(hex)
-    val alpha = (opacity * 255).toInt().coerceIn(0, 255)
-    return Color.argb(alpha, Color.red(baseColor), Color.green(baseColor), Color.blue(baseColor))
-  }
-
-  private fun computeDist(a: List<Float>, b: List<Float>, scaleX: Int, scaleY: Int): Float {
-    return hypot(scaleX * (a[0] - b[0]), scaleY * (a[1] - b[1]))
-  }
-
-  private fun computePath(coordinates: List<List<Float>>, scaleX: Int, scaleY: Int): Path {
-    return Path().apply {
-      var prevPoint = coordinates.first()
-      moveTo(prevPoint[0] * scaleX, prevPoint[1] * scaleY)
-      for (point in coordinates.drop(1)) {
-        if (computeDist(prevPoint, point, scaleX, scaleY) < 8) {
-          continue
-        }
-        val midX = (prevPoint[0] + point[0]) / 2
-        val midY = (prevPoint[1] + point[1]) / 2
-        quadTo(
-          prevPoint[0] * scaleX, prevPoint[1] * scaleY,
-          midX * scaleX, midY * scaleY
-        )
-        prevPoint = point
-      }
-      prevPoint = coordinates.last()
-      lineTo(prevPoint[0] * scaleX, prevPoint[1] * scaleY)
-    }
-  }
-
   private fun computePathFromPoints(points: List<PointF>, scaleX: Float, scaleY: Float): Path {
     return Path().apply {
       if (points.isEmpty()) return@apply
@@ -461,40 +421,13 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
     if (mAnnotation.size <= mPage) {
       return
     }
-    val metrics = resources.displayMetrics
-    val ctx = Canvas(bitmap)
-    val paint = Paint()
-
-    paint.isAntiAlias = true
-    paint.style = Paint.Style.STROKE
-    paint.strokeCap = Paint.Cap.ROUND
-    paint.strokeJoin = Paint.Join.ROUND
-    for (stroke in mAnnotation[mPage].strokes) {
-      if (stroke.path.size < 2) {
-        continue
-      }
-      paint.color = parseColor(stroke.color)
-      paint.strokeWidth = TypedValue.applyDimension(COMPLEX_UNIT_DIP, stroke.width, metrics)
-      ctx.drawPath(computePath(stroke.path, bitmap.width, bitmap.height), paint)
-    }
-
-    paint.reset()
-    paint.isAntiAlias = true
-    paint.textAlign = Paint.Align.LEFT
-    val bounds = Rect()
-    val factor = TypedValue.applyDimension(COMPLEX_UNIT_DIP, 1000f, metrics)
-    for (msg in mAnnotation[mPage].text) {
-      paint.color = parseColor(msg.color)
-      val scaledFont = 9 + (msg.fontSize * bitmap.width) / factor
-      paint.textSize = TypedValue.applyDimension(COMPLEX_UNIT_DIP, scaledFont, metrics)
-      paint.getTextBounds(msg.str, 0, msg.str.length, bounds)
-      ctx.drawText(
-        msg.str,
-        bitmap.width * msg.point[0],
-        bitmap.height * msg.point[1] - bounds.top,
-        paint
-      )
-    }
+    AnnotationRenderer.draw(
+      Canvas(bitmap),
+      mAnnotation[mPage],
+      bitmap.width,
+      bitmap.height,
+      resources.displayMetrics
+    )
   }
 
   fun renderPdf() {
@@ -505,30 +438,58 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
     val currentGeneration = ++mRenderGeneration
 
     CoroutineScope(Dispatchers.Main).launch(Dispatchers.IO) {
-      val file = File(mSource)
-      val fd = try {
-        ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
+      // Open the file, or share the document opened by PdfUtil.open()
+      val sharedDocument: SharedPdfDocument?
+      val fd: ParcelFileDescriptor?
+      try {
+        if (PdfDocumentRegistry.isHandle(mSource)) {
+          sharedDocument = PdfDocumentRegistry.acquire(mSource)
+          fd = null
+        } else {
+          sharedDocument = null
+          fd = ParcelFileDescriptor.open(File(mSource), ParcelFileDescriptor.MODE_READ_ONLY)
+        }
       } catch (e: FileNotFoundException) {
-        onError("File '$mSource' not found.")
+        onError("File '$mSource' not found.", PdfErrorCode.FILE_NOT_FOUND)
         return@launch
+      } catch (e: PdfDocumentClosedException) {
+        onError(e.message ?: "Failed to open '$mSource' for reading.", PdfErrorCode.INVALID_ARGUMENT)
+        return@launch
+      }
+
+      // Shared documents are closed by the registry.
+      fun close(renderer: PdfRenderer?) {
+        if (sharedDocument != null) {
+          PdfDocumentRegistry.release(sharedDocument, pdfMutex)
+        } else {
+          renderer?.close()
+          fd?.close()
+        }
       }
 
       val pdfPageWidth: Int
       val pdfPageHeight: Int
       val bitmap = pdfMutex.withLock {
         val renderer = try {
-          PdfRenderer(fd)
+          sharedDocument?.renderer ?: openPdfRenderer(fd!!, mPassword)
+        } catch (e: PdfPasswordException) {
+          close(null)
+          onError(e.message ?: "Failed to open '$mSource' for reading.", e.code)
+          return@launch
+        } catch (e: UnsupportedOperationException) {
+          close(null)
+          onError(e.message ?: "Failed to open '$mSource' for reading.", PdfErrorCode.NOT_SUPPORTED)
+          return@launch
         } catch (e: Exception) {
-          fd.close()
-          onError("Failed to open '$mSource' for reading.")
+          close(null)
+          onError("Failed to open '$mSource' for reading.", PdfErrorCode.INVALID_PDF)
           return@launch
         }
         val pdfPage = try {
           renderer.openPage(mPage)
         } catch (e: Exception) {
-          renderer.close()
-          fd.close()
-          onError("Failed to open page '$mPage' of '$mSource' for reading.")
+          close(renderer)
+          onError("Failed to open page '$mPage' of '$mSource' for reading.", PdfErrorCode.PAGE_OUT_OF_RANGE)
           return@launch
         }
 
@@ -539,9 +500,8 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
           Bitmap.createBitmap(width, height, Bitmap.Config.ARGB_8888)
         } catch (e: OutOfMemoryError) {
           pdfPage.close()
-          renderer.close()
-          fd.close()
-          onError("Insufficient memory to render '$mSource' at ${width}x${height}.")
+          close(renderer)
+          onError("Insufficient memory to render '$mSource' at ${width}x${height}.", PdfErrorCode.RENDER_FAILED)
           return@launch
         }
         rendered.eraseColor(Color.WHITE)
@@ -561,11 +521,10 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
         pdfPage.render(rendered, null, transform, PdfRenderer.Page.RENDER_MODE_FOR_DISPLAY)
 
         pdfPage.close()
-        renderer.close()
+        close(renderer)
 
         return@withLock rendered
       }
-      fd.close()
 
       renderAnnotation(bitmap)
 
@@ -749,17 +708,7 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
 
   private fun eraseStrokesAt(x: Float, y: Float) {
     val threshold = eraseThresholdPercent / mScale // Adjust threshold for zoom
-    val toRemove = mutableListOf<DrawingStroke>()
-
-    for (stroke in mStrokes) {
-      for (point in stroke.path) {
-        val dist = hypot(point.x - x, point.y - y)
-        if (dist < threshold) {
-          toRemove.add(stroke)
-          break
-        }
-      }
-    }
+    val toRemove = strokesAt(mStrokes, PointF(x, y), threshold)
 
     if (toRemove.isNotEmpty()) {
       for (stroke in toRemove) {
@@ -772,39 +721,6 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
 
   // --- Drawing ---
 
-  /**
-   * Compute a Path from normalized points (0-1) relative to PDF content area.
-   */
-  private fun computePathFromNormalizedPoints(points: List<PointF>, contentRect: RectF): Path {
-    return Path().apply {
-      if (points.isEmpty() || contentRect.isEmpty) return@apply
-
-      var prevPoint = points.first()
-      var prevX = contentRect.left + prevPoint.x * contentRect.width()
-      var prevY = contentRect.top + prevPoint.y * contentRect.height()
-      moveTo(prevX, prevY)
-
-      for (point in points.drop(1)) {
-        val x = contentRect.left + point.x * contentRect.width()
-        val y = contentRect.top + point.y * contentRect.height()
-        val dist = hypot(prevX - x, prevY - y)
-        if (dist < 8) {
-          continue
-        }
-        val midX = (prevX + x) / 2
-        val midY = (prevY + y) / 2
-        quadTo(prevX, prevY, midX, midY)
-        prevX = x
-        prevY = y
-      }
-
-      val lastPoint = points.last()
-      val lastX = contentRect.left + lastPoint.x * contentRect.width()
-      val lastY = contentRect.top + lastPoint.y * contentRect.height()
-      lineTo(lastX, lastY)
-    }
-  }
-
   override fun onDraw(canvas: Canvas) {
     canvas.save()
 
@@ -823,24 +739,12 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
 
     // Draw completed strokes relative to PDF content area
     for (stroke in mStrokes) {
-      if (stroke.path.size < 2) continue
-
-      mStrokePaint.color = parseColorWithOpacity(stroke.color, stroke.opacity)
-      mStrokePaint.strokeWidth = TypedValue.applyDimension(COMPLEX_UNIT_DIP, stroke.width, metrics)
-
-      val path = computePathFromNormalizedPoints(stroke.path, mPdfContentRect)
-      canvas.drawPath(path, mStrokePaint)
+      mStrokePainter.draw(canvas, stroke, mPdfContentRect, metrics)
     }
 
     // Draw active stroke
     mActiveStroke?.let { stroke ->
-      if (stroke.path.size >= 2) {
-        mStrokePaint.color = parseColorWithOpacity(stroke.color, stroke.opacity)
-        mStrokePaint.strokeWidth = TypedValue.applyDimension(COMPLEX_UNIT_DIP, stroke.width, metrics)
-
-        val path = computePathFromNormalizedPoints(stroke.path, mPdfContentRect)
-        canvas.drawPath(path, mStrokePaint)
-      }
+      mStrokePainter.draw(canvas, stroke, mPdfContentRect, metrics)
     }
 
     canvas.restore()
@@ -867,8 +771,9 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
 
   // --- React Native events ---
 
-  private fun onError(message: String) {
+  private fun onError(message: String, code: String) {
     val event = Arguments.createMap()
+    event.putString("code", code)
     event.putString("message", message)
     val reactContext = context as ReactContext
     reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
@@ -921,27 +826,18 @@ class DrawablePdfView(context: Context, private val pdfMutex: Lock) : View(conte
     )
   }
 
-  private fun strokeToWritableMap(stroke: DrawingStroke): WritableMap {
-    val map = Arguments.createMap()
-    map.putString("id", stroke.id)
-    map.putString("color", stroke.color)
-    map.putDouble("width", stroke.width.toDouble())
-    map.putDouble("opacity", stroke.opacity.toDouble())
-
-    val pathArray = Arguments.createArray()
-    for (point in stroke.path) {
-      val pointArray = Arguments.createArray()
-      pointArray.pushDouble(point.x.toDouble())
-      pointArray.pushDouble(point.y.toDouble())
-      pathArray.pushArray(pointArray)
-    }
-    map.putArray("path", pathArray)
-
-    return map
+  private fun onPageGesture(eventName: String, e: MotionEvent) {
+    if (mPdfContentRect.isEmpty) return
+    val point = screenToNormalized(e.x, e.y)
+    if (point.x < 0f || point.x > 1f || point.y < 0f || point.y > 1f) return
+    val reactContext = context as ReactContext
+    reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+      id, eventName, pagePointEvent(mPage, point, mPdfPageWidth, mPdfPageHeight)
+    )
   }
 
   private fun onStrokeEnd(stroke: DrawingStroke) {
-    val event = strokeToWritableMap(stroke)
+    val event = stroke.toMap()
     val reactContext = context as ReactContext
     reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
       id, "onStrokeEnd", event
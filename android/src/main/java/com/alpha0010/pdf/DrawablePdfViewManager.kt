@@ -26,6 +26,9 @@ class DrawablePdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<Dra
       .put("onStrokesCleared", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onStrokesCleared")))
       .put("onZoomChange", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onZoomChange")))
       .put("onSingleTap", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onSingleTap")))
+      .put("onPageTap", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onPageTap")))
+      .put("onPageDoubleTap", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onPageDoubleTap")))
+      .put("onPageLongPress", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onPageLongPress")))
       .build()
   }
 
@@ -41,6 +44,11 @@ class DrawablePdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<Dra
     view.setSource(source ?: "")
   }
 
+  @ReactProp(name = "password")
+  fun setPassword(view: DrawablePdfView, password: String?) {
+    view.setPassword(password ?: "")
+  }
+
   @ReactProp(name = "page", defaultInt = 0)
   fun setPage(view: DrawablePdfView, page: Int) {
     view.setPage(page)
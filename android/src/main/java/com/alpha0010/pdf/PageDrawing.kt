@@ -0,0 +1,270 @@
+package com.alpha0010.pdf
+
+import android.graphics.Canvas
+import android.graphics.Color
+import android.graphics.Paint
+import android.graphics.Path
+import android.graphics.PointF
+import android.graphics.RectF
+import android.util.DisplayMetrics
+import android.util.TypedValue
+import android.util.TypedValue.COMPLEX_UNIT_DIP
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.WritableMap
+import kotlinx.serialization.decodeFromString
+import kotlinx.serialization.json.Json
+import java.util.UUID
+import kotlin.math.hypot
+
+/**
+ * Drawing state of the multi page viewers: drawing mode and tool, strokes
+ * keyed by page index, and the stroke being drawn. Points are normalized to
+ * the page the stroke is on.
+ */
+class PageDrawing(
+  private val onPageChanged: (page: Int) -> Unit,
+  private val emit: (eventName: String, event: WritableMap) -> Unit
+) {
+  var mode = DrawingMode.VIEW
+    private set
+  var strokeColor = "#000000"
+  var strokeWidth = 3f
+  var strokeOpacity = 1f
+
+  private var mStrokes = HashMap<Int, MutableList<DrawingStroke>>()
+
+  // Currently active stroke (while drawing), and its page
+  private var mActiveStroke: DrawingStroke? = null
+  var activePage = -1
+    private set
+
+  val isDrawing: Boolean
+    get() = mode != DrawingMode.VIEW
+
+  /**
+   * Returns false for an unknown mode, leaving the mode unchanged.
+   */
+  fun setMode(jsName: String): Boolean {
+    val newMode = DrawingMode.values().firstOrNull { it.jsName == jsName } ?: return false
+    if (newMode != mode) {
+      cancel()
+      mode = newMode
+    }
+    return true
+  }
+
+  /**
+   * Replace the strokes with the `strokes` prop. Throws on invalid JSON.
+   */
+  fun setStrokes(json: String) {
+    val parsed = if (json.isEmpty()) {
+      emptyMap()
+    } else {
+      Json.decodeFromString<Map<Int, List<StrokeData>>>(json)
+    }
+    val changed = mStrokes.keys + parsed.keys
+    mStrokes = HashMap(parsed.mapValues { (_, strokes) ->
+      strokes.map { it.toDrawingStroke() }.toMutableList()
+    })
+    changed.forEach(onPageChanged)
+  }
+
+  fun strokesOn(page: Int): List<DrawingStroke> = mStrokes[page] ?: emptyList()
+
+  fun activeStrokeOn(page: Int): DrawingStroke? = if (page == activePage) mActiveStroke else null
+
+  /**
+   * Start a stroke, or erase, at a point of a page. [scale] is the zoom
+   * level, to keep the eraser size constant on screen.
+   */
+  fun begin(page: Int, point: PointF, scale: Float) {
+    cancel()
+    activePage = page
+    when (mode) {
+      DrawingMode.DRAW, DrawingMode.HIGHLIGHT -> {
+        val highlight = mode == DrawingMode.HIGHLIGHT
+        mActiveStroke = DrawingStroke(
+          id = UUID.randomUUID().toString(),
+          color = strokeColor,
+          width = if (highlight) 20f else strokeWidth,
+          opacity = if (highlight) 0.3f else strokeOpacity,
+          path = mutableListOf(point)
+        )
+        onPageChanged(page)
+      }
+      DrawingMode.ERASE -> erase(page, point, scale)
+      else -> {}
+    }
+  }
+
+  /**
+   * Continue the gesture, with [point] normalized to [activePage].
+   */
+  fun move(point: PointF, scale: Float) {
+    if (activePage < 0) return
+    when (mode) {
+      DrawingMode.DRAW, DrawingMode.HIGHLIGHT -> {
+        mActiveStroke?.let { stroke ->
+          stroke.path.add(point)
+          onPageChanged(activePage)
+        }
+      }
+      DrawingMode.ERASE -> erase(activePage, point, scale)
+      else -> {}
+    }
+  }
+
+  fun end() {
+    val page = activePage
+    val stroke = mActiveStroke
+    activePage = -1
+    mActiveStroke = null
+    if (stroke == null) return
+    if (stroke.path.size >= 2) {
+      mStrokes.getOrPut(page) { mutableListOf() }.add(stroke)
+      val event = stroke.toMap()
+      event.putInt("page", page)
+      emit("onStrokeEnd", event)
+    }
+    onPageChanged(page)
+  }
+
+  /**
+   * Discard the stroke being drawn, e.g. when a second finger starts a zoom.
+   */
+  fun cancel() {
+    val page = activePage
+    val hadStroke = mActiveStroke != null
+    activePage = -1
+    mActiveStroke = null
+    if (hadStroke) {
+      onPageChanged(page)
+    }
+  }
+
+  /**
+   * Remove the strokes of a page, or of every page if [page] is negative.
+   * Reports each page that had strokes.
+   */
+  fun clear(page: Int) {
+    cancel()
+    val pages = if (page < 0) mStrokes.keys.toList() else listOf(page)
+    for (cleared in pages) {
+      val strokes = mStrokes.remove(cleared) ?: continue
+      onPageChanged(cleared)
+      if (strokes.isNotEmpty()) {
+        val event = Arguments.createMap()
+        event.putInt("page", cleared)
+        emit("onStrokesCleared", event)
+      }
+    }
+  }
+
+  private fun erase(page: Int, point: PointF, scale: Float) {
+    val strokes = mStrokes[page] ?: return
+    val removed = strokesAt(strokes, point, ERASE_THRESHOLD / scale)
+    if (removed.isEmpty()) return
+    strokes.removeAll(removed)
+    for (stroke in removed) {
+      val event = Arguments.createMap()
+      event.putString("id", stroke.id)
+      event.putInt("page", page)
+      emit("onStrokeRemoved", event)
+    }
+    onPageChanged(page)
+  }
+
+  companion object {
+    // Erase threshold (3% of page size)
+    private const val ERASE_THRESHOLD = 0.03f
+  }
+}
+
+/**
+ * Draws strokes with points normalized to a content rect.
+ */
+class StrokePainter {
+  private val mPaint = Paint().apply {
+    isAntiAlias = true
+    style = Paint.Style.STROKE
+    strokeCap = Paint.Cap.ROUND
+    strokeJoin = Paint.Join.ROUND
+  }
+
+  fun draw(canvas: Canvas, stroke: DrawingStroke, contentRect: RectF, metrics: DisplayMetrics) {
+    if (stroke.path.size < 2) return
+    val baseColor = AnnotationRenderer.parseColor(stroke.color)
+    val alpha = (stroke.opacity * 255).toInt().coerceIn(0, 255)
+    mPaint.color = Color.argb(alpha, Color.red(baseColor), Color.green(baseColor), Color.blue(baseColor))
+    mPaint.strokeWidth = TypedValue.applyDimension(COMPLEX_UNIT_DIP, stroke.width, metrics)
+    canvas.drawPath(strokePath(stroke.path, contentRect), mPaint)
+  }
+}
+
+/**
+ * Compute a Path from normalized points (0-1) relative to a content rect.
+ */
+fun strokePath(points: List<PointF>, contentRect: RectF): Path {
+  return Path().apply {
+    if (points.isEmpty() || contentRect.isEmpty) return@apply
+
+    val prevPoint = points.first()
+    var prevX = contentRect.left + prevPoint.x * contentRect.width()
+    var prevY = contentRect.top + prevPoint.y * contentRect.height()
+    moveTo(prevX, prevY)
+
+    for (point in points.drop(1)) {
+      val x = contentRect.left + point.x * contentRect.width()
+      val y = contentRect.top + point.y * contentRect.height()
+      val dist = hypot(prevX - x, prevY - y)
+      if (dist < 8) {
+        continue
+      }
+      val midX = (prevX + x) / 2
+      val midY = (prevY + y) / 2
+      quadTo(prevX, prevY, midX, midY)
+      prevX = x
+      prevY = y
+    }
+
+    val lastPoint = points.last()
+    val lastX = contentRect.left + lastPoint.x * contentRect.width()
+    val lastY = contentRect.top + lastPoint.y * contentRect.height()
+    lineTo(lastX, lastY)
+  }
+}
+
+/**
+ * Strokes passing within [threshold] of a point, all normalized.
+ */
+fun strokesAt(strokes: List<DrawingStroke>, point: PointF, threshold: Float): List<DrawingStroke> {
+  return strokes.filter { stroke ->
+    stroke.path.any { hypot(it.x - point.x, it.y - point.y) < threshold }
+  }
+}
+
+/**
+ * Payload of onStrokeEnd.
+ */
+fun DrawingStroke.toMap(): WritableMap {
+  val map = Arguments.createMap()
+  map.putString("id", id)
+  map.putString("color", color)
+  map.putDouble("width", width.toDouble())
+  map.putDouble("opacity", opacity.toDouble())
+
+  val pathArray = Arguments.createArray()
+  for (point in path) {
+    val pointArray = Arguments.createArray()
+    pointArray.pushDouble(point.x.toDouble())
+    pointArray.pushDouble(point.y.toDouble())
+    pathArray.pushArray(pointArray)
+  }
+  map.putArray("path", pathArray)
+
+  return map
+}
+
+fun StrokeData.toDrawingStroke(): DrawingStroke {
+  return DrawingStroke(id, color, width, opacity, path.map { PointF(it[0], it[1]) }.toMutableList())
+}
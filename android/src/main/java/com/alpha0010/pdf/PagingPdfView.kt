@@ -22,10 +22,12 @@ import androidx.viewpager2.widget.ViewPager2
 import androidx.recyclerview.widget.RecyclerView
 import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.ReactContext
+import com.facebook.react.bridge.WritableMap
 import com.facebook.react.uimanager.events.RCTEventEmitter
 import kotlinx.coroutines.*
 import java.io.File
 import java.io.FileNotFoundException
+import java.io.IOException
 import java.util.concurrent.locks.Lock
 import kotlin.concurrent.withLock
 
@@ -34,26 +36,52 @@ import kotlin.concurrent.withLock
  * Each page is rendered to fit width with vertical scrolling (like iOS).
  */
 @SuppressLint("ViewConstructor")
-class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(context) {
+class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(context), PdfViewStateProvider {
 
     // Props
     private var mSource = ""
+    private var mPassword = ""
+    private var mSourceChanged = false
     private var mMinScale = 1f
     private var mMaxScale = 3f
     private var mEdgeTapZone = 15f
     private var mBackgroundColor = Color.WHITE
+    private var mHighlights = emptyList<PdfHighlight>()
+    private var mActiveHighlight = -1
+    private var mHighlightColor: Int? = null
+    private var mActiveHighlightColor: Int? = null
+    private var mAnnotations = emptyMap<Int, AnnotationPage>()
+    private var mInitialPage = 0
+    private var mInitialZoom = 1f
+    private var mFollowInternalLinks = true
+    private var mShowLinkAreas = false
 
     // PDF state
     private var mPdfRenderer: PdfRenderer? = null
     private var mFileDescriptor: ParcelFileDescriptor? = null
+    private var mSharedDocument: SharedPdfDocument? = null
     private var mPdfPageWidth = 0
     private var mPdfPageHeight = 0
     private var mActualPageCount = 0
+    private var mFingerprint = ""
+    private var mFingerprintJob: Job? = null
+
+    // Links of the rendered pages
+    private val mLinks = HashMap<Int, List<PdfLink>>()
+
+    // Drawing state
+    private val mDrawing = PageDrawing(
+        onPageChanged = { page -> bindStrokes(page) },
+        emit = { eventName, event -> onDrawingEvent(eventName, event) }
+    )
 
     // Views
     private val mViewPager: ViewPager2
     private val mAdapter: PdfPageAdapter
 
+    // Page overlays, in React order
+    private val mOverlays = mutableListOf<PdfPageOverlayView>()
+
     // Image cache
     private val mImageCache: LruCache<Int, Bitmap>
 
@@ -69,6 +97,17 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
     private var mPendingScrollToBottom = false
     private var mPendingScrollToBottomPage = -1
 
+    // Zoom to rect on next page load (for zoomToRect on a page not yet bound)
+    private var mPendingZoomPage = -1
+    private var mPendingZoomRect: RectF? = null
+
+    // Apply initialZoom when the initial page is bound
+    private var mInitialZoomPage = -1
+
+    // Restore a location on next page load (for restoreLocation on a page not yet bound)
+    private var mPendingLocationPage = -1
+    private var mPendingLocation: PageLocation? = null
+
     // Coroutine scope for rendering
     private val renderScope = CoroutineScope(Dispatchers.Main + SupervisorJob())
 
@@ -133,17 +172,69 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
         addView(mViewPager)
     }
 
+    // --- Page overlays ---
+
+    val overlayCount: Int
+        get() = mOverlays.size
+
+    fun getOverlayAt(index: Int): PdfPageOverlayView = mOverlays[index]
+
+    fun addOverlay(overlay: PdfPageOverlayView, index: Int) {
+        mOverlays.add(index, overlay)
+        overlay.onPageChanged = { updateVisibleOverlays() }
+        updateVisibleOverlays()
+    }
+
+    fun removeOverlayAt(index: Int) {
+        val overlay = mOverlays.removeAt(index)
+        overlay.onPageChanged = null
+        (overlay.parent as? ViewGroup)?.removeView(overlay)
+        updateVisibleOverlays()
+    }
+
+    private fun updateVisibleOverlays() {
+        val recyclerView = mViewPager.getChildAt(0) as? RecyclerView ?: return
+        for (i in 0 until recyclerView.childCount) {
+            val holder = recyclerView.getChildViewHolder(recyclerView.getChildAt(i)) as? PdfPageViewHolder ?: continue
+            val position = holder.bindingAdapterPosition
+            if (position != RecyclerView.NO_POSITION) {
+                bindOverlays(holder, position)
+            }
+        }
+    }
+
+    private fun bindOverlays(holder: PdfPageViewHolder, page: Int) {
+        holder.pageView.setOverlays(mOverlays.filter { it.page == page })
+    }
+
     // --- Setters ---
 
     fun setSource(source: String) {
         if (mSource != source) {
             mSource = source
-            // Defer loading if we don't have valid dimensions yet
-            if (width > 0 && height > 0) {
-                reloadPdf()
-            } else {
-                mNeedsInitialRender = true
-            }
+            mSourceChanged = true
+        }
+    }
+
+    fun setPassword(password: String) {
+        if (mPassword != password) {
+            mPassword = password
+            mSourceChanged = true
+        }
+    }
+
+    /**
+     * Reload the document if source or password changed. Called after all
+     * props of an update are set, so they are applied together.
+     */
+    fun reloadIfSourceChanged() {
+        if (!mSourceChanged) return
+        mSourceChanged = false
+        // Defer loading if we don't have valid dimensions yet
+        if (width > 0 && height > 0) {
+            reloadPdf()
+        } else {
+            mNeedsInitialRender = true
         }
     }
 
@@ -155,6 +246,14 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
         mMaxScale = maxZoom.coerceAtLeast(1f)
     }
 
+    fun setInitialPage(page: Int) {
+        mInitialPage = page
+    }
+
+    fun setInitialZoom(zoom: Float) {
+        mInitialZoom = zoom
+    }
+
     fun setEdgeTapZone(zone: Float) {
         mEdgeTapZone = zone.coerceIn(0f, 50f)
     }
@@ -164,6 +263,118 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
         applyBackgroundColor()
     }
 
+    fun setDrawingMode(mode: String) {
+        if (!mDrawing.setMode(mode)) {
+            onError("Unknown drawingMode '$mode'.", PdfErrorCode.INVALID_ARGUMENT)
+            return
+        }
+        val recyclerView = mViewPager.getChildAt(0) as? RecyclerView ?: return
+        for (i in 0 until recyclerView.childCount) {
+            val holder = recyclerView.getChildViewHolder(recyclerView.getChildAt(i)) as? PdfPageViewHolder ?: continue
+            holder.pageView.isDrawing = mDrawing.isDrawing
+        }
+        // Suspend page swiping while drawing
+        mViewPager.isUserInputEnabled = !mDrawing.isDrawing && currentPageView()?.isZoomed != true
+    }
+
+    fun setStrokeColor(color: String) {
+        mDrawing.strokeColor = color
+    }
+
+    fun setStrokeWidth(width: Float) {
+        mDrawing.strokeWidth = width
+    }
+
+    fun setStrokeOpacity(opacity: Float) {
+        mDrawing.strokeOpacity = opacity
+    }
+
+    fun setStrokes(json: String) {
+        try {
+            mDrawing.setStrokes(json)
+        } catch (e: Exception) {
+            onError("Failed to parse strokes JSON: ${e.message}", PdfErrorCode.INVALID_ARGUMENT)
+        }
+    }
+
+    fun clearStrokes(page: Int) {
+        mDrawing.clear(page)
+    }
+
+    fun setAnnotations(json: String) {
+        mAnnotations = AnnotationPage.parseMap(json)
+        updateVisibleHighlights()
+    }
+
+    fun setHighlights(json: String) {
+        mHighlights = PdfHighlight.parse(json)
+        updateVisibleHighlights()
+    }
+
+    fun setActiveHighlight(index: Int) {
+        mActiveHighlight = index
+        updateVisibleHighlights()
+    }
+
+    fun setHighlightColor(color: Int?) {
+        mHighlightColor = color
+        updateVisibleHighlights()
+    }
+
+    fun setActiveHighlightColor(color: Int?) {
+        mActiveHighlightColor = color
+        updateVisibleHighlights()
+    }
+
+    private fun updateVisibleHighlights() {
+        val recyclerView = mViewPager.getChildAt(0) as? RecyclerView ?: return
+        for (i in 0 until recyclerView.childCount) {
+            val holder = recyclerView.getChildViewHolder(recyclerView.getChildAt(i)) as? PdfPageViewHolder ?: continue
+            val position = holder.bindingAdapterPosition
+            if (position != RecyclerView.NO_POSITION) {
+                bindHighlights(holder, position)
+            }
+        }
+    }
+
+    private fun bindHighlights(holder: PdfPageViewHolder, page: Int) {
+        val (rects, activeRects) = highlightRectsForPage(mHighlights, mActiveHighlight, page)
+        holder.pageView.setHighlights(rects, activeRects, mHighlightColor, mActiveHighlightColor)
+        holder.pageView.setAnnotation(mAnnotations[page])
+        holder.pageView.setStrokes(mDrawing.strokesOn(page), mDrawing.activeStrokeOn(page))
+        val links = if (mShowLinkAreas) mLinks[page] else null
+        holder.pageView.setLinkAreas(links?.map { it.rect } ?: emptyList())
+    }
+
+    private fun bindStrokes(page: Int) {
+        val recyclerView = mViewPager.getChildAt(0) as? RecyclerView ?: return
+        val holder = recyclerView.findViewHolderForAdapterPosition(page) as? PdfPageViewHolder ?: return
+        holder.pageView.setStrokes(mDrawing.strokesOn(page), mDrawing.activeStrokeOn(page))
+    }
+
+    fun setFollowInternalLinks(follow: Boolean) {
+        mFollowInternalLinks = follow
+    }
+
+    fun setShowLinkAreas(show: Boolean) {
+        mShowLinkAreas = show
+        updateVisibleHighlights()
+    }
+
+    /**
+     * Follow the internal link under a tap, or report it to React. Returns
+     * false if there is no link under the tap.
+     */
+    private fun handleLinkTap(page: Int, point: PointF): Boolean {
+        val link = linkAt(mLinks[page], point) ?: return false
+        if (link.page != null && mFollowInternalLinks) {
+            scrollToPage(link.page, true)
+        } else {
+            onLinkPress(link)
+        }
+        return true
+    }
+
     private fun applyBackgroundColor() {
         // Set on root container - ViewPager2 and RecyclerView are transparent
         setBackgroundColor(mBackgroundColor)
@@ -179,12 +390,22 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
 
         // Clear cache
         mImageCache.evictAll()
+        mLinks.clear()
+        mDrawing.cancel()
 
-        // Open PDF
-        val file = File(mSource)
+        // Open PDF (or share the one opened by PdfUtil.open())
         try {
-            mFileDescriptor = ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
-            mPdfRenderer = PdfRenderer(mFileDescriptor!!)
+            val file: File
+            if (PdfDocumentRegistry.isHandle(mSource)) {
+                val document = PdfDocumentRegistry.acquire(mSource)
+                mSharedDocument = document
+                mPdfRenderer = document.renderer
+                file = document.file
+            } else {
+                file = File(mSource)
+                mFileDescriptor = ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
+                mPdfRenderer = openPdfRenderer(mFileDescriptor!!, mPassword)
+            }
 
             // Get dimensions from first page
             mPdfRenderer?.let { renderer ->
@@ -200,30 +421,63 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
 
             mAdapter.notifyDataSetChanged()
 
+            // Open at the initial page before the first layout, so no other
+            // page is shown first.
+            val initialPage = mInitialPage.coerceIn(0, (mActualPageCount - 1).coerceAtLeast(0))
+            mCurrentPage = initialPage
+            mInitialZoomPage = initialPage
+            mViewPager.setCurrentItem(initialPage, false)
+
             // Required so ViewPager actually displays first dynamically added child
             // (otherwise a white screen is shown until the next user interaction).
             // https://github.com/facebook/react-native/issues/17968#issuecomment-697136929
             refreshViewChildrenLayout(mViewPager)
 
-            // Notify load complete
-            onLoadComplete()
+            // Notify load complete once the document is hashed, which reads
+            // the entire file.
+            mFingerprintJob = renderScope.launch {
+                mFingerprint = try {
+                    withContext(Dispatchers.IO) { PdfFingerprint.compute(file) }
+                } catch (e: IOException) {
+                    onError("Failed to open PDF: ${e.message}", PdfErrorCode.INVALID_PDF)
+                    return@launch
+                }
+                onLoadComplete()
+                if (mCurrentPage > 0) {
+                    onPageChange()
+                }
+            }
 
         } catch (e: FileNotFoundException) {
-            onError("File '$mSource' not found.")
+            onError("File '$mSource' not found.", PdfErrorCode.FILE_NOT_FOUND)
+        } catch (e: PdfPasswordException) {
+            onError(e.message ?: "Failed to open PDF.", e.code)
+        } catch (e: UnsupportedOperationException) {
+            onError(e.message ?: "Failed to open PDF.", PdfErrorCode.NOT_SUPPORTED)
+        } catch (e: PdfDocumentClosedException) {
+            onError(e.message ?: "Failed to open PDF.", PdfErrorCode.INVALID_ARGUMENT)
         } catch (e: Exception) {
-            onError("Failed to open PDF: ${e.message}")
+            onError("Failed to open PDF: ${e.message}", PdfErrorCode.INVALID_PDF)
         }
     }
 
     private fun closePdf() {
+        mFingerprintJob?.cancel()
+        mFingerprintJob = null
+        val sharedDocument = mSharedDocument
+        mSharedDocument = null
         pdfMutex.withLock {
             try {
-                mPdfRenderer?.close()
+                // Shared documents are closed by the registry.
+                if (sharedDocument == null) {
+                    mPdfRenderer?.close()
+                }
             } catch (e: Exception) {
                 // Ignore errors during cleanup (e.g., page still open from cancelled render)
             }
             mPdfRenderer = null
         }
+        sharedDocument?.let { PdfDocumentRegistry.release(it, pdfMutex) }
         try {
             mFileDescriptor?.close()
         } catch (e: Exception) {
@@ -270,15 +524,82 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
         onZoomChange()
     }
 
+    /**
+     * Zoom the current page to a scale (within the zoom limits) around a
+     * point of the viewport (in pixels), or its center.
+     */
+    fun setZoom(scale: Float, focus: PointF?, animated: Boolean) {
+        currentPageView()?.setZoom(scale, focus, animated)
+    }
+
+    override fun getViewState(): WritableMap {
+        val pageView = currentPageView()
+        val position = pageView?.viewportOffset() ?: PointF(0f, 0f)
+        val offset = Arguments.createMap()
+        offset.putDouble("x", position.x.toDouble())
+        offset.putDouble("y", position.y.toDouble())
+        val state = Arguments.createMap()
+        state.putInt("page", mCurrentPage)
+        state.putDouble("scale", (pageView?.zoomScale ?: 1f).toDouble())
+        state.putMap("offset", offset)
+        return state
+    }
+
+    private fun currentPageView(): ZoomablePageView? {
+        val recyclerView = mViewPager.getChildAt(0) as? RecyclerView ?: return null
+        val viewHolder = recyclerView.findViewHolderForAdapterPosition(mCurrentPage) as? PdfPageViewHolder
+        return viewHolder?.pageView
+    }
+
     fun scrollToPage(page: Int, animated: Boolean) {
         if (page < 0 || page >= mActualPageCount) return
         mViewPager.setCurrentItem(page, animated)
     }
 
+    /**
+     * Show a page and zoom so that a rect (normalized to page dimensions)
+     * fills the viewport, within the zoom limits.
+     */
+    fun zoomToRect(page: Int, rect: RectF, animated: Boolean) {
+        if (page < 0 || page >= mActualPageCount) return
+        scrollToPage(page, animated)
+        mViewPager.post {
+            val recyclerView = mViewPager.getChildAt(0) as? RecyclerView
+            val viewHolder = recyclerView?.findViewHolderForAdapterPosition(page) as? PdfPageViewHolder
+            if (viewHolder != null) {
+                viewHolder.pageView.zoomToRect(rect)
+            } else {
+                mPendingZoomPage = page
+                mPendingZoomRect = rect
+            }
+        }
+    }
+
+    /**
+     * Show a page at a zoom level, with the top left corner of the viewport
+     * at an offset normalized to page dimensions. Inverse of getViewState().
+     */
+    fun restoreLocation(page: Int, offset: PointF, scale: Float) {
+        if (page < 0 || page >= mActualPageCount) return
+        scrollToPage(page, false)
+        val location = PageLocation(offset, scale)
+        mViewPager.post {
+            val recyclerView = mViewPager.getChildAt(0) as? RecyclerView
+            val viewHolder = recyclerView?.findViewHolderForAdapterPosition(page) as? PdfPageViewHolder
+            if (viewHolder != null) {
+                viewHolder.pageView.restoreLocation(location)
+            } else {
+                mPendingLocationPage = page
+                mPendingLocation = location
+            }
+        }
+    }
+
     // --- React Native events ---
 
-    private fun onError(message: String) {
+    private fun onError(message: String, code: String) {
         val event = Arguments.createMap()
+        event.putString("code", code)
         event.putString("message", message)
         val reactContext = context as ReactContext
         reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
@@ -291,6 +612,7 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
         event.putInt("width", mPdfPageWidth)
         event.putInt("height", mPdfPageHeight)
         event.putInt("pageCount", mActualPageCount)
+        event.putString("fingerprint", mFingerprint)
         val reactContext = context as ReactContext
         reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
             id, "onPdfLoadComplete", event
@@ -332,6 +654,27 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
         )
     }
 
+    private fun onLinkPress(link: PdfLink) {
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, "onLinkPress", link.toMap()
+        )
+    }
+
+    private fun onPageGesture(eventName: String, page: Int, point: PointF) {
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, eventName, pagePointEvent(page, point, mPdfPageWidth, mPdfPageHeight)
+        )
+    }
+
+    private fun onDrawingEvent(eventName: String, event: WritableMap) {
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, eventName, event
+        )
+    }
+
     override fun onDetachedFromWindow() {
         super.onDetachedFromWindow()
         renderScope.cancel()
@@ -380,10 +723,30 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
                 onMiddleClick()
             }
             pageView.onZoomStateChange = { isZoomed ->
-                // Disable ViewPager2 swipe when zoomed
-                mViewPager.isUserInputEnabled = !isZoomed
+                // Disable ViewPager2 swipe when zoomed or drawing
+                mViewPager.isUserInputEnabled = !isZoomed && !mDrawing.isDrawing
+            }
+            val holder = PdfPageViewHolder(pageView)
+            pageView.onPageGesture = { eventName, point ->
+                val page = holder.bindingAdapterPosition
+                if (page != RecyclerView.NO_POSITION) {
+                    onPageGesture(eventName, page, point)
+                }
             }
-            return PdfPageViewHolder(pageView)
+            pageView.onLinkTap = { point ->
+                val page = holder.bindingAdapterPosition
+                page != RecyclerView.NO_POSITION && handleLinkTap(page, point)
+            }
+            pageView.onDrawBegin = { point, scale ->
+                val page = holder.bindingAdapterPosition
+                if (page != RecyclerView.NO_POSITION) {
+                    mDrawing.begin(page, point, scale)
+                }
+            }
+            pageView.onDrawMove = { point, scale -> mDrawing.move(point, scale) }
+            pageView.onDrawEnd = { mDrawing.end() }
+            pageView.onDrawCancel = { mDrawing.cancel() }
+            return holder
         }
 
         override fun onBindViewHolder(holder: PdfPageViewHolder, position: Int) {
@@ -397,6 +760,7 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
             holder.pageView.minZoom = mMinScale
             holder.pageView.maxZoom = mMaxScale
             holder.pageView.edgeTapZone = mEdgeTapZone
+            holder.pageView.isDrawing = mDrawing.isDrawing
             holder.pageView.onPreviousPage = { scrollToBottom ->
                 Log.d("PagingPdfView", "onPreviousPage called, scrollToBottom=$scrollToBottom, position=$position")
                 if (position > 0) {
@@ -422,6 +786,25 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
                 mPendingScrollToBottomPage = -1
             }
 
+            if (mInitialZoomPage == position) {
+                holder.pageView.initialZoom = mInitialZoom
+                mInitialZoomPage = -1
+            }
+
+            if (mPendingLocationPage == position) {
+                holder.pageView.pendingLocation = mPendingLocation
+                mPendingLocationPage = -1
+                mPendingLocation = null
+            }
+
+            if (mPendingZoomPage == position) {
+                holder.pageView.pendingZoomRect = mPendingZoomRect
+                mPendingZoomPage = -1
+                mPendingZoomRect = null
+            }
+            bindHighlights(holder, position)
+            bindOverlays(holder, position)
+
             // Check cache
             val cached = mImageCache.get(position)
             Log.d("PagingPdfView", "onBindViewHolder: position=$position, cached=${cached != null}, shouldScrollToBottom=${holder.pageView.shouldScrollToBottomOnLoad}")
@@ -435,6 +818,10 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
             }
         }
 
+        override fun onViewRecycled(holder: PdfPageViewHolder) {
+            holder.pageView.setOverlays(emptyList())
+        }
+
         override fun getItemCount(): Int = mActualPageCount
 
         private fun renderPage(pageIndex: Int, holder: PdfPageViewHolder, viewWidth: Int) {
@@ -456,9 +843,15 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
 
                 bitmap?.let {
                     mImageCache.put(pageIndex, it)
+                    val links = PdfLink.read(renderer, pdfMutex, pageIndex)
                     withContext(Dispatchers.Main) {
+                        // Skip links of a document replaced while rendering
+                        if (mPdfRenderer === renderer) {
+                            mLinks[pageIndex] = links
+                        }
                         if (holder.bindingAdapterPosition == pageIndex) {
                             holder.pageView.setImage(it, viewWidth)
+                            bindHighlights(holder, pageIndex)
                             // Force refresh after async render
                             refreshViewChildrenLayout(holder.pageView)
                         }
@@ -475,6 +868,11 @@ class PagingPdfView(context: Context, private val pdfMutex: Lock) : FrameLayout(
     }
 }
 
+/**
+ * Zoom level and top left corner of the viewport, normalized to the page.
+ */
+private data class PageLocation(val offset: PointF, val scale: Float)
+
 /**
  * Zoomable page view with vertical scroll using NestedScrollView.
  * Supports pinch-to-zoom and double-tap zoom.
@@ -489,14 +887,42 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
     var onZoomChange: ((Float) -> Unit)? = null
     var onTap: ((String) -> Unit)? = null
     var onMiddleClick: (() -> Unit)? = null
+    var onPageGesture: ((eventName: String, point: PointF) -> Unit)? = null
+    var onLinkTap: ((point: PointF) -> Boolean)? = null
     var onPreviousPage: ((scrollToBottom: Boolean) -> Unit)? = null
     var onNextPage: (() -> Unit)? = null
     var onZoomStateChange: ((Boolean) -> Unit)? = null
 
+    // Draw with one finger, reporting points normalized to the page image
+    var isDrawing = false
+    var onDrawBegin: ((point: PointF, scale: Float) -> Unit)? = null
+    var onDrawMove: ((point: PointF, scale: Float) -> Unit)? = null
+    var onDrawEnd: (() -> Unit)? = null
+    var onDrawCancel: (() -> Unit)? = null
+
     var shouldScrollToBottomOnLoad = false
 
+    // Zoom to this rect once the page image is set
+    var pendingZoomRect: RectF? = null
+
+    // Zoom level to show the page image at, instead of minZoom
+    var initialZoom: Float? = null
+
+    // Restore this location once the page image is set
+    var pendingLocation: PageLocation? = null
+
     private val scrollView: androidx.core.widget.NestedScrollView
-    private val imageView: ImageView
+    private val imageView: HighlightImageView
+    private val overlayLayout: PageOverlayLayout
+
+    // Whether the current touch started on overlay content
+    private var overlayTouch = false
+
+    // Whether the current touch draws, and the focus of a two finger
+    // gesture scrolling while drawing
+    private var drawingTouch = false
+    private var lastDrawingFocus: PointF? = null
+    private var drawingScrollRemainder = 0f
 
     private var scale = 1f
     private var offsetX = 0f  // Horizontal pan offset when zoomed
@@ -508,9 +934,8 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
     private val panDetector: GestureDetector
     private var zoomAnimator: ValueAnimator? = null
 
-    private var isZoomed: Boolean
+    val isZoomed: Boolean
         get() = scale > minZoom + 0.01f
-        set(_) {}
 
     init {
         // NestedScrollView for vertical scrolling (works with ViewPager2)
@@ -521,7 +946,7 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
         }
 
         // ImageView
-        imageView = ImageView(context).apply {
+        imageView = HighlightImageView(context).apply {
             layoutParams = LayoutParams(LayoutParams.MATCH_PARENT, LayoutParams.WRAP_CONTENT)
             scaleType = ImageView.ScaleType.FIT_START
             adjustViewBounds = true
@@ -530,6 +955,18 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
         scrollView.addView(imageView)
         addView(scrollView)
 
+        // Page overlays, transformed with the scroll view
+        overlayLayout = PageOverlayLayout(context) { overlayRect() }.apply {
+            layoutParams = LayoutParams(LayoutParams.MATCH_PARENT, LayoutParams.MATCH_PARENT)
+        }
+        addView(overlayLayout)
+        scrollView.setOnScrollChangeListener(androidx.core.widget.NestedScrollView.OnScrollChangeListener { _, _, _, _, _ ->
+            overlayLayout.layoutOverlays()
+        })
+        imageView.addOnLayoutChangeListener { _, _, _, _, _, _, _, _, _ ->
+            overlayLayout.layoutOverlays()
+        }
+
         // Scale gesture detector for pinch-to-zoom
         scaleDetector = ScaleGestureDetector(context, object : ScaleGestureDetector.SimpleOnScaleGestureListener() {
             override fun onScaleBegin(detector: ScaleGestureDetector): Boolean {
@@ -597,6 +1034,9 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
 
                 // Only handle edge taps here (instant response)
                 if (tapX < leftEdge || tapX > rightEdge) {
+                    if (dispatchLinkTap(e)) return true
+                    // Before the edge tap scrolls the content away
+                    dispatchPageGesture("onPageTap", e)
                     handleEdgeTap(tapX)
                     return true
                 }
@@ -612,6 +1052,8 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
 
                 // Only handle middle zone here
                 if (tapX >= leftEdge && tapX <= rightEdge) {
+                    if (dispatchLinkTap(e)) return true
+                    dispatchPageGesture("onPageTap", e)
                     onMiddleClick?.invoke()
                     return true
                 }
@@ -619,6 +1061,8 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
             }
 
             override fun onDoubleTap(e: MotionEvent): Boolean {
+                dispatchPageGesture("onPageDoubleTap", e)
+
                 // Only handle double tap in middle zone
                 val tapX = e.x
                 val tapY = e.y
@@ -656,12 +1100,18 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
                 }
                 return true
             }
+
+            override fun onLongPress(e: MotionEvent) {
+                dispatchPageGesture("onPageLongPress", e)
+            }
         })
 
         // Forward touch events to gesture detectors
         scrollView.setOnTouchListener { _, event ->
             scaleDetector.onTouchEvent(event)
-            gestureDetector.onTouchEvent(event)
+            if (!overlayTouch) {
+                gestureDetector.onTouchEvent(event)
+            }
             if (isZoomed) {
                 panDetector.onTouchEvent(event)
             }
@@ -694,14 +1144,29 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
         }
     }
 
+    override fun dispatchTouchEvent(ev: MotionEvent): Boolean {
+        // Taps on overlay content belong to the overlay
+        if (ev.actionMasked == MotionEvent.ACTION_DOWN) {
+            overlayTouch = overlayLayout.hasContentAt(ev.x, ev.y)
+        }
+        return super.dispatchTouchEvent(ev)
+    }
+
     override fun onInterceptTouchEvent(ev: MotionEvent): Boolean {
-        // Intercept when zoomed or multi-touch
-        return isZoomed || ev.pointerCount > 1
+        // Intercept when drawing, zoomed or multi-touch
+        return isDrawing || isZoomed || ev.pointerCount > 1
     }
 
     override fun onTouchEvent(event: MotionEvent): Boolean {
+        if (isDrawing) {
+            handleDrawingTouch(event)
+            return true
+        }
+
         scaleDetector.onTouchEvent(event)
-        gestureDetector.onTouchEvent(event)
+        if (!overlayTouch) {
+            gestureDetector.onTouchEvent(event)
+        }
 
         if (isZoomed) {
             panDetector.onTouchEvent(event)
@@ -719,6 +1184,81 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
         return true
     }
 
+    /**
+     * Draw or erase with one finger. A second finger discards the stroke and
+     * zooms and scrolls instead.
+     */
+    private fun handleDrawingTouch(event: MotionEvent) {
+        scaleDetector.onTouchEvent(event)
+
+        when (event.actionMasked) {
+            MotionEvent.ACTION_DOWN -> {
+                zoomAnimator?.cancel()
+                lastDrawingFocus = null
+                drawingTouch = false
+                val point = pagePointAt(event.x, event.y) ?: return
+                drawingTouch = true
+                onDrawBegin?.invoke(point, scale)
+            }
+            MotionEvent.ACTION_POINTER_DOWN, MotionEvent.ACTION_POINTER_UP -> {
+                if (drawingTouch) {
+                    drawingTouch = false
+                    onDrawCancel?.invoke()
+                }
+                lastDrawingFocus = null
+            }
+            MotionEvent.ACTION_MOVE -> {
+                if (drawingTouch) {
+                    val point = imagePointAt(event.x, event.y) ?: return
+                    onDrawMove?.invoke(point, scale)
+                } else if (event.pointerCount > 1) {
+                    scrollWhileDrawing(event)
+                }
+            }
+            MotionEvent.ACTION_UP -> {
+                if (drawingTouch) {
+                    drawingTouch = false
+                    onDrawEnd?.invoke()
+                }
+            }
+            MotionEvent.ACTION_CANCEL -> {
+                if (drawingTouch) {
+                    drawingTouch = false
+                    onDrawCancel?.invoke()
+                }
+            }
+        }
+    }
+
+    /**
+     * Follow the focus of a multi finger gesture, as the scroll view only
+     * scrolls with single finger events.
+     */
+    private fun scrollWhileDrawing(event: MotionEvent) {
+        var sumX = 0f
+        var sumY = 0f
+        for (i in 0 until event.pointerCount) {
+            sumX += event.getX(i)
+            sumY += event.getY(i)
+        }
+        val focus = PointF(sumX / event.pointerCount, sumY / event.pointerCount)
+        val lastFocus = lastDrawingFocus
+        lastDrawingFocus = focus
+        if (lastFocus == null) return
+
+        offsetX += focus.x - lastFocus.x
+        constrainOffset()
+        applyTransform()
+
+        // Scroll the unscaled image, keeping the fraction lost to rounding
+        drawingScrollRemainder += (lastFocus.y - focus.y) / scale
+        val dy = drawingScrollRemainder.toInt()
+        drawingScrollRemainder -= dy
+        if (dy != 0) {
+            scrollView.scrollBy(0, dy)
+        }
+    }
+
     fun setImage(bitmap: Bitmap?, parentWidth: Int = 0) {
         val shouldScroll = shouldScrollToBottomOnLoad && bitmap != null
         Log.d("ZoomablePageView", "setImage: bitmap=${bitmap != null}, shouldScrollToBottomOnLoad=$shouldScrollToBottomOnLoad, shouldScroll=$shouldScroll")
@@ -730,12 +1270,20 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
 
         imageView.setImageBitmap(bitmap)
         // Reset zoom when setting new image
-        scale = minZoom
+        val startZoom = if (bitmap != null) initialZoom else null
+        if (bitmap != null) {
+            initialZoom = null
+        }
+        scale = startZoom?.coerceIn(minZoom, maxZoom) ?: minZoom
         offsetX = 0f
         pivotY = 0f
         applyTransform()
         updateScrollViewPadding()
         requestLayout()
+        if (startZoom != null) {
+            onZoomChange?.invoke(scale)
+            onZoomStateChange?.invoke(isZoomed)
+        }
 
         // Scroll to bottom if requested (for landscape back navigation)
         if (shouldScroll) {
@@ -748,6 +1296,106 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
                 scrollView.animate().alpha(1f).setDuration(100).start()
             }, 50)
         }
+
+        val location = pendingLocation
+        if (bitmap != null && location != null) {
+            pendingLocation = null
+            // Wait for layout so the image has its final size
+            post { restoreLocation(location) }
+        }
+
+        val zoomRect = pendingZoomRect
+        if (bitmap != null && zoomRect != null) {
+            pendingZoomRect = null
+            // Wait for layout so the image has its final size
+            post { zoomToRect(zoomRect) }
+        }
+    }
+
+    fun setHighlights(rects: List<NormalizedRect>, activeRects: List<NormalizedRect>, color: Int?, activeColor: Int?) {
+        imageView.setHighlights(rects, activeRects, color, activeColor)
+    }
+
+    fun setAnnotation(annotation: AnnotationPage?) {
+        imageView.setAnnotation(annotation)
+    }
+
+    fun setStrokes(strokes: List<DrawingStroke>, activeStroke: DrawingStroke?) {
+        imageView.setStrokes(strokes, activeStroke)
+    }
+
+    fun setLinkAreas(rects: List<NormalizedRect>) {
+        imageView.setLinkAreas(rects)
+    }
+
+    fun setOverlays(overlays: List<PdfPageOverlayView>) {
+        overlayLayout.setOverlays(overlays)
+    }
+
+    /**
+     * Rect of the page image in the scroll view, or null before it is set.
+     */
+    private fun overlayRect(): Rect? {
+        if (imageView.drawable == null || imageView.width <= 0 || imageView.height <= 0) return null
+        val rect = Rect(imageView.left, imageView.top, imageView.right, imageView.bottom)
+        rect.offset(0, -scrollView.scrollY)
+        return rect
+    }
+
+    /**
+     * Zoom so that a rect (normalized to page dimensions) fills the viewport,
+     * within the zoom limits.
+     */
+    fun zoomToRect(rect: RectF) {
+        val imageHeight = imageView.height
+        if (imageView.drawable == null || width <= 0 || height <= 0 || imageHeight <= 0) {
+            pendingZoomRect = rect
+            return
+        }
+
+        val rectWidth = (rect.width() * width).coerceAtLeast(1f)
+        val rectHeight = (rect.height() * imageHeight).coerceAtLeast(1f)
+        val targetScale = minOf(width / rectWidth, height / rectHeight).coerceIn(minZoom, maxZoom)
+
+        // Scroll the rect center as close to the viewport center as possible,
+        // then zoom around it.
+        val centerY = rect.centerY() * imageHeight
+        val maxScroll = (imageHeight - scrollView.height).coerceAtLeast(0)
+        val scrollY = (centerY - height / 2f).toInt().coerceIn(0, maxScroll)
+        scrollView.scrollTo(0, scrollY)
+        val targetPivotY = centerY - scrollY
+
+        val centerX = rect.centerX() * width
+        val minOffsetX = (width - width * targetScale).coerceAtMost(0f)
+        val targetOffsetX = (width / 2f - centerX * targetScale).coerceIn(minOffsetX, 0f)
+
+        animateZoomTo(targetScale, targetOffsetX, targetPivotY)
+    }
+
+    /**
+     * Zoom and scroll so the top left corner of the viewport is at a
+     * normalized offset of the page image.
+     */
+    fun restoreLocation(location: PageLocation) {
+        val imageWidth = imageView.width
+        val imageHeight = imageView.height
+        if (imageView.drawable == null || imageWidth <= 0 || imageHeight <= 0) {
+            pendingLocation = location
+            return
+        }
+
+        // With the pivot at the top, the viewport top maps to the scroll
+        // position.
+        zoomAnimator?.cancel()
+        scale = location.scale.coerceIn(minZoom, maxZoom)
+        pivotY = 0f
+        val minOffsetX = (width - width * scale).coerceAtMost(0f)
+        offsetX = (-location.offset.x * imageWidth * scale).coerceIn(minOffsetX, 0f)
+        applyTransform()
+        updateScrollViewPadding()
+        scrollView.scrollTo(0, (location.offset.y * imageHeight).toInt())
+        onZoomChange?.invoke(scale)
+        onZoomStateChange?.invoke(isZoomed)
     }
 
     fun scrollToBottom() {
@@ -780,6 +1428,11 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
         scrollView.scaleY = scale
         scrollView.pivotX = 0f
         scrollView.pivotY = pivotY
+        overlayLayout.translationX = offsetX
+        overlayLayout.scaleX = scale
+        overlayLayout.scaleY = scale
+        overlayLayout.pivotX = 0f
+        overlayLayout.pivotY = pivotY
     }
 
     private fun animateZoomTo(targetScale: Float, targetOffsetX: Float, targetPivotY: Float = pivotY, duration: Long = 300L) {
@@ -811,6 +1464,84 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
         scrollView.smoothScrollTo(0, 0)
     }
 
+    val zoomScale: Float
+        get() = scale
+
+    fun setZoom(target: Float, focus: PointF?, animated: Boolean) {
+        if (width <= 0 || height <= 0) return
+        val targetScale = target.coerceIn(minZoom, maxZoom)
+        val focusX = focus?.x ?: (width / 2f)
+        val focusY = focus?.y ?: (height / 2f)
+
+        // Keep the content under the focus point stationary.
+        val contentX = (focusX - offsetX) / scale
+        val minOffsetX = (width - width * targetScale).coerceAtMost(0f)
+        val targetOffsetX = (focusX - contentX * targetScale).coerceIn(minOffsetX, 0f)
+
+        // Moving the pivot shifts the scaled content; scroll to compensate.
+        zoomAnimator?.cancel()
+        val pivotShift = ((focusY - pivotY) * (1 - scale) / scale).toInt()
+        if (pivotShift != 0) {
+            scrollView.scrollBy(0, pivotShift)
+        }
+        pivotY = focusY
+        if (animated) {
+            animateZoomTo(targetScale, targetOffsetX, focusY)
+        } else {
+            scale = targetScale
+            offsetX = targetOffsetX
+            applyTransform()
+            updateScrollViewPadding()
+            onZoomChange?.invoke(scale)
+            onZoomStateChange?.invoke(isZoomed)
+        }
+    }
+
+    /**
+     * Top left corner of the viewport, normalized to the page image.
+     */
+    fun viewportOffset(): PointF {
+        val imageWidth = imageView.width
+        val imageHeight = imageView.height
+        if (imageWidth <= 0 || imageHeight <= 0) return PointF(0f, 0f)
+        val x = -offsetX / scale
+        val y = pivotY * (1 - 1 / scale) + scrollView.scrollY
+        return PointF(x / imageWidth, y / imageHeight)
+    }
+
+    /**
+     * A point of the view, normalized to the page image, or null if it is
+     * outside the image.
+     */
+    private fun pagePointAt(x: Float, y: Float): PointF? {
+        val point = imagePointAt(x, y) ?: return null
+        if (point.x < 0 || point.x > 1 || point.y < 0 || point.y > 1) return null
+        return point
+    }
+
+    /**
+     * A point of the view, normalized to the page image, or null before the
+     * image is set. Points outside the image are outside the 0-1 range.
+     */
+    private fun imagePointAt(x: Float, y: Float): PointF? {
+        val imageWidth = imageView.width
+        val imageHeight = imageView.height
+        if (imageView.drawable == null || imageWidth <= 0 || imageHeight <= 0) return null
+        val contentX = (x - offsetX) / scale
+        val contentY = pivotY + (y - pivotY) / scale + scrollView.scrollY
+        return PointF(contentX / imageWidth, contentY / imageHeight)
+    }
+
+    private fun dispatchPageGesture(eventName: String, e: MotionEvent) {
+        val point = pagePointAt(e.x, e.y) ?: return
+        onPageGesture?.invoke(eventName, point)
+    }
+
+    private fun dispatchLinkTap(e: MotionEvent): Boolean {
+        val point = pagePointAt(e.x, e.y) ?: return false
+        return onLinkTap?.invoke(point) == true
+    }
+
     fun resetState() {
         // Cancel any running animation
         zoomAnimator?.cancel()
@@ -819,6 +1550,9 @@ private class ZoomablePageView(context: Context) : FrameLayout(context) {
         offsetX = 0f
         pivotY = 0f
         shouldScrollToBottomOnLoad = false
+        pendingZoomRect = null
+        initialZoom = null
+        pendingLocation = null
         applyTransform()
         updateScrollViewPadding()
         scrollView.scrollTo(0, 0)
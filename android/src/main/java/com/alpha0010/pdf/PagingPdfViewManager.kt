@@ -1,13 +1,17 @@
 package com.alpha0010.pdf
 
+import android.graphics.PointF
+import android.graphics.RectF
+import android.view.View
 import com.facebook.react.bridge.ReadableArray
 import com.facebook.react.common.MapBuilder
-import com.facebook.react.uimanager.SimpleViewManager
+import com.facebook.react.uimanager.PixelUtil
 import com.facebook.react.uimanager.ThemedReactContext
+import com.facebook.react.uimanager.ViewGroupManager
 import com.facebook.react.uimanager.annotations.ReactProp
 import java.util.concurrent.locks.Lock
 
-class PagingPdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<PagingPdfView>() {
+class PagingPdfViewManager(private val pdfMutex: Lock) : ViewGroupManager<PagingPdfView>() {
 
     override fun getName(): String {
         return "RNPagingPdfView"
@@ -17,11 +21,39 @@ class PagingPdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<Pagin
         return PagingPdfView(context, pdfMutex)
     }
 
+    override fun onAfterUpdateTransaction(view: PagingPdfView) {
+        super.onAfterUpdateTransaction(view)
+        view.reloadIfSourceChanged()
+    }
+
+    // Children are page overlays, positioned by the viewer.
+
+    override fun needsCustomLayoutForChildren(): Boolean = true
+
+    override fun addView(parent: PagingPdfView, child: View, index: Int) {
+        val overlay = child as? PdfPageOverlayView
+            ?: throw IllegalArgumentException("Only page overlays can be children of a pdf viewer.")
+        parent.addOverlay(overlay, index)
+    }
+
+    override fun getChildCount(parent: PagingPdfView): Int = parent.overlayCount
+
+    override fun getChildAt(parent: PagingPdfView, index: Int): View = parent.getOverlayAt(index)
+
+    override fun removeViewAt(parent: PagingPdfView, index: Int) {
+        parent.removeOverlayAt(index)
+    }
+
     @ReactProp(name = "source")
     fun setSource(view: PagingPdfView, source: String?) {
         view.setSource(source ?: "")
     }
 
+    @ReactProp(name = "password")
+    fun setPassword(view: PagingPdfView, password: String?) {
+        view.setPassword(password ?: "")
+    }
+
     @ReactProp(name = "minZoom")
     fun setMinZoom(view: PagingPdfView, minZoom: Float) {
         view.setMinZoom(minZoom)
@@ -32,6 +64,16 @@ class PagingPdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<Pagin
         view.setMaxZoom(maxZoom)
     }
 
+    @ReactProp(name = "initialPage", defaultInt = 0)
+    fun setInitialPage(view: PagingPdfView, page: Int) {
+        view.setInitialPage(page)
+    }
+
+    @ReactProp(name = "initialZoom", defaultFloat = 1f)
+    fun setInitialZoom(view: PagingPdfView, zoom: Float) {
+        view.setInitialZoom(zoom)
+    }
+
     @ReactProp(name = "edgeTapZone")
     fun setEdgeTapZone(view: PagingPdfView, zone: Float) {
         view.setEdgeTapZone(zone)
@@ -44,6 +86,66 @@ class PagingPdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<Pagin
         }
     }
 
+    @ReactProp(name = "annotations")
+    fun setAnnotations(view: PagingPdfView, annotations: String?) {
+        view.setAnnotations(annotations ?: "")
+    }
+
+    @ReactProp(name = "highlights")
+    fun setHighlights(view: PagingPdfView, highlights: String?) {
+        view.setHighlights(highlights ?: "")
+    }
+
+    @ReactProp(name = "activeHighlight", defaultInt = -1)
+    fun setActiveHighlight(view: PagingPdfView, index: Int) {
+        view.setActiveHighlight(index)
+    }
+
+    @ReactProp(name = "highlightColor", customType = "Color")
+    fun setHighlightColor(view: PagingPdfView, color: Int?) {
+        view.setHighlightColor(color)
+    }
+
+    @ReactProp(name = "activeHighlightColor", customType = "Color")
+    fun setActiveHighlightColor(view: PagingPdfView, color: Int?) {
+        view.setActiveHighlightColor(color)
+    }
+
+    @ReactProp(name = "followInternalLinks", defaultBoolean = true)
+    fun setFollowInternalLinks(view: PagingPdfView, follow: Boolean) {
+        view.setFollowInternalLinks(follow)
+    }
+
+    @ReactProp(name = "showLinkAreas", defaultBoolean = false)
+    fun setShowLinkAreas(view: PagingPdfView, show: Boolean) {
+        view.setShowLinkAreas(show)
+    }
+
+    @ReactProp(name = "drawingMode")
+    fun setDrawingMode(view: PagingPdfView, mode: String?) {
+        view.setDrawingMode(mode ?: "view")
+    }
+
+    @ReactProp(name = "strokeColor")
+    fun setStrokeColor(view: PagingPdfView, color: String?) {
+        view.setStrokeColor(color ?: "#000000")
+    }
+
+    @ReactProp(name = "strokeWidth", defaultFloat = 3f)
+    fun setStrokeWidth(view: PagingPdfView, width: Float) {
+        view.setStrokeWidth(width)
+    }
+
+    @ReactProp(name = "strokeOpacity", defaultFloat = 1f)
+    fun setStrokeOpacity(view: PagingPdfView, opacity: Float) {
+        view.setStrokeOpacity(opacity)
+    }
+
+    @ReactProp(name = "strokes")
+    fun setStrokes(view: PagingPdfView, strokes: String?) {
+        view.setStrokes(strokes ?: "")
+    }
+
     override fun getExportedCustomBubblingEventTypeConstants(): Map<String, Any> {
         return MapBuilder.builder<String, Any>()
             .put("onPdfError", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onPdfError")))
@@ -52,13 +154,24 @@ class PagingPdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<Pagin
             .put("onZoomChange", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onZoomChange")))
             .put("onTap", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onTap")))
             .put("onMiddleClick", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onMiddleClick")))
+            .put("onPageTap", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onPageTap")))
+            .put("onPageDoubleTap", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onPageDoubleTap")))
+            .put("onPageLongPress", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onPageLongPress")))
+            .put("onLinkPress", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onLinkPress")))
+            .put("onStrokeEnd", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onStrokeEnd")))
+            .put("onStrokeRemoved", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onStrokeRemoved")))
+            .put("onStrokesCleared", MapBuilder.of("phasedRegistrationNames", MapBuilder.of("bubbled", "onStrokesCleared")))
             .build()
     }
 
     override fun getCommandsMap(): Map<String, Int> {
         return MapBuilder.of(
             "resetZoom", COMMAND_RESET_ZOOM,
-            "scrollToPage", COMMAND_SCROLL_TO_PAGE
+            "scrollToPage", COMMAND_SCROLL_TO_PAGE,
+            "zoomToRect", COMMAND_ZOOM_TO_RECT,
+            "setZoom", COMMAND_SET_ZOOM,
+            "restoreLocation", COMMAND_RESTORE_LOCATION,
+            "clearStrokes", COMMAND_CLEAR_STROKES
         )
     }
 
@@ -70,11 +183,37 @@ class PagingPdfViewManager(private val pdfMutex: Lock) : SimpleViewManager<Pagin
                 val animated = args?.getBoolean(1) ?: true
                 view.scrollToPage(page, animated)
             }
+            "zoomToRect" -> {
+                if (args == null) return
+                val x = args.getDouble(1).toFloat()
+                val y = args.getDouble(2).toFloat()
+                val rect = RectF(x, y, x + args.getDouble(3).toFloat(), y + args.getDouble(4).toFloat())
+                view.zoomToRect(args.getInt(0), rect, args.getBoolean(5))
+            }
+            "setZoom" -> {
+                if (args == null) return
+                val focus = if (args.isNull(1) || args.isNull(2)) {
+                    null
+                } else {
+                    PointF(PixelUtil.toPixelFromDIP(args.getDouble(1)), PixelUtil.toPixelFromDIP(args.getDouble(2)))
+                }
+                view.setZoom(args.getDouble(0).toFloat(), focus, args.getBoolean(3))
+            }
+            "restoreLocation" -> {
+                if (args == null) return
+                val offset = PointF(args.getDouble(1).toFloat(), args.getDouble(2).toFloat())
+                view.restoreLocation(args.getInt(0), offset, args.getDouble(3).toFloat())
+            }
+            "clearStrokes" -> view.clearStrokes(args?.getInt(0) ?: -1)
         }
     }
 
     companion object {
         private const val COMMAND_RESET_ZOOM = 1
         private const val COMMAND_SCROLL_TO_PAGE = 2
+        private const val COMMAND_ZOOM_TO_RECT = 3
+        private const val COMMAND_SET_ZOOM = 4
+        private const val COMMAND_RESTORE_LOCATION = 5
+        private const val COMMAND_CLEAR_STROKES = 6
     }
 }
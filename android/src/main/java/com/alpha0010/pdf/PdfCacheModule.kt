@@ -0,0 +1,313 @@
+package com.alpha0010.pdf
+
+import android.net.Uri
+import android.os.SystemClock
+import android.util.Base64
+import com.facebook.react.bridge.*
+import com.facebook.react.modules.core.DeviceEventManagerModule
+import kotlinx.coroutines.*
+import org.json.JSONObject
+import java.io.File
+import java.io.FileNotFoundException
+import java.io.IOException
+import java.io.OutputStream
+import java.net.HttpURLConnection
+import java.net.URL
+import java.security.MessageDigest
+import java.util.concurrent.ConcurrentHashMap
+import java.util.concurrent.atomic.AtomicInteger
+
+private const val DOWNLOAD_DIR = "pdf-downloads"
+private const val PROGRESS_EVENT = "PdfDownloadProgress"
+private const val PROGRESS_INTERVAL_MS = 100L
+
+class PdfCacheModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+  private val workScope = CoroutineScope(Dispatchers.IO + SupervisorJob())
+  private val activeDownloads = ConcurrentHashMap<Int, Job>()
+  private val tmpCounter = AtomicInteger()
+
+  override fun getName(): String {
+    return "RNPdfCache"
+  }
+
+  /**
+   * Get the cached file for a key, or null if it has not been downloaded.
+   */
+  @ReactMethod
+  fun getCached(cacheKey: String, promise: Promise) {
+    workScope.launch {
+      val file = cacheFile(cacheKey)
+      promise.resolve(if (file.exists()) readEntry(file) else null)
+    }
+  }
+
+  /**
+   * Download a document into the cache, replacing any previous file for the
+   * key. Emits progress events tagged with the request id.
+   */
+  @ReactMethod
+  fun download(uri: String, headers: ReadableMap, cacheKey: String, requestId: Int, promise: Promise) {
+    val job = workScope.launch(start = CoroutineStart.LAZY) {
+      var connection: HttpURLConnection? = null
+      try {
+        connection = URL(uri).openConnection() as HttpURLConnection
+        val names = headers.keySetIterator()
+        while (names.hasNextKey()) {
+          val name = names.nextKey()
+          connection.setRequestProperty(name, headers.getString(name))
+        }
+
+        val status = connection.responseCode
+        if (status !in 200..299) {
+          promise.reject(PdfErrorCode.DOWNLOAD_FAILED, "Download of $uri failed with HTTP status $status.")
+          return@launch
+        }
+
+        val totalBytes = connection.getHeaderField("Content-Length")?.toLongOrNull() ?: -1L
+        var bytesWritten = 0L
+        var lastProgress = 0L
+        val entry = connection.inputStream.use { input ->
+          storeFile(cacheKey, uri) { output ->
+            val buffer = ByteArray(64 * 1024)
+            while (true) {
+              ensureActive()
+              val read = input.read(buffer)
+              if (read < 0) break
+              output.write(buffer, 0, read)
+              bytesWritten += read
+
+              val now = SystemClock.elapsedRealtime()
+              if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+                lastProgress = now
+                emitProgress(requestId, bytesWritten, totalBytes)
+              }
+            }
+          }
+        }
+        emitProgress(requestId, bytesWritten, totalBytes)
+        promise.resolve(entry)
+      } catch (e: CancellationException) {
+        promise.reject(PdfErrorCode.CANCELLED, "Download was cancelled.")
+      } catch (e: IOException) {
+        promise.reject(PdfErrorCode.DOWNLOAD_FAILED, "Download of $uri failed: ${e.message}", e)
+      } catch (e: Exception) {
+        promise.reject(PdfErrorCode.UNKNOWN, e)
+      } finally {
+        connection?.disconnect()
+        activeDownloads.remove(requestId)
+      }
+    }
+    activeDownloads[requestId] = job
+    job.start()
+  }
+
+  /**
+   * Cancel an in-flight download.
+   */
+  @ReactMethod
+  fun cancelDownload(requestId: Int) {
+    activeDownloads.remove(requestId)?.cancel()
+  }
+
+  /**
+   * Store base64 encoded document data in the cache. Identical data maps to
+   * the same file.
+   */
+  @ReactMethod
+  fun writeBase64(base64: String, promise: Promise) {
+    workScope.launch {
+      val data = try {
+        Base64.decode(base64, Base64.DEFAULT)
+      } catch (e: IllegalArgumentException) {
+        promise.reject(PdfErrorCode.INVALID_ARGUMENT, "Source is not valid base64.", e)
+        return@launch
+      }
+
+      val cacheKey = "base64:${sha256(data)}"
+      val file = cacheFile(cacheKey)
+      try {
+        promise.resolve(if (file.exists()) readEntry(file) else storeFile(cacheKey, "") { it.write(data) })
+      } catch (e: IOException) {
+        promise.reject(PdfErrorCode.UNKNOWN, e)
+      }
+    }
+  }
+
+  /**
+   * Copy a `content://` document into the cache. The content behind a uri
+   * may change, so it is copied on every call.
+   */
+  @ReactMethod
+  fun copyContentUri(uri: String, promise: Promise) {
+    workScope.launch {
+      try {
+        val input = reactApplicationContext.contentResolver.openInputStream(Uri.parse(uri))
+          ?: throw FileNotFoundException("Unable to open $uri.")
+        promise.resolve(input.use { stream -> storeFile(uri, uri) { output -> stream.copyTo(output) } })
+      } catch (e: FileNotFoundException) {
+        promise.reject(PdfErrorCode.FILE_NOT_FOUND, e)
+      } catch (e: SecurityException) {
+        promise.reject(PdfErrorCode.FILE_NOT_FOUND, "No permission to read $uri.", e)
+      } catch (e: IOException) {
+        promise.reject(PdfErrorCode.UNKNOWN, e)
+      }
+    }
+  }
+
+  /**
+   * Copy a bundled asset (a raw resource in release builds) into the cache.
+   */
+  @ReactMethod
+  fun copyRawResource(name: String, promise: Promise) {
+    workScope.launch {
+      val context = reactApplicationContext
+      val id = context.resources.getIdentifier(name, "raw", context.packageName)
+      if (id == 0) {
+        promise.reject(PdfErrorCode.FILE_NOT_FOUND, "Asset '$name' not found.")
+        return@launch
+      }
+
+      val cacheKey = "asset:$name"
+      val file = cacheFile(cacheKey)
+      try {
+        // Assets only change when the app is updated.
+        val updated = context.packageManager.getPackageInfo(context.packageName, 0).lastUpdateTime
+        if (file.exists() && file.lastModified() >= updated) {
+          promise.resolve(readEntry(file))
+        } else {
+          promise.resolve(context.resources.openRawResource(id).use { input ->
+            storeFile(cacheKey, "") { output -> input.copyTo(output) }
+          })
+        }
+      } catch (e: IOException) {
+        promise.reject(PdfErrorCode.UNKNOWN, e)
+      }
+    }
+  }
+
+  /**
+   * List all cached files.
+   */
+  @ReactMethod
+  fun list(promise: Promise) {
+    workScope.launch {
+      val entries = Arguments.createArray()
+      downloadDirectory().listFiles { file -> file.extension == "pdf" }?.forEach { file ->
+        entries.pushMap(readEntry(file))
+      }
+      promise.resolve(entries)
+    }
+  }
+
+  /**
+   * Delete the cached file for a key. Resolves with whether a file existed.
+   */
+  @ReactMethod
+  fun remove(cacheKey: String, promise: Promise) {
+    workScope.launch {
+      val file = cacheFile(cacheKey)
+      metadataFile(file).delete()
+      promise.resolve(file.delete())
+    }
+  }
+
+  /**
+   * Delete all cached files.
+   */
+  @ReactMethod
+  fun clear(promise: Promise) {
+    workScope.launch {
+      if (File(reactApplicationContext.cacheDir, DOWNLOAD_DIR).deleteRecursively()) {
+        promise.resolve(null)
+      } else {
+        promise.reject(PdfErrorCode.UNKNOWN, "Failed to clear download cache.")
+      }
+    }
+  }
+
+  // Required by NativeEventEmitter.
+  @ReactMethod
+  fun addListener(eventName: String) {}
+
+  @ReactMethod
+  fun removeListeners(count: Int) {}
+
+  override fun invalidate() {
+    workScope.cancel()
+    super.invalidate()
+  }
+
+  private fun emitProgress(requestId: Int, bytesWritten: Long, totalBytes: Long) {
+    val event = Arguments.createMap()
+    event.putInt("requestId", requestId)
+    event.putDouble("bytesWritten", bytesWritten.toDouble())
+    event.putDouble("totalBytes", totalBytes.toDouble())
+    reactApplicationContext
+      .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+      .emit(PROGRESS_EVENT, event)
+  }
+
+  private fun downloadDirectory(): File {
+    val directory = File(reactApplicationContext.cacheDir, DOWNLOAD_DIR)
+    directory.mkdirs()
+    return directory
+  }
+
+  /**
+   * Keys are arbitrary strings (usually urls), so name files by their hash.
+   */
+  private fun cacheFile(cacheKey: String): File {
+    return File(downloadDirectory(), "${sha256(cacheKey.toByteArray())}.pdf")
+  }
+
+  /**
+   * Write a file into the cache via a temporary file, so readers never see a
+   * partial write.
+   */
+  private inline fun storeFile(cacheKey: String, uri: String, write: (OutputStream) -> Unit): WritableMap {
+    val file = cacheFile(cacheKey)
+    val tmp = File(file.parentFile, "${file.name}.${tmpCounter.incrementAndGet()}.tmp")
+    try {
+      tmp.outputStream().use(write)
+      metadataFile(file).writeText(JSONObject().put("key", cacheKey).put("uri", uri).toString())
+      if (!tmp.renameTo(file)) {
+        throw IOException("Failed to move $tmp to $file.")
+      }
+    } finally {
+      tmp.delete()
+    }
+    return createEntry(file, cacheKey, uri)
+  }
+
+  private fun sha256(data: ByteArray): String {
+    val digest = MessageDigest.getInstance("SHA-256").digest(data)
+    return digest.joinToString("") { "%02x".format(it) }
+  }
+
+  private fun metadataFile(file: File): File {
+    return File(file.parentFile, "${file.nameWithoutExtension}.json")
+  }
+
+  private fun readEntry(file: File): WritableMap {
+    val metadata = try {
+      JSONObject(metadataFile(file).readText())
+    } catch (e: Exception) {
+      JSONObject()
+    }
+    return createEntry(
+      file,
+      metadata.optString("key", file.nameWithoutExtension),
+      metadata.optString("uri", "")
+    )
+  }
+
+  private fun createEntry(file: File, cacheKey: String, uri: String): WritableMap {
+    val entry = Arguments.createMap()
+    entry.putString("key", cacheKey)
+    entry.putString("uri", uri)
+    entry.putString("path", file.absolutePath)
+    entry.putDouble("size", file.length().toDouble())
+    entry.putDouble("modified", file.lastModified().toDouble())
+    return entry
+  }
+}
@@ -0,0 +1,158 @@
+package com.alpha0010.pdf
+
+import android.annotation.SuppressLint
+import android.content.Context
+import android.graphics.Canvas
+import android.graphics.Color
+import android.graphics.Paint
+import android.graphics.RectF
+import android.widget.ImageView
+import kotlinx.serialization.Serializable
+import kotlinx.serialization.decodeFromString
+import kotlinx.serialization.json.Json
+
+/**
+ * Rect normalized to 0-1 relative to page dimensions, origin top left.
+ */
+@Serializable
+data class NormalizedRect(
+  val x: Float,
+  val y: Float,
+  val width: Float,
+  val height: Float
+)
+
+@Serializable
+data class PdfHighlight(
+  val page: Int,
+  val rects: List<NormalizedRect>
+) {
+  companion object {
+    /**
+     * Parse the `highlights` prop. Returns an empty list for invalid JSON.
+     */
+    fun parse(json: String): List<PdfHighlight> {
+      if (json.isEmpty()) return emptyList()
+      return try {
+        Json.decodeFromString(json)
+      } catch (e: Exception) {
+        emptyList()
+      }
+    }
+  }
+}
+
+/**
+ * Page image with annotations, drawn strokes, highlight rects, and
+ * optionally link areas, drawn on top.
+ */
+@SuppressLint("AppCompatCustomView")
+class HighlightImageView(context: Context) : ImageView(context) {
+  private var mAnnotation: AnnotationPage? = null
+  private var mStrokes = emptyList<DrawingStroke>()
+  private var mActiveStroke: DrawingStroke? = null
+  private val mStrokePainter = StrokePainter()
+  private val mContentRect = RectF()
+  private var mRects = emptyList<NormalizedRect>()
+  private var mActiveRects = emptyList<NormalizedRect>()
+  private val mPaint = Paint().apply { color = DEFAULT_COLOR }
+  private val mActivePaint = Paint().apply { color = DEFAULT_ACTIVE_COLOR }
+  private var mLinkRects = emptyList<NormalizedRect>()
+  private val mLinkPaint = Paint().apply {
+    color = LINK_AREA_COLOR
+    style = Paint.Style.STROKE
+    strokeWidth = 2f
+  }
+
+  fun setHighlights(rects: List<NormalizedRect>, activeRects: List<NormalizedRect>, color: Int?, activeColor: Int?) {
+    mRects = rects
+    mActiveRects = activeRects
+    mPaint.color = color ?: DEFAULT_COLOR
+    mActivePaint.color = activeColor ?: DEFAULT_ACTIVE_COLOR
+    invalidate()
+  }
+
+  fun setAnnotation(annotation: AnnotationPage?) {
+    if (annotation == mAnnotation) return
+    mAnnotation = annotation
+    invalidate()
+  }
+
+  /**
+   * Strokes of the page, and the stroke being drawn on it, if any. Always
+   * redraws, as the active stroke grows in place.
+   */
+  fun setStrokes(strokes: List<DrawingStroke>, activeStroke: DrawingStroke?) {
+    mStrokes = strokes
+    mActiveStroke = activeStroke
+    invalidate()
+  }
+
+  /**
+   * Outline these link hit areas, for debugging.
+   */
+  fun setLinkAreas(rects: List<NormalizedRect>) {
+    if (rects == mLinkRects) return
+    mLinkRects = rects
+    invalidate()
+  }
+
+  override fun onDraw(canvas: Canvas) {
+    super.onDraw(canvas)
+    if (drawable == null) return
+
+    mAnnotation?.let {
+      AnnotationRenderer.draw(canvas, it, width, height, resources.displayMetrics)
+    }
+    mContentRect.set(0f, 0f, width.toFloat(), height.toFloat())
+    for (stroke in mStrokes) {
+      mStrokePainter.draw(canvas, stroke, mContentRect, resources.displayMetrics)
+    }
+    mActiveStroke?.let {
+      mStrokePainter.draw(canvas, it, mContentRect, resources.displayMetrics)
+    }
+    for (rect in mRects) {
+      drawRect(canvas, rect, mPaint)
+    }
+    for (rect in mActiveRects) {
+      drawRect(canvas, rect, mActivePaint)
+    }
+    for (rect in mLinkRects) {
+      drawRect(canvas, rect, mLinkPaint)
+    }
+  }
+
+  private fun drawRect(canvas: Canvas, rect: NormalizedRect, paint: Paint) {
+    val w = width.toFloat()
+    val h = height.toFloat()
+    canvas.drawRect(rect.x * w, rect.y * h, (rect.x + rect.width) * w, (rect.y + rect.height) * h, paint)
+  }
+
+  companion object {
+    private val DEFAULT_COLOR = Color.argb(102, 255, 235, 59)
+    private val DEFAULT_ACTIVE_COLOR = Color.argb(128, 255, 152, 0)
+    private val LINK_AREA_COLOR = Color.argb(192, 33, 150, 243)
+  }
+}
+
+/**
+ * Split the highlights on a page into inactive and active rects.
+ */
+fun highlightRectsForPage(
+  highlights: List<PdfHighlight>,
+  activeHighlight: Int,
+  page: Int
+): Pair<List<NormalizedRect>, List<NormalizedRect>> {
+  val rects = mutableListOf<NormalizedRect>()
+  val activeRects = mutableListOf<NormalizedRect>()
+  highlights.forEachIndexed { index, highlight ->
+    if (highlight.page == page) {
+      if (index == activeHighlight) {
+        activeRects.addAll(highlight.rects)
+      } else {
+        rects.addAll(highlight.rects)
+      }
+    }
+  }
+  return Pair(rects, activeRects)
+}
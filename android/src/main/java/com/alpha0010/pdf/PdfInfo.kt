@@ -0,0 +1,246 @@
+package com.alpha0010.pdf
+
+import java.io.ByteArrayOutputStream
+import java.io.File
+import java.io.RandomAccessFile
+import java.text.SimpleDateFormat
+import java.util.Calendar
+import java.util.Locale
+import java.util.TimeZone
+
+/**
+ * Reads the document information dictionary (`/Info` of the trailer), which
+ * PdfRenderer does not expose.
+ *
+ * Best effort: encrypted documents, dictionaries inside compressed object
+ * streams, and values stored as separate objects are not read.
+ */
+object PdfInfo {
+  /**
+   * PdfUtil.getMetadata fields, and their information dictionary keys.
+   */
+  val FIELDS = linkedMapOf(
+    "title" to "Title",
+    "author" to "Author",
+    "subject" to "Subject",
+    "keywords" to "Keywords",
+    "creator" to "Creator",
+    "producer" to "Producer",
+    "creationDate" to "CreationDate",
+    "modificationDate" to "ModDate"
+  )
+
+  private val DATE_FIELDS = setOf("creationDate", "modificationDate")
+
+  // Trailers are at the end of the file, or at the start of the
+  // cross-reference stream `startxref` points to.
+  private const val TRAILER_SIZE = 4096
+  private const val CHUNK_SIZE = 1024 * 1024
+  private const val CHUNK_OVERLAP = 64
+  private const val OBJECT_SIZE = 64 * 1024
+
+  private val INFO_REF = Regex("/Info\\s+(\\d+)\\s+(\\d+)\\s+R")
+  private val START_XREF = Regex("startxref\\s+(\\d+)")
+  private val DATE = Regex(
+    "^(?:D:)?(\\d{4})(\\d{2})?(\\d{2})?(\\d{2})?(\\d{2})?(\\d{2})?(?:([Zz+\\-])(\\d{2})?'?(\\d{2})?'?)?"
+  )
+
+  /**
+   * Fields of the information dictionary keyed like [FIELDS], dates as ISO
+   * 8601 strings. Missing and unreadable fields are absent.
+   */
+  fun read(file: File): Map<String, String> {
+    return try {
+      RandomAccessFile(file, "r").use { raf ->
+        val (num, gen) = findInfoRef(raf) ?: return emptyMap()
+        val offset = findObject(raf, num, gen) ?: return emptyMap()
+        val dict = dictionaryAt(readAt(raf, offset, OBJECT_SIZE)) ?: return emptyMap()
+        val result = HashMap<String, String>()
+        for ((field, key) in FIELDS) {
+          val value = dictString(dict, key) ?: continue
+          if (field in DATE_FIELDS) {
+            parseDate(value)?.let { result[field] = it }
+          } else {
+            result[field] = value
+          }
+        }
+        result
+      }
+    } catch (e: Exception) {
+      emptyMap()
+    }
+  }
+
+  private fun findInfoRef(raf: RandomAccessFile): Pair<Int, Int>? {
+    val tail = readAt(raf, maxOf(0L, raf.length() - TRAILER_SIZE), TRAILER_SIZE)
+    val trailer = INFO_REF.findAll(tail).lastOrNull()?.let { Pair(tail, it) } ?: run {
+      // Cross-reference stream: the trailer entries are in its dictionary.
+      val startXref = START_XREF.findAll(tail).lastOrNull()?.groupValues?.get(1)?.toLongOrNull()
+        ?: return null
+      val xref = readAt(raf, startXref, TRAILER_SIZE).substringBefore("stream")
+      INFO_REF.find(xref)?.let { Pair(xref, it) }
+    } ?: return null
+    // Strings of encrypted documents are encrypted too.
+    if (trailer.first.contains("/Encrypt")) return null
+    val match = trailer.second
+    return Pair(match.groupValues[1].toInt(), match.groupValues[2].toInt())
+  }
+
+  /**
+   * Offset of the last definition of an object; incremental updates append
+   * newer definitions.
+   */
+  private fun findObject(raf: RandomAccessFile, num: Int, gen: Int): Long? {
+    val pattern = Regex("(?<=\\s)$num\\s+$gen\\s+obj\\b")
+    val length = raf.length()
+    var found: Long? = null
+    var position = 0L
+    while (position < length) {
+      val chunk = readAt(raf, position, CHUNK_SIZE)
+      pattern.findAll(chunk).lastOrNull()?.let { found = position + it.range.first }
+      if (position + chunk.length >= length || chunk.length <= CHUNK_OVERLAP) break
+      position += chunk.length - CHUNK_OVERLAP
+    }
+    return found
+  }
+
+  /**
+   * Read bytes as ISO 8859-1 text, so string offsets are byte offsets.
+   */
+  internal fun readAt(raf: RandomAccessFile, offset: Long, size: Int): String {
+    val buffer = ByteArray(minOf(size.toLong(), raf.length() - offset).toInt().coerceAtLeast(0))
+    raf.seek(offset)
+    raf.readFully(buffer)
+    return String(buffer, Charsets.ISO_8859_1)
+  }
+
+  /**
+   * Contents of the first dictionary in [text], without its delimiters.
+   */
+  private fun dictionaryAt(text: String): String? {
+    val start = text.indexOf("<<")
+    if (start < 0) return null
+    var depth = 0
+    var i = start
+    while (i < text.length) {
+      when {
+        text[i] == '(' -> i = readLiteral(text, i).second
+        text.startsWith("<<", i) -> {
+          depth++
+          i += 2
+        }
+        text.startsWith(">>", i) -> {
+          depth--
+          i += 2
+          if (depth == 0) return text.substring(start + 2, i - 2)
+        }
+        text[i] == '<' -> i = text.indexOf('>', i).let { if (it < 0) text.length else it + 1 }
+        else -> i++
+      }
+    }
+    return null
+  }
+
+  /**
+   * Text of a direct string value; null for other values.
+   */
+  private fun dictString(dict: String, key: String): String? {
+    val match = Regex("/$key(?![A-Za-z0-9])\\s*").find(dict) ?: return null
+    val start = match.range.last + 1
+    if (start >= dict.length) return null
+    val bytes = when {
+      dict[start] == '(' -> readLiteral(dict, start).first
+      dict[start] == '<' && !dict.startsWith("<<", start) -> readHex(dict, start)
+      else -> return null
+    }
+    return decodeText(bytes)
+  }
+
+  /**
+   * Bytes of the literal string starting at [start], and the index after it.
+   */
+  internal fun readLiteral(text: String, start: Int): Pair<ByteArray, Int> {
+    val out = ByteArrayOutputStream()
+    var depth = 0
+    var i = start
+    while (i < text.length) {
+      val c = text[i++]
+      when (c) {
+        '(' -> {
+          if (depth++ > 0) out.write(c.code)
+        }
+        ')' -> {
+          if (--depth == 0) break
+          out.write(c.code)
+        }
+        '\\' -> {
+          if (i >= text.length) break
+          when (val escaped = text[i++]) {
+            'n' -> out.write('\n'.code)
+            'r' -> out.write('\r'.code)
+            't' -> out.write('\t'.code)
+            'b' -> out.write('\b'.code)
+            'f' -> out.write(0x0c)
+            '\r' -> if (i < text.length && text[i] == '\n') i++
+            '\n' -> {}
+            in '0'..'7' -> {
+              var value = escaped - '0'
+              var digits = 1
+              while (digits < 3 && i < text.length && text[i] in '0'..'7') {
+                value = value * 8 + (text[i++] - '0')
+                digits++
+              }
+              out.write(value and 0xff)
+            }
+            else -> out.write(escaped.code)
+          }
+        }
+        else -> out.write(c.code)
+      }
+    }
+    return Pair(out.toByteArray(), i)
+  }
+
+  internal fun readHex(text: String, start: Int): ByteArray {
+    val end = text.indexOf('>', start).let { if (it < 0) text.length else it }
+    val digits = text.substring(start + 1, end).filter { it.isLetterOrDigit() }
+    val padded = if (digits.length % 2 == 0) digits else digits + "0"
+    return ByteArray(padded.length / 2) { padded.substring(it * 2, it * 2 + 2).toInt(16).toByte() }
+  }
+
+  /**
+   * Text strings are UTF-16BE with a byte order mark, UTF-8 with a byte order
+   * mark (PDF 2.0), or PDFDocEncoding, which mostly matches ISO 8859-1.
+   */
+  internal fun decodeText(bytes: ByteArray): String {
+    return when {
+      bytes.size >= 2 && bytes[0] == 0xfe.toByte() && bytes[1] == 0xff.toByte() ->
+        String(bytes, 2, bytes.size - 2, Charsets.UTF_16BE)
+      bytes.size >= 3 && bytes[0] == 0xef.toByte() && bytes[1] == 0xbb.toByte() && bytes[2] == 0xbf.toByte() ->
+        String(bytes, 3, bytes.size - 3, Charsets.UTF_8)
+      else -> String(bytes, Charsets.ISO_8859_1)
+    }
+  }
+
+  /**
+   * Convert a pdf date, `D:YYYYMMDDHHmmSSOHH'mm'` with optional trailing
+   * parts, to ISO 8601 in UTC, as on iOS.
+   */
+  private fun parseDate(value: String): String? {
+    val groups = DATE.find(value.trim())?.groupValues ?: return null
+    fun part(index: Int, default: Int) = groups[index].toIntOrNull() ?: default
+
+    val calendar = Calendar.getInstance(TimeZone.getTimeZone("UTC"), Locale.US)
+    calendar.clear()
+    calendar.set(part(1, 0), part(2, 1) - 1, part(3, 1), part(4, 0), part(5, 0), part(6, 0))
+    val offsetMinutes = part(8, 0) * 60 + part(9, 0)
+    when (groups[7]) {
+      "+" -> calendar.add(Calendar.MINUTE, -offsetMinutes)
+      "-" -> calendar.add(Calendar.MINUTE, offsetMinutes)
+    }
+
+    val format = SimpleDateFormat("yyyy-MM-dd'T'HH:mm:ss'Z'", Locale.US)
+    format.timeZone = TimeZone.getTimeZone("UTC")
+    return format.format(calendar.time)
+  }
+}
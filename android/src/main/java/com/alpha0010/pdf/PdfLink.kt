@@ -0,0 +1,98 @@
+package com.alpha0010.pdf
+
+import android.graphics.PointF
+import android.graphics.RectF
+import android.graphics.pdf.PdfRenderer
+import android.os.Build
+import androidx.annotation.RequiresApi
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.WritableMap
+import java.util.concurrent.locks.Lock
+import kotlin.concurrent.withLock
+
+/**
+ * Link annotation of a page. Exactly one of [uri] (external link) and
+ * [page] (0-indexed target of an internal link) is set.
+ */
+data class PdfLink(
+  val rect: NormalizedRect,
+  val uri: String?,
+  val page: Int?
+) {
+  fun contains(point: PointF): Boolean {
+    return point.x >= rect.x && point.x <= rect.x + rect.width &&
+      point.y >= rect.y && point.y <= rect.y + rect.height
+  }
+
+  /**
+   * Payload of PdfUtil.getLinks and onLinkPress.
+   */
+  fun toMap(): WritableMap {
+    val rectMap = Arguments.createMap()
+    rectMap.putDouble("x", rect.x.toDouble())
+    rectMap.putDouble("y", rect.y.toDouble())
+    rectMap.putDouble("width", rect.width.toDouble())
+    rectMap.putDouble("height", rect.height.toDouble())
+    val map = Arguments.createMap()
+    map.putMap("rect", rectMap)
+    if (page != null) {
+      map.putString("type", "goto")
+      map.putInt("page", page)
+    } else {
+      map.putString("type", "uri")
+      map.putString("uri", uri)
+    }
+    return map
+  }
+
+  companion object {
+    /**
+     * Read the links of a page, one per link rect. Returns an empty list
+     * before Android 15 (API 35), which has no link api, or on failure.
+     * Must be called from a background thread.
+     */
+    fun read(renderer: PdfRenderer, pdfMutex: Lock, pageIndex: Int): List<PdfLink> {
+      if (Build.VERSION.SDK_INT < Build.VERSION_CODES.VANILLA_ICE_CREAM) return emptyList()
+      return pdfMutex.withLock {
+        try {
+          renderer.openPage(pageIndex).use { readPage(it) }
+        } catch (e: Exception) {
+          emptyList()
+        }
+      }
+    }
+
+    /**
+     * Read the links of an open page. Caller must hold pdfMutex.
+     */
+    @RequiresApi(Build.VERSION_CODES.VANILLA_ICE_CREAM)
+    fun readPage(page: PdfRenderer.Page): List<PdfLink> {
+      val links = mutableListOf<PdfLink>()
+      for (link in page.linkContents) {
+        val uri = link.uri.toString()
+        link.bounds.forEach { links.add(PdfLink(normalize(it, page), uri, null)) }
+      }
+      for (link in page.gotoLinks) {
+        val target = link.destination.pageNumber
+        link.bounds.forEach { links.add(PdfLink(normalize(it, page), null, target)) }
+      }
+      return links
+    }
+
+    private fun normalize(bounds: RectF, page: PdfRenderer.Page): NormalizedRect {
+      return NormalizedRect(
+        bounds.left / page.width,
+        bounds.top / page.height,
+        bounds.width() / page.width,
+        bounds.height() / page.height
+      )
+    }
+  }
+}
+
+/**
+ * Link under a point normalized to the page, if any.
+ */
+fun linkAt(links: List<PdfLink>?, point: PointF): PdfLink? {
+  return links?.firstOrNull { it.contains(point) }
+}
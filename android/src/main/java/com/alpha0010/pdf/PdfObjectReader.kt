@@ -0,0 +1,398 @@
+package com.alpha0010.pdf
+
+import java.io.ByteArrayOutputStream
+import java.io.RandomAccessFile
+import java.util.zip.DataFormatException
+import java.util.zip.Inflater
+
+/**
+ * Name object, without the leading slash.
+ */
+data class PdfName(val value: String)
+
+/**
+ * Reference to an indirect object.
+ */
+data class PdfRef(val num: Int, val gen: Int)
+
+/**
+ * String object.
+ */
+class PdfString(val bytes: ByteArray) {
+  /**
+   * Value of a text string.
+   */
+  val text: String
+    get() = PdfInfo.decodeText(bytes)
+
+  /**
+   * Bytes as ISO 8859-1 text, for comparing keys of name trees.
+   */
+  val key: String
+    get() = String(bytes, Charsets.ISO_8859_1)
+}
+
+/**
+ * Stream object: its dictionary, and where its data starts in the file.
+ */
+class PdfStream(val dict: Map<String, Any?>, val dataOffset: Long)
+
+/**
+ * Reads the objects of an unencrypted document, for structures PdfRenderer
+ * does not expose.
+ *
+ * Objects are located by scanning the file rather than through the
+ * cross-reference table, so damaged tables do not matter. Dictionaries are
+ * `Map<String, Any?>`, arrays `List<Any?>`, numbers `Long` or `Double`.
+ * Only stream data compressed with FlateDecode, without predictors, is
+ * read; that covers object streams.
+ */
+class PdfObjectReader(private val raf: RandomAccessFile) {
+  private val length = raf.length()
+  private val objects = HashMap<Int, Any?>()
+
+  // Offsets of the last definition of each object, and of the object
+  // streams (compressed objects).
+  private val offsets = HashMap<Int, Long>()
+  private val objectStreams = ArrayList<Long>()
+
+  init {
+    scan()
+  }
+
+  /**
+   * Trailer dictionary, of the cross-reference table or stream.
+   */
+  val trailer: Map<String, Any?>? by lazy { findTrailer() }
+
+  /**
+   * Follow references to the object they point to.
+   */
+  fun resolve(value: Any?): Any? {
+    var result = value
+    var depth = 0
+    while (result is PdfRef && depth++ < MAX_DEPTH) {
+      result = lookup(result.num)
+    }
+    return if (result is PdfRef) null else result
+  }
+
+  fun dictionary(value: Any?): Map<String, Any?>? {
+    return when (val resolved = resolve(value)) {
+      is PdfStream -> resolved.dict
+      else -> asDictionary(resolved)
+    }
+  }
+
+  fun array(value: Any?): List<Any?>? {
+    return resolve(value) as? List<*>
+  }
+
+  private fun lookup(num: Int): Any? {
+    if (objects.containsKey(num)) return objects[num]
+    // Cache first, in case of reference cycles.
+    objects[num] = null
+    val direct = offsets[num]
+    val compressed = if (objectStreams.isEmpty()) null else compressedObjects[num]
+    val value = if (compressed != null && (direct == null || compressed.streamOffset > direct)) {
+      Parser(compressed.text, compressed.offset).parse()
+    } else if (direct != null) {
+      objectAt(direct)
+    } else {
+      null
+    }
+    objects[num] = value
+    return value
+  }
+
+  /**
+   * Index the `N G obj` headers, and which objects are object streams.
+   */
+  private fun scan() {
+    var position = 0L
+    var scannedTo = 0L
+    var current: Long? = null
+    while (position < length) {
+      val chunk = PdfInfo.readAt(raf, position, CHUNK_SIZE)
+      for (match in HEADER.findAll(chunk)) {
+        val start = position + match.range.first
+        if (start < scannedTo) continue
+        scannedTo = position + match.range.last + 1
+        val num = match.groups[1]
+        if (num != null) {
+          offsets[num.value.toIntOrNull() ?: continue] = start
+          current = start
+        } else if (current != null && objectStreams.lastOrNull() != current) {
+          objectStreams.add(current)
+        }
+      }
+      if (position + chunk.length >= length || chunk.length <= CHUNK_OVERLAP) break
+      position += chunk.length - CHUNK_OVERLAP
+    }
+  }
+
+  /**
+   * Value of the object defined at [offset], growing the read window until
+   * it fits.
+   */
+  private fun objectAt(offset: Long): Any? {
+    var size = OBJECT_SIZE
+    while (true) {
+      val text = PdfInfo.readAt(raf, offset, size)
+      val parser = Parser(text, 0)
+      parser.keyword()
+      parser.keyword()
+      if (parser.keyword() != "obj") return null
+      val value = parser.parse()
+      parser.skipSpace()
+      val complete = parser.pos + STREAM_KEYWORD_SIZE < text.length ||
+        offset + text.length >= length || size >= MAX_OBJECT_SIZE
+      if (!complete) {
+        size *= 4
+        continue
+      }
+      val dict = asDictionary(value)
+      if (dict != null && text.startsWith("stream", parser.pos)) {
+        var dataStart = parser.pos + "stream".length
+        if (text.startsWith("\r\n", dataStart)) {
+          dataStart += 2
+        } else if (dataStart < text.length && (text[dataStart] == '\n' || text[dataStart] == '\r')) {
+          dataStart++
+        }
+        return PdfStream(dict, offset + dataStart)
+      }
+      return value
+    }
+  }
+
+  private class CompressedObject(val text: String, val offset: Int, val streamOffset: Long)
+
+  // Objects of all object streams; later streams replace earlier
+  // definitions.
+  private val compressedObjects: Map<Int, CompressedObject> by lazy {
+    val result = HashMap<Int, CompressedObject>()
+    for (streamOffset in objectStreams) {
+      val stream = objectAt(streamOffset) as? PdfStream ?: continue
+      val count = (stream.dict["N"] as? Number)?.toInt() ?: continue
+      val first = (stream.dict["First"] as? Number)?.toInt() ?: continue
+      val data = streamData(stream) ?: continue
+      val text = String(data, Charsets.ISO_8859_1)
+      val header = Parser(text, 0)
+      for (i in 0 until count) {
+        val num = header.parse() as? Long ?: break
+        val offset = header.parse() as? Long ?: break
+        result[num.toInt()] = CompressedObject(text, first + offset.toInt(), streamOffset)
+      }
+    }
+    result
+  }
+
+  private fun streamData(stream: PdfStream): ByteArray? {
+    // Lengths are never compressed objects; looking them up must not
+    // recurse into reading object streams.
+    val lengthValue = stream.dict["Length"].let { if (it is PdfRef) offsets[it.num]?.let(::objectAt) else it }
+    val size = (lengthValue as? Number)?.toLong() ?: return null
+    if (size < 0 || stream.dataOffset + size > length || size > MAX_STREAM_SIZE) return null
+    val data = ByteArray(size.toInt())
+    raf.seek(stream.dataOffset)
+    raf.readFully(data)
+
+    val filter = stream.dict["Filter"].let { if (it is List<*>) it.singleOrNull() else it }
+    val parameters = stream.dict["DecodeParms"].let { if (it is List<*>) it.singleOrNull() else it }
+    val predictor = asDictionary(parameters)?.get("Predictor") as? Number
+    if (predictor != null && predictor.toInt() > 1) return null
+    return when (filter) {
+      null -> data
+      PdfName("FlateDecode") -> inflate(data)
+      else -> null
+    }
+  }
+
+  private fun inflate(data: ByteArray): ByteArray? {
+    val inflater = Inflater()
+    return try {
+      inflater.setInput(data)
+      val out = ByteArrayOutputStream(data.size * 4)
+      val buffer = ByteArray(64 * 1024)
+      while (!inflater.finished()) {
+        val count = inflater.inflate(buffer)
+        if (count == 0 && (inflater.needsInput() || inflater.needsDictionary())) break
+        out.write(buffer, 0, count)
+        if (out.size() > MAX_STREAM_SIZE) return null
+      }
+      out.toByteArray()
+    } catch (e: DataFormatException) {
+      null
+    } finally {
+      inflater.end()
+    }
+  }
+
+  private fun findTrailer(): Map<String, Any?>? {
+    val tail = PdfInfo.readAt(raf, maxOf(0L, length - TRAILER_SIZE), TRAILER_SIZE)
+    val keyword = tail.lastIndexOf("trailer")
+    if (keyword >= 0) {
+      val dict = asDictionary(Parser(tail, keyword + "trailer".length).parse())
+      if (dict?.containsKey("Root") == true) return dict
+    }
+    // Cross-reference stream: the trailer entries are in its dictionary.
+    val startXref = START_XREF.findAll(tail).lastOrNull()?.groupValues?.get(1)?.toLongOrNull()
+      ?: return null
+    if (startXref >= length) return null
+    return (objectAt(startXref) as? PdfStream)?.dict
+  }
+
+  @Suppress("UNCHECKED_CAST")
+  private fun asDictionary(value: Any?): Map<String, Any?>? {
+    // The parser creates dictionaries with name keys only.
+    return value as? Map<String, Any?>
+  }
+
+  /**
+   * Parses objects from text read as ISO 8859-1, so offsets are byte
+   * offsets.
+   */
+  private class Parser(private val text: String, var pos: Int) {
+    fun parse(depth: Int = 0): Any? {
+      skipSpace()
+      if (depth > MAX_DEPTH) {
+        // Give up on the rest of the text.
+        pos = text.length
+      }
+      if (pos >= text.length) return null
+      val c = text[pos]
+      return when {
+        text.startsWith("<<", pos) -> {
+          pos += 2
+          parseDictionary(depth)
+        }
+        c == '<' -> {
+          val bytes = PdfInfo.readHex(text, pos)
+          pos = text.indexOf('>', pos).let { if (it < 0) text.length else it + 1 }
+          PdfString(bytes)
+        }
+        c == '(' -> {
+          val (bytes, next) = PdfInfo.readLiteral(text, pos)
+          pos = next
+          PdfString(bytes)
+        }
+        c == '[' -> {
+          pos++
+          parseArray(depth)
+        }
+        c == '/' -> {
+          pos++
+          PdfName(decodeName(keyword()))
+        }
+        c == '+' || c == '-' || c == '.' || c.isDigit() -> parseNumber()
+        else -> when (val word = keyword()) {
+          "true" -> true
+          "false" -> false
+          "" -> {
+            // Stray delimiter.
+            pos++
+            null
+          }
+          else -> null
+        }
+      }
+    }
+
+    fun skipSpace() {
+      while (pos < text.length) {
+        when {
+          text[pos] == '%' -> while (pos < text.length && text[pos] != '\n' && text[pos] != '\r') pos++
+          text[pos] in WHITESPACE -> pos++
+          else -> return
+        }
+      }
+    }
+
+    /**
+     * Run of regular characters.
+     */
+    fun keyword(): String {
+      skipSpace()
+      val start = pos
+      while (pos < text.length && text[pos] !in WHITESPACE && text[pos] !in DELIMITERS) pos++
+      return text.substring(start, pos)
+    }
+
+    private fun parseDictionary(depth: Int): Map<String, Any?> {
+      val dict = HashMap<String, Any?>()
+      while (true) {
+        skipSpace()
+        if (pos >= text.length) break
+        if (text.startsWith(">>", pos)) {
+          pos += 2
+          break
+        }
+        val key = parse(depth + 1)
+        if (key !is PdfName) continue
+        dict[key.value] = parse(depth + 1)
+      }
+      return dict
+    }
+
+    private fun parseArray(depth: Int): List<Any?> {
+      val array = ArrayList<Any?>()
+      while (true) {
+        skipSpace()
+        if (pos >= text.length) break
+        if (text[pos] == ']') {
+          pos++
+          break
+        }
+        array.add(parse(depth + 1))
+      }
+      return array
+    }
+
+    /**
+     * Number, or reference (`N G R`).
+     */
+    private fun parseNumber(): Any? {
+      val word = keyword()
+      val integer = word.toLongOrNull() ?: return word.toDoubleOrNull()
+      if (integer < 0 || integer > Int.MAX_VALUE) return integer
+      val start = pos
+      val gen = keyword().toIntOrNull()
+      if (gen != null && keyword() == "R") return PdfRef(integer.toInt(), gen)
+      pos = start
+      return integer
+    }
+
+    private fun decodeName(raw: String): String {
+      if (!raw.contains('#')) return raw
+      val out = StringBuilder()
+      var i = 0
+      while (i < raw.length) {
+        val code = if (raw[i] == '#' && i + 2 < raw.length) raw.substring(i + 1, i + 3).toIntOrNull(16) else null
+        if (code != null) {
+          out.append(code.toChar())
+          i += 3
+        } else {
+          out.append(raw[i++])
+        }
+      }
+      return out.toString()
+    }
+  }
+
+  companion object {
+    private const val CHUNK_SIZE = 1024 * 1024
+    private const val CHUNK_OVERLAP = 64
+    private const val TRAILER_SIZE = 4096
+    private const val OBJECT_SIZE = 4096
+    private const val MAX_OBJECT_SIZE = 16 * 1024 * 1024
+    private const val MAX_STREAM_SIZE = 64 * 1024 * 1024
+    private const val MAX_DEPTH = 64
+    private const val STREAM_KEYWORD_SIZE = 16
+
+    private const val WHITESPACE = "\u0000\t\n\u000c\r "
+    private const val DELIMITERS = "()<>[]{}/%"
+
+    private val HEADER = Regex("(?<=\\s)(\\d+)\\s+\\d+\\s+obj\\b|/Type\\s*/ObjStm\\b")
+    private val START_XREF = Regex("startxref\\s+(\\d+)")
+  }
+}
@@ -0,0 +1,144 @@
+package com.alpha0010.pdf
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.WritableMap
+import java.io.File
+import java.io.RandomAccessFile
+
+/**
+ * Outline (bookmarks) item. [page] is the 0-indexed destination, or null if
+ * the item does not point to a page of the document.
+ */
+data class PdfOutlineItem(
+  val title: String,
+  val page: Int?,
+  val children: List<PdfOutlineItem>
+) {
+  /**
+   * Payload of PdfUtil.getOutline.
+   */
+  fun toMap(): WritableMap {
+    val map = Arguments.createMap()
+    map.putString("title", title)
+    if (page != null) {
+      map.putInt("page", page)
+    } else {
+      map.putNull("page")
+    }
+    val childArray = Arguments.createArray()
+    children.forEach { childArray.pushMap(it.toMap()) }
+    map.putArray("children", childArray)
+    return map
+  }
+
+  companion object {
+    // Guards against malformed documents with cyclic or runaway outlines.
+    private const val MAX_DEPTH = 32
+    private const val MAX_ITEMS = 10000
+
+    /**
+     * Read the outline of a document; empty if it has none or it cannot be
+     * read. Null for encrypted documents, whose strings are encrypted.
+     * Reads the file, so call from a background thread.
+     */
+    fun read(file: File): List<PdfOutlineItem>? {
+      return try {
+        RandomAccessFile(file, "r").use { raf ->
+          val objects = PdfObjectReader(raf)
+          val trailer = objects.trailer ?: return emptyList()
+          if (trailer.containsKey("Encrypt")) return null
+          val catalog = objects.dictionary(trailer["Root"]) ?: return emptyList()
+          val outlines = objects.dictionary(catalog["Outlines"]) ?: return emptyList()
+          OutlineReader(objects, catalog).children(outlines["First"], 0)
+        }
+      } catch (e: Exception) {
+        emptyList()
+      }
+    }
+  }
+
+  private class OutlineReader(
+    private val objects: PdfObjectReader,
+    private val catalog: Map<String, Any?>
+  ) {
+    private val visited = HashSet<Int>()
+
+    /**
+     * Page index of each page object number.
+     */
+    private val pageIndices: Map<Int, Int> by lazy {
+      val result = HashMap<Int, Int>()
+      val seen = HashSet<Int>()
+      var count = 0
+      fun visit(node: Any?, depth: Int) {
+        if (node is PdfRef && !seen.add(node.num)) return
+        val dict = objects.dictionary(node) ?: return
+        val kids = objects.array(dict["Kids"])
+        if (dict["Type"] == PdfName("Page") || kids == null) {
+          if (node is PdfRef) result[node.num] = count
+          count++
+          return
+        }
+        if (depth < MAX_DEPTH) kids.forEach { visit(it, depth + 1) }
+      }
+      visit(catalog["Pages"], 0)
+      result
+    }
+
+    /**
+     * Destinations by name: the name tree of the names dictionary (PDF 1.2),
+     * and the `/Dests` dictionary of the catalog (PDF 1.1).
+     */
+    private val namedDestinations: Map<String, Any?> by lazy {
+      val result = HashMap<String, Any?>()
+      val seen = HashSet<Int>()
+      fun visit(node: Any?, depth: Int) {
+        if (node is PdfRef && !seen.add(node.num)) return
+        val dict = objects.dictionary(node) ?: return
+        objects.array(dict["Names"])?.chunked(2)?.forEach { pair ->
+          val key = objects.resolve(pair[0]) as? PdfString
+          if (key != null && pair.size == 2) result.putIfAbsent(key.key, pair[1])
+        }
+        if (depth < MAX_DEPTH) objects.array(dict["Kids"])?.forEach { visit(it, depth + 1) }
+      }
+      visit(objects.dictionary(catalog["Names"])?.get("Dests"), 0)
+      objects.dictionary(catalog["Dests"])?.forEach { (name, dest) -> result.putIfAbsent(name, dest) }
+      result
+    }
+
+    fun children(first: Any?, depth: Int): List<PdfOutlineItem> {
+      val items = ArrayList<PdfOutlineItem>()
+      var next = first
+      while (next is PdfRef && visited.size < MAX_ITEMS && visited.add(next.num)) {
+        val item = objects.dictionary(next) ?: break
+        val title = (objects.resolve(item["Title"]) as? PdfString)?.text ?: ""
+        val children = if (depth < MAX_DEPTH) children(item["First"], depth + 1) else emptyList()
+        items.add(PdfOutlineItem(title, page(item), children))
+        next = item["Next"]
+      }
+      return items
+    }
+
+    private fun page(item: Map<String, Any?>): Int? {
+      val dest = item["Dest"] ?: objects.dictionary(item["A"])?.let { action ->
+        if (objects.resolve(action["S"]) == PdfName("GoTo")) action["D"] else null
+      }
+      return destinationPage(dest, 0)
+    }
+
+    /**
+     * Page of an explicit destination (`[page /XYZ left top zoom]` and the
+     * like), or of a named one.
+     */
+    private fun destinationPage(dest: Any?, depth: Int): Int? {
+      if (depth > MAX_DEPTH) return null
+      return when (val value = objects.resolve(dest)) {
+        is List<*> -> (value.firstOrNull() as? PdfRef)?.let { pageIndices[it.num] }
+        is Map<*, *> -> destinationPage(objects.dictionary(value)?.get("D"), depth + 1)
+        is PdfName -> destinationPage(namedDestinations[value.value], depth + 1)
+        is PdfString -> destinationPage(namedDestinations[value.key], depth + 1)
+        else -> null
+      }
+    }
+  }
+}
@@ -0,0 +1,124 @@
+package com.alpha0010.pdf
+
+import android.content.Context
+import android.graphics.Matrix
+import android.graphics.Rect
+import android.view.View
+import android.view.ViewGroup
+import com.facebook.react.views.view.ReactViewGroup
+
+/**
+ * React view shown over a page of a viewer. The viewer sizes and positions
+ * it over the page; React only lays out its children.
+ */
+class PdfPageOverlayView(context: Context) : ReactViewGroup(context) {
+  var onPageChanged: (() -> Unit)? = null
+
+  var page = -1
+    set(value) {
+      if (field != value) {
+        field = value
+        onPageChanged?.invoke()
+      }
+    }
+
+  /**
+   * Whether a child of the overlay is at a point of the overlay (in
+   * pixels). Elsewhere touches belong to the page below.
+   */
+  fun hasContentAt(x: Float, y: Float): Boolean {
+    for (i in 0 until childCount) {
+      val child = getChildAt(i)
+      if (child.visibility == View.VISIBLE &&
+        x >= child.left && x < child.right && y >= child.top && y < child.bottom
+      ) {
+        return true
+      }
+    }
+    return false
+  }
+}
+
+/**
+ * Positions page overlays over the pages of a viewer. Shares the transform
+ * of the view showing the pages, so `pageRect` returns the rect of a page in
+ * that view's coordinates, or null if the page is not laid out.
+ */
+class PageOverlayLayout(
+  context: Context,
+  private val pageRect: (page: Int) -> Rect?
+) : ViewGroup(context) {
+  private val mInverse = Matrix()
+
+  /**
+   * Show these overlays, taking them from their previous layout if needed.
+   */
+  fun setOverlays(overlays: List<PdfPageOverlayView>) {
+    for (i in childCount - 1 downTo 0) {
+      if (getChildAt(i) !in overlays) {
+        removeViewAt(i)
+      }
+    }
+    for (overlay in overlays) {
+      if (overlay.parent !== this) {
+        (overlay.parent as? ViewGroup)?.removeView(overlay)
+        addView(overlay)
+      }
+    }
+    layoutOverlays()
+  }
+
+  /**
+   * Move the overlays to the current page rects, e.g. after a scroll.
+   */
+  fun layoutOverlays() {
+    for (i in 0 until childCount) {
+      val overlay = getChildAt(i) as? PdfPageOverlayView ?: continue
+      val rect = pageRect(overlay.page)
+      if (rect == null || rect.isEmpty) {
+        overlay.visibility = View.INVISIBLE
+        continue
+      }
+      overlay.visibility = View.VISIBLE
+      if (overlay.width != rect.width() || overlay.height != rect.height()) {
+        overlay.measure(
+          MeasureSpec.makeMeasureSpec(rect.width(), MeasureSpec.EXACTLY),
+          MeasureSpec.makeMeasureSpec(rect.height(), MeasureSpec.EXACTLY)
+        )
+      }
+      overlay.layout(rect.left, rect.top, rect.right, rect.bottom)
+    }
+  }
+
+  /**
+   * Whether overlay content is at a point of the parent view.
+   */
+  fun hasContentAt(x: Float, y: Float): Boolean {
+    if (childCount == 0) return false
+    val point = floatArrayOf(x - left, y - top)
+    if (!matrix.isIdentity) {
+      matrix.invert(mInverse)
+      mInverse.mapPoints(point)
+    }
+    for (i in 0 until childCount) {
+      val overlay = getChildAt(i) as? PdfPageOverlayView ?: continue
+      if (overlay.visibility == View.VISIBLE &&
+        overlay.hasContentAt(point[0] - overlay.left, point[1] - overlay.top)
+      ) {
+        return true
+      }
+    }
+    return false
+  }
+
+  override fun onMeasure(widthMeasureSpec: Int, heightMeasureSpec: Int) {
+    setMeasuredDimension(
+      getDefaultSize(suggestedMinimumWidth, widthMeasureSpec),
+      getDefaultSize(suggestedMinimumHeight, heightMeasureSpec)
+    )
+  }
+
+  override fun onLayout(changed: Boolean, l: Int, t: Int, r: Int, b: Int) {
+    layoutOverlays()
+  }
+}
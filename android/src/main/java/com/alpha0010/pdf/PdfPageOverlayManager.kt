@@ -0,0 +1,22 @@
+package com.alpha0010.pdf
+
+import com.facebook.react.uimanager.ThemedReactContext
+import com.facebook.react.uimanager.annotations.ReactProp
+import com.facebook.react.views.view.ReactViewGroup
+import com.facebook.react.views.view.ReactViewManager
+
+class PdfPageOverlayManager : ReactViewManager() {
+
+    override fun getName(): String {
+        return "RNPdfPageOverlay"
+    }
+
+    override fun createViewInstance(context: ThemedReactContext): ReactViewGroup {
+        return PdfPageOverlayView(context)
+    }
+
+    @ReactProp(name = "page", defaultInt = -1)
+    fun setPage(view: ReactViewGroup, page: Int) {
+        (view as? PdfPageOverlayView)?.page = page
+    }
+}
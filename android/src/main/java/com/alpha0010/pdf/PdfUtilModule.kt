@@ -1,93 +1,582 @@
 package com.alpha0010.pdf
 
+import android.graphics.Bitmap
+import android.graphics.Color
+import android.graphics.RectF
 import android.graphics.pdf.PdfRenderer
+import android.graphics.pdf.models.selection.SelectionBoundary
+import android.os.Build
 import android.os.ParcelFileDescriptor
+import androidx.annotation.RequiresApi
 import com.facebook.react.bridge.*
+import kotlinx.coroutines.*
 import java.io.*
+import java.util.concurrent.ConcurrentHashMap
 import java.util.concurrent.locks.Lock
 import kotlin.concurrent.withLock
 
+private const val THUMBNAIL_DIR = "pdf-thumbnails"
+
 class PdfUtilModule(reactContext: ReactApplicationContext, private val pdfMutex: Lock) : ReactContextBaseJavaModule(reactContext) {
+  private val workScope = CoroutineScope(Dispatchers.IO + SupervisorJob())
+  private val activeSearches = ConcurrentHashMap<Int, Job>()
+
   override fun getName(): String {
     return "RNPdfUtil"
   }
 
+  /**
+   * Open a pdf and keep it open until closeDocument. Resolves with a handle
+   * that other methods and the viewers accept in place of a path.
+   */
+  @ReactMethod
+  fun openDocument(source: String, password: String, promise: Promise) {
+    workScope.launch {
+      try {
+        val handle = if (PdfDocumentRegistry.isHandle(source)) {
+          PdfDocumentRegistry.open(PdfDocumentRegistry.fileOf(source), password, pdfMutex)
+        } else {
+          PdfDocumentRegistry.open(File(source), password, pdfMutex)
+        }
+        val pageCount = readDocument(handle, password) { renderer ->
+          pdfMutex.withLock { renderer.pageCount }
+        }
+        val result = Arguments.createMap()
+        result.putString("handle", handle)
+        result.putInt("pageCount", pageCount)
+        promise.resolve(result)
+      } catch (e: Exception) {
+        rejectError(promise, e)
+      }
+    }
+  }
+
+  /**
+   * Release a document opened by openDocument.
+   */
+  @ReactMethod
+  fun closeDocument(handle: String) {
+    PdfDocumentRegistry.close(handle, pdfMutex)
+  }
+
   /**
    * Get the number of pages of a pdf.
    */
   @ReactMethod
-  fun getPageCount(source: String, promise: Promise) {
-    val file = File(source)
-    val fd: ParcelFileDescriptor
+  fun getPageCount(source: String, password: String, promise: Promise) {
     try {
-      fd = ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
-    } catch (e: FileNotFoundException) {
-      promise.reject("ENOENT", e)
+      val pageCount = readDocument(source, password) { renderer ->
+        pdfMutex.withLock { renderer.pageCount }
+      }
+      promise.resolve(pageCount)
+    } catch (e: Exception) {
+      rejectError(promise, e)
+    }
+  }
+
+  /**
+   * Get the dimensions of every page.
+   */
+  @ReactMethod
+  fun getPageSizes(source: String, password: String, promise: Promise) {
+    val pageSizes = try {
+      readDocument(source, password) { renderer ->
+        pdfMutex.withLock {
+          // Read dimensions (in pdf units) of all pages.
+          val pages = Arguments.createArray()
+          for (pageNum in 0 until renderer.pageCount) {
+            val pdfPage = try {
+              renderer.openPage(pageNum)
+            } catch (e: Exception) {
+              promise.reject(PdfErrorCode.INVALID_PDF, e)
+              return
+            }
+
+            val pageDim = Arguments.createMap()
+            pageDim.putInt("height", pdfPage.height)
+            pageDim.putInt("width", pdfPage.width)
+            pages.pushMap(pageDim)
+
+            pdfPage.close()
+          }
+          pages
+        }
+      }
+    } catch (e: Exception) {
+      rejectError(promise, e)
+      return
+    }
+
+    promise.resolve(pageSizes)
+  }
+
+  /**
+   * Find all occurrences of a string in the text of a pdf.
+   */
+  @ReactMethod
+  fun search(source: String, query: String, options: ReadableMap, requestId: Int, promise: Promise) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.VANILLA_ICE_CREAM) {
+      promise.reject(PdfErrorCode.NOT_SUPPORTED, "Text search requires Android 15 (API 35).")
+      return
+    }
+
+    val caseSensitive = options.hasKey("caseSensitive") && options.getBoolean("caseSensitive")
+    val wholeWord = options.hasKey("wholeWord") && options.getBoolean("wholeWord")
+    val limit = if (options.hasKey("limit")) options.getInt("limit") else -1
+    val password = if (options.hasKey("password")) options.getString("password") ?: "" else ""
+
+    val job = workScope.launch(start = CoroutineStart.LAZY) {
+      val matches = Arguments.createArray()
+      try {
+        readDocument(source, password) { renderer ->
+          var matchCount = 0
+          pageLoop@ for (pageNum in 0 until renderer.pageCount) {
+            ensureActive()
+            // Release the lock between pages so visible viewers keep rendering.
+            pdfMutex.withLock {
+              renderer.openPage(pageNum).use { page ->
+                val text = page.textContents.joinToString("") { it.text ?: "" }
+                for (match in page.searchText(query)) {
+                  val start = match.textStartIndex
+                  if (!isMatch(text, start, query, caseSensitive, wholeWord)) {
+                    continue
+                  }
+                  if (limit in 0..matchCount) {
+                    return@withLock false
+                  }
+
+                  val rects = Arguments.createArray()
+                  for (bounds in match.bounds) {
+                    rects.pushMap(normalizedRect(bounds, page))
+                  }
+                  val result = Arguments.createMap()
+                  result.putInt("page", pageNum)
+                  result.putArray("rects", rects)
+                  result.putString("snippet", snippet(text, start, query.length))
+                  matches.pushMap(result)
+                  matchCount++
+                }
+                true
+              }
+            }.let { keepSearching -> if (!keepSearching) break@pageLoop }
+          }
+        }
+        promise.resolve(matches)
+      } catch (e: CancellationException) {
+        promise.reject(PdfErrorCode.CANCELLED, "Search was cancelled.")
+      } catch (e: Exception) {
+        rejectError(promise, e)
+      } finally {
+        activeSearches.remove(requestId)
+      }
+    }
+    activeSearches[requestId] = job
+    job.start()
+  }
+
+  /**
+   * Cancel an in-flight search.
+   */
+  @ReactMethod
+  fun cancelSearch(requestId: Int) {
+    activeSearches.remove(requestId)?.cancel()
+  }
+
+  /**
+   * Get the text of a page, with word bounds.
+   */
+  @ReactMethod
+  fun getPageText(source: String, page: Int, password: String, promise: Promise) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.VANILLA_ICE_CREAM) {
+      promise.reject(PdfErrorCode.NOT_SUPPORTED, "Text extraction requires Android 15 (API 35).")
       return
     }
 
-    val pageCount = pdfMutex.withLock {
-      val renderer = try {
-        PdfRenderer(fd)
+    workScope.launch {
+      try {
+        val pageText = readDocument(source, password) { renderer ->
+          if (page < 0 || page >= renderer.pageCount) {
+            promise.reject(PdfErrorCode.PAGE_OUT_OF_RANGE, "Page $page is out of range.")
+            return@launch
+          }
+          pdfMutex.withLock { readPageText(renderer, page) }
+        }
+        if (pageText == null) {
+          promise.reject(PdfErrorCode.NO_TEXT_LAYER, "Page $page has no text layer (scanned page?).")
+        } else {
+          promise.resolve(pageText)
+        }
       } catch (e: Exception) {
-        fd.close()
-        promise.reject(e)
-        return
+        rejectError(promise, e)
       }
-      val res = renderer.pageCount
-      renderer.close()
-      return@withLock res
     }
-    fd.close()
+  }
+
+  /**
+   * Get the text of every page, with word bounds.
+   */
+  @ReactMethod
+  fun getDocumentText(source: String, password: String, promise: Promise) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.VANILLA_ICE_CREAM) {
+      promise.reject(PdfErrorCode.NOT_SUPPORTED, "Text extraction requires Android 15 (API 35).")
+      return
+    }
 
-    promise.resolve(pageCount)
+    workScope.launch {
+      try {
+        val pages = Arguments.createArray()
+        var hasText = false
+        readDocument(source, password) { renderer ->
+          for (pageNum in 0 until renderer.pageCount) {
+            // Release the lock between pages so visible viewers keep rendering.
+            val pageText = pdfMutex.withLock { readPageText(renderer, pageNum) }
+            if (pageText != null) {
+              hasText = true
+              pages.pushMap(pageText)
+            } else {
+              pages.pushMap(emptyPageText(pageNum))
+            }
+          }
+        }
+        if (hasText) {
+          promise.resolve(pages)
+        } else {
+          promise.reject(PdfErrorCode.NO_TEXT_LAYER, "Document has no text layer (scanned document?).")
+        }
+      } catch (e: Exception) {
+        rejectError(promise, e)
+      }
+    }
   }
 
   /**
-   * Get the dimensions of every page.
+   * Get the outline (table of contents) of a pdf.
+   */
+  @ReactMethod
+  fun getOutline(source: String, password: String, promise: Promise) {
+    workScope.launch {
+      try {
+        // Reject unreadable documents and wrong passwords like other methods.
+        readDocument(source, password) {}
+        // PdfRenderer does not expose document bookmarks.
+        val outline = PdfOutlineItem.read(sourceFile(source))
+        if (outline == null) {
+          promise.reject(PdfErrorCode.NOT_SUPPORTED, "Outline of encrypted documents is not supported on Android.")
+          return@launch
+        }
+        val result = Arguments.createArray()
+        outline.forEach { result.pushMap(it.toMap()) }
+        promise.resolve(result)
+      } catch (e: Exception) {
+        rejectError(promise, e)
+      }
+    }
+  }
+
+  /**
+   * Get the link annotations of a page.
    */
   @ReactMethod
-  fun getPageSizes(source: String, promise: Promise) {
-    val file = File(source)
-    val fd = try {
-      ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
-    } catch (e: FileNotFoundException) {
-      promise.reject("ENOENT", e)
+  fun getLinks(source: String, page: Int, password: String, promise: Promise) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.VANILLA_ICE_CREAM) {
+      promise.reject(PdfErrorCode.NOT_SUPPORTED, "Reading links requires Android 15 (API 35).")
       return
     }
 
-    val pageSizes = pdfMutex.withLock {
-      val renderer = try {
-        PdfRenderer(fd)
+    workScope.launch {
+      try {
+        val links = readDocument(source, password) { renderer ->
+          if (page < 0 || page >= renderer.pageCount) {
+            promise.reject(PdfErrorCode.PAGE_OUT_OF_RANGE, "Page $page is out of range.")
+            return@launch
+          }
+          pdfMutex.withLock { renderer.openPage(page).use { PdfLink.readPage(it) } }
+        }
+        val result = Arguments.createArray()
+        links.forEach { result.pushMap(it.toMap()) }
+        promise.resolve(result)
       } catch (e: Exception) {
-        fd.close()
-        promise.reject(e)
-        return
+        rejectError(promise, e)
       }
-      // Read dimensions (in pdf units) of all pages.
-      val pages = Arguments.createArray()
-      for (pageNum in 0 until renderer.pageCount) {
-        val pdfPage = try {
-          renderer.openPage(pageNum)
-        } catch (e: Exception) {
-          renderer.close()
-          fd.close()
-          promise.reject(e)
-          return
+    }
+  }
+
+  /**
+   * Get the document information and fingerprint of a pdf.
+   */
+  @ReactMethod
+  fun getMetadata(source: String, password: String, promise: Promise) {
+    // Hashing reads the entire file.
+    workScope.launch {
+      try {
+        val file = sourceFile(source)
+        val fingerprint = PdfFingerprint.compute(file)
+        if (password.isNotEmpty()) {
+          // Verify the password, even though it is not needed for reading.
+          readDocument(source, password) {}
         }
+        val encrypted = try {
+          readDocument(file.path, "") { false }
+        } catch (e: PdfPasswordException) {
+          true
+        }
+
+        // PdfRenderer does not expose the document information dictionary.
+        val info = if (encrypted) emptyMap() else PdfInfo.read(file)
+        val metadata = Arguments.createMap()
+        for (key in PdfInfo.FIELDS.keys) {
+          val value = info[key]
+          if (value != null) {
+            metadata.putString(key, value)
+          } else {
+            metadata.putNull(key)
+          }
+        }
+        metadata.putString("pdfVersion", readPdfVersion(file))
+        metadata.putBoolean("encrypted", encrypted)
+        metadata.putString("fingerprint", fingerprint)
+        promise.resolve(metadata)
+      } catch (e: Exception) {
+        rejectError(promise, e)
+      }
+    }
+  }
 
-        val pageDim = Arguments.createMap()
-        pageDim.putInt("height", pdfPage.height)
-        pageDim.putInt("width", pdfPage.width)
-        pages.pushMap(pageDim)
+  /**
+   * Render a page to an image file in the thumbnail cache.
+   */
+  @ReactMethod
+  fun renderPage(source: String, page: Int, options: ReadableMap, promise: Promise) {
+    val width = if (options.hasKey("width")) options.getDouble("width") else 0.0
+    val height = if (options.hasKey("height")) options.getDouble("height") else 0.0
+    val scale = if (options.hasKey("scale")) options.getDouble("scale") else 1.0
+    val isJpeg = options.hasKey("format") && options.getString("format") == "jpeg"
+    val quality = if (options.hasKey("quality")) options.getDouble("quality") else 0.9
+    val backgroundColor = if (options.hasKey("backgroundColor")) options.getInt("backgroundColor") else Color.WHITE
+    val password = if (options.hasKey("password")) options.getString("password") ?: "" else ""
 
-        pdfPage.close()
+    workScope.launch {
+      try {
+        val fingerprint = PdfFingerprint.compute(sourceFile(source))
+        val result = readDocument(source, password) { renderer ->
+          if (page < 0 || page >= renderer.pageCount) {
+            promise.reject(PdfErrorCode.PAGE_OUT_OF_RANGE, "Page $page is out of range.")
+            return@launch
+          }
+          val (pageWidth, pageHeight) = pdfMutex.withLock {
+            renderer.openPage(page).use { Pair(it.width.toDouble(), it.height.toDouble()) }
+          }
+
+          // Fit within the requested box, keeping the page aspect ratio.
+          val fit = when {
+            width > 0 && height > 0 -> minOf(width / pageWidth, height / pageHeight)
+            width > 0 -> width / pageWidth
+            height > 0 -> height / pageHeight
+            else -> 1.0
+          }
+          val pixelWidth = Math.round(pageWidth * fit * scale).toInt().coerceAtLeast(1)
+          val pixelHeight = Math.round(pageHeight * fit * scale).toInt().coerceAtLeast(1)
+
+          val colorHex = "%08x".format(backgroundColor)
+          val fileName = if (isJpeg) {
+            "${fingerprint}_${page}_${pixelWidth}x${pixelHeight}_${colorHex}_q${(quality * 100).toInt()}.jpg"
+          } else {
+            "${fingerprint}_${page}_${pixelWidth}x${pixelHeight}_${colorHex}.png"
+          }
+          val file = File(thumbnailDirectory(), fileName)
+          if (!file.exists()) {
+            val bitmap = PdfPageRenderer.renderPage(renderer, pdfMutex, page, pixelWidth, pixelHeight, backgroundColor)
+            if (bitmap == null) {
+              promise.reject(PdfErrorCode.RENDER_FAILED, "Failed to render page $page of '$source'.")
+              return@launch
+            }
+            // Write to a temporary file, so concurrent readers never see a
+            // partial image.
+            val tmp = File(file.parentFile, "$fileName.tmp")
+            try {
+              FileOutputStream(tmp).use { out ->
+                val format = if (isJpeg) Bitmap.CompressFormat.JPEG else Bitmap.CompressFormat.PNG
+                bitmap.compress(format, (quality * 100).toInt().coerceIn(0, 100), out)
+              }
+            } finally {
+              bitmap.recycle()
+            }
+            if (!tmp.renameTo(file)) {
+              tmp.delete()
+              promise.reject(PdfErrorCode.RENDER_FAILED, "Failed to write thumbnail '${file.path}'.")
+              return@launch
+            }
+          }
+
+          val rendered = Arguments.createMap()
+          rendered.putString("path", file.absolutePath)
+          rendered.putInt("width", pixelWidth)
+          rendered.putInt("height", pixelHeight)
+          rendered
+        }
+        promise.resolve(result)
+      } catch (e: Exception) {
+        rejectError(promise, e)
       }
-      renderer.close()
-      return@withLock pages
     }
-    fd.close()
+  }
 
-    promise.resolve(pageSizes)
+  /**
+   * Delete all images created by renderPage.
+   */
+  @ReactMethod
+  fun clearThumbnailCache(promise: Promise) {
+    workScope.launch {
+      if (File(reactApplicationContext.cacheDir, THUMBNAIL_DIR).deleteRecursively()) {
+        promise.resolve(null)
+      } else {
+        promise.reject(PdfErrorCode.UNKNOWN, "Failed to clear thumbnail cache.")
+      }
+    }
+  }
+
+  override fun invalidate() {
+    workScope.cancel()
+    PdfDocumentRegistry.closeAll(pdfMutex)
+    super.invalidate()
+  }
+
+  private fun isMatch(text: String, start: Int, query: String, caseSensitive: Boolean, wholeWord: Boolean): Boolean {
+    val end = start + query.length
+    if (start < 0 || end > text.length) {
+      // Text layer and search index disagree; trust the renderer.
+      return !caseSensitive && !wholeWord
+    }
+    if (caseSensitive && !text.regionMatches(start, query, 0, query.length)) {
+      return false
+    }
+    if (wholeWord) {
+      if (start > 0 && text[start - 1].isLetterOrDigit()) return false
+      if (end < text.length && text[end].isLetterOrDigit()) return false
+    }
+    return true
+  }
+
+  private fun snippet(text: String, start: Int, length: Int): String {
+    val context = 30
+    val from = (start - context).coerceIn(0, text.length)
+    val to = (start + length + context).coerceIn(from, text.length)
+    return text.substring(from, to).trim().replace(Regex("\\s+"), " ")
+  }
+
+  private fun sourceFile(source: String): File {
+    return if (PdfDocumentRegistry.isHandle(source)) PdfDocumentRegistry.fileOf(source) else File(source)
+  }
+
+  private fun thumbnailDirectory(): File {
+    val directory = File(reactApplicationContext.cacheDir, THUMBNAIL_DIR)
+    directory.mkdirs()
+    return directory
+  }
+
+  private fun rejectError(promise: Promise, e: Exception) {
+    when (e) {
+      is PdfDocumentClosedException -> promise.reject(PdfErrorCode.INVALID_ARGUMENT, e)
+      is FileNotFoundException -> promise.reject(PdfErrorCode.FILE_NOT_FOUND, e)
+      is PdfPasswordException -> promise.reject(e.code, e.message, e)
+      is UnsupportedOperationException -> promise.reject(PdfErrorCode.NOT_SUPPORTED, e)
+      // PdfRenderer reports unreadable documents as IOException.
+      is IOException -> promise.reject(PdfErrorCode.INVALID_PDF, e)
+      else -> promise.reject(PdfErrorCode.UNKNOWN, e)
+    }
+  }
+
+  /**
+   * Open a pdf for the duration of [block]. Document handles share the
+   * renderer opened by openDocument, and ignore [password].
+   */
+  private inline fun <T> readDocument(source: String, password: String, block: (PdfRenderer) -> T): T {
+    if (PdfDocumentRegistry.isHandle(source)) {
+      val document = PdfDocumentRegistry.acquire(source)
+      try {
+        return block(document.renderer)
+      } finally {
+        PdfDocumentRegistry.release(document, pdfMutex)
+      }
+    }
+
+    val fd = ParcelFileDescriptor.open(File(source), ParcelFileDescriptor.MODE_READ_ONLY)
+    try {
+      val renderer = pdfMutex.withLock { openPdfRenderer(fd, password) }
+      try {
+        return block(renderer)
+      } finally {
+        pdfMutex.withLock { renderer.close() }
+      }
+    } finally {
+      fd.close()
+    }
+  }
+
+  /**
+   * Read text and word bounds of a page. Returns null if the page has no text
+   * layer. Caller must hold pdfMutex.
+   */
+  @RequiresApi(Build.VERSION_CODES.VANILLA_ICE_CREAM)
+  private fun readPageText(renderer: PdfRenderer, pageNum: Int): WritableMap? {
+    renderer.openPage(pageNum).use { page ->
+      val text = page.textContents.joinToString("") { it.text ?: "" }
+      if (text.isBlank()) {
+        return null
+      }
+
+      val words = Arguments.createArray()
+      for (word in Regex("\\S+").findAll(text)) {
+        val selection = page.selectContent(
+          SelectionBoundary(word.range.first),
+          SelectionBoundary(word.range.last + 1)
+        ) ?: continue
+        val bounds = selection.selectedTextContents.flatMap { it.bounds }
+        if (bounds.isEmpty()) continue
+
+        val union = RectF(bounds[0])
+        bounds.forEach { union.union(it) }
+        val wordMap = Arguments.createMap()
+        wordMap.putString("text", word.value)
+        wordMap.putMap("rect", normalizedRect(union, page))
+        words.pushMap(wordMap)
+      }
+
+      val result = Arguments.createMap()
+      result.putInt("page", pageNum)
+      result.putString("text", text)
+      result.putArray("words", words)
+      return result
+    }
+  }
+
+  /**
+   * Read the version from the `%PDF-x.y` file header.
+   */
+  private fun readPdfVersion(file: File): String? {
+    val header = ByteArray(16)
+    val read = file.inputStream().use { it.read(header) }
+    if (read <= 0) return null
+    return Regex("^%PDF-(\\d+\\.\\d+)").find(String(header, 0, read, Charsets.ISO_8859_1))?.groupValues?.get(1)
+  }
+
+  private fun emptyPageText(pageNum: Int): WritableMap {
+    val result = Arguments.createMap()
+    result.putInt("page", pageNum)
+    result.putString("text", "")
+    result.putArray("words", Arguments.createArray())
+    return result
+  }
+
+  /**
+   * Convert bounds in pdf points to a rect normalized to page dimensions.
+   */
+  private fun normalizedRect(bounds: RectF, page: PdfRenderer.Page): WritableMap {
+    val rect = Arguments.createMap()
+    rect.putDouble("x", (bounds.left / page.width).toDouble())
+    rect.putDouble("y", (bounds.top / page.height).toDouble())
+    rect.putDouble("width", (bounds.width() / page.width).toDouble())
+    rect.putDouble("height", (bounds.height() / page.height).toDouble())
+    return rect
   }
 }
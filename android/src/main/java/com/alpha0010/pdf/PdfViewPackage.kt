@@ -12,14 +12,19 @@ class PdfViewPackage : ReactPackage {
   }
 
   override fun createNativeModules(reactContext: ReactApplicationContext): List<NativeModule> {
-    return listOf<NativeModule>(PdfUtilModule(reactContext, pdfMutex))
+    return listOf<NativeModule>(
+      PdfUtilModule(reactContext, pdfMutex),
+      PdfCacheModule(reactContext),
+      PdfViewerModule(reactContext)
+    )
   }
 
   override fun createViewManagers(reactContext: ReactApplicationContext): List<ViewManager<*, *>> {
     return listOf<ViewManager<*, *>>(
       DrawablePdfViewManager(pdfMutex),
       ZoomablePdfScrollViewManager(pdfMutex),
-      PagingPdfViewManager(pdfMutex)
+      PagingPdfViewManager(pdfMutex),
+      PdfPageOverlayManager()
     )
   }
 }
@@ -0,0 +1,35 @@
+package com.alpha0010.pdf
+
+import com.facebook.react.bridge.*
+import com.facebook.react.uimanager.IllegalViewOperationException
+import com.facebook.react.uimanager.UIManagerModule
+
+class PdfViewerModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+  override fun getName(): String {
+    return "RNPdfViewer"
+  }
+
+  /**
+   * Get the current page, zoom and scroll offset of a viewer.
+   */
+  @ReactMethod
+  fun getViewState(viewTag: Int, promise: Promise) {
+    val uiManager = reactApplicationContext.getNativeModule(UIManagerModule::class.java)
+    if (uiManager == null) {
+      promise.reject(PdfErrorCode.UNKNOWN, "UIManager is not available.")
+      return
+    }
+    uiManager.addUIBlock { nativeViewHierarchyManager ->
+      val view = try {
+        nativeViewHierarchyManager.resolveView(viewTag)
+      } catch (e: IllegalViewOperationException) {
+        null
+      }
+      if (view is PdfViewStateProvider) {
+        promise.resolve(view.getViewState())
+      } else {
+        promise.reject(PdfErrorCode.INVALID_ARGUMENT, "No pdf viewer with tag $viewTag.")
+      }
+    }
+  }
+}
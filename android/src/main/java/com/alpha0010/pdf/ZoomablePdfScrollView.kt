@@ -6,6 +6,7 @@ import android.content.Context
 import android.graphics.*
 import android.graphics.pdf.PdfRenderer
 import android.os.ParcelFileDescriptor
+import android.os.SystemClock
 import android.util.Log
 import android.util.LruCache
 import android.view.GestureDetector
@@ -19,11 +20,13 @@ import androidx.recyclerview.widget.LinearLayoutManager
 import androidx.recyclerview.widget.RecyclerView
 import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.ReactContext
+import com.facebook.react.bridge.WritableMap
 import com.facebook.react.uimanager.PixelUtil
 import com.facebook.react.uimanager.events.RCTEventEmitter
 import kotlinx.coroutines.*
 import java.io.File
 import java.io.FileNotFoundException
+import java.io.IOException
 import java.util.concurrent.locks.Lock
 import kotlin.concurrent.withLock
 
@@ -31,23 +34,53 @@ import kotlin.concurrent.withLock
  * Zoomable scrollable PDF viewer using RecyclerView for virtualization.
  */
 @SuppressLint("ViewConstructor")
-class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : FrameLayout(context) {
+class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : FrameLayout(context), PdfViewStateProvider {
 
     // Props
     private var mSource = ""
+    private var mPassword = ""
+    private var mSourceChanged = false
     private var mMinScale = 1f
     private var mMaxScale = 3f
     private var mEdgeTapZone = 15f
     private var mPaddingTop = 0
     private var mPaddingBottom = 0
     private var mBackgroundColor = Color.DKGRAY
+    private var mHighlights = emptyList<PdfHighlight>()
+    private var mActiveHighlight = -1
+    private var mHighlightColor: Int? = null
+    private var mActiveHighlightColor: Int? = null
+    private var mAnnotations = emptyMap<Int, AnnotationPage>()
+    private var mInitialPage = 0
+    private var mInitialZoom = 1f
+    private var mScrollEventThrottle = 16L
+    private var mFollowInternalLinks = true
+    private var mShowLinkAreas = false
 
     // PDF state
     private var mPdfRenderer: PdfRenderer? = null
     private var mFileDescriptor: ParcelFileDescriptor? = null
+    private var mSharedDocument: SharedPdfDocument? = null
     private var mPdfPageWidth = 0
     private var mPdfPageHeight = 0
     private var mActualPageCount = 0
+    private var mFingerprint = ""
+    private var mFingerprintJob: Job? = null
+
+    // Links of the rendered pages
+    private val mLinks = HashMap<Int, List<PdfLink>>()
+
+    // Drawing state
+    private val mDrawing = PageDrawing(
+        onPageChanged = { page -> bindStrokes(page) },
+        emit = { eventName, event -> onDrawingEvent(eventName, event) }
+    )
+
+    // Whether the current touch draws, and the focus of a two finger
+    // gesture scrolling while drawing
+    private var mDrawingTouch = false
+    private var mLastDrawingFocus: PointF? = null
+    private var mDrawingScrollRemainder = 0f
 
     // Zoom state
     private var mScale = 1f
@@ -58,6 +91,13 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
     // Views
     private val mRecyclerView: RecyclerView
     private val mAdapter: PdfPageAdapter
+    private val mOverlayLayout: PageOverlayLayout
+
+    // Page overlays, in React order
+    private val mOverlays = mutableListOf<PdfPageOverlayView>()
+
+    // Whether the current touch started on overlay content
+    private var mOverlayTouch = false
 
     // Image cache (LruCache with max 10MB or 10 pages)
     private val mImageCache: LruCache<Int, Bitmap>
@@ -80,6 +120,11 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
     // Zoom animation
     private var zoomAnimator: ValueAnimator? = null
 
+    // Throttled scroll events
+    private var mLastScrollEventTime = 0L
+    private var mVisiblePages = emptyList<VisiblePage>()
+    private val mScrollEventRunnable = Runnable { dispatchScrollEvents() }
+
     init {
         // Initialize cache (10MB max)
         val maxMemory = (Runtime.getRuntime().maxMemory() / 1024).toInt()
@@ -102,6 +147,12 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
 
         addView(mRecyclerView)
 
+        // Page overlays, transformed with the page list
+        mOverlayLayout = PageOverlayLayout(context) { page -> overlayRect(page) }.apply {
+            layoutParams = LayoutParams(LayoutParams.MATCH_PARENT, LayoutParams.MATCH_PARENT)
+        }
+        addView(mOverlayLayout)
+
         // Setup scale gesture detector
         mScaleDetector = ScaleGestureDetector(context, object : ScaleGestureDetector.SimpleOnScaleGestureListener() {
             override fun onScaleBegin(detector: ScaleGestureDetector): Boolean {
@@ -156,6 +207,9 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
                 // Only handle edge taps here (instant response)
                 if (tapX < leftEdge || tapX > rightEdge) {
                     Log.d("PDF_TAP", "onSingleTapUp: EDGE TAP detected!")
+                    if (handleLinkTap(e)) return true
+                    // Before the edge tap scrolls the content away
+                    onPageGesture("onPageTap", e)
                     handleEdgeTap(tapX)
                     return true
                 }
@@ -175,6 +229,8 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
                 // Only handle middle zone here
                 if (tapX >= leftEdge && tapX <= rightEdge) {
                     Log.d("PDF_TAP", "onSingleTapConfirmed: MIDDLE TAP!")
+                    if (handleLinkTap(e)) return true
+                    onPageGesture("onPageTap", e)
                     onMiddleClick()
                     return true
                 }
@@ -183,6 +239,7 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
 
             override fun onDoubleTap(e: MotionEvent): Boolean {
                 Log.d("PDF_TAP", "onDoubleTap: x=${e.x}")
+                onPageGesture("onPageDoubleTap", e)
                 // Only handle double tap in middle zone
                 val tapX = e.x
                 val tapY = e.y
@@ -221,6 +278,10 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
 
                 return true
             }
+
+            override fun onLongPress(e: MotionEvent) {
+                onPageGesture("onPageLongPress", e)
+            }
         })
 
         // Setup pan gesture detector for horizontal panning when zoomed
@@ -240,6 +301,8 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         mRecyclerView.addOnScrollListener(object : RecyclerView.OnScrollListener() {
             override fun onScrolled(recyclerView: RecyclerView, dx: Int, dy: Int) {
                 updateCurrentPage()
+                mOverlayLayout.layoutOverlays()
+                onViewportChange()
             }
         })
     }
@@ -263,8 +326,14 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         mRecyclerView.scaleY = mScale
         mRecyclerView.pivotX = 0f
         mRecyclerView.pivotY = mPivotY
+        mOverlayLayout.translationX = mOffsetX
+        mOverlayLayout.scaleX = mScale
+        mOverlayLayout.scaleY = mScale
+        mOverlayLayout.pivotX = 0f
+        mOverlayLayout.pivotY = mPivotY
         // Update padding to allow scrolling to see all zoomed content
         updateRecyclerViewPadding()
+        onViewportChange()
     }
 
     @SuppressLint("ClickableViewAccessibility")
@@ -275,11 +344,23 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
 
     @SuppressLint("ClickableViewAccessibility")
     override fun onTouchEvent(event: MotionEvent): Boolean {
+        if (mDrawing.isDrawing) {
+            handleDrawingTouch(event)
+            return true
+        }
+
         // Always process scale gestures
         mScaleDetector.onTouchEvent(event)
 
+        // Taps on overlay content belong to the overlay
+        if (event.actionMasked == MotionEvent.ACTION_DOWN) {
+            mOverlayTouch = mOverlayLayout.hasContentAt(event.x, event.y)
+        }
+
         // Process taps (edge taps via onSingleTapUp, middle via onSingleTapConfirmed/onDoubleTap)
-        mGestureDetector.onTouchEvent(event)
+        if (!mOverlayTouch) {
+            mGestureDetector.onTouchEvent(event)
+        }
 
         // Handle pan when zoomed
         if (mScale > 1f) {
@@ -294,15 +375,137 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         return true
     }
 
+    /**
+     * Draw or erase with one finger. A second finger discards the stroke and
+     * zooms and scrolls instead.
+     */
+    private fun handleDrawingTouch(event: MotionEvent) {
+        mScaleDetector.onTouchEvent(event)
+
+        when (event.actionMasked) {
+            MotionEvent.ACTION_DOWN -> {
+                zoomAnimator?.cancel()
+                mRecyclerView.stopScroll()
+                mLastDrawingFocus = null
+                mDrawingTouch = false
+                val (page, point) = pagePointAt(event.x, event.y) ?: return
+                mDrawingTouch = true
+                mDrawing.begin(page, point, mScale)
+            }
+            MotionEvent.ACTION_POINTER_DOWN, MotionEvent.ACTION_POINTER_UP -> {
+                if (mDrawingTouch) {
+                    mDrawingTouch = false
+                    mDrawing.cancel()
+                }
+                mLastDrawingFocus = null
+            }
+            MotionEvent.ACTION_MOVE -> {
+                if (mDrawingTouch) {
+                    val point = pointOnPage(event.x, event.y, mDrawing.activePage) ?: return
+                    mDrawing.move(point, mScale)
+                } else if (event.pointerCount > 1) {
+                    scrollWhileDrawing(event)
+                }
+            }
+            MotionEvent.ACTION_UP -> {
+                if (mDrawingTouch) {
+                    mDrawingTouch = false
+                    mDrawing.end()
+                }
+            }
+            MotionEvent.ACTION_CANCEL -> {
+                mDrawingTouch = false
+                mDrawing.cancel()
+            }
+        }
+    }
+
+    /**
+     * Follow the focus of a multi finger gesture, as the page list only
+     * scrolls with single finger events.
+     */
+    private fun scrollWhileDrawing(event: MotionEvent) {
+        var sumX = 0f
+        var sumY = 0f
+        for (i in 0 until event.pointerCount) {
+            sumX += event.getX(i)
+            sumY += event.getY(i)
+        }
+        val focus = PointF(sumX / event.pointerCount, sumY / event.pointerCount)
+        val lastFocus = mLastDrawingFocus
+        mLastDrawingFocus = focus
+        if (lastFocus == null) return
+
+        mOffsetX += focus.x - lastFocus.x
+        constrainOffset()
+        applyTransform()
+
+        // Scroll the unscaled page list, keeping the fraction lost to rounding
+        mDrawingScrollRemainder += (lastFocus.y - focus.y) / mScale
+        val dy = mDrawingScrollRemainder.toInt()
+        mDrawingScrollRemainder -= dy
+        if (dy != 0) {
+            mRecyclerView.scrollBy(0, dy)
+        }
+    }
+
+    // --- Page overlays ---
+
+    val overlayCount: Int
+        get() = mOverlays.size
+
+    fun getOverlayAt(index: Int): PdfPageOverlayView = mOverlays[index]
+
+    fun addOverlay(overlay: PdfPageOverlayView, index: Int) {
+        mOverlays.add(index, overlay)
+        overlay.onPageChanged = { mOverlayLayout.layoutOverlays() }
+        mOverlayLayout.setOverlays(mOverlays)
+    }
+
+    fun removeOverlayAt(index: Int) {
+        mOverlays.removeAt(index).onPageChanged = null
+        mOverlayLayout.setOverlays(mOverlays)
+    }
+
+    /**
+     * Rect of a page in the unscaled page list, or null if it is not laid
+     * out.
+     */
+    private fun overlayRect(page: Int): Rect? {
+        val pageHeight = getPageHeight()
+        val child = mRecyclerView.getChildAt(0) ?: return null
+        val position = mRecyclerView.getChildAdapterPosition(child)
+        if (position == RecyclerView.NO_POSITION || page < 0 || page >= mActualPageCount || pageHeight <= 0) return null
+        val top = child.top + (page - position) * pageHeight
+        return Rect(0, top, width, top + pageHeight)
+    }
+
     // --- Setters ---
 
     fun setSource(source: String) {
         if (mSource != source) {
             mSource = source
-            reloadPdf()
+            mSourceChanged = true
+        }
+    }
+
+    fun setPassword(password: String) {
+        if (mPassword != password) {
+            mPassword = password
+            mSourceChanged = true
         }
     }
 
+    /**
+     * Reload the document if source or password changed. Called after all
+     * props of an update are set, so they are applied together.
+     */
+    fun reloadIfSourceChanged() {
+        if (!mSourceChanged) return
+        mSourceChanged = false
+        reloadPdf()
+    }
+
     fun setMinZoom(minZoom: Float) {
         mMinScale = minZoom.coerceAtLeast(0.5f)
         if (mScale < mMinScale) {
@@ -321,6 +524,18 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         }
     }
 
+    fun setInitialPage(page: Int) {
+        mInitialPage = page
+    }
+
+    fun setInitialZoom(zoom: Float) {
+        mInitialZoom = zoom
+    }
+
+    fun setScrollEventThrottle(throttle: Int) {
+        mScrollEventThrottle = throttle.coerceAtLeast(0).toLong()
+    }
+
     fun setEdgeTapZone(zone: Float) {
         mEdgeTapZone = zone.coerceIn(0f, 50f)
     }
@@ -330,6 +545,109 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         setBackgroundColor(color)
     }
 
+    fun setDrawingMode(mode: String) {
+        if (!mDrawing.setMode(mode)) {
+            onError("Unknown drawingMode '$mode'.", PdfErrorCode.INVALID_ARGUMENT)
+        }
+    }
+
+    fun setStrokeColor(color: String) {
+        mDrawing.strokeColor = color
+    }
+
+    fun setStrokeWidth(width: Float) {
+        mDrawing.strokeWidth = width
+    }
+
+    fun setStrokeOpacity(opacity: Float) {
+        mDrawing.strokeOpacity = opacity
+    }
+
+    fun setStrokes(json: String) {
+        try {
+            mDrawing.setStrokes(json)
+        } catch (e: Exception) {
+            onError("Failed to parse strokes JSON: ${e.message}", PdfErrorCode.INVALID_ARGUMENT)
+        }
+    }
+
+    fun clearStrokes(page: Int) {
+        mDrawing.clear(page)
+    }
+
+    fun setAnnotations(json: String) {
+        mAnnotations = AnnotationPage.parseMap(json)
+        updateVisibleHighlights()
+    }
+
+    fun setHighlights(json: String) {
+        mHighlights = PdfHighlight.parse(json)
+        updateVisibleHighlights()
+    }
+
+    fun setActiveHighlight(index: Int) {
+        mActiveHighlight = index
+        updateVisibleHighlights()
+    }
+
+    fun setHighlightColor(color: Int?) {
+        mHighlightColor = color
+        updateVisibleHighlights()
+    }
+
+    fun setActiveHighlightColor(color: Int?) {
+        mActiveHighlightColor = color
+        updateVisibleHighlights()
+    }
+
+    private fun updateVisibleHighlights() {
+        for (i in 0 until mRecyclerView.childCount) {
+            val holder = mRecyclerView.getChildViewHolder(mRecyclerView.getChildAt(i)) as? PdfPageViewHolder ?: continue
+            val position = holder.bindingAdapterPosition
+            if (position != RecyclerView.NO_POSITION) {
+                bindHighlights(holder, position)
+            }
+        }
+    }
+
+    private fun bindHighlights(holder: PdfPageViewHolder, page: Int) {
+        val (rects, activeRects) = highlightRectsForPage(mHighlights, mActiveHighlight, page)
+        holder.imageView.setHighlights(rects, activeRects, mHighlightColor, mActiveHighlightColor)
+        holder.imageView.setAnnotation(mAnnotations[page])
+        holder.imageView.setStrokes(mDrawing.strokesOn(page), mDrawing.activeStrokeOn(page))
+        val links = if (mShowLinkAreas) mLinks[page] else null
+        holder.imageView.setLinkAreas(links?.map { it.rect } ?: emptyList())
+    }
+
+    private fun bindStrokes(page: Int) {
+        val holder = mRecyclerView.findViewHolderForAdapterPosition(page) as? PdfPageViewHolder ?: return
+        holder.imageView.setStrokes(mDrawing.strokesOn(page), mDrawing.activeStrokeOn(page))
+    }
+
+    fun setFollowInternalLinks(follow: Boolean) {
+        mFollowInternalLinks = follow
+    }
+
+    fun setShowLinkAreas(show: Boolean) {
+        mShowLinkAreas = show
+        updateVisibleHighlights()
+    }
+
+    /**
+     * Follow the internal link under a tap, or report it to React. Returns
+     * false if there is no link under the tap.
+     */
+    private fun handleLinkTap(e: MotionEvent): Boolean {
+        val (page, point) = pagePointAt(e.x, e.y) ?: return false
+        val link = linkAt(mLinks[page], point) ?: return false
+        if (link.page != null && mFollowInternalLinks) {
+            scrollToPage(link.page, true)
+        } else {
+            onLinkPress(link)
+        }
+        return true
+    }
+
     fun setPdfPaddingTop(padding: Float) {
         mPaddingTop = PixelUtil.toPixelFromDIP(padding).toInt().coerceAtLeast(0)
         updateRecyclerViewPadding()
@@ -370,12 +688,23 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
 
         // Clear cache
         mImageCache.evictAll()
+        mLinks.clear()
+        mDrawing.cancel()
+        mVisiblePages = emptyList()
 
-        // Open PDF
-        val file = File(mSource)
+        // Open PDF (or share the one opened by PdfUtil.open())
         try {
-            mFileDescriptor = ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
-            mPdfRenderer = PdfRenderer(mFileDescriptor!!)
+            val file: File
+            if (PdfDocumentRegistry.isHandle(mSource)) {
+                val document = PdfDocumentRegistry.acquire(mSource)
+                mSharedDocument = document
+                mPdfRenderer = document.renderer
+                file = document.file
+            } else {
+                file = File(mSource)
+                mFileDescriptor = ParcelFileDescriptor.open(file, ParcelFileDescriptor.MODE_READ_ONLY)
+                mPdfRenderer = openPdfRenderer(mFileDescriptor!!, mPassword)
+            }
 
             // Get dimensions from first page
             mPdfRenderer?.let { renderer ->
@@ -390,26 +719,72 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
             }
 
             mAdapter.notifyDataSetChanged()
-
-            // Notify load complete
-            onLoadComplete()
+            applyInitialPosition()
+
+            // Notify load complete once the document is hashed, which reads
+            // the entire file.
+            mFingerprintJob = renderScope.launch {
+                mFingerprint = try {
+                    withContext(Dispatchers.IO) { PdfFingerprint.compute(file) }
+                } catch (e: IOException) {
+                    onError("Failed to open PDF: ${e.message}", PdfErrorCode.INVALID_PDF)
+                    return@launch
+                }
+                onLoadComplete()
+                if (mCurrentPage > 0) {
+                    onPageChange()
+                }
+                if (mScale != 1f) {
+                    onZoomChange()
+                }
+            }
 
         } catch (e: FileNotFoundException) {
-            onError("File '$mSource' not found.")
+            onError("File '$mSource' not found.", PdfErrorCode.FILE_NOT_FOUND)
+        } catch (e: PdfPasswordException) {
+            onError(e.message ?: "Failed to open PDF.", e.code)
+        } catch (e: UnsupportedOperationException) {
+            onError(e.message ?: "Failed to open PDF.", PdfErrorCode.NOT_SUPPORTED)
+        } catch (e: PdfDocumentClosedException) {
+            onError(e.message ?: "Failed to open PDF.", PdfErrorCode.INVALID_ARGUMENT)
         } catch (e: Exception) {
-            onError("Failed to open PDF: ${e.message}")
+            onError("Failed to open PDF: ${e.message}", PdfErrorCode.INVALID_PDF)
         }
     }
 
+    /**
+     * Position a newly loaded document at the initial page and zoom. Runs
+     * before the first layout of the pages, so no other page is shown first.
+     */
+    private fun applyInitialPosition() {
+        val page = mInitialPage.coerceIn(0, (mActualPageCount - 1).coerceAtLeast(0))
+        (mRecyclerView.layoutManager as? LinearLayoutManager)?.scrollToPositionWithOffset(page, 0)
+        mCurrentPage = page
+
+        zoomAnimator?.cancel()
+        mScale = mInitialZoom.coerceIn(mMinScale, mMaxScale)
+        mOffsetX = 0f
+        mPivotY = 0f
+        applyTransform()
+    }
+
     private fun closePdf() {
+        mFingerprintJob?.cancel()
+        mFingerprintJob = null
+        val sharedDocument = mSharedDocument
+        mSharedDocument = null
         pdfMutex.withLock {
             try {
-                mPdfRenderer?.close()
+                // Shared documents are closed by the registry.
+                if (sharedDocument == null) {
+                    mPdfRenderer?.close()
+                }
             } catch (e: Exception) {
                 // Ignore errors during cleanup (e.g., page still open from cancelled render)
             }
             mPdfRenderer = null
         }
+        sharedDocument?.let { PdfDocumentRegistry.release(it, pdfMutex) }
         try {
             mFileDescriptor?.close()
         } catch (e: Exception) {
@@ -457,6 +832,10 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
 
             // Force re-bind all visible items
             mAdapter.notifyDataSetChanged()
+        } else {
+            // Zoom padding depends on height, unknown when an initial zoom
+            // was applied before the first layout.
+            updateRecyclerViewPadding()
         }
         mPreviousWidth = w
     }
@@ -503,6 +882,38 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         animateZoomTo(mMinScale, 0f)
     }
 
+    /**
+     * Zoom to a scale (within the zoom limits) around a point of the
+     * viewport (in pixels), or its center.
+     */
+    fun setZoom(scale: Float, focus: PointF?, animated: Boolean) {
+        if (width <= 0 || height <= 0) return
+        val targetScale = scale.coerceIn(mMinScale, mMaxScale)
+        val focusX = focus?.x ?: (width / 2f)
+        val focusY = focus?.y ?: (height / 2f)
+
+        // Keep the content under the focus point stationary.
+        val contentX = (focusX - mOffsetX) / mScale
+        val minOffsetX = (width - width * targetScale).coerceAtMost(0f)
+        val targetOffsetX = (focusX - contentX * targetScale).coerceIn(minOffsetX, 0f)
+
+        // Moving the pivot shifts the scaled content; scroll to compensate.
+        zoomAnimator?.cancel()
+        val pivotShift = ((focusY - mPivotY) * (1 - mScale) / mScale).toInt()
+        if (pivotShift != 0) {
+            mRecyclerView.scrollBy(0, pivotShift)
+        }
+        mPivotY = focusY
+        if (animated) {
+            animateZoomTo(targetScale, targetOffsetX, 0, focusY)
+        } else {
+            mScale = targetScale
+            mOffsetX = targetOffsetX
+            applyTransform()
+            onZoomChange()
+        }
+    }
+
     fun scrollToPage(page: Int, animated: Boolean) {
         if (page < 0 || page >= mActualPageCount) return
 
@@ -514,10 +925,197 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         }
     }
 
+    /**
+     * Zoom so that a rect (normalized to page dimensions) fills the viewport,
+     * within the zoom limits.
+     */
+    fun zoomToRect(page: Int, rect: RectF, animated: Boolean) {
+        if (page < 0 || page >= mActualPageCount || width <= 0 || height <= 0) return
+        val pageHeight = getPageHeight()
+        if (pageHeight <= 0) return
+        val layoutManager = mRecyclerView.layoutManager as? LinearLayoutManager ?: return
+
+        val rectWidth = (rect.width() * width).coerceAtLeast(1f)
+        val rectHeight = (rect.height() * pageHeight).coerceAtLeast(1f)
+        val targetScale = minOf(width / rectWidth, height / rectHeight).coerceIn(mMinScale, mMaxScale)
+
+        // Scroll the rect center to the vertical center of the viewport, and
+        // zoom around that point.
+        val centerY = rect.centerY() * pageHeight
+        layoutManager.scrollToPositionWithOffset(page, (height / 2f - centerY).toInt() - mRecyclerView.paddingTop)
+        val targetPivotY = height / 2f
+
+        val centerX = rect.centerX() * width
+        val minOffsetX = (width - width * targetScale).coerceAtMost(0f)
+        val targetOffsetX = (width / 2f - centerX * targetScale).coerceIn(minOffsetX, 0f)
+
+        if (animated) {
+            animateZoomTo(targetScale, targetOffsetX, 0, targetPivotY)
+        } else {
+            zoomAnimator?.cancel()
+            mScale = targetScale
+            mOffsetX = targetOffsetX
+            mPivotY = targetPivotY
+            applyTransform()
+            onZoomChange()
+        }
+    }
+
+    /**
+     * Show a page at a zoom level, with the top left corner of the viewport
+     * at an offset normalized to page dimensions. Inverse of getViewState().
+     */
+    fun restoreLocation(page: Int, offset: PointF, scale: Float) {
+        if (page < 0 || page >= mActualPageCount || width <= 0) return
+        val pageHeight = getPageHeight()
+        val layoutManager = mRecyclerView.layoutManager as? LinearLayoutManager ?: return
+
+        // With the pivot at the top, the viewport top maps to the unscaled
+        // top of the list.
+        zoomAnimator?.cancel()
+        mScale = scale.coerceIn(mMinScale, mMaxScale)
+        mPivotY = 0f
+        mOffsetX = -offset.x * width * mScale
+        constrainOffset()
+        applyTransform()
+        layoutManager.scrollToPositionWithOffset(page, -(offset.y * pageHeight).toInt() - mRecyclerView.paddingTop)
+        onZoomChange()
+    }
+
+    override fun getViewState(): WritableMap {
+        // Map the top left corner of the viewport into the unscaled page list.
+        var x = 0f
+        var y = 0f
+        val pageHeight = getPageHeight()
+        val pageView = (mRecyclerView.layoutManager as? LinearLayoutManager)?.findViewByPosition(mCurrentPage)
+        if (width > 0 && pageHeight > 0 && pageView != null) {
+            x = -mOffsetX / mScale / width
+            y = (mPivotY * (1 - 1 / mScale) - pageView.top) / pageHeight
+        }
+
+        val offset = Arguments.createMap()
+        offset.putDouble("x", x.toDouble())
+        offset.putDouble("y", y.toDouble())
+        val state = Arguments.createMap()
+        state.putInt("page", mCurrentPage)
+        state.putDouble("scale", mScale.toDouble())
+        state.putMap("offset", offset)
+        return state
+    }
+
+    // --- Scroll events ---
+
+    /**
+     * Schedule onPdfScroll and onVisiblePagesChange, at most once per
+     * scrollEventThrottle. The final position is always reported.
+     */
+    private fun onViewportChange() {
+        removeCallbacks(mScrollEventRunnable)
+        val elapsed = SystemClock.uptimeMillis() - mLastScrollEventTime
+        if (elapsed >= mScrollEventThrottle) {
+            dispatchScrollEvents()
+        } else {
+            postDelayed(mScrollEventRunnable, mScrollEventThrottle - elapsed)
+        }
+    }
+
+    private fun dispatchScrollEvents() {
+        val pageHeight = getPageHeight()
+        val child = mRecyclerView.getChildAt(0) ?: return
+        val position = mRecyclerView.getChildAdapterPosition(child)
+        if (position == RecyclerView.NO_POSITION || width <= 0 || height <= 0 || pageHeight <= 0) return
+        mLastScrollEventTime = SystemClock.uptimeMillis()
+
+        // Viewport in unscaled list coordinates, relative to the top of the
+        // first page.
+        val listTop = child.top - position * pageHeight
+        val left = -mOffsetX / mScale
+        val top = mPivotY * (1 - 1 / mScale) - listTop
+        val viewportWidth = width / mScale
+        val viewportHeight = height / mScale
+
+        onPdfScroll(left * mScale, top * mScale, pageHeight)
+
+        val visiblePages = mutableListOf<VisiblePage>()
+        val firstPage = (top / pageHeight).toInt().coerceAtLeast(0)
+        val lastPage = ((top + viewportHeight) / pageHeight).toInt().coerceAtMost(mActualPageCount - 1)
+        for (page in firstPage..lastPage) {
+            val pageTop = page * pageHeight.toFloat()
+            val x1 = left.coerceIn(0f, width.toFloat())
+            val x2 = (left + viewportWidth).coerceIn(0f, width.toFloat())
+            val y1 = top.coerceIn(pageTop, pageTop + pageHeight)
+            val y2 = (top + viewportHeight).coerceIn(pageTop, pageTop + pageHeight)
+            if (x2 <= x1 || y2 <= y1) continue
+            val rect = NormalizedRect(x1 / width, (y1 - pageTop) / pageHeight, (x2 - x1) / width, (y2 - y1) / pageHeight)
+            visiblePages.add(VisiblePage(page, rect, rect.width * rect.height))
+        }
+        if (visiblePages != mVisiblePages) {
+            mVisiblePages = visiblePages
+            onVisiblePagesChange()
+        }
+    }
+
+    /**
+     * Point of the view in the unscaled page list, or null before layout.
+     */
+    private fun listPointAt(x: Float, y: Float): PointF? {
+        val pageHeight = getPageHeight()
+        val child = mRecyclerView.getChildAt(0) ?: return null
+        val position = mRecyclerView.getChildAdapterPosition(child)
+        if (position == RecyclerView.NO_POSITION || width <= 0 || pageHeight <= 0) return null
+
+        // Map the point into the unscaled page list, as in dispatchScrollEvents().
+        val listTop = child.top - position * pageHeight
+        return PointF((x - mOffsetX) / mScale, mPivotY + (y - mPivotY) / mScale - listTop)
+    }
+
+    /**
+     * Page under a point of the view, and the point normalized to that page.
+     */
+    private fun pagePointAt(x: Float, y: Float): Pair<Int, PointF>? {
+        val listPoint = listPointAt(x, y) ?: return null
+        val pageHeight = getPageHeight()
+        if (listPoint.x < 0 || listPoint.x > width || listPoint.y < 0) return null
+        val page = (listPoint.y / pageHeight).toInt()
+        if (page >= mActualPageCount) return null
+        return Pair(page, PointF(listPoint.x / width, listPoint.y / pageHeight - page))
+    }
+
+    /**
+     * Point of the view normalized to a page, possibly outside of the page.
+     */
+    private fun pointOnPage(x: Float, y: Float, page: Int): PointF? {
+        val listPoint = listPointAt(x, y) ?: return null
+        return PointF(listPoint.x / width, listPoint.y / getPageHeight() - page)
+    }
+
     // --- React Native events ---
 
-    private fun onError(message: String) {
+    private fun onPageGesture(eventName: String, e: MotionEvent) {
+        val (page, point) = pagePointAt(e.x, e.y) ?: return
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, eventName, pagePointEvent(page, point, mPdfPageWidth, mPdfPageHeight)
+        )
+    }
+
+    private fun onDrawingEvent(eventName: String, event: WritableMap) {
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, eventName, event
+        )
+    }
+
+    private fun onLinkPress(link: PdfLink) {
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, "onLinkPress", link.toMap()
+        )
+    }
+
+    private fun onError(message: String, code: String) {
         val event = Arguments.createMap()
+        event.putString("code", code)
         event.putString("message", message)
         val reactContext = context as ReactContext
         reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
@@ -530,12 +1128,52 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         event.putInt("width", mPdfPageWidth)
         event.putInt("height", mPdfPageHeight)
         event.putInt("pageCount", mActualPageCount)
+        event.putString("fingerprint", mFingerprint)
         val reactContext = context as ReactContext
         reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
             id, "onPdfLoadComplete", event
         )
     }
 
+    private fun onPdfScroll(x: Float, y: Float, pageHeight: Int) {
+        val contentOffset = Arguments.createMap()
+        contentOffset.putDouble("x", PixelUtil.toDIPFromPixel(x).toDouble())
+        contentOffset.putDouble("y", PixelUtil.toDIPFromPixel(y).toDouble())
+        val contentSize = Arguments.createMap()
+        contentSize.putDouble("width", PixelUtil.toDIPFromPixel(width * mScale).toDouble())
+        contentSize.putDouble("height", PixelUtil.toDIPFromPixel(mActualPageCount * pageHeight * mScale).toDouble())
+        val event = Arguments.createMap()
+        event.putMap("contentOffset", contentOffset)
+        event.putMap("contentSize", contentSize)
+        event.putDouble("scale", mScale.toDouble())
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, "onPdfScroll", event
+        )
+    }
+
+    private fun onVisiblePagesChange() {
+        val pages = Arguments.createArray()
+        for (visible in mVisiblePages) {
+            val rect = Arguments.createMap()
+            rect.putDouble("x", visible.rect.x.toDouble())
+            rect.putDouble("y", visible.rect.y.toDouble())
+            rect.putDouble("width", visible.rect.width.toDouble())
+            rect.putDouble("height", visible.rect.height.toDouble())
+            val page = Arguments.createMap()
+            page.putInt("page", visible.page)
+            page.putMap("visibleRect", rect)
+            page.putDouble("visibleFraction", visible.fraction.toDouble())
+            pages.pushMap(page)
+        }
+        val event = Arguments.createMap()
+        event.putArray("pages", pages)
+        val reactContext = context as ReactContext
+        reactContext.getJSModule(RCTEventEmitter::class.java).receiveEvent(
+            id, "onVisiblePagesChange", event
+        )
+    }
+
     private fun onPageChange() {
         val event = Arguments.createMap()
         event.putInt("page", mCurrentPage)
@@ -694,6 +1332,7 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
     override fun onDetachedFromWindow() {
         super.onDetachedFromWindow()
         zoomAnimator?.cancel()
+        removeCallbacks(mScrollEventRunnable)
         renderScope.cancel()
         closePdf()
         mImageCache.evictAll()
@@ -704,7 +1343,7 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
     private inner class PdfPageAdapter : RecyclerView.Adapter<PdfPageViewHolder>() {
 
         override fun onCreateViewHolder(parent: ViewGroup, viewType: Int): PdfPageViewHolder {
-            val imageView = ImageView(parent.context).apply {
+            val imageView = HighlightImageView(parent.context).apply {
                 layoutParams = RecyclerView.LayoutParams(
                     RecyclerView.LayoutParams.MATCH_PARENT,
                     RecyclerView.LayoutParams.WRAP_CONTENT
@@ -731,6 +1370,7 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
                 holder.imageView.setImageBitmap(null)
                 renderPage(position, holder)
             }
+            bindHighlights(holder, position)
         }
 
         override fun getItemCount(): Int = mActualPageCount
@@ -753,10 +1393,16 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
 
                 bitmap?.let {
                     mImageCache.put(pageIndex, it)
+                    val links = PdfLink.read(renderer, pdfMutex, pageIndex)
                     withContext(Dispatchers.Main) {
+                        // Skip links of a document replaced while rendering
+                        if (mPdfRenderer === renderer) {
+                            mLinks[pageIndex] = links
+                        }
                         // Only update if this holder is still bound to the same position
                         if (holder.bindingAdapterPosition == pageIndex) {
                             holder.imageView.setImageBitmap(it)
+                            bindHighlights(holder, pageIndex)
                         }
                     }
                 }
@@ -764,5 +1410,10 @@ class ZoomablePdfScrollView(context: Context, private val pdfMutex: Lock) : Fram
         }
     }
 
-    private class PdfPageViewHolder(val imageView: ImageView) : RecyclerView.ViewHolder(imageView)
+    private class PdfPageViewHolder(val imageView: HighlightImageView) : RecyclerView.ViewHolder(imageView)
+
+    /**
+     * Part of a page inside the viewport, normalized to page dimensions.
+     */
+    private data class VisiblePage(val page: Int, val rect: NormalizedRect, val fraction: Float)
 }
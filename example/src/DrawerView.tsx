@@ -1,27 +1,26 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Pressable, StyleSheet, Text, View } from 'react-native';
+import React, { useCallback, useRef, useState } from 'react';
 import {
-  NativeDrawablePdfView,
-  NativeDrawablePdfViewRef,
-} from 'react-native-pdf-light';
+  Pressable,
+  StyleSheet,
+  Text,
+  useWindowDimensions,
+  View,
+} from 'react-native';
+import { PdfViewer, type PdfViewerRef } from 'react-native-pdf-light';
 import { DrawingToolbar } from './DrawingToolbar';
-import { PageIndicator, PageIndicatorRef } from './PageIndicator';
-import {
-  PdfViewer,
-  PdfViewerRef,
-  RenderPageProps,
-  ViewMode,
-} from './PdfViewer';
+import { PageIndicator, type PageIndicatorRef } from './PageIndicator';
 import { useDrawing } from './useDrawing';
 import { useAsset } from './assets.utils';
 
+type ViewMode = 'horizontal' | 'vertical';
+
 export default function DrawerView() {
-  const data = useAsset('sample.pdf');
+  const source = useAsset(require('./assets/caldara.pdf'));
   const [viewMode, setViewMode] = useState<ViewMode>('horizontal');
-  const [isLandscape, setIsLandscape] = useState(false);
+  const { width, height } = useWindowDimensions();
+  const isLandscape = width > height;
 
   const pdfViewerRef = useRef<PdfViewerRef>(null);
-  const pdfViewRefs = useRef<Map<number, NativeDrawablePdfViewRef>>(new Map());
   const currentPageRef = useRef(0);
   const pageIndicatorRef = useRef<PageIndicatorRef>(null);
 
@@ -34,8 +33,6 @@ export default function DrawerView() {
     pageStrokes,
     setShowColorPicker,
     setShowStrokePicker,
-    handleDrawingStart,
-    handleDrawingEnd,
     handleStrokeEnd,
     handleStrokeRemoved,
     handleStrokesCleared,
@@ -45,115 +42,44 @@ export default function DrawerView() {
   } = useDrawing();
 
   const clearCurrentPage = useCallback(() => {
-    const currentPage = currentPageRef.current;
-    pdfViewRefs.current?.get(currentPage)?.clearStrokes();
+    pdfViewerRef.current?.clearStrokes(currentPageRef.current);
   }, []);
 
-  // Load page count
-  useEffect(() => {
-    pageIndicatorRef.current?.setPageCount(data?.pages ?? 0);
-  }, [data]);
-
-  // Track zoom state for scroll control
-  const [isZoomed, setIsZoomed] = useState(false);
-
-  const handleZoomChange = useCallback((event: { scale: number }) => {
-    const zoomed = event.scale > 1.01;
-    setIsZoomed(zoomed);
+  const handleLoadComplete = useCallback((event: { pageCount: number }) => {
+    pageIndicatorRef.current?.setPageCount(event.pageCount);
   }, []);
 
-  // Update scroll enabled state based on drawing mode and zoom
-  useEffect(() => {
-    const shouldScroll = drawingMode === 'view' && !isZoomed;
-    pdfViewerRef.current?.setScrollEnabled(shouldScroll);
-  }, [drawingMode, isZoomed]);
-
   const handlePageChange = useCallback((page: number) => {
     currentPageRef.current = page;
     pageIndicatorRef.current?.setPage(page);
   }, []);
 
-  const handleViewModeChange = useCallback(
-    (_mode: ViewMode, landscape: boolean) => {
-      setIsLandscape(landscape);
-    },
-    []
-  );
-
   const toggleViewMode = useCallback(() => {
     setViewMode((prev) => (prev === 'horizontal' ? 'vertical' : 'horizontal'));
   }, []);
 
-  // Render page with drawing support
-  const renderPage = useCallback(
-    ({
-      pageIndex,
-      setRef,
-      resizeMode,
-      onLoadComplete,
-      onSingleTap,
-    }: RenderPageProps) => {
-      const combinedSetRef = (ref: NativeDrawablePdfViewRef | null) => {
-        if (ref) {
-          pdfViewRefs.current.set(pageIndex, ref);
-          setRef(ref);
-        }
-      };
-
-      return (
-        <NativeDrawablePdfView
-          ref={combinedSetRef}
-          source={data!.path!}
-          page={pageIndex}
-          onError={console.warn}
-          onLoadComplete={onLoadComplete}
-          resizeMode={resizeMode}
-          drawingMode={drawingMode}
-          drawingTool={drawingTool}
-          strokes={pageStrokes.get(pageIndex) || []}
-          zoomEnabled={resizeMode === 'contain'}
-          onDrawingStart={handleDrawingStart}
-          onDrawingEnd={handleDrawingEnd}
-          onStrokeEnd={(stroke) => handleStrokeEnd(stroke, pageIndex)}
-          onStrokeRemoved={(strokeId) =>
-            handleStrokeRemoved(strokeId, pageIndex)
-          }
-          onStrokesCleared={() => handleStrokesCleared(pageIndex)}
-          onZoomChange={handleZoomChange}
-          onSingleTap={onSingleTap}
-          style={styles.pdfView}
-        />
-      );
-    },
-    [
-      data,
-      drawingMode,
-      drawingTool,
-      pageStrokes,
-      handleDrawingStart,
-      handleDrawingEnd,
-      handleStrokeEnd,
-      handleStrokeRemoved,
-      handleStrokesCleared,
-      handleZoomChange,
-    ]
-  );
-
-  if (!data) {
+  if (!source) {
     return null;
   }
 
+  // The viewers draw natively: one finger draws, two fingers scroll and
+  // zoom, and the pager does not swipe while drawing.
   return (
     <View style={styles.container}>
       <PdfViewer
+        viewerType={viewMode === 'horizontal' ? 'paging' : 'zoomable'}
         ref={pdfViewerRef}
-        source={data.path!}
-        pageCount={data.pages}
-        viewMode={viewMode}
+        source={source}
+        drawingMode={drawingMode}
+        drawingTool={drawingTool}
+        strokes={pageStrokes}
+        onStrokeEnd={handleStrokeEnd}
+        onStrokeRemoved={handleStrokeRemoved}
+        onStrokesCleared={handleStrokesCleared}
+        onLoadComplete={handleLoadComplete}
         onPageChange={handlePageChange}
-        onViewModeChange={handleViewModeChange}
-        renderPage={renderPage}
-        scrollEnabled={drawingMode === 'view' && !isZoomed}
+        onError={(e) => console.warn('PDF Error:', e.message)}
+        style={styles.pdfView}
       />
 
       <DrawingToolbar
@@ -173,7 +99,7 @@ export default function DrawerView() {
       <PageIndicator
         ref={pageIndicatorRef}
         initialPage={0}
-        initialPageCount={data.pages}
+        initialPageCount={0}
       />
 
       {/* Toggle button (portrait only) */}
@@ -3,6 +3,7 @@ import type {
   DrawingMode,
   DrawingStroke,
   DrawingTool,
+  PageStrokes,
 } from 'react-native-pdf-light';
 
 export interface UseDrawingReturn {
@@ -10,11 +11,9 @@ export interface UseDrawingReturn {
   drawingTool: DrawingTool;
   showColorPicker: boolean;
   showStrokePicker: boolean;
-  pageStrokes: Map<number, DrawingStroke[]>;
+  pageStrokes: PageStrokes;
   setShowColorPicker: (show: boolean) => void;
   setShowStrokePicker: (show: boolean) => void;
-  handleDrawingStart: () => void;
-  handleDrawingEnd: () => void;
   handleStrokeEnd: (stroke: DrawingStroke, pageIndex: number) => void;
   handleStrokeRemoved: (strokeId: string, pageIndex: number) => void;
   handleStrokesCleared: (pageIndex: number) => void;
@@ -32,51 +31,30 @@ export function useDrawing(): UseDrawingReturn {
   });
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showStrokePicker, setShowStrokePicker] = useState(false);
-  const [pageStrokes, setPageStrokes] = useState<Map<number, DrawingStroke[]>>(
-    new Map()
-  );
-
-  const handleDrawingStart = useCallback(() => {
-    // Pager already disabled via drawingMode
-  }, []);
-
-  const handleDrawingEnd = useCallback(() => {
-    // Pager state handled by drawingMode
-  }, []);
+  const [pageStrokes, setPageStrokes] = useState<PageStrokes>({});
 
   const handleStrokeEnd = useCallback(
     (stroke: DrawingStroke, pageIndex: number) => {
-      setPageStrokes((prev) => {
-        const newMap = new Map(prev);
-        const strokes = newMap.get(pageIndex) || [];
-        newMap.set(pageIndex, [...strokes, stroke]);
-        return newMap;
-      });
+      setPageStrokes((prev) => ({
+        ...prev,
+        [pageIndex]: [...(prev[pageIndex] || []), stroke],
+      }));
     },
     []
   );
 
   const handleStrokeRemoved = useCallback(
     (strokeId: string, pageIndex: number) => {
-      setPageStrokes((prev) => {
-        const newMap = new Map(prev);
-        const strokes = newMap.get(pageIndex) || [];
-        newMap.set(
-          pageIndex,
-          strokes.filter((s) => s.id !== strokeId)
-        );
-        return newMap;
-      });
+      setPageStrokes((prev) => ({
+        ...prev,
+        [pageIndex]: (prev[pageIndex] || []).filter((s) => s.id !== strokeId),
+      }));
     },
     []
   );
 
   const handleStrokesCleared = useCallback((pageIndex: number) => {
-    setPageStrokes((prev) => {
-      const newMap = new Map(prev);
-      newMap.set(pageIndex, []);
-      return newMap;
-    });
+    setPageStrokes((prev) => ({ ...prev, [pageIndex]: [] }));
   }, []);
 
   const selectMode = useCallback((mode: DrawingMode) => {
@@ -116,8 +94,6 @@ export function useDrawing(): UseDrawingReturn {
     pageStrokes,
     setShowColorPicker,
     setShowStrokePicker,
-    handleDrawingStart,
-    handleDrawingEnd,
     handleStrokeEnd,
     handleStrokeRemoved,
     handleStrokesCleared,
@@ -1,3 +1,5 @@
+import UIKit
+
 struct PositionedText: Decodable {
     let color: String
     let fontSize: CGFloat
@@ -14,4 +16,94 @@ struct Stroke: Decodable {
 struct AnnotationPage: Decodable {
     let strokes: [Stroke]
     let text: [PositionedText]
+
+    /// Parses the `annotations` prop of the multi page viewers, annotation
+    /// pages keyed by page index. Returns an empty map for invalid JSON.
+    static func parseMap(_ json: String) -> [Int: AnnotationPage] {
+        guard !json.isEmpty, let data = json.data(using: .utf8),
+              let pages = try? JSONDecoder().decode([String: AnnotationPage].self, from: data) else {
+            return [:]
+        }
+        var result: [Int: AnnotationPage] = [:]
+        for (key, page) in pages {
+            if let index = Int(key) {
+                result[index] = page
+            }
+        }
+        return result
+    }
+}
+
+/// Draws PAS v1 annotations.
+enum AnnotationRenderer {
+    /// Draws the strokes and text of a page into a context of the displayed
+    /// page size. Text needs a current UIKit graphics context.
+    static func draw(_ annotationPage: AnnotationPage, in context: CGContext, size: CGSize) {
+        let scaleX = size.width
+        let scaleY = size.height
+
+        context.saveGState()
+        context.setLineCap(.round)
+        context.setLineJoin(.round)
+
+        for stroke in annotationPage.strokes {
+            guard stroke.path.count > 1 else { continue }
+            context.setStrokeColor(parseColor(stroke.color).cgColor)
+            context.setLineWidth(stroke.width)
+
+            context.beginPath()
+            computePath(context, stroke.path, scaleX: scaleX, scaleY: scaleY)
+            context.strokePath()
+        }
+        context.restoreGState()
+
+        for msg in annotationPage.text {
+            let scaledFont = 9 + (msg.fontSize * scaleX) / 1000
+            msg.str.draw(
+                at: CGPoint(x: scaleX * msg.point[0], y: scaleY * msg.point[1]),
+                withAttributes: [
+                    .font: UIFont.systemFont(ofSize: scaledFont),
+                    .foregroundColor: parseColor(msg.color)
+                ]
+            )
+        }
+    }
+
+    /// Parses a `#RRGGBB` or `#RRGGBBAA` color. Returns black if invalid.
+    static func parseColor(_ hex: String) -> UIColor {
+        guard let colorInt = UInt64(hex.dropFirst().prefix(6), radix: 16) else {
+            return UIColor.black
+        }
+        var alpha = CGFloat(1.0)
+        if hex.count == 9, let alphaInt = UInt64(hex.suffix(2), radix: 16) {
+            alpha = CGFloat(alphaInt) / 255.0
+        }
+        return UIColor(
+            red: CGFloat((colorInt & 0xFF0000) >> 16) / 255.0,
+            green: CGFloat((colorInt & 0x00FF00) >> 8) / 255.0,
+            blue: CGFloat(colorInt & 0x0000FF) / 255.0,
+            alpha: alpha
+        )
+    }
+
+    private static func computePath(_ context: CGContext, _ coordinates: [[CGFloat]], scaleX: CGFloat, scaleY: CGFloat) {
+        var prevPoint = coordinates[0]
+        context.move(to: CGPoint(x: scaleX * prevPoint[0], y: scaleY * prevPoint[1]))
+
+        for point in coordinates.dropFirst() {
+            let dist = hypot(scaleX * (prevPoint[0] - point[0]), scaleY * (prevPoint[1] - point[1]))
+            guard dist > 3 else { continue }
+
+            let midX = (prevPoint[0] + point[0]) / 2
+            let midY = (prevPoint[1] + point[1]) / 2
+            context.addQuadCurve(
+                to: CGPoint(x: scaleX * midX, y: scaleY * midY),
+                control: CGPoint(x: scaleX * prevPoint[0], y: scaleY * prevPoint[1])
+            )
+            prevPoint = point
+        }
+
+        let lastPoint = coordinates.last!
+        context.addLine(to: CGPoint(x: scaleX * lastPoint[0], y: scaleY * lastPoint[1]))
+    }
 }
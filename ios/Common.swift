@@ -1,4 +1,6 @@
+import CommonCrypto
 import Foundation
+import PDFKit
 import UIKit
 
 enum ResizeMode: String {
@@ -85,4 +87,567 @@ class PdfPageRenderer {
             }
         }
     }
-}
\ No newline at end of file
+
+    /// Renders a PDF page to an image of exact pixel dimensions (synchronous)
+    /// - Parameters:
+    ///   - pdfPage: The page to render
+    ///   - pixelSize: Output size in pixels; stretched if the aspect ratio
+    ///     differs from the page
+    ///   - backgroundColor: Fill behind the page content
+    static func renderImage(
+        pdfPage: CGPDFPage,
+        pixelSize: CGSize,
+        backgroundColor: UIColor
+    ) -> UIImage {
+        let pageBounds = pdfPage.getBoxRect(.cropBox)
+        let pdfWidth: CGFloat
+        let pdfHeight: CGFloat
+        if pdfPage.rotationAngle % 180 == 90 {
+            pdfWidth = pageBounds.height
+            pdfHeight = pageBounds.width
+        } else {
+            pdfWidth = pageBounds.width
+            pdfHeight = pageBounds.height
+        }
+
+        let format = UIGraphicsImageRendererFormat()
+        format.scale = 1
+        format.opaque = backgroundColor.cgColor.alpha >= 1
+
+        let renderer = UIGraphicsImageRenderer(size: pixelSize, format: format)
+        return renderer.image { context in
+            let ctx = context.cgContext
+
+            backgroundColor.setFill()
+            ctx.fill(CGRect(origin: .zero, size: pixelSize))
+
+            // Scale and flip for PDF rendering
+            ctx.translateBy(x: 0, y: pixelSize.height)
+            ctx.scaleBy(x: pixelSize.width / pdfWidth, y: -pixelSize.height / pdfHeight)
+
+            ctx.concatenate(pdfPage.getDrawingTransform(
+                .cropBox,
+                rect: CGRect(x: 0, y: 0, width: pdfWidth, height: pdfHeight),
+                rotate: 0,
+                preserveAspectRatio: false
+            ))
+
+            ctx.interpolationQuality = .high
+            ctx.setRenderingIntent(.defaultIntent)
+            ctx.drawPDFPage(pdfPage)
+        }
+    }
+}
+
+// MARK: - PdfGeometry
+
+enum PdfGeometry {
+
+    /// Converts a rect in pdf page space to a rect normalized to 0-1 relative
+    /// to the displayed (cropped and rotated) page, origin at the top left.
+    static func normalizedRect(_ rect: CGRect, on page: PDFPage) -> [String: CGFloat] {
+        let viewRect = rect.applying(page.transform(for: .cropBox))
+        let pageBounds = page.bounds(for: .cropBox)
+        let pageWidth: CGFloat
+        let pageHeight: CGFloat
+        if page.rotation % 180 == 90 {
+            pageWidth = pageBounds.height
+            pageHeight = pageBounds.width
+        } else {
+            pageWidth = pageBounds.width
+            pageHeight = pageBounds.height
+        }
+        guard pageWidth > 0, pageHeight > 0 else {
+            return ["x": 0, "y": 0, "width": 0, "height": 0]
+        }
+
+        return [
+            "x": viewRect.minX / pageWidth,
+            "y": (pageHeight - viewRect.maxY) / pageHeight,
+            "width": viewRect.width / pageWidth,
+            "height": viewRect.height / pageHeight
+        ]
+    }
+
+    /// Payload of onPageTap, onPageDoubleTap and onPageLongPress: a point of
+    /// a page normalized to 0-1 and in pdf points, origin at the top left.
+    static func pagePointEvent(page: Int, point: CGPoint, pageSize: CGSize) -> [String: Any] {
+        return [
+            "page": page,
+            "x": point.x,
+            "y": point.y,
+            "pdfX": point.x * pageSize.width,
+            "pdfY": point.y * pageSize.height
+        ]
+    }
+}
+
+// MARK: - UIScrollView zoom
+
+extension UIScrollView {
+
+    /// Zoom to a scale (clamped to the zoom limits), keeping the content under
+    /// a point of the viewport in place. Defaults to the viewport center.
+    func setZoomScale(_ scale: CGFloat, focalPoint: CGPoint?, animated: Bool) {
+        guard let zoomView = delegate?.viewForZooming?(in: self) else { return }
+        let targetScale = min(max(scale, minimumZoomScale), maximumZoomScale)
+        let focus = focalPoint ?? CGPoint(x: bounds.width / 2, y: bounds.height / 2)
+        let content = zoomView.convert(
+            CGPoint(x: bounds.minX + focus.x, y: bounds.minY + focus.y),
+            from: self
+        )
+        zoom(to: CGRect(
+            x: content.x - focus.x / targetScale,
+            y: content.y - focus.y / targetScale,
+            width: bounds.width / targetScale,
+            height: bounds.height / targetScale
+        ), animated: animated)
+    }
+}
+
+// MARK: - PdfViewStateProvider
+
+/// Viewer whose position can be read by `PdfViewerModule`.
+protocol PdfViewStateProvider {
+    /// Current page, zoom scale, and the top left corner of the viewport
+    /// relative to the current page, normalized to page dimensions.
+    func viewState() -> [String: Any]
+}
+
+// MARK: - PdfErrorCode
+
+/// Error codes reported by error events and PdfUtil rejections. Keep in sync
+/// with PdfErrorCode in src/errors.ts.
+enum PdfErrorCode: String {
+    case fileNotFound = "FILE_NOT_FOUND"
+    case invalidPdf = "INVALID_PDF"
+    case passwordRequired = "PASSWORD_REQUIRED"
+    case passwordIncorrect = "PASSWORD_INCORRECT"
+    case pageOutOfRange = "PAGE_OUT_OF_RANGE"
+    case renderFailed = "RENDER_FAILED"
+    case invalidArgument = "INVALID_ARGUMENT"
+    case notSupported = "NOT_SUPPORTED"
+    case noTextLayer = "NO_TEXT_LAYER"
+    case cancelled = "CANCELLED"
+    case downloadFailed = "DOWNLOAD_FAILED"
+    case unknown = "UNKNOWN"
+
+    /// Code for a document that could not be opened; CGPDFDocument and
+    /// PDFDocument do not distinguish a missing file from a corrupt one.
+    static func openFailure(path: String) -> PdfErrorCode {
+        return FileManager.default.fileExists(atPath: path) ? .invalidPdf : .fileNotFound
+    }
+}
+
+// MARK: - PdfPassword
+
+enum PdfPasswordError: Error {
+    case required
+    case incorrect
+
+    var code: String {
+        switch self {
+        case .required: return PdfErrorCode.passwordRequired.rawValue
+        case .incorrect: return PdfErrorCode.passwordIncorrect.rawValue
+        }
+    }
+
+    var message: String {
+        switch self {
+        case .required: return "Document is password protected."
+        case .incorrect: return "Incorrect document password."
+        }
+    }
+}
+
+enum PdfPassword {
+
+    /// Unlocks an encrypted document. Returns nil if the document is readable.
+    /// - Parameter password: Empty string if no password was supplied
+    static func unlock(_ document: CGPDFDocument, password: String) -> PdfPasswordError? {
+        if document.isUnlocked {
+            return nil
+        }
+        if password.isEmpty {
+            return .required
+        }
+        return document.unlockWithPassword(password) ? nil : .incorrect
+    }
+
+    /// Unlocks an encrypted document. Returns nil if the document is readable.
+    /// - Parameter password: Empty string if no password was supplied
+    static func unlock(_ document: PDFDocument, password: String) -> PdfPasswordError? {
+        if !document.isLocked {
+            return nil
+        }
+        if password.isEmpty {
+            return .required
+        }
+        return document.unlock(withPassword: password) ? nil : .incorrect
+    }
+}
+
+// MARK: - PdfDocumentRegistry
+
+struct PdfOpenError {
+    let code: String
+    let message: String
+}
+
+/// Document kept open by `PdfUtil.open()`. Util methods and viewers receive
+/// its handle in place of a file path, and share the parsed document instead
+/// of reopening the file.
+final class SharedPdfDocument {
+    let path: String
+    let document: CGPDFDocument
+    private let password: String
+    private let lock = NSLock()
+    private var pdfKitDocument: PDFDocument?
+
+    init(path: String, document: CGPDFDocument, password: String) {
+        self.path = path
+        self.document = document
+        self.password = password
+    }
+
+    /// PDFKit view of the same file, for text, outline and metadata. Opened
+    /// on first use.
+    func pdfKit() -> PDFDocument? {
+        lock.lock()
+        defer { lock.unlock() }
+        if pdfKitDocument == nil, let document = PDFDocument(url: URL(fileURLWithPath: path)) {
+            _ = PdfPassword.unlock(document, password: password)
+            pdfKitDocument = document
+        }
+        return pdfKitDocument
+    }
+}
+
+enum PdfDocumentRegistry {
+    private static let handlePrefix = "pdfdocument:"
+    private static var documents = [String: SharedPdfDocument]()
+    private static var nextId = 1
+    private static let lock = NSLock()
+
+    /// Keep a document open. Returns its handle.
+    static func register(_ document: SharedPdfDocument) -> String {
+        lock.lock()
+        defer { lock.unlock() }
+        let handle = "\(handlePrefix)\(nextId)"
+        nextId += 1
+        documents[handle] = document
+        return handle
+    }
+
+    /// Drop a document. Viewers still displaying it keep their reference.
+    static func close(handle: String) {
+        lock.lock()
+        documents.removeValue(forKey: handle)
+        lock.unlock()
+    }
+
+    static func closeAll() {
+        lock.lock()
+        documents.removeAll()
+        lock.unlock()
+    }
+
+    /// Open a source for reading, unlocked with the password. Handles resolve
+    /// to the shared document, which was unlocked when it was opened.
+    /// - Returns: the document and the path of its file, or nil after reporting
+    ///   the failure to `onError`
+    static func cgDocument(source: String, password: String, onError: (PdfOpenError) -> Void) -> (document: CGPDFDocument, path: String)? {
+        if source.hasPrefix(handlePrefix) {
+            guard let shared = shared(handle: source, onError: onError) else { return nil }
+            return (shared.document, shared.path)
+        }
+
+        guard let document = CGPDFDocument(URL(fileURLWithPath: source) as CFURL) else {
+            onError(PdfOpenError(code: PdfErrorCode.openFailure(path: source).rawValue, message: "Unable to read pdf \(source)"))
+            return nil
+        }
+        if let error = PdfPassword.unlock(document, password: password) {
+            onError(PdfOpenError(code: error.code, message: error.message))
+            return nil
+        }
+        return (document, source)
+    }
+
+    /// PDFKit variant of `cgDocument(source:password:onError:)`.
+    /// - Parameter passwordRequired: If false, an encrypted document is only
+    ///   unlocked when a password is given (e.g. to read its metadata)
+    static func pdfKitDocument(source: String, password: String, passwordRequired: Bool = true, onError: (PdfOpenError) -> Void) -> (document: PDFDocument, path: String)? {
+        if source.hasPrefix(handlePrefix) {
+            guard let shared = shared(handle: source, onError: onError) else { return nil }
+            guard let document = shared.pdfKit() else {
+                onError(PdfOpenError(code: PdfErrorCode.invalidPdf.rawValue, message: "Unable to read pdf \(shared.path)"))
+                return nil
+            }
+            return (document, shared.path)
+        }
+
+        guard let document = PDFDocument(url: URL(fileURLWithPath: source)) else {
+            onError(PdfOpenError(code: PdfErrorCode.openFailure(path: source).rawValue, message: "Unable to read pdf \(source)"))
+            return nil
+        }
+        if passwordRequired || !password.isEmpty, let error = PdfPassword.unlock(document, password: password) {
+            onError(PdfOpenError(code: error.code, message: error.message))
+            return nil
+        }
+        return (document, source)
+    }
+
+    private static func shared(handle: String, onError: (PdfOpenError) -> Void) -> SharedPdfDocument? {
+        lock.lock()
+        let shared = documents[handle]
+        lock.unlock()
+        if shared == nil {
+            onError(PdfOpenError(code: PdfErrorCode.invalidArgument.rawValue, message: "Document \(handle) is closed."))
+        }
+        return shared
+    }
+}
+
+// MARK: - PdfFingerprint
+
+enum PdfFingerprint {
+
+    // Hashes by path, size and modification date; avoids rehashing files
+    // that are opened repeatedly (e.g. thumbnails in a list).
+    private static let cache = NSCache<NSString, NSString>()
+
+    /// Hex encoded SHA-256 of the file contents. Identifies a document
+    /// independent of where it is stored.
+    static func compute(path: String) -> String? {
+        guard let attributes = try? FileManager.default.attributesOfItem(atPath: path) else {
+            return nil
+        }
+        let modified = (attributes[.modificationDate] as? Date)?.timeIntervalSince1970 ?? 0
+        let cacheKey = "\(path):\(attributes[.size] ?? 0):\(modified)" as NSString
+        if let cached = cache.object(forKey: cacheKey) {
+            return cached as String
+        }
+
+        guard let fingerprint = hash(path: path) else { return nil }
+        cache.setObject(fingerprint as NSString, forKey: cacheKey)
+        return fingerprint
+    }
+
+    /// Compute on a background queue, as hashing reads the entire file, and
+    /// call `completion` on the main queue.
+    static func compute(path: String, completion: @escaping (String?) -> Void) {
+        DispatchQueue.global(qos: .userInitiated).async {
+            let fingerprint = compute(path: path)
+            DispatchQueue.main.async {
+                completion(fingerprint)
+            }
+        }
+    }
+
+    private static func hash(path: String) -> String? {
+        guard let stream = InputStream(fileAtPath: path) else { return nil }
+        stream.open()
+        defer { stream.close() }
+
+        var context = CC_SHA256_CTX()
+        CC_SHA256_Init(&context)
+        let bufferSize = 64 * 1024
+        var buffer = [UInt8](repeating: 0, count: bufferSize)
+        while true {
+            let read = stream.read(&buffer, maxLength: bufferSize)
+            if read < 0 {
+                return nil
+            }
+            if read == 0 {
+                break
+            }
+            CC_SHA256_Update(&context, buffer, CC_LONG(read))
+        }
+
+        var digest = [UInt8](repeating: 0, count: Int(CC_SHA256_DIGEST_LENGTH))
+        CC_SHA256_Final(&digest, &context)
+        return digest.map { String(format: "%02x", $0) }.joined()
+    }
+}
+
+// MARK: - Highlights
+
+struct NormalizedRect: Decodable {
+    let x: CGFloat
+    let y: CGFloat
+    let width: CGFloat
+    let height: CGFloat
+
+    /// Converts to a rect within a page displayed at `size`.
+    func scaled(to size: CGSize) -> CGRect {
+        return CGRect(x: x * size.width, y: y * size.height, width: width * size.width, height: height * size.height)
+    }
+}
+
+struct PdfHighlight: Decodable {
+    let page: Int
+    let rects: [NormalizedRect]
+
+    /// Parses the `highlights` prop. Returns an empty list for invalid JSON.
+    static func parse(_ json: String) -> [PdfHighlight] {
+        guard !json.isEmpty, let data = json.data(using: .utf8) else { return [] }
+        return (try? JSONDecoder().decode([PdfHighlight].self, from: data)) ?? []
+    }
+}
+
+/// Transparent overlay drawing annotations, drawn strokes, highlight rects,
+/// and optionally link areas, over a single page.
+class HighlightOverlayView: UIView {
+    var annotation: AnnotationPage? { didSet { setNeedsDisplay() } }
+    var strokes: [DrawingStroke] = [] { didSet { setNeedsDisplay() } }
+    /// Stroke being drawn on the page, if any.
+    var activeStroke: DrawingStroke? { didSet { setNeedsDisplay() } }
+    var rects: [NormalizedRect] = [] { didSet { setNeedsDisplay() } }
+    var activeRects: [NormalizedRect] = [] { didSet { setNeedsDisplay() } }
+    var highlightColor = UIColor(red: 1.0, green: 0.92, blue: 0.23, alpha: 0.4) { didSet { setNeedsDisplay() } }
+    var activeHighlightColor = UIColor(red: 1.0, green: 0.6, blue: 0.0, alpha: 0.5) { didSet { setNeedsDisplay() } }
+    /// Link hit areas, outlined for debugging.
+    var linkRects: [NormalizedRect] = [] { didSet { setNeedsDisplay() } }
+
+    override init(frame: CGRect) {
+        super.init(frame: frame)
+        backgroundColor = .clear
+        isOpaque = false
+        isUserInteractionEnabled = false
+        contentMode = .redraw
+    }
+
+    required init?(coder: NSCoder) {
+        super.init(coder: coder)
+        backgroundColor = .clear
+        isOpaque = false
+        isUserInteractionEnabled = false
+        contentMode = .redraw
+    }
+
+    override func draw(_ rect: CGRect) {
+        guard let ctx = UIGraphicsGetCurrentContext() else { return }
+        if let annotation {
+            AnnotationRenderer.draw(annotation, in: ctx, size: bounds.size)
+        }
+        for stroke in strokes {
+            PageDrawing.draw(stroke, in: ctx, rect: bounds)
+        }
+        if let activeStroke {
+            PageDrawing.draw(activeStroke, in: ctx, rect: bounds)
+        }
+        ctx.setFillColor(highlightColor.cgColor)
+        for highlight in rects {
+            ctx.fill(highlight.scaled(to: bounds.size))
+        }
+        ctx.setFillColor(activeHighlightColor.cgColor)
+        for highlight in activeRects {
+            ctx.fill(highlight.scaled(to: bounds.size))
+        }
+        ctx.setStrokeColor(UIColor(red: 0.13, green: 0.59, blue: 0.95, alpha: 0.75).cgColor)
+        ctx.setLineWidth(1)
+        for link in linkRects {
+            ctx.stroke(link.scaled(to: bounds.size))
+        }
+    }
+}
+
+// MARK: - Links
+
+/// Link annotation of a page. Exactly one of `uri` (external link) and `page`
+/// (0-indexed target of an internal link) is set.
+struct PdfLink {
+    let rect: NormalizedRect
+    let uri: String?
+    let page: Int?
+
+    func contains(_ point: CGPoint) -> Bool {
+        return point.x >= rect.x && point.x <= rect.x + rect.width
+            && point.y >= rect.y && point.y <= rect.y + rect.height
+    }
+
+    /// Payload of PdfUtil.getLinks and onLinkPress.
+    var json: [String: Any] {
+        var result: [String: Any] = [
+            "rect": ["x": rect.x, "y": rect.y, "width": rect.width, "height": rect.height]
+        ]
+        if let page {
+            result["type"] = "goto"
+            result["page"] = page
+        } else {
+            result["type"] = "uri"
+            result["uri"] = uri ?? ""
+        }
+        return result
+    }
+
+    /// Reads the link annotations of a page. Links to other documents and
+    /// other actions are skipped.
+    static func read(_ document: PDFDocument, _ pageIndex: Int) -> [PdfLink] {
+        guard let page = document.page(at: pageIndex) else { return [] }
+        var links: [PdfLink] = []
+        for annotation in page.annotations where annotation.type == "Link" {
+            var url = annotation.url
+            var destination = annotation.destination
+            if let action = annotation.action as? PDFActionURL {
+                url = action.url
+            } else if let action = annotation.action as? PDFActionGoTo {
+                destination = action.destination
+            }
+
+            let bounds = PdfGeometry.normalizedRect(annotation.bounds, on: page)
+            let rect = NormalizedRect(
+                x: bounds["x"] ?? 0,
+                y: bounds["y"] ?? 0,
+                width: bounds["width"] ?? 0,
+                height: bounds["height"] ?? 0
+            )
+            if let url {
+                links.append(PdfLink(rect: rect, uri: url.absoluteString, page: nil))
+            } else if let destinationPage = destination?.page {
+                let index = document.index(for: destinationPage)
+                if index != NSNotFound {
+                    links.append(PdfLink(rect: rect, uri: nil, page: index))
+                }
+            }
+        }
+        return links
+    }
+}
+
+/// Links of the pages of a viewer's document, read on first use.
+final class PdfLinkCache {
+    private var source = ""
+    private var password = ""
+    private var document: PDFDocument?
+    private var didOpen = false
+    private var links: [Int: [PdfLink]] = [:]
+
+    /// Forget the links of the previous document.
+    func reset(source: String, password: String) {
+        self.source = source
+        self.password = password
+        document = nil
+        didOpen = false
+        links = [:]
+    }
+
+    func links(on page: Int) -> [PdfLink] {
+        if let cached = links[page] {
+            return cached
+        }
+        if !didOpen {
+            didOpen = true
+            // The viewer reports failures to open the document.
+            document = PdfDocumentRegistry.pdfKitDocument(source: source, password: password, onError: { _ in })?.document
+        }
+        let pageLinks = document.map { PdfLink.read($0, page) } ?? []
+        links[page] = pageLinks
+        return pageLinks
+    }
+
+    /// Link under a point normalized to the page, if any.
+    func link(at point: CGPoint, on page: Int) -> PdfLink? {
+        return links(on: page).first { $0.contains(point) }
+    }
+}
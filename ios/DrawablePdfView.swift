@@ -24,6 +24,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
     // MARK: - React Props
 
     @objc var source = "" { didSet { markDirty() } }
+    @objc var password = "" { didSet { markDirty() } }
     @objc var page: NSNumber = 0 { didSet { markDirty() } }
     @objc var resizeMode = ResizeMode.CONTAIN.rawValue { didSet { validateResizeMode() } }
     @objc var annotationStr = "" { didSet { loadAnnotation(file: false) } }
@@ -52,6 +53,9 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
     @objc var onZoomPanStart: RCTDirectEventBlock?
     @objc var onZoomPanEnd: RCTDirectEventBlock?
     @objc var onSingleTap: RCTDirectEventBlock?
+    @objc var onPageTap: RCTDirectEventBlock?
+    @objc var onPageDoubleTap: RCTDirectEventBlock?
+    @objc var onPageLongPress: RCTDirectEventBlock?
 
     // MARK: - Private State
 
@@ -83,6 +87,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
     private var panGesture: UIPanGestureRecognizer!
     private var doubleTapGesture: UITapGestureRecognizer!
     private var singleTapGesture: UITapGestureRecognizer!
+    private var longPressGesture: UILongPressGestureRecognizer!
 
     // MARK: - Initialization
 
@@ -123,6 +128,10 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
         singleTapGesture.delegate = self
         singleTapGesture.require(toFail: doubleTapGesture)
         addGestureRecognizer(singleTapGesture)
+
+        longPressGesture = UILongPressGestureRecognizer(target: self, action: #selector(handleLongPress(_:)))
+        longPressGesture.delegate = self
+        addGestureRecognizer(longPressGesture)
     }
 
     // MARK: - Layout
@@ -163,13 +172,14 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
         DispatchQueue.global(qos: .userInitiated).async { [weak self] in
             guard let self = self else { return }
 
-            let url = URL(fileURLWithPath: self.source)
-            guard let pdf = CGPDFDocument(url as CFURL) else {
-                self.dispatchOnError(message: "Failed to open '\(self.source)' for reading.")
+            // Open the file, or share the document opened by PdfUtil.open()
+            guard let pdf = PdfDocumentRegistry.cgDocument(source: self.source, password: self.password, onError: {
+                self.dispatchOnError(message: $0.message, code: $0.code)
+            })?.document else {
                 return
             }
             guard let pdfPage = pdf.page(at: self.page.intValue + 1) else {
-                self.dispatchOnError(message: "Failed to open page '\(self.page)' of '\(self.source)' for reading.")
+                self.dispatchOnError(message: "Failed to open page '\(self.page)' of '\(self.source)' for reading.", code: PdfErrorCode.pageOutOfRange.rawValue)
                 return
             }
 
@@ -187,7 +197,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
             UIGraphicsBeginImageContextWithOptions(currentFrame.size, true, 0.0)
             guard let context = UIGraphicsGetCurrentContext() else {
                 UIGraphicsEndImageContext()
-                self.dispatchOnError(message: "Failed to open graphics context for rendering '\(self.source)'.")
+                self.dispatchOnError(message: "Failed to open graphics context for rendering '\(self.source)'.", code: PdfErrorCode.renderFailed.rawValue)
                 return
             }
             context.saveGState()
@@ -285,34 +295,14 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
     }
 
     private func drawStroke(context: CGContext, stroke: DrawingStroke) {
-        let color = parseColor(stroke.color).withAlphaComponent(stroke.opacity)
-        context.setStrokeColor(color.cgColor)
-        context.setLineWidth(stroke.width)
-
-        context.beginPath()
-
-        var prevPoint = normalizedToContent(stroke.path[0])
-        context.move(to: prevPoint)
-
-        for i in 1..<stroke.path.count {
-            let point = normalizedToContent(stroke.path[i])
-            let dist = hypot(point.x - prevPoint.x, point.y - prevPoint.y)
-            if dist < 8 { continue }
-
-            let midPoint = CGPoint(x: (prevPoint.x + point.x) / 2, y: (prevPoint.y + point.y) / 2)
-            context.addQuadCurve(to: midPoint, control: prevPoint)
-            prevPoint = point
-        }
-
-        let lastPoint = normalizedToContent(stroke.path.last!)
-        context.addLine(to: lastPoint)
-        context.strokePath()
+        let rect = pdfContentRect.isEmpty ? CGRect(origin: .zero, size: bounds.size) : pdfContentRect
+        PageDrawing.draw(stroke, in: context, rect: rect)
     }
 
     private func drawActiveStroke(context: CGContext) {
         guard activeStrokePath.count > 1 else { return }
 
-        let color = parseColor(strokeColor).withAlphaComponent(strokeOpacity)
+        let color = AnnotationRenderer.parseColor(strokeColor).withAlphaComponent(strokeOpacity)
         context.setStrokeColor(color.cgColor)
         context.setLineWidth(strokeWidth)
 
@@ -520,6 +510,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
     }
 
     @objc private func handleDoubleTap(_ gesture: UITapGestureRecognizer) {
+        sendPageGesture(onPageDoubleTap, gesture)
         guard realDrawingMode == .view && zoomEnabled else { return }
 
         if scale > 1.0 {
@@ -549,11 +540,35 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
     }
 
     @objc private func handleSingleTap(_ gesture: UITapGestureRecognizer) {
+        sendPageGesture(onPageTap, gesture)
         // Only fire single tap in view mode when not zoomed
         guard realDrawingMode == .view && scale <= 1.01 else { return }
         onSingleTap?([:])
     }
 
+    @objc private func handleLongPress(_ gesture: UILongPressGestureRecognizer) {
+        if gesture.state == .began {
+            sendPageGesture(onPageLongPress, gesture)
+        }
+    }
+
+    /// Report the point of the page under a gesture in view mode, if any.
+    private func sendPageGesture(_ event: RCTDirectEventBlock?, _ gesture: UIGestureRecognizer) {
+        guard let event, realDrawingMode == .view, !pdfContentRect.isEmpty else { return }
+        let location = gesture.location(in: self)
+        let normalized = contentToNormalized(CGPoint(
+            x: (location.x - offsetX) / scale,
+            y: (location.y - offsetY) / scale
+        ))
+        let point = CGPoint(x: normalized[0], y: normalized[1])
+        guard point.x >= 0, point.x <= 1, point.y >= 0, point.y <= 1 else { return }
+        event(PdfGeometry.pagePointEvent(
+            page: page.intValue,
+            point: point,
+            pageSize: CGSize(width: pdfPageWidth, height: pdfPageHeight)
+        ))
+    }
+
     private func constrainOffset() {
         // At scale > 1, content is larger than view
         // offsetX = 0 means left edge of content at left edge of screen
@@ -595,7 +610,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
 
     private func validateResizeMode() {
         guard let mode = ResizeMode(rawValue: resizeMode) else {
-            dispatchOnError(message: "Unknown resizeMode '\(resizeMode)'.")
+            dispatchOnError(message: "Unknown resizeMode '\(resizeMode)'.", code: PdfErrorCode.invalidArgument.rawValue)
             return
         }
         realResizeMode = mode
@@ -613,6 +628,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
         pinchGesture.isEnabled = mode == .view
         panGesture.isEnabled = mode == .view && scale > 1.0
         doubleTapGesture.isEnabled = mode == .view
+        longPressGesture.isEnabled = mode == .view
     }
 
     private func loadStrokes() {
@@ -629,7 +645,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
             currentStrokes = try JSONDecoder().decode([DrawingStroke].self, from: data)
             setNeedsDisplay()
         } catch {
-            dispatchOnError(message: "Failed to parse strokes: \(error.localizedDescription)")
+            dispatchOnError(message: "Failed to parse strokes: \(error.localizedDescription)", code: PdfErrorCode.invalidArgument.rawValue)
         }
     }
 
@@ -651,7 +667,7 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
             }
             annotationData = try JSONDecoder().decode([AnnotationPage].self, from: data)
         } catch {
-            dispatchOnError(message: "Failed to load annotation: \(error.localizedDescription)")
+            dispatchOnError(message: "Failed to load annotation: \(error.localizedDescription)", code: PdfErrorCode.invalidArgument.rawValue)
             return
         }
         markDirty()
@@ -659,74 +675,13 @@ class DrawablePdfView: UIView, UIGestureRecognizerDelegate {
 
     private func renderAnnotation(_ context: CGContext, scaleX: CGFloat, scaleY: CGFloat) {
         guard page.intValue < annotationData.count else { return }
-        let annotationPage = annotationData[page.intValue]
-
-        context.setLineCap(.round)
-        context.setLineJoin(.round)
-
-        for stroke in annotationPage.strokes {
-            guard stroke.path.count > 1 else { continue }
-            context.setStrokeColor(parseColor(stroke.color).cgColor)
-            context.setLineWidth(stroke.width)
-
-            context.beginPath()
-            computePath(context, stroke.path, scaleX: scaleX, scaleY: scaleY)
-            context.strokePath()
-        }
-
-        for msg in annotationPage.text {
-            let scaledFont = 9 + (msg.fontSize * scaleX) / 1000
-            msg.str.draw(
-                at: CGPoint(x: scaleX * msg.point[0], y: scaleY * msg.point[1]),
-                withAttributes: [
-                    .font: UIFont.systemFont(ofSize: scaledFont),
-                    .foregroundColor: parseColor(msg.color)
-                ]
-            )
-        }
-    }
-
-    private func computePath(_ context: CGContext, _ coordinates: [[CGFloat]], scaleX: CGFloat, scaleY: CGFloat) {
-        var prevPoint = coordinates[0]
-        context.move(to: CGPoint(x: scaleX * prevPoint[0], y: scaleY * prevPoint[1]))
-
-        for point in coordinates.dropFirst() {
-            let dist = hypot(scaleX * (prevPoint[0] - point[0]), scaleY * (prevPoint[1] - point[1]))
-            guard dist > 3 else { continue }
-
-            let midX = (prevPoint[0] + point[0]) / 2
-            let midY = (prevPoint[1] + point[1]) / 2
-            context.addQuadCurve(
-                to: CGPoint(x: scaleX * midX, y: scaleY * midY),
-                control: CGPoint(x: scaleX * prevPoint[0], y: scaleY * prevPoint[1])
-            )
-            prevPoint = point
-        }
-
-        let lastPoint = coordinates.last!
-        context.addLine(to: CGPoint(x: scaleX * lastPoint[0], y: scaleY * lastPoint[1]))
-    }
-
-    private func parseColor(_ hex: String) -> UIColor {
-        guard let colorInt = UInt64(hex.dropFirst().prefix(6), radix: 16) else {
-            return UIColor.black
-        }
-        var alpha = CGFloat(1.0)
-        if hex.count == 9, let alphaInt = UInt64(hex.suffix(2), radix: 16) {
-            alpha = CGFloat(alphaInt) / 255.0
-        }
-        return UIColor(
-            red: CGFloat((colorInt & 0xFF0000) >> 16) / 255.0,
-            green: CGFloat((colorInt & 0x00FF00) >> 8) / 255.0,
-            blue: CGFloat(colorInt & 0x0000FF) / 255.0,
-            alpha: alpha
-        )
+        AnnotationRenderer.draw(annotationData[page.intValue], in: context, size: CGSize(width: scaleX, height: scaleY))
     }
 
     // MARK: - Event Dispatch
 
-    private func dispatchOnError(message: String) {
-        onPdfError?(["message": message])
+    private func dispatchOnError(message: String, code: String) {
+        onPdfError?(["code": code, "message": message])
     }
 
     private func dispatchOnLoadComplete(pageWidth: CGFloat, pageHeight: CGFloat) {
@@ -4,6 +4,7 @@
 
 // PDF Props
 RCT_EXPORT_VIEW_PROPERTY(source, NSString)
+RCT_EXPORT_VIEW_PROPERTY(password, NSString)
 RCT_EXPORT_VIEW_PROPERTY(page, NSNumber)
 RCT_EXPORT_VIEW_PROPERTY(resizeMode, NSString)
 RCT_EXPORT_VIEW_PROPERTY(annotation, NSString)
@@ -33,6 +34,9 @@ RCT_EXPORT_VIEW_PROPERTY(onZoomChange, RCTDirectEventBlock)
 RCT_EXPORT_VIEW_PROPERTY(onZoomPanStart, RCTDirectEventBlock)
 RCT_EXPORT_VIEW_PROPERTY(onZoomPanEnd, RCTDirectEventBlock)
 RCT_EXPORT_VIEW_PROPERTY(onSingleTap, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onPageTap, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onPageDoubleTap, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onPageLongPress, RCTDirectEventBlock)
 
 // Commands
 RCT_EXTERN_METHOD(clearStrokes:(nonnull NSNumber *)node)
@@ -0,0 +1,200 @@
+import UIKit
+
+/// Drawing state of the multi page viewers: drawing mode and tool, strokes
+/// keyed by page index, and the stroke being drawn. Points are normalized to
+/// the page the stroke is on.
+final class PageDrawing {
+    private(set) var mode = DrawingMode.view
+    var strokeColor = "#000000"
+    var strokeWidth: CGFloat = 3.0
+    var strokeOpacity: CGFloat = 1.0
+
+    /// Redraw the strokes of a page.
+    var onPageChanged: ((Int) -> Void)?
+    var onStrokeEnd: (([String: Any]) -> Void)?
+    var onStrokeRemoved: (([String: Any]) -> Void)?
+    var onStrokesCleared: (([String: Any]) -> Void)?
+
+    private var strokes: [Int: [DrawingStroke]] = [:]
+
+    // Currently active stroke (while drawing), and its page
+    private var activeStroke: DrawingStroke?
+    private(set) var activePage = -1
+
+    // Erase threshold (3% of page size)
+    private static let eraseThreshold: CGFloat = 0.03
+
+    var isDrawing: Bool {
+        return mode != .view
+    }
+
+    /// - Returns: false for an unknown mode, leaving the mode unchanged
+    func setMode(_ rawValue: String) -> Bool {
+        guard let newMode = DrawingMode(rawValue: rawValue) else { return false }
+        if newMode != mode {
+            cancel()
+            mode = newMode
+        }
+        return true
+    }
+
+    /// Replaces the strokes with the `strokes` prop.
+    func setStrokes(_ json: String) throws {
+        var parsed: [Int: [DrawingStroke]] = [:]
+        if !json.isEmpty, let data = json.data(using: .utf8) {
+            let pages = try JSONDecoder().decode([String: [DrawingStroke]].self, from: data)
+            for (key, pageStrokes) in pages {
+                if let page = Int(key) {
+                    parsed[page] = pageStrokes
+                }
+            }
+        }
+        let changed = Set(strokes.keys).union(parsed.keys)
+        strokes = parsed
+        changed.forEach { onPageChanged?($0) }
+    }
+
+    func strokes(on page: Int) -> [DrawingStroke] {
+        return strokes[page] ?? []
+    }
+
+    func activeStroke(on page: Int) -> DrawingStroke? {
+        return page == activePage ? activeStroke : nil
+    }
+
+    /// Starts a stroke, or erases, at a point of a page. `scale` is the zoom
+    /// level, to keep the eraser size constant on screen.
+    func begin(page: Int, point: CGPoint, scale: CGFloat) {
+        cancel()
+        activePage = page
+        switch mode {
+        case .draw, .highlight:
+            let highlight = mode == .highlight
+            activeStroke = DrawingStroke(
+                id: UUID().uuidString,
+                color: strokeColor,
+                width: highlight ? 20 : strokeWidth,
+                opacity: highlight ? 0.3 : strokeOpacity,
+                path: [[point.x, point.y]]
+            )
+            onPageChanged?(page)
+        case .erase:
+            erase(page: page, point: point, scale: scale)
+        case .view:
+            break
+        }
+    }
+
+    /// Continues the gesture, with `point` normalized to `activePage`.
+    func move(to point: CGPoint, scale: CGFloat) {
+        guard activePage >= 0 else { return }
+        switch mode {
+        case .draw, .highlight:
+            guard let stroke = activeStroke else { return }
+            activeStroke = DrawingStroke(
+                id: stroke.id,
+                color: stroke.color,
+                width: stroke.width,
+                opacity: stroke.opacity,
+                path: stroke.path + [[point.x, point.y]]
+            )
+            onPageChanged?(activePage)
+        case .erase:
+            erase(page: activePage, point: point, scale: scale)
+        case .view:
+            break
+        }
+    }
+
+    func end() {
+        let page = activePage
+        let stroke = activeStroke
+        activePage = -1
+        activeStroke = nil
+        guard let stroke else { return }
+        if stroke.path.count > 1 {
+            strokes[page, default: []].append(stroke)
+            onStrokeEnd?([
+                "id": stroke.id,
+                "color": stroke.color,
+                "width": stroke.width,
+                "opacity": stroke.opacity,
+                "path": stroke.path,
+                "page": page
+            ])
+        }
+        onPageChanged?(page)
+    }
+
+    /// Discards the stroke being drawn, e.g. when a second finger starts a
+    /// zoom.
+    func cancel() {
+        let page = activePage
+        let hadStroke = activeStroke != nil
+        activePage = -1
+        activeStroke = nil
+        if hadStroke {
+            onPageChanged?(page)
+        }
+    }
+
+    /// Removes the strokes of a page, or of every page if `page` is negative.
+    /// Reports each page that had strokes.
+    func clear(page: Int) {
+        cancel()
+        let pages = page < 0 ? Array(strokes.keys) : [page]
+        for cleared in pages {
+            guard let pageStrokes = strokes.removeValue(forKey: cleared) else { continue }
+            onPageChanged?(cleared)
+            if !pageStrokes.isEmpty {
+                onStrokesCleared?(["page": cleared])
+            }
+        }
+    }
+
+    private func erase(page: Int, point: CGPoint, scale: CGFloat) {
+        guard let pageStrokes = strokes[page] else { return }
+        let threshold = PageDrawing.eraseThreshold / scale
+        let removed = pageStrokes.filter { stroke in
+            stroke.path.contains { hypot($0[0] - point.x, $0[1] - point.y) < threshold }
+        }
+        guard !removed.isEmpty else { return }
+        let removedIds = Set(removed.map { $0.id })
+        strokes[page] = pageStrokes.filter { !removedIds.contains($0.id) }
+        for stroke in removed {
+            onStrokeRemoved?(["id": stroke.id, "page": page])
+        }
+        onPageChanged?(page)
+    }
+
+    /// Draws a stroke with points normalized to `rect`.
+    static func draw(_ stroke: DrawingStroke, in context: CGContext, rect: CGRect) {
+        guard stroke.path.count > 1 else { return }
+        let color = AnnotationRenderer.parseColor(stroke.color).withAlphaComponent(stroke.opacity)
+        context.setStrokeColor(color.cgColor)
+        context.setLineWidth(stroke.width)
+        context.setLineCap(.round)
+        context.setLineJoin(.round)
+
+        func toRect(_ normalized: [CGFloat]) -> CGPoint {
+            return CGPoint(x: rect.minX + normalized[0] * rect.width, y: rect.minY + normalized[1] * rect.height)
+        }
+
+        context.beginPath()
+        var prevPoint = toRect(stroke.path[0])
+        context.move(to: prevPoint)
+
+        for normalized in stroke.path.dropFirst() {
+            let point = toRect(normalized)
+            let dist = hypot(point.x - prevPoint.x, point.y - prevPoint.y)
+            if dist < 8 { continue }
+
+            let midPoint = CGPoint(x: (prevPoint.x + point.x) / 2, y: (prevPoint.y + point.y) / 2)
+            context.addQuadCurve(to: midPoint, control: prevPoint)
+            prevPoint = point
+        }
+
+        context.addLine(to: toRect(stroke.path.last!))
+        context.strokePath()
+    }
+}
@@ -6,16 +6,42 @@ class PagingPdfView: UIView {
 
     // MARK: - React Props
 
-    @objc var source = "" { didSet { reloadPdf() } }
+    @objc var source = "" { didSet { sourceChanged = true } }
+    @objc var password = "" { didSet { sourceChanged = true } }
 
     @objc var minZoom: CGFloat = 1.0 { didSet { updateZoomLimits() } }
     @objc var maxZoom: CGFloat = 3.0 { didSet { updateZoomLimits() } }
+    @objc var initialPage: Int = 0
+    @objc var initialZoom: CGFloat = 1.0
     @objc var edgeTapZone: CGFloat = 15.0
 
     @objc var pdfBackgroundColor: UIColor = UIColor(white: 0.2, alpha: 1.0) {
         didSet { updateBackgroundColor() }
     }
 
+    @objc var annotations = "" {
+        didSet {
+            parsedAnnotations = AnnotationPage.parseMap(annotations)
+            updateVisibleHighlights()
+        }
+    }
+    @objc var highlights = "" {
+        didSet {
+            parsedHighlights = PdfHighlight.parse(highlights)
+            updateVisibleHighlights()
+        }
+    }
+    @objc var activeHighlight: Int = -1 { didSet { updateVisibleHighlights() } }
+    @objc var highlightColor: UIColor? { didSet { updateVisibleHighlights() } }
+    @objc var activeHighlightColor: UIColor? { didSet { updateVisibleHighlights() } }
+    @objc var followInternalLinks = true
+    @objc var showLinkAreas = false { didSet { updateVisibleHighlights() } }
+    @objc var drawingMode = DrawingMode.view.rawValue { didSet { updateDrawingMode() } }
+    @objc var strokeColor = "#000000" { didSet { drawing.strokeColor = strokeColor } }
+    @objc var strokeWidth: CGFloat = 3.0 { didSet { drawing.strokeWidth = strokeWidth } }
+    @objc var strokeOpacity: CGFloat = 1.0 { didSet { drawing.strokeOpacity = strokeOpacity } }
+    @objc var strokes = "" { didSet { loadStrokes() } }
+
     // MARK: - React Events
 
     @objc var onPdfError: RCTDirectEventBlock?
@@ -32,6 +58,13 @@ class PagingPdfView: UIView {
     @objc var onZoomChange: RCTDirectEventBlock?
     @objc var onTap: RCTDirectEventBlock?
     @objc var onMiddleClick: RCTDirectEventBlock?
+    @objc var onPageTap: RCTDirectEventBlock?
+    @objc var onPageDoubleTap: RCTDirectEventBlock?
+    @objc var onPageLongPress: RCTDirectEventBlock?
+    @objc var onLinkPress: RCTDirectEventBlock?
+    @objc var onStrokeEnd: RCTDirectEventBlock?
+    @objc var onStrokeRemoved: RCTDirectEventBlock?
+    @objc var onStrokesCleared: RCTDirectEventBlock?
 
     // Store load complete event if callback not yet set
     private var pendingLoadCompleteEvent: [String: Any]?
@@ -40,8 +73,13 @@ class PagingPdfView: UIView {
 
     private var pageViewController: UIPageViewController!
     private var pdfDocument: CGPDFDocument?
+    // File of pdfDocument; differs from source for shared documents.
+    private var documentPath = ""
     private var currentPage: Int = 0
     private var isReloading = false
+    // Incremented per load; fingerprints of replaced loads are dropped.
+    private var loadGeneration = 0
+    private var sourceChanged = false
     private var actualPageCount: Int = 0
     private var needsInitialPage = false
     private var previousBoundsWidth: CGFloat = 0
@@ -53,6 +91,14 @@ class PagingPdfView: UIView {
     // Image cache
     private var imageCache = NSCache<NSNumber, UIImage>()
 
+    private var parsedHighlights: [PdfHighlight] = []
+    private var parsedAnnotations: [Int: AnnotationPage] = [:]
+    private let linkCache = PdfLinkCache()
+    private let drawing = PageDrawing()
+
+    // Page overlays (React children), shown by the page controllers
+    private var overlays: [PdfPageOverlayView] = []
+
     // MARK: - Initialization
 
     override init(frame: CGRect) {
@@ -81,6 +127,19 @@ class PagingPdfView: UIView {
         pageViewController.view.backgroundColor = .clear
 
         addSubview(pageViewController.view)
+
+        drawing.onPageChanged = { [weak self] page in
+            self?.configureStrokes(page: page)
+        }
+        drawing.onStrokeEnd = { [weak self] event in
+            self?.onStrokeEnd?(event)
+        }
+        drawing.onStrokeRemoved = { [weak self] event in
+            self?.onStrokeRemoved?(event)
+        }
+        drawing.onStrokesCleared = { [weak self] event in
+            self?.onStrokesCleared?(event)
+        }
     }
 
     private func updateBackgroundColor() {
@@ -100,7 +159,7 @@ class PagingPdfView: UIView {
         // Show initial page when we have valid bounds
         if needsInitialPage && bounds.width > 0 && bounds.height > 0 {
             needsInitialPage = false
-            showPage(0, animated: false)
+            showInitialPage()
         }
 
         // Clear cache and re-render on rotation
@@ -154,22 +213,37 @@ class PagingPdfView: UIView {
 
     // MARK: - PDF Loading
 
+    override func didSetProps(_ changedProps: [String]!) {
+        super.didSetProps(changedProps)
+        // Reload once source and password are both applied.
+        if sourceChanged {
+            sourceChanged = false
+            reloadPdf()
+        }
+    }
+
     private func reloadPdf() {
         guard !source.isEmpty, !isReloading else { return }
         isReloading = true
+        loadGeneration += 1
+        pendingLoadCompleteEvent = nil
 
         // Clear cache
         imageCache.removeAllObjects()
+        linkCache.reset(source: source, password: password)
+        drawing.cancel()
         pdfDocument = nil
         currentPage = 0
 
-        // Load PDF document
-        let url = URL(fileURLWithPath: source)
-        guard let document = CGPDFDocument(url as CFURL) else {
-            onPdfError?(["message": "Failed to open PDF: \(source)"])
+        // Load PDF document (or share the one opened by PdfUtil.open())
+        guard let opened = PdfDocumentRegistry.cgDocument(source: source, password: password, onError: {
+            onPdfError?(["code": $0.code, "message": $0.message])
+        }) else {
             isReloading = false
             return
         }
+        let document = opened.document
+        documentPath = opened.path
 
         pdfDocument = document
 
@@ -189,31 +263,47 @@ class PagingPdfView: UIView {
 
         isReloading = false
 
-        // Show first page (defer if bounds are zero)
+        // Show initial page (defer if bounds are zero)
         if bounds.width > 0 && bounds.height > 0 {
-            showPage(0, animated: false)
+            showInitialPage()
         } else {
             needsInitialPage = true
         }
 
-        // Notify load complete
-        let loadCompleteEvent: [String: Any] = [
-            "width": pdfPageWidth,
-            "height": pdfPageHeight,
-            "pageCount": actualPageCount
-        ]
-        if let callback = onPdfLoadComplete {
-            callback(loadCompleteEvent)
-        } else {
-            // Store for later when callback is set (race condition workaround)
-            pendingLoadCompleteEvent = loadCompleteEvent
+        // Notify load complete once the document is hashed.
+        let generation = loadGeneration
+        PdfFingerprint.compute(path: documentPath) { [weak self] fingerprint in
+            guard let self = self, generation == self.loadGeneration else { return }
+            let loadCompleteEvent: [String: Any] = [
+                "width": self.pdfPageWidth,
+                "height": self.pdfPageHeight,
+                "pageCount": self.actualPageCount,
+                "fingerprint": fingerprint ?? ""
+            ]
+            if let callback = self.onPdfLoadComplete {
+                callback(loadCompleteEvent)
+            } else {
+                // Store for later when callback is set (race condition workaround)
+                self.pendingLoadCompleteEvent = loadCompleteEvent
+            }
+            if self.clampedInitialPage > 0 {
+                self.onPageChange?(["page": self.clampedInitialPage])
+            }
         }
     }
 
-    private func showPage(_ pageIndex: Int, animated: Bool, scrollToBottom: Bool = false) {
+    private var clampedInitialPage: Int {
+        return max(0, min(initialPage, actualPageCount - 1))
+    }
+
+    private func showInitialPage() {
+        showPage(clampedInitialPage, animated: false, zoomScale: initialZoom)
+    }
+
+    private func showPage(_ pageIndex: Int, animated: Bool, scrollToBottom: Bool = false, zoomScale: CGFloat? = nil) {
         guard pageIndex >= 0, pageIndex < actualPageCount else { return }
 
-        let pageVC = createPageViewController(for: pageIndex, scrollToBottom: scrollToBottom)
+        let pageVC = createPageViewController(for: pageIndex, scrollToBottom: scrollToBottom, zoomScale: zoomScale)
         let direction: UIPageViewController.NavigationDirection = pageIndex >= currentPage ? .forward : .reverse
 
         pageViewController.setViewControllers(
@@ -226,7 +316,15 @@ class PagingPdfView: UIView {
         currentPage = pageIndex
     }
 
-    private func createPageViewController(for pageIndex: Int, scrollToBottom: Bool = false) -> PdfPageViewController {
+    private func pagePointEvent(_ page: Int, _ point: CGPoint) -> [String: Any] {
+        return PdfGeometry.pagePointEvent(
+            page: page,
+            point: point,
+            pageSize: CGSize(width: pdfPageWidth, height: pdfPageHeight)
+        )
+    }
+
+    private func createPageViewController(for pageIndex: Int, scrollToBottom: Bool = false, zoomScale: CGFloat? = nil) -> PdfPageViewController {
         let pageVC = PdfPageViewController()
         pageVC.pageIndex = pageIndex
         pageVC.minZoom = minZoom
@@ -234,6 +332,8 @@ class PagingPdfView: UIView {
         pageVC.edgeTapZone = edgeTapZone
         pageVC.pageBackgroundColor = pdfBackgroundColor
         pageVC.shouldScrollToBottomOnLoad = scrollToBottom
+        pageVC.initialZoomScale = zoomScale
+        pageVC.isDrawing = drawing.isDrawing
         pageVC.onZoomChange = { [weak self] scale in
             self?.onZoomChange?(["scale": scale])
         }
@@ -243,6 +343,39 @@ class PagingPdfView: UIView {
         pageVC.onMiddleClick = { [weak self] in
             self?.onMiddleClick?([:])
         }
+        pageVC.onPageTap = { [weak self] point in
+            guard let self = self else { return }
+            self.onPageTap?(self.pagePointEvent(pageIndex, point))
+        }
+        pageVC.onPageDoubleTap = { [weak self] point in
+            guard let self = self else { return }
+            self.onPageDoubleTap?(self.pagePointEvent(pageIndex, point))
+        }
+        pageVC.onPageLongPress = { [weak self] point in
+            guard let self = self else { return }
+            self.onPageLongPress?(self.pagePointEvent(pageIndex, point))
+        }
+        pageVC.onLinkTap = { [weak self] point in
+            guard let self = self, let link = self.linkCache.link(at: point, on: pageIndex) else { return false }
+            if let target = link.page, self.followInternalLinks {
+                self.scrollToPage(target, animated: true)
+            } else {
+                self.onLinkPress?(link.json)
+            }
+            return true
+        }
+        pageVC.onDrawBegin = { [weak self] point, scale in
+            self?.drawing.begin(page: pageIndex, point: point, scale: scale)
+        }
+        pageVC.onDrawMove = { [weak self] point, scale in
+            self?.drawing.move(to: point, scale: scale)
+        }
+        pageVC.onDrawEnd = { [weak self] in
+            self?.drawing.end()
+        }
+        pageVC.onDrawCancel = { [weak self] in
+            self?.drawing.cancel()
+        }
         pageVC.onPreviousPage = { [weak self] scrollToBottom in
             guard let self = self, pageIndex > 0 else { return }
             self.showPage(pageIndex - 1, animated: true, scrollToBottom: scrollToBottom)
@@ -252,6 +385,8 @@ class PagingPdfView: UIView {
             guard let self = self, pageIndex < self.actualPageCount - 1 else { return }
             self.scrollToPage(pageIndex + 1, animated: true)
         }
+        configureHighlights(pageVC)
+        configureOverlays(pageVC)
 
         // Load image from cache or render
         if let cachedImage = imageCache.object(forKey: NSNumber(value: pageIndex)) {
@@ -267,6 +402,86 @@ class PagingPdfView: UIView {
         return pageVC
     }
 
+    // MARK: - Highlights
+
+    private func configureHighlights(_ pageVC: PdfPageViewController) {
+        var rects: [NormalizedRect] = []
+        var activeRects: [NormalizedRect] = []
+        for (index, highlight) in parsedHighlights.enumerated() where highlight.page == pageVC.pageIndex {
+            if index == activeHighlight {
+                activeRects.append(contentsOf: highlight.rects)
+            } else {
+                rects.append(contentsOf: highlight.rects)
+            }
+        }
+        pageVC.setHighlights(rects, active: activeRects, color: highlightColor, activeColor: activeHighlightColor)
+        pageVC.setAnnotation(parsedAnnotations[pageVC.pageIndex])
+        pageVC.setStrokes(drawing.strokes(on: pageVC.pageIndex), active: drawing.activeStroke(on: pageVC.pageIndex))
+        pageVC.setLinkAreas(showLinkAreas ? linkCache.links(on: pageVC.pageIndex).map { $0.rect } : [])
+    }
+
+    private func updateVisibleHighlights() {
+        pageViewController.viewControllers?.forEach { viewController in
+            if let pageVC = viewController as? PdfPageViewController {
+                configureHighlights(pageVC)
+            }
+        }
+    }
+
+    // MARK: - Drawing
+
+    private func updateDrawingMode() {
+        if !drawing.setMode(drawingMode) {
+            onPdfError?(["code": PdfErrorCode.invalidArgument.rawValue, "message": "Unknown drawingMode '\(drawingMode)'."])
+        }
+        // Without a data source, swiping does not change pages
+        pageViewController.dataSource = drawing.isDrawing ? nil : self
+        pageViewController.viewControllers?.forEach { viewController in
+            (viewController as? PdfPageViewController)?.isDrawing = drawing.isDrawing
+        }
+    }
+
+    private func loadStrokes() {
+        do {
+            try drawing.setStrokes(strokes)
+        } catch {
+            onPdfError?(["code": PdfErrorCode.invalidArgument.rawValue, "message": "Failed to parse strokes: \(error.localizedDescription)"])
+        }
+    }
+
+    private func configureStrokes(page: Int) {
+        pageViewController.viewControllers?.forEach { viewController in
+            if let pageVC = viewController as? PdfPageViewController, pageVC.pageIndex == page {
+                pageVC.setStrokes(drawing.strokes(on: page), active: drawing.activeStroke(on: page))
+            }
+        }
+    }
+
+    // MARK: - Page Overlays
+
+    override func didUpdateReactSubviews() {
+        // React children are page overlays, shown by the controller of their page
+        overlays = reactSubviews()?.compactMap { $0 as? PdfPageOverlayView } ?? []
+        for overlay in overlays {
+            overlay.onPageChanged = { [weak self] in
+                self?.updateVisibleOverlays()
+            }
+        }
+        updateVisibleOverlays()
+    }
+
+    private func configureOverlays(_ pageVC: PdfPageViewController) {
+        pageVC.overlays = overlays.filter { $0.page == pageVC.pageIndex }
+    }
+
+    private func updateVisibleOverlays() {
+        pageViewController.viewControllers?.forEach { viewController in
+            if let pageVC = viewController as? PdfPageViewController {
+                configureOverlays(pageVC)
+            }
+        }
+    }
+
     // MARK: - PDF Rendering
 
     private func renderPage(at index: Int, completion: @escaping (UIImage?) -> Void) {
@@ -293,12 +508,49 @@ class PagingPdfView: UIView {
         }
     }
 
+    /// Zoom the current page to a scale (within the zoom limits) around a
+    /// point of the viewport, or its center.
+    func setZoom(_ scale: CGFloat, focalPoint: CGPoint?, animated: Bool) {
+        if let currentVC = pageViewController.viewControllers?.first as? PdfPageViewController {
+            currentVC.setZoom(scale, focalPoint: focalPoint, animated: animated)
+        }
+    }
+
     func scrollToPage(_ page: Int, animated: Bool) {
         guard page >= 0, page < actualPageCount else { return }
         showPage(page, animated: animated)
         onPageChange?(["page": page])
     }
 
+    /// Show a page and zoom so that a rect (normalized to page dimensions)
+    /// fills the viewport, within the zoom limits.
+    func zoomToRect(page: Int, rect: CGRect, animated: Bool) {
+        guard page >= 0, page < actualPageCount else { return }
+        if page != currentPage {
+            scrollToPage(page, animated: animated)
+        }
+        if let currentVC = pageViewController.viewControllers?.first as? PdfPageViewController {
+            currentVC.zoomToRect(rect, animated: animated)
+        }
+    }
+
+    /// Show a page at a zoom level, with the top left corner of the viewport
+    /// at an offset normalized to page dimensions. Inverse of viewState().
+    func restoreLocation(page: Int, offset: CGPoint, scale: CGFloat) {
+        guard page >= 0, page < actualPageCount else { return }
+        if page != currentPage {
+            scrollToPage(page, animated: false)
+        }
+        if let currentVC = pageViewController.viewControllers?.first as? PdfPageViewController {
+            currentVC.restoreLocation(offset: offset, scale: scale)
+        }
+    }
+
+    /// Remove the strokes of a page, or of every page if `page` is negative.
+    func clearStrokes(page: Int) {
+        drawing.clear(page: page)
+    }
+
     // MARK: - Cleanup
 
     func clearCache() {
@@ -306,6 +558,21 @@ class PagingPdfView: UIView {
     }
 }
 
+// MARK: - PdfViewStateProvider
+
+extension PagingPdfView: PdfViewStateProvider {
+
+    func viewState() -> [String: Any] {
+        let currentVC = pageViewController.viewControllers?.first as? PdfPageViewController
+        let offset = currentVC?.viewportOffset() ?? .zero
+        return [
+            "page": currentPage,
+            "scale": currentVC?.zoomScale ?? 1,
+            "offset": ["x": offset.x, "y": offset.y]
+        ]
+    }
+}
+
 // MARK: - UIPageViewControllerDataSource
 
 extension PagingPdfView: UIPageViewControllerDataSource {
@@ -367,21 +634,56 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
     var onZoomChange: ((CGFloat) -> Void)?
     var onTap: ((String) -> Void)?
     var onMiddleClick: (() -> Void)?
+    // Point of the page, normalized to 0-1
+    var onPageTap: ((CGPoint) -> Void)?
+    var onPageDoubleTap: ((CGPoint) -> Void)?
+    var onPageLongPress: ((CGPoint) -> Void)?
+    // Handles a tap on a link; returns false if there is no link there
+    var onLinkTap: ((CGPoint) -> Bool)?
     var onPreviousPage: ((_ scrollToBottom: Bool) -> Void)?
     var onNextPage: (() -> Void)?
 
+    // Draw with one finger, reporting points normalized to the page image
+    var isDrawing = false { didSet { updateDrawingGestures() } }
+    var onDrawBegin: ((_ point: CGPoint, _ scale: CGFloat) -> Void)?
+    var onDrawMove: ((_ point: CGPoint, _ scale: CGFloat) -> Void)?
+    var onDrawEnd: (() -> Void)?
+    var onDrawCancel: (() -> Void)?
+
     var shouldScrollToBottomOnLoad = false
 
+    var overlays: [PdfPageOverlayView] = [] {
+        didSet {
+            if isViewLoaded {
+                overlayContainer.setOverlays(overlays)
+            }
+        }
+    }
+
+    // Zoom level to show the page image at, instead of minZoom
+    var initialZoomScale: CGFloat?
+
     var isAtMinZoom: Bool {
         return scrollView.zoomScale <= minZoom + 0.01
     }
 
     private let scrollView = UIScrollView()
     private let imageView = UIImageView()
+    private let highlightView = HighlightOverlayView()
+    private lazy var overlayContainer = PageOverlayContainerView { [weak self] _ in
+        guard let self = self, self.imageView.image != nil else { return nil }
+        return self.overlayContainer.bounds
+    }
+
+    // Zoom requested before the page image was laid out
+    private var pendingZoomRect: CGRect?
+    private var pendingLocation: (offset: CGPoint, scale: CGFloat)?
 
     private var doubleTapGesture: UITapGestureRecognizer!
     private var edgeTapGesture: UITapGestureRecognizer!
     private var middleTapGesture: UITapGestureRecognizer!
+    private var longPressGesture: UILongPressGestureRecognizer!
+    private var drawingGesture: UIPanGestureRecognizer!
 
     override func viewDidLoad() {
         super.viewDidLoad()
@@ -404,6 +706,15 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
         imageView.backgroundColor = .white
         scrollView.addSubview(imageView)
 
+        highlightView.autoresizingMask = [.flexibleWidth, .flexibleHeight]
+        imageView.addSubview(highlightView)
+
+        // Overlays receive touches through the image view
+        imageView.isUserInteractionEnabled = true
+        overlayContainer.autoresizingMask = [.flexibleWidth, .flexibleHeight]
+        imageView.addSubview(overlayContainer)
+        overlayContainer.setOverlays(overlays)
+
         // Double tap to zoom (only works in middle zone)
         doubleTapGesture = UITapGestureRecognizer(target: self, action: #selector(handleDoubleTap(_:)))
         doubleTapGesture.numberOfTapsRequired = 2
@@ -422,6 +733,18 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
         middleTapGesture.require(toFail: doubleTapGesture)
         middleTapGesture.delegate = self
         scrollView.addGestureRecognizer(middleTapGesture)
+
+        longPressGesture = UILongPressGestureRecognizer(target: self, action: #selector(handleLongPress(_:)))
+        longPressGesture.delegate = self
+        scrollView.addGestureRecognizer(longPressGesture)
+
+        // One finger draws in drawing modes; two fingers scroll and zoom
+        drawingGesture = UIPanGestureRecognizer(target: self, action: #selector(handleDrawing(_:)))
+        drawingGesture.minimumNumberOfTouches = 1
+        drawingGesture.maximumNumberOfTouches = 1
+        drawingGesture.delegate = self
+        scrollView.addGestureRecognizer(drawingGesture)
+        updateDrawingGestures()
     }
 
     override func viewDidLayoutSubviews() {
@@ -433,12 +756,90 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
     func setImage(_ image: UIImage?) {
         imageView.image = image
         updateImageViewFrame()
+        overlayContainer.setNeedsLayout()
 
         // Scroll to bottom if requested (for landscape back navigation)
         if shouldScrollToBottomOnLoad {
             shouldScrollToBottomOnLoad = false
             scrollToBottom()
         }
+        applyPendingZoom()
+    }
+
+    func setHighlights(_ rects: [NormalizedRect], active: [NormalizedRect], color: UIColor?, activeColor: UIColor?) {
+        if let color {
+            highlightView.highlightColor = color
+        }
+        if let activeColor {
+            highlightView.activeHighlightColor = activeColor
+        }
+        highlightView.rects = rects
+        highlightView.activeRects = active
+    }
+
+    func setAnnotation(_ annotation: AnnotationPage?) {
+        highlightView.annotation = annotation
+    }
+
+    func setStrokes(_ strokes: [DrawingStroke], active: DrawingStroke?) {
+        highlightView.strokes = strokes
+        highlightView.activeStroke = active
+    }
+
+    func setLinkAreas(_ rects: [NormalizedRect]) {
+        highlightView.linkRects = rects
+    }
+
+    func zoomToRect(_ rect: CGRect, animated: Bool) {
+        let pageSize = imageView.bounds.size
+        guard isViewLoaded, imageView.image != nil, pageSize.width > 0, pageSize.height > 0 else {
+            pendingZoomRect = rect
+            return
+        }
+
+        let targetRect = CGRect(
+            x: rect.minX * pageSize.width,
+            y: rect.minY * pageSize.height,
+            width: rect.width * pageSize.width,
+            height: rect.height * pageSize.height
+        )
+        scrollView.zoom(to: targetRect, animated: animated)
+    }
+
+    private func applyPendingZoom() {
+        guard imageView.image != nil else { return }
+        if let scale = initialZoomScale {
+            initialZoomScale = nil
+            scrollView.setZoomScale(scale, animated: false)
+        }
+        if let rect = pendingZoomRect {
+            pendingZoomRect = nil
+            zoomToRect(rect, animated: false)
+        }
+        if let location = pendingLocation {
+            pendingLocation = nil
+            restoreLocation(offset: location.offset, scale: location.scale)
+        }
+    }
+
+    /// Zoom and scroll so the top left corner of the viewport is at a
+    /// normalized offset of the page image.
+    func restoreLocation(offset: CGPoint, scale: CGFloat) {
+        guard isViewLoaded, imageView.image != nil, imageView.bounds.width > 0, imageView.bounds.height > 0 else {
+            pendingLocation = (offset, scale)
+            return
+        }
+
+        scrollView.setZoomScale(scale, animated: false)
+        let pageSize = imageView.bounds.size
+        let zoomScale = scrollView.zoomScale
+        let inset = scrollView.contentInset
+        let maxX = max(-inset.left, scrollView.contentSize.width - scrollView.bounds.width + inset.right)
+        let maxY = max(-inset.top, scrollView.contentSize.height - scrollView.bounds.height + inset.bottom)
+        scrollView.contentOffset = CGPoint(
+            x: max(-inset.left, min(maxX, offset.x * pageSize.width * zoomScale)),
+            y: max(-inset.top, min(maxY, offset.y * pageSize.height * zoomScale))
+        )
     }
 
     func scrollToBottom() {
@@ -459,6 +860,8 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
         let scaledHeight = imageSize.height * scale
 
         imageView.frame = CGRect(x: 0, y: 0, width: viewSize.width, height: scaledHeight)
+        highlightView.frame = imageView.bounds
+        overlayContainer.frame = imageView.bounds
         scrollView.contentSize = imageView.frame.size
 
         updateContentInset()
@@ -484,6 +887,10 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
     }
 
     @objc private func handleDoubleTap(_ gesture: UITapGestureRecognizer) {
+        if let point = pagePoint(of: gesture) {
+            onPageDoubleTap?(point)
+        }
+
         if scrollView.zoomScale > minZoom {
             scrollView.setZoomScale(minZoom, animated: true)
         } else {
@@ -499,6 +906,11 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
     }
 
     @objc private func handleEdgeTap(_ gesture: UITapGestureRecognizer) {
+        if handleLinkTap(gesture) { return }
+        // Before the edge tap scrolls the content away
+        if let point = pagePoint(of: gesture) {
+            onPageTap?(point)
+        }
         let tapLocation = gesture.location(in: view)
 
         let viewportHeight = view.bounds.height
@@ -539,13 +951,96 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
     }
 
     @objc private func handleMiddleTap(_ gesture: UITapGestureRecognizer) {
+        if handleLinkTap(gesture) { return }
+        if let point = pagePoint(of: gesture) {
+            onPageTap?(point)
+        }
         onMiddleClick?()
     }
 
+    @objc private func handleLongPress(_ gesture: UILongPressGestureRecognizer) {
+        if gesture.state == .began, let point = pagePoint(of: gesture) {
+            onPageLongPress?(point)
+        }
+    }
+
+    @objc private func handleDrawing(_ gesture: UIPanGestureRecognizer) {
+        let location = gesture.location(in: imageView)
+        let scale = scrollView.zoomScale
+        switch gesture.state {
+        case .began:
+            // Start where the finger went down, before the pan was recognized
+            let translation = gesture.translation(in: imageView)
+            let start = CGPoint(x: location.x - translation.x, y: location.y - translation.y)
+            guard let point = pagePoint(at: start) else { return }
+            onDrawBegin?(point, scale)
+            if let point = imagePoint(location) {
+                onDrawMove?(point, scale)
+            }
+        case .changed:
+            guard let point = imagePoint(location) else { return }
+            onDrawMove?(point, scale)
+        case .ended:
+            onDrawEnd?()
+        default:
+            onDrawCancel?()
+        }
+    }
+
+    private func updateDrawingGestures() {
+        guard isViewLoaded else { return }
+        drawingGesture.isEnabled = isDrawing
+        scrollView.panGestureRecognizer.minimumNumberOfTouches = isDrawing ? 2 : 1
+        doubleTapGesture.isEnabled = !isDrawing
+        edgeTapGesture.isEnabled = !isDrawing
+        middleTapGesture.isEnabled = !isDrawing
+        longPressGesture.isEnabled = !isDrawing
+    }
+
+    /// Location of a gesture normalized to the page image, or nil if it is
+    /// outside the image.
+    private func pagePoint(of gesture: UIGestureRecognizer) -> CGPoint? {
+        return pagePoint(at: gesture.location(in: imageView))
+    }
+
+    private func pagePoint(at location: CGPoint) -> CGPoint? {
+        guard imageView.bounds.contains(location) else { return nil }
+        return imagePoint(location)
+    }
+
+    /// A point of the image view normalized to the page image, outside the
+    /// 0-1 range beyond the image, or nil before the image is laid out.
+    private func imagePoint(_ location: CGPoint) -> CGPoint? {
+        let pageSize = imageView.bounds.size
+        guard imageView.image != nil, pageSize.width > 0, pageSize.height > 0 else { return nil }
+        return CGPoint(x: location.x / pageSize.width, y: location.y / pageSize.height)
+    }
+
+    private func handleLinkTap(_ gesture: UIGestureRecognizer) -> Bool {
+        guard let point = pagePoint(of: gesture) else { return false }
+        return onLinkTap?(point) ?? false
+    }
+
     func resetZoom() {
         scrollView.setZoomScale(minZoom, animated: true)
     }
 
+    func setZoom(_ scale: CGFloat, focalPoint: CGPoint?, animated: Bool) {
+        scrollView.setZoomScale(scale, focalPoint: focalPoint, animated: animated)
+    }
+
+    var zoomScale: CGFloat {
+        return scrollView.zoomScale
+    }
+
+    /// Top left corner of the viewport, normalized to the page image.
+    func viewportOffset() -> CGPoint {
+        let pageSize = imageView.bounds.size
+        guard isViewLoaded, pageSize.width > 0, pageSize.height > 0 else { return .zero }
+        let origin = imageView.convert(scrollView.bounds.origin, from: scrollView)
+        return CGPoint(x: origin.x / pageSize.width, y: origin.y / pageSize.height)
+    }
+
     // MARK: - UIScrollViewDelegate
 
     func viewForZooming(in scrollView: UIScrollView) -> UIView? {
@@ -559,6 +1054,11 @@ class PdfPageViewController: UIViewController, UIScrollViewDelegate, UIGestureRe
 
     // MARK: - UIGestureRecognizerDelegate
 
+    func gestureRecognizer(_ gestureRecognizer: UIGestureRecognizer, shouldReceive touch: UITouch) -> Bool {
+        // Taps on overlay content belong to the overlay
+        return !PdfPageOverlayView.contains(touch.view)
+    }
+
     func gestureRecognizerShouldBegin(_ gestureRecognizer: UIGestureRecognizer) -> Bool {
         let tapLocation = gestureRecognizer.location(in: view)
         let edgeRatio = edgeTapZone / 100.0
@@ -3,10 +3,25 @@
 @interface RCT_EXTERN_REMAP_MODULE(RNPagingPdfView, PagingPdfViewManager, RCTViewManager)
 
 RCT_EXPORT_VIEW_PROPERTY(source, NSString)
+RCT_EXPORT_VIEW_PROPERTY(password, NSString)
 RCT_EXPORT_VIEW_PROPERTY(minZoom, CGFloat)
 RCT_EXPORT_VIEW_PROPERTY(maxZoom, CGFloat)
+RCT_EXPORT_VIEW_PROPERTY(initialPage, NSInteger)
+RCT_EXPORT_VIEW_PROPERTY(initialZoom, CGFloat)
 RCT_EXPORT_VIEW_PROPERTY(edgeTapZone, CGFloat)
 RCT_EXPORT_VIEW_PROPERTY(pdfBackgroundColor, UIColor)
+RCT_EXPORT_VIEW_PROPERTY(annotations, NSString)
+RCT_EXPORT_VIEW_PROPERTY(highlights, NSString)
+RCT_EXPORT_VIEW_PROPERTY(activeHighlight, NSInteger)
+RCT_EXPORT_VIEW_PROPERTY(highlightColor, UIColor)
+RCT_EXPORT_VIEW_PROPERTY(activeHighlightColor, UIColor)
+RCT_EXPORT_VIEW_PROPERTY(followInternalLinks, BOOL)
+RCT_EXPORT_VIEW_PROPERTY(showLinkAreas, BOOL)
+RCT_EXPORT_VIEW_PROPERTY(drawingMode, NSString)
+RCT_EXPORT_VIEW_PROPERTY(strokeColor, NSString)
+RCT_EXPORT_VIEW_PROPERTY(strokeWidth, CGFloat)
+RCT_EXPORT_VIEW_PROPERTY(strokeOpacity, CGFloat)
+RCT_EXPORT_VIEW_PROPERTY(strokes, NSString)
 
 RCT_EXPORT_VIEW_PROPERTY(onPdfError, RCTDirectEventBlock)
 RCT_EXPORT_VIEW_PROPERTY(onPdfLoadComplete, RCTDirectEventBlock)
@@ -14,9 +29,20 @@ RCT_EXPORT_VIEW_PROPERTY(onPageChange, RCTDirectEventBlock)
 RCT_EXPORT_VIEW_PROPERTY(onZoomChange, RCTDirectEventBlock)
 RCT_EXPORT_VIEW_PROPERTY(onTap, RCTDirectEventBlock)
 RCT_EXPORT_VIEW_PROPERTY(onMiddleClick, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onPageTap, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onPageDoubleTap, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onPageLongPress, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onLinkPress, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onStrokeEnd, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onStrokeRemoved, RCTDirectEventBlock)
+RCT_EXPORT_VIEW_PROPERTY(onStrokesCleared, RCTDirectEventBlock)
 
 // Commands
 RCT_EXTERN_METHOD(resetZoom:(nonnull NSNumber *)node)
 RCT_EXTERN_METHOD(scrollToPage:(nonnull NSNumber *)node page:(int)page animated:(BOOL)animated)
+RCT_EXTERN_METHOD(zoomToRect:(nonnull NSNumber *)node page:(int)page x:(CGFloat)x y:(CGFloat)y width:(CGFloat)width height:(CGFloat)height animated:(BOOL)animated)
+RCT_EXTERN_METHOD(setZoom:(nonnull NSNumber *)node scale:(CGFloat)scale focalX:(nullable NSNumber *)focalX focalY:(nullable NSNumber *)focalY animated:(BOOL)animated)
+RCT_EXTERN_METHOD(restoreLocation:(nonnull NSNumber *)node page:(int)page x:(CGFloat)x y:(CGFloat)y scale:(CGFloat)scale)
+RCT_EXTERN_METHOD(clearStrokes:(nonnull NSNumber *)node page:(int)page)
 
 @end
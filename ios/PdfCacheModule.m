@@ -0,0 +1,33 @@
+#import <React/RCTBridgeModule.h>
+#import <React/RCTEventEmitter.h>
+
+@interface RCT_EXTERN_REMAP_MODULE(RNPdfCache, PdfCacheModule, RCTEventEmitter)
+
+RCT_EXTERN_METHOD(getCached:(NSString *)cacheKey
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(download:(NSString *)uri
+                 headers:(NSDictionary *)headers
+                 cacheKey:(NSString *)cacheKey
+                 requestId:(nonnull NSNumber *)requestId
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(cancelDownload:(nonnull NSNumber *)requestId)
+
+RCT_EXTERN_METHOD(writeBase64:(NSString *)base64
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(list:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(remove:(NSString *)cacheKey
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(clear:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+@end
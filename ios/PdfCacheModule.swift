@@ -0,0 +1,300 @@
+import CommonCrypto
+import Foundation
+
+@objc(PdfCacheModule)
+class PdfCacheModule: RCTEventEmitter, URLSessionDownloadDelegate {
+    private static let progressEvent = "PdfDownloadProgress"
+    private static let progressInterval: TimeInterval = 0.1
+
+    private struct Download {
+        let requestId: Int
+        let cacheKey: String
+        let uri: String
+        let resolve: RCTPromiseResolveBlock
+        let reject: RCTPromiseRejectBlock
+        var lastProgress: TimeInterval = 0
+    }
+
+    // In-flight downloads by task identifier, and their tasks by request id.
+    private var downloads = [Int: Download]()
+    private var tasks = [Int: URLSessionDownloadTask]()
+    private let downloadLock = NSLock()
+    private var hasListeners = false
+
+    private lazy var session: URLSession = {
+        let queue = OperationQueue()
+        queue.maxConcurrentOperationCount = 1
+        return URLSession(configuration: .default, delegate: self, delegateQueue: queue)
+    }()
+
+    @objc
+    override static func requiresMainQueueSetup() -> Bool {
+        return false
+    }
+
+    override func supportedEvents() -> [String]! {
+        return [PdfCacheModule.progressEvent]
+    }
+
+    override func startObserving() {
+        hasListeners = true
+    }
+
+    override func stopObserving() {
+        hasListeners = false
+    }
+
+    override func invalidate() {
+        session.invalidateAndCancel()
+        super.invalidate()
+    }
+
+    /**
+     * Get the cached file for a key, or null if it has not been downloaded.
+     */
+    @objc(getCached:withResolver:withRejecter:)
+    func getCached(cacheKey: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        do {
+            let file = try PdfCacheModule.cacheFile(cacheKey: cacheKey)
+            resolve(FileManager.default.fileExists(atPath: file.path) ? PdfCacheModule.readEntry(file: file) : nil)
+        } catch {
+            reject(PdfErrorCode.unknown.rawValue, "Failed to read download cache: \(error.localizedDescription)", error)
+        }
+    }
+
+    /**
+     * Download a document into the cache, replacing any previous file for the
+     * key. Emits progress events tagged with the request id.
+     */
+    @objc(download:headers:cacheKey:requestId:withResolver:withRejecter:)
+    func download(uri: String, headers: NSDictionary, cacheKey: String, requestId: NSNumber, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        guard let url = URL(string: uri) else {
+            reject(PdfErrorCode.invalidArgument.rawValue, "Invalid url \(uri)", nil)
+            return
+        }
+        var request = URLRequest(url: url)
+        for case let (name as String, value as String) in headers {
+            request.setValue(value, forHTTPHeaderField: name)
+        }
+
+        let task = session.downloadTask(with: request)
+        downloadLock.lock()
+        downloads[task.taskIdentifier] = Download(
+            requestId: requestId.intValue,
+            cacheKey: cacheKey,
+            uri: uri,
+            resolve: resolve,
+            reject: reject
+        )
+        tasks[requestId.intValue] = task
+        downloadLock.unlock()
+        task.resume()
+    }
+
+    /**
+     * Cancel an in-flight download.
+     */
+    @objc(cancelDownload:)
+    func cancelDownload(requestId: NSNumber) -> Void {
+        downloadLock.lock()
+        let task = tasks.removeValue(forKey: requestId.intValue)
+        downloadLock.unlock()
+        task?.cancel()
+    }
+
+    /**
+     * Store base64 encoded document data in the cache. Identical data maps to
+     * the same file.
+     */
+    @objc(writeBase64:withResolver:withRejecter:)
+    func writeBase64(base64: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .utility).async {
+            guard let data = Data(base64Encoded: base64, options: .ignoreUnknownCharacters) else {
+                reject(PdfErrorCode.invalidArgument.rawValue, "Source is not valid base64.", nil)
+                return
+            }
+
+            let cacheKey = "base64:\(PdfCacheModule.sha256(data))"
+            do {
+                let file = try PdfCacheModule.cacheFile(cacheKey: cacheKey)
+                if !FileManager.default.fileExists(atPath: file.path) {
+                    try PdfCacheModule.writeMetadata(file: file, cacheKey: cacheKey, uri: "")
+                    try data.write(to: file, options: .atomic)
+                }
+                resolve(PdfCacheModule.createEntry(file: file, cacheKey: cacheKey, uri: ""))
+            } catch {
+                reject(PdfErrorCode.unknown.rawValue, "Failed to write source to cache: \(error.localizedDescription)", error)
+            }
+        }
+    }
+
+    /**
+     * List all cached files.
+     */
+    @objc(list:withRejecter:)
+    func list(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .utility).async {
+            do {
+                let directory = try PdfCacheModule.downloadDirectory()
+                let files = try FileManager.default.contentsOfDirectory(at: directory, includingPropertiesForKeys: nil)
+                resolve(files.filter { $0.pathExtension == "pdf" }.map { PdfCacheModule.readEntry(file: $0) })
+            } catch {
+                reject(PdfErrorCode.unknown.rawValue, "Failed to read download cache: \(error.localizedDescription)", error)
+            }
+        }
+    }
+
+    /**
+     * Delete the cached file for a key. Resolves with whether a file existed.
+     */
+    @objc(remove:withResolver:withRejecter:)
+    func remove(cacheKey: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        do {
+            let file = try PdfCacheModule.cacheFile(cacheKey: cacheKey)
+            try? FileManager.default.removeItem(at: PdfCacheModule.metadataFile(file: file))
+            resolve((try? FileManager.default.removeItem(at: file)) != nil)
+        } catch {
+            reject(PdfErrorCode.unknown.rawValue, "Failed to read download cache: \(error.localizedDescription)", error)
+        }
+    }
+
+    /**
+     * Delete all cached files.
+     */
+    @objc(clear:withRejecter:)
+    func clear(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .utility).async {
+            do {
+                let directory = try PdfCacheModule.downloadDirectory()
+                try FileManager.default.removeItem(at: directory)
+                resolve(nil)
+            } catch {
+                reject(PdfErrorCode.unknown.rawValue, "Failed to clear download cache: \(error.localizedDescription)", error)
+            }
+        }
+    }
+
+    // MARK: - URLSessionDownloadDelegate
+
+    func urlSession(_ session: URLSession, downloadTask: URLSessionDownloadTask, didWriteData bytesWritten: Int64, totalBytesWritten: Int64, totalBytesExpectedToWrite: Int64) {
+        downloadLock.lock()
+        guard var download = downloads[downloadTask.taskIdentifier] else {
+            downloadLock.unlock()
+            return
+        }
+        let now = Date().timeIntervalSince1970
+        let shouldEmit = now - download.lastProgress >= PdfCacheModule.progressInterval
+            || totalBytesWritten == totalBytesExpectedToWrite
+        if shouldEmit {
+            download.lastProgress = now
+            downloads[downloadTask.taskIdentifier] = download
+        }
+        downloadLock.unlock()
+
+        if shouldEmit && hasListeners {
+            sendEvent(withName: PdfCacheModule.progressEvent, body: [
+                "requestId": download.requestId,
+                "bytesWritten": totalBytesWritten,
+                // NSURLSessionTransferSizeUnknown is -1.
+                "totalBytes": totalBytesExpectedToWrite
+            ])
+        }
+    }
+
+    func urlSession(_ session: URLSession, downloadTask: URLSessionDownloadTask, didFinishDownloadingTo location: URL) {
+        guard let download = finish(task: downloadTask) else { return }
+
+        if let response = downloadTask.response as? HTTPURLResponse,
+           !(200...299).contains(response.statusCode) {
+            download.reject(PdfErrorCode.downloadFailed.rawValue, "Download of \(download.uri) failed with HTTP status \(response.statusCode).", nil)
+            return
+        }
+
+        // The temporary file is deleted when this method returns; move it
+        // into the cache before resolving.
+        do {
+            let file = try PdfCacheModule.cacheFile(cacheKey: download.cacheKey)
+            try PdfCacheModule.writeMetadata(file: file, cacheKey: download.cacheKey, uri: download.uri)
+            _ = try FileManager.default.replaceItemAt(file, withItemAt: location)
+            download.resolve(PdfCacheModule.createEntry(file: file, cacheKey: download.cacheKey, uri: download.uri))
+        } catch {
+            download.reject(PdfErrorCode.downloadFailed.rawValue, "Failed to store download of \(download.uri): \(error.localizedDescription)", error)
+        }
+    }
+
+    func urlSession(_ session: URLSession, task: URLSessionTask, didCompleteWithError error: Error?) {
+        // Successful downloads were settled in didFinishDownloadingTo.
+        guard let error = error, let download = finish(task: task) else { return }
+
+        if (error as NSError).code == NSURLErrorCancelled {
+            download.reject(PdfErrorCode.cancelled.rawValue, "Download was cancelled.", nil)
+        } else {
+            download.reject(PdfErrorCode.downloadFailed.rawValue, "Download of \(download.uri) failed: \(error.localizedDescription)", error)
+        }
+    }
+
+    /// Stop tracking a task; returns nil if it was already settled.
+    private func finish(task: URLSessionTask) -> Download? {
+        downloadLock.lock()
+        defer { downloadLock.unlock() }
+        guard let download = downloads.removeValue(forKey: task.taskIdentifier) else {
+            return nil
+        }
+        tasks.removeValue(forKey: download.requestId)
+        return download
+    }
+
+    // MARK: - Files
+
+    private static func downloadDirectory() throws -> URL {
+        let caches = try FileManager.default.url(for: .cachesDirectory, in: .userDomainMask, appropriateFor: nil, create: true)
+        let directory = caches.appendingPathComponent("pdf-downloads", isDirectory: true)
+        try FileManager.default.createDirectory(at: directory, withIntermediateDirectories: true)
+        return directory
+    }
+
+    /// Keys are arbitrary strings (usually urls), so name files by their hash.
+    private static func cacheFile(cacheKey: String) throws -> URL {
+        return try downloadDirectory().appendingPathComponent("\(sha256(Data(cacheKey.utf8))).pdf")
+    }
+
+    private static func sha256(_ data: Data) -> String {
+        var digest = [UInt8](repeating: 0, count: Int(CC_SHA256_DIGEST_LENGTH))
+        data.withUnsafeBytes { bytes in
+            _ = CC_SHA256(bytes.baseAddress, CC_LONG(data.count), &digest)
+        }
+        return digest.map { String(format: "%02x", $0) }.joined()
+    }
+
+    private static func metadataFile(file: URL) -> URL {
+        return file.deletingPathExtension().appendingPathExtension("json")
+    }
+
+    private static func writeMetadata(file: URL, cacheKey: String, uri: String) throws {
+        let metadata = try JSONSerialization.data(withJSONObject: ["key": cacheKey, "uri": uri])
+        try metadata.write(to: metadataFile(file: file), options: .atomic)
+    }
+
+    private static func readEntry(file: URL) -> [String: Any] {
+        let metadata = (try? Data(contentsOf: metadataFile(file: file)))
+            .flatMap { try? JSONSerialization.jsonObject(with: $0) as? [String: String] } ?? [:]
+        return createEntry(
+            file: file,
+            cacheKey: metadata["key"] ?? file.deletingPathExtension().lastPathComponent,
+            uri: metadata["uri"] ?? ""
+        )
+    }
+
+    private static func createEntry(file: URL, cacheKey: String, uri: String) -> [String: Any] {
+        let attributes = (try? FileManager.default.attributesOfItem(atPath: file.path)) ?? [:]
+        let modified = (attributes[.modificationDate] as? Date)?.timeIntervalSince1970 ?? 0
+        return [
+            "key": cacheKey,
+            "uri": uri,
+            "path": file.path,
+            "size": attributes[.size] ?? 0,
+            // Milliseconds, like Date.now() in JS.
+            "modified": modified * 1000
+        ]
+    }
+}
@@ -0,0 +1,83 @@
+import UIKit
+
+// MARK: - PdfPageOverlayView
+
+/// React view shown over a page of a viewer. The viewer sizes and positions
+/// it over the page; React only lays out its children.
+class PdfPageOverlayView: RCTView {
+    var onPageChanged: (() -> Void)?
+
+    @objc var page: Int = -1 {
+        didSet {
+            if page != oldValue {
+                onPageChanged?()
+            }
+        }
+    }
+
+    override func reactSetFrame(_ frame: CGRect) {
+        // Positioned by PageOverlayContainerView
+    }
+
+    /// Whether a view is (inside) overlay content. Touches there belong to
+    /// the overlay, not to the page below.
+    static func contains(_ view: UIView?) -> Bool {
+        var current = view
+        while let view = current {
+            if view is PdfPageOverlayView {
+                return true
+            }
+            current = view.superview
+        }
+        return false
+    }
+}
+
+// MARK: - PageOverlayContainerView
+
+/// Positions page overlays over the pages of a viewer. Placed in the view
+/// showing the pages, so it zooms and scrolls with them. `pageRect` returns
+/// the rect of a page in the container, or nil if the page is not shown.
+class PageOverlayContainerView: UIView {
+    private let pageRect: (Int) -> CGRect?
+
+    init(pageRect: @escaping (Int) -> CGRect?) {
+        self.pageRect = pageRect
+        super.init(frame: .zero)
+        backgroundColor = .clear
+    }
+
+    required init?(coder: NSCoder) {
+        fatalError("init(coder:) has not been implemented")
+    }
+
+    /// Show these overlays, taking them from their previous container if
+    /// needed.
+    func setOverlays(_ overlays: [PdfPageOverlayView]) {
+        for case let overlay as PdfPageOverlayView in subviews where !overlays.contains(overlay) {
+            overlay.removeFromSuperview()
+        }
+        for overlay in overlays where overlay.superview !== self {
+            addSubview(overlay)
+        }
+        setNeedsLayout()
+    }
+
+    override func layoutSubviews() {
+        super.layoutSubviews()
+        for case let overlay as PdfPageOverlayView in subviews {
+            if let rect = pageRect(overlay.page), !rect.isEmpty {
+                overlay.isHidden = false
+                overlay.frame = rect
+            } else {
+                overlay.isHidden = true
+            }
+        }
+    }
+
+    override func hitTest(_ point: CGPoint, with event: UIEvent?) -> UIView? {
+        // Only overlay content receives touches
+        let view = super.hitTest(point, with: event)
+        return view === self ? nil : view
+    }
+}
@@ -0,0 +1,7 @@
+#import <React/RCTViewManager.h>
+
+@interface RCT_EXTERN_REMAP_MODULE(RNPdfPageOverlay, PdfPageOverlayManager, RCTViewManager)
+
+RCT_EXPORT_VIEW_PROPERTY(page, NSInteger)
+
+@end
@@ -0,0 +1,12 @@
+@objc(PdfPageOverlayManager)
+class PdfPageOverlayManager: RCTViewManager {
+
+    @objc
+    override static func requiresMainQueueSetup() -> Bool {
+        return true
+    }
+
+    override func view() -> UIView! {
+        return PdfPageOverlayView()
+    }
+}
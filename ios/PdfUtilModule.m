@@ -2,12 +2,66 @@
 
 @interface RCT_EXTERN_REMAP_MODULE(RNPdfUtil, PdfUtilModule, NSObject)
 
+RCT_EXTERN_METHOD(openDocument:(NSString *)source
+                 password:(NSString *)password
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(closeDocument:(NSString *)handle)
+
 RCT_EXTERN_METHOD(getPageCount:(NSString *)source
+                 password:(NSString *)password
                  withResolver:(RCTPromiseResolveBlock)resolve
                  withRejecter:(RCTPromiseRejectBlock)reject)
 
 RCT_EXTERN_METHOD(getPageSizes:(NSString *)source
+                 password:(NSString *)password
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(search:(NSString *)source
+                 query:(NSString *)query
+                 options:(NSDictionary *)options
+                 requestId:(nonnull NSNumber *)requestId
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(cancelSearch:(nonnull NSNumber *)requestId)
+
+RCT_EXTERN_METHOD(getPageText:(NSString *)source
+                 page:(int)page
+                 password:(NSString *)password
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(getDocumentText:(NSString *)source
+                 password:(NSString *)password
                  withResolver:(RCTPromiseResolveBlock)resolve
                  withRejecter:(RCTPromiseRejectBlock)reject)
 
+RCT_EXTERN_METHOD(getOutline:(NSString *)source
+                 password:(NSString *)password
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(getLinks:(NSString *)source
+                 page:(int)page
+                 password:(NSString *)password
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(getMetadata:(NSString *)source
+                 password:(NSString *)password
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(renderPage:(NSString *)source
+                 page:(int)page
+                 options:(NSDictionary *)options
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(clearThumbnailCache:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
 @end
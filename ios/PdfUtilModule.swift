@@ -1,18 +1,60 @@
+import PDFKit
+
 @objc(PdfUtilModule)
-class PdfUtilModule: NSObject {
+class PdfUtilModule: NSObject, RCTInvalidating {
+    // Ids of in-flight searches; removing an id cancels that search.
+    private var activeSearches = Set<Int>()
+    private let searchLock = NSLock()
+
     @objc
     static func requiresMainQueueSetup() -> Bool {
         return false
     }
 
+    func invalidate() {
+        PdfDocumentRegistry.closeAll()
+    }
+
+    /**
+     * Open a pdf and keep it open until closeDocument. Resolves with a handle
+     * that other methods and the viewers accept in place of a path.
+     */
+    @objc(openDocument:password:withResolver:withRejecter:)
+    func openDocument(source: String, password: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .userInitiated).async {
+            guard let opened = PdfDocumentRegistry.cgDocument(source: source, password: password, onError: {
+                reject($0.code, $0.message, nil)
+            }) else {
+                return
+            }
+            let handle = PdfDocumentRegistry.register(SharedPdfDocument(
+                path: opened.path,
+                document: opened.document,
+                password: password
+            ))
+            resolve([
+                "handle": handle,
+                "pageCount": opened.document.numberOfPages
+            ])
+        }
+    }
+
+    /**
+     * Release a document opened by openDocument.
+     */
+    @objc(closeDocument:)
+    func closeDocument(handle: String) -> Void {
+        PdfDocumentRegistry.close(handle: handle)
+    }
+
     /**
      * Get the number of pages of a pdf.
      */
-    @objc(getPageCount:withResolver:withRejecter:)
-    func getPageCount(source: String, resolve:RCTPromiseResolveBlock,reject:RCTPromiseRejectBlock) -> Void {
-        let url = URL(fileURLWithPath: source)
-        guard let pdf = CGPDFDocument(url as CFURL) else {
-            reject("ENOENT", "Unable to read pdf \(source)", nil)
+    @objc(getPageCount:password:withResolver:withRejecter:)
+    func getPageCount(source: String, password: String, resolve:RCTPromiseResolveBlock,reject:RCTPromiseRejectBlock) -> Void {
+        guard let pdf = PdfDocumentRegistry.cgDocument(source: source, password: password, onError: {
+            reject($0.code, $0.message, nil)
+        })?.document else {
             return
         }
         resolve(pdf.numberOfPages)
@@ -21,11 +63,11 @@ class PdfUtilModule: NSObject {
     /**
      * Get the dimensions of every page.
      */
-    @objc(getPageSizes:withResolver:withRejecter:)
-    func getPageSizes(source: String, resolve:RCTPromiseResolveBlock, reject:RCTPromiseRejectBlock) -> Void {
-        let url = URL(fileURLWithPath: source)
-        guard let pdf = CGPDFDocument(url as CFURL) else {
-            reject("ENOENT", "Unable to read pdf \(source)", nil)
+    @objc(getPageSizes:password:withResolver:withRejecter:)
+    func getPageSizes(source: String, password: String, resolve:RCTPromiseResolveBlock, reject:RCTPromiseRejectBlock) -> Void {
+        guard let pdf = PdfDocumentRegistry.cgDocument(source: source, password: password, onError: {
+            reject($0.code, $0.message, nil)
+        })?.document else {
             return
         }
 
@@ -34,7 +76,7 @@ class PdfUtilModule: NSObject {
         // CGPDFDocument pages are 1-indexed.
         for pageNum in 1...pdf.numberOfPages {
             guard let pdfPage = pdf.page(at: pageNum) else {
-                reject(nil, "Unable to read pdf page \(pageNum)", nil)
+                reject(PdfErrorCode.invalidPdf.rawValue, "Unable to read pdf page \(pageNum)", nil)
                 return
             }
 
@@ -56,4 +98,440 @@ class PdfUtilModule: NSObject {
         }
         resolve(pages)
     }
+
+    /**
+     * Find all occurrences of a string in the text of a pdf.
+     */
+    @objc(search:query:options:requestId:withResolver:withRejecter:)
+    func search(source: String, query: String, options: NSDictionary, requestId: NSNumber, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        let caseSensitive = options["caseSensitive"] as? Bool ?? false
+        let wholeWord = options["wholeWord"] as? Bool ?? false
+        let limit = options["limit"] as? Int ?? -1
+        let password = options["password"] as? String ?? ""
+        let searchId = requestId.intValue
+
+        searchLock.lock()
+        activeSearches.insert(searchId)
+        searchLock.unlock()
+
+        // Searching large documents is slow, keep the module queue free for
+        // cancellation requests.
+        DispatchQueue.global(qos: .userInitiated).async { [weak self] in
+            guard let self else { return }
+            defer {
+                self.searchLock.lock()
+                self.activeSearches.remove(searchId)
+                self.searchLock.unlock()
+            }
+
+            guard let document = PdfDocumentRegistry.pdfKitDocument(source: source, password: password, onError: {
+                reject($0.code, $0.message, nil)
+            })?.document else {
+                return
+            }
+
+            var compareOptions: String.CompareOptions = []
+            if !caseSensitive {
+                compareOptions.insert(.caseInsensitive)
+            }
+
+            var matches: [[String: Any]] = []
+            pageLoop: for pageIndex in 0..<document.pageCount {
+                guard self.isSearchActive(searchId) else {
+                    reject(PdfErrorCode.cancelled.rawValue, "Search was cancelled.", nil)
+                    return
+                }
+                guard let page = document.page(at: pageIndex),
+                      let text = page.string else { continue }
+
+                let nsText = text as NSString
+                var searchRange = NSRange(location: 0, length: nsText.length)
+                while searchRange.length > 0 {
+                    let found = nsText.range(of: query, options: compareOptions, range: searchRange)
+                    if found.location == NSNotFound {
+                        break
+                    }
+                    let end = found.location + found.length
+                    searchRange = NSRange(location: end, length: nsText.length - end)
+
+                    if wholeWord && !PdfUtilModule.isWholeWord(found, in: nsText) {
+                        continue
+                    }
+                    if limit >= 0 && matches.count >= limit {
+                        break pageLoop
+                    }
+
+                    var rects: [[String: CGFloat]] = []
+                    if let selection = page.selection(for: found) {
+                        for line in selection.selectionsByLine() {
+                            rects.append(PdfGeometry.normalizedRect(line.bounds(for: page), on: page))
+                        }
+                    }
+                    matches.append([
+                        "page": pageIndex,
+                        "rects": rects,
+                        "snippet": PdfUtilModule.snippet(around: found, in: nsText)
+                    ])
+                }
+            }
+            resolve(matches)
+        }
+    }
+
+    /**
+     * Cancel an in-flight search.
+     */
+    @objc(cancelSearch:)
+    func cancelSearch(requestId: NSNumber) -> Void {
+        searchLock.lock()
+        activeSearches.remove(requestId.intValue)
+        searchLock.unlock()
+    }
+
+    /**
+     * Get the text of a page, with word bounds.
+     */
+    @objc(getPageText:page:password:withResolver:withRejecter:)
+    func getPageText(source: String, page: Int, password: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .userInitiated).async {
+            guard let document = PdfDocumentRegistry.pdfKitDocument(source: source, password: password, onError: {
+                reject($0.code, $0.message, nil)
+            })?.document else {
+                return
+            }
+            guard page >= 0 && page < document.pageCount else {
+                reject(PdfErrorCode.pageOutOfRange.rawValue, "Page \(page) is out of range.", nil)
+                return
+            }
+            guard let pageText = PdfUtilModule.readPageText(document, page) else {
+                reject(PdfErrorCode.noTextLayer.rawValue, "Page \(page) has no text layer (scanned page?).", nil)
+                return
+            }
+            resolve(pageText)
+        }
+    }
+
+    /**
+     * Get the text of every page, with word bounds.
+     */
+    @objc(getDocumentText:password:withResolver:withRejecter:)
+    func getDocumentText(source: String, password: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .userInitiated).async {
+            guard let document = PdfDocumentRegistry.pdfKitDocument(source: source, password: password, onError: {
+                reject($0.code, $0.message, nil)
+            })?.document else {
+                return
+            }
+
+            var pages: [[String: Any]] = []
+            var hasText = false
+            for pageIndex in 0..<document.pageCount {
+                if let pageText = PdfUtilModule.readPageText(document, pageIndex) {
+                    hasText = true
+                    pages.append(pageText)
+                } else {
+                    pages.append(["page": pageIndex, "text": "", "words": []])
+                }
+            }
+            guard hasText else {
+                reject(PdfErrorCode.noTextLayer.rawValue, "Document has no text layer (scanned document?).", nil)
+                return
+            }
+            resolve(pages)
+        }
+    }
+
+    /**
+     * Get the outline (table of contents) of a pdf.
+     */
+    @objc(getOutline:password:withResolver:withRejecter:)
+    func getOutline(source: String, password: String, resolve: RCTPromiseResolveBlock, reject: RCTPromiseRejectBlock) -> Void {
+        guard let document = PdfDocumentRegistry.pdfKitDocument(source: source, password: password, onError: {
+            reject($0.code, $0.message, nil)
+        })?.document else {
+            return
+        }
+        guard let root = document.outlineRoot else {
+            resolve([])
+            return
+        }
+        resolve(PdfUtilModule.outlineChildren(of: root, in: document))
+    }
+
+    /**
+     * Get the link annotations of a page.
+     */
+    @objc(getLinks:page:password:withResolver:withRejecter:)
+    func getLinks(source: String, page: Int, password: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .userInitiated).async {
+            guard let document = PdfDocumentRegistry.pdfKitDocument(source: source, password: password, onError: {
+                reject($0.code, $0.message, nil)
+            })?.document else {
+                return
+            }
+            guard page >= 0 && page < document.pageCount else {
+                reject(PdfErrorCode.pageOutOfRange.rawValue, "Page \(page) is out of range.", nil)
+                return
+            }
+            resolve(PdfLink.read(document, page).map { $0.json })
+        }
+    }
+
+    /**
+     * Get the document information and fingerprint of a pdf.
+     */
+    @objc(getMetadata:password:withResolver:withRejecter:)
+    func getMetadata(source: String, password: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        // Hashing reads the entire file.
+        DispatchQueue.global(qos: .userInitiated).async {
+            // Password is not required for reading, but must be correct if given.
+            guard let opened = PdfDocumentRegistry.pdfKitDocument(source: source, password: password, passwordRequired: false, onError: {
+                reject($0.code, $0.message, nil)
+            }) else {
+                return
+            }
+            let document = opened.document
+            let path = opened.path
+            guard let fingerprint = PdfFingerprint.compute(path: path) else {
+                reject(PdfErrorCode.openFailure(path: path).rawValue, "Unable to read pdf \(path)", nil)
+                return
+            }
+
+            let attributes = document.documentAttributes ?? [:]
+            func string(_ key: PDFDocumentAttribute) -> Any {
+                return attributes[key] as? String ?? NSNull()
+            }
+            func date(_ key: PDFDocumentAttribute) -> Any {
+                guard let value = attributes[key] as? Date else { return NSNull() }
+                return ISO8601DateFormatter().string(from: value)
+            }
+
+            let keywords: Any
+            if let list = attributes[PDFDocumentAttribute.keywordsAttribute] as? [String] {
+                keywords = list.joined(separator: ", ")
+            } else {
+                keywords = string(.keywordsAttribute)
+            }
+
+            resolve([
+                "title": string(.titleAttribute),
+                "author": string(.authorAttribute),
+                "subject": string(.subjectAttribute),
+                "keywords": keywords,
+                "creator": string(.creatorAttribute),
+                "producer": string(.producerAttribute),
+                "creationDate": date(.creationDateAttribute),
+                "modificationDate": date(.modificationDateAttribute),
+                "pdfVersion": "\(document.majorVersion).\(document.minorVersion)",
+                "encrypted": document.isEncrypted,
+                "fingerprint": fingerprint
+            ])
+        }
+    }
+
+    /**
+     * Render a page to an image file in the thumbnail cache.
+     */
+    @objc(renderPage:page:options:withResolver:withRejecter:)
+    func renderPage(source: String, page: Int, options: NSDictionary, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        let width = (options["width"] as? NSNumber)?.doubleValue ?? 0
+        let height = (options["height"] as? NSNumber)?.doubleValue ?? 0
+        let scale = (options["scale"] as? NSNumber)?.doubleValue ?? 1
+        let format = options["format"] as? String ?? "png"
+        let quality = (options["quality"] as? NSNumber)?.doubleValue ?? 0.9
+        let backgroundColor = RCTConvert.uiColor(options["backgroundColor"]) ?? .white
+        let password = options["password"] as? String ?? ""
+
+        DispatchQueue.global(qos: .userInitiated).async {
+            guard let opened = PdfDocumentRegistry.cgDocument(source: source, password: password, onError: {
+                reject($0.code, $0.message, nil)
+            }) else {
+                return
+            }
+            let pdf = opened.document
+            let path = opened.path
+            guard let fingerprint = PdfFingerprint.compute(path: path) else {
+                reject(PdfErrorCode.openFailure(path: path).rawValue, "Unable to read pdf \(path)", nil)
+                return
+            }
+            // CGPDFDocument pages are 1-indexed.
+            guard page >= 0, let pdfPage = pdf.page(at: page + 1) else {
+                reject(PdfErrorCode.pageOutOfRange.rawValue, "Page \(page) is out of range.", nil)
+                return
+            }
+
+            let pageBounds = pdfPage.getBoxRect(.cropBox)
+            let pageWidth: CGFloat
+            let pageHeight: CGFloat
+            if pdfPage.rotationAngle % 180 == 90 {
+                pageWidth = pageBounds.height
+                pageHeight = pageBounds.width
+            } else {
+                pageWidth = pageBounds.width
+                pageHeight = pageBounds.height
+            }
+
+            // Fit within the requested box, keeping the page aspect ratio.
+            let fit: CGFloat
+            if width > 0 && height > 0 {
+                fit = min(CGFloat(width) / pageWidth, CGFloat(height) / pageHeight)
+            } else if width > 0 {
+                fit = CGFloat(width) / pageWidth
+            } else if height > 0 {
+                fit = CGFloat(height) / pageHeight
+            } else {
+                fit = 1
+            }
+            let pixelWidth = max(1, Int((pageWidth * fit * CGFloat(scale)).rounded()))
+            let pixelHeight = max(1, Int((pageHeight * fit * CGFloat(scale)).rounded()))
+
+            var colorHex = "ffffffff"
+            var red: CGFloat = 1, green: CGFloat = 1, blue: CGFloat = 1, alpha: CGFloat = 1
+            if backgroundColor.getRed(&red, green: &green, blue: &blue, alpha: &alpha) {
+                colorHex = String(
+                    format: "%02x%02x%02x%02x",
+                    Int(alpha * 255), Int(red * 255), Int(green * 255), Int(blue * 255)
+                )
+            }
+            let isJpeg = format == "jpeg"
+            let fileName = isJpeg
+                ? "\(fingerprint)_\(page)_\(pixelWidth)x\(pixelHeight)_\(colorHex)_q\(Int(quality * 100)).jpg"
+                : "\(fingerprint)_\(page)_\(pixelWidth)x\(pixelHeight)_\(colorHex).png"
+
+            do {
+                let directory = try PdfUtilModule.thumbnailDirectory()
+                let file = directory.appendingPathComponent(fileName)
+                if !FileManager.default.fileExists(atPath: file.path) {
+                    let image = PdfPageRenderer.renderImage(
+                        pdfPage: pdfPage,
+                        pixelSize: CGSize(width: pixelWidth, height: pixelHeight),
+                        backgroundColor: backgroundColor
+                    )
+                    guard let data = isJpeg ? image.jpegData(compressionQuality: CGFloat(quality)) : image.pngData() else {
+                        reject(PdfErrorCode.renderFailed.rawValue, "Failed to encode page \(page) of \(source).", nil)
+                        return
+                    }
+                    try data.write(to: file, options: .atomic)
+                }
+                resolve([
+                    "path": file.path,
+                    "width": pixelWidth,
+                    "height": pixelHeight
+                ])
+            } catch {
+                reject(PdfErrorCode.renderFailed.rawValue, "Failed to write thumbnail: \(error.localizedDescription)", error)
+            }
+        }
+    }
+
+    /**
+     * Delete all images created by renderPage.
+     */
+    @objc(clearThumbnailCache:withRejecter:)
+    func clearThumbnailCache(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        DispatchQueue.global(qos: .utility).async {
+            do {
+                let directory = try PdfUtilModule.thumbnailDirectory()
+                try FileManager.default.removeItem(at: directory)
+                resolve(nil)
+            } catch {
+                reject(PdfErrorCode.unknown.rawValue, "Failed to clear thumbnail cache: \(error.localizedDescription)", error)
+            }
+        }
+    }
+
+    private static func thumbnailDirectory() throws -> URL {
+        let caches = try FileManager.default.url(for: .cachesDirectory, in: .userDomainMask, appropriateFor: nil, create: true)
+        let directory = caches.appendingPathComponent("pdf-thumbnails", isDirectory: true)
+        try FileManager.default.createDirectory(at: directory, withIntermediateDirectories: true)
+        return directory
+    }
+
+    private func isSearchActive(_ searchId: Int) -> Bool {
+        searchLock.lock()
+        defer { searchLock.unlock() }
+        return activeSearches.contains(searchId)
+    }
+
+    private static func isWholeWord(_ range: NSRange, in text: NSString) -> Bool {
+        let wordChars = CharacterSet.alphanumerics
+        if range.location > 0,
+           let scalar = UnicodeScalar(text.character(at: range.location - 1)),
+           wordChars.contains(scalar) {
+            return false
+        }
+        let end = range.location + range.length
+        if end < text.length,
+           let scalar = UnicodeScalar(text.character(at: end)),
+           wordChars.contains(scalar) {
+            return false
+        }
+        return true
+    }
+
+    private static func snippet(around range: NSRange, in text: NSString) -> String {
+        let context = 30
+        let start = max(0, range.location - context)
+        let end = min(text.length, range.location + range.length + context)
+        return text.substring(with: NSRange(location: start, length: end - start))
+            .components(separatedBy: .whitespacesAndNewlines)
+            .filter { !$0.isEmpty }
+            .joined(separator: " ")
+    }
+
+    private static func outlineChildren(of item: PDFOutline, in document: PDFDocument) -> [[String: Any]] {
+        var children: [[String: Any]] = []
+        for i in 0..<item.numberOfChildren {
+            guard let child = item.child(at: i) else { continue }
+
+            var page: Any = NSNull()
+            if let destinationPage = child.destination?.page {
+                let index = document.index(for: destinationPage)
+                if index != NSNotFound {
+                    page = index
+                }
+            }
+            children.append([
+                "title": child.label ?? "",
+                "page": page,
+                "children": outlineChildren(of: child, in: document)
+            ])
+        }
+        return children
+    }
+
+    /**
+     * Read text and word bounds of a page. Returns nil if the page has no
+     * text layer.
+     */
+    private static func readPageText(_ document: PDFDocument, _ pageIndex: Int) -> [String: Any]? {
+        guard let page = document.page(at: pageIndex),
+              let text = page.string,
+              !text.trimmingCharacters(in: .whitespacesAndNewlines).isEmpty else {
+            return nil
+        }
+
+        let nsText = text as NSString
+        var words: [[String: Any]] = []
+        nsText.enumerateSubstrings(
+            in: NSRange(location: 0, length: nsText.length),
+            options: .byWords
+        ) { word, range, _, _ in
+            guard let word, let selection = page.selection(for: range) else { return }
+            let bounds = selection.bounds(for: page)
+            if bounds.isEmpty {
+                return
+            }
+            words.append([
+                "text": word,
+                "rect": PdfGeometry.normalizedRect(bounds, on: page)
+            ])
+        }
+
+        return [
+            "page": pageIndex,
+            "text": text,
+            "words": words
+        ]
+    }
 }
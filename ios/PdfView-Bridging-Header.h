@@ -1,4 +1,8 @@
 #import <React/RCTBridgeModule.h>
+#import <React/RCTConvert.h>
+#import <React/RCTEventEmitter.h>
 #import <React/RCTShadowView+Layout.h>
 #import <React/RCTViewManager.h>
 #import <React/RCTUIManager.h>
+#import <React/RCTView.h>
+#import <React/UIView+React.h>
@@ -0,0 +1,9 @@
+#import <React/RCTBridgeModule.h>
+
+@interface RCT_EXTERN_REMAP_MODULE(RNPdfViewer, PdfViewerModule, NSObject)
+
+RCT_EXTERN_METHOD(getViewState:(nonnull NSNumber *)viewTag
+                 withResolver:(RCTPromiseResolveBlock)resolve
+                 withRejecter:(RCTPromiseRejectBlock)reject)
+
+@end
@@ -0,0 +1,32 @@
+@objc(PdfViewerModule)
+class PdfViewerModule: NSObject {
+    @objc var bridge: RCTBridge!
+
+    @objc
+    static func requiresMainQueueSetup() -> Bool {
+        return false
+    }
+
+    // UIManager blocks may only be added from the UIManager queue.
+    @objc var methodQueue: DispatchQueue {
+        return RCTGetUIManagerQueue()
+    }
+
+    /**
+     * Get the current page, zoom and scroll offset of a viewer.
+     */
+    @objc(getViewState:withResolver:withRejecter:)
+    func getViewState(viewTag: NSNumber, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+        guard let uiManager = bridge.uiManager else {
+            reject(PdfErrorCode.unknown.rawValue, "UIManager is not available.", nil)
+            return
+        }
+        uiManager.addUIBlock { (_, viewRegistry) in
+            guard let view = viewRegistry?[viewTag] as? PdfViewStateProvider else {
+                reject(PdfErrorCode.invalidArgument.rawValue, "No pdf viewer with tag \(viewTag).", nil)
+                return
+            }
+            resolve(view.viewState())
+        }
+    }
+}
@@ -6,10 +6,14 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
 
     // MARK: - React Props
 
-    @objc var source = "" { didSet { reloadPdf() } }
+    @objc var source = "" { didSet { sourceChanged = true } }
+    @objc var password = "" { didSet { sourceChanged = true } }
 
     @objc var minZoom: CGFloat = 1.0 { didSet { updateZoomLimits() } }
     @objc var maxZoom: CGFloat = 3.0 { didSet { updateZoomLimits() } }
+    @objc var initialPage: Int = 0
+    @objc var initialZoom: CGFloat = 1.0
+    @objc var scrollEventThrottle: Double = 16
     @objc var edgeTapZone: CGFloat = 15.0
     @objc var pdfPaddingTop: CGFloat = 0.0 { didSet { updateContentInset() } }
     @objc var pdfPaddingBottom: CGFloat = 0.0 { didSet { updateContentInset() } }
@@ -18,6 +22,30 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         didSet { updateBackgroundColor() }
     }
 
+    @objc var annotations = "" {
+        didSet {
+            parsedAnnotations = AnnotationPage.parseMap(annotations)
+            updateVisibleHighlights()
+        }
+    }
+    @objc var highlights = "" {
+        didSet {
+            parsedHighlights = PdfHighlight.parse(highlights)
+            updateVisibleHighlights()
+        }
+    }
+    @objc var activeHighlight: Int = -1 { didSet { updateVisibleHighlights() } }
+    @objc var highlightColor: UIColor? { didSet { updateVisibleHighlights() } }
+    @objc var activeHighlightColor: UIColor? { didSet { updateVisibleHighlights() } }
+    @objc var followInternalLinks = true
+    @objc var showLinkAreas = false { didSet { updateVisibleHighlights() } }
+
+    @objc var drawingMode = DrawingMode.view.rawValue { didSet { updateDrawingMode() } }
+    @objc var strokeColor = "#000000" { didSet { drawing.strokeColor = strokeColor } }
+    @objc var strokeWidth: CGFloat = 3.0 { didSet { drawing.strokeWidth = strokeWidth } }
+    @objc var strokeOpacity: CGFloat = 1.0 { didSet { drawing.strokeOpacity = strokeOpacity } }
+    @objc var strokes = "" { didSet { loadStrokes() } }
+
     // MARK: - React Events
 
     @objc var onPdfError: RCTDirectEventBlock?
@@ -34,6 +62,15 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
     @objc var onZoomChange: RCTDirectEventBlock?
     @objc var onTap: RCTDirectEventBlock?
     @objc var onMiddleClick: RCTDirectEventBlock?
+    @objc var onPdfScroll: RCTDirectEventBlock?
+    @objc var onVisiblePagesChange: RCTDirectEventBlock?
+    @objc var onPageTap: RCTDirectEventBlock?
+    @objc var onPageDoubleTap: RCTDirectEventBlock?
+    @objc var onPageLongPress: RCTDirectEventBlock?
+    @objc var onLinkPress: RCTDirectEventBlock?
+    @objc var onStrokeEnd: RCTDirectEventBlock?
+    @objc var onStrokeRemoved: RCTDirectEventBlock?
+    @objc var onStrokesCleared: RCTDirectEventBlock?
 
     // Store load complete event if callback not yet set
     private var pendingLoadCompleteEvent: [String: Any]?
@@ -43,9 +80,15 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
     private let scrollView = UIScrollView()
     private var collectionView: UICollectionView!
     private var pdfDocument: CGPDFDocument?
+    // File of pdfDocument; differs from source for shared documents.
+    private var documentPath = ""
     private var currentPage: Int = 0
     private var isReloading = false
+    // Incremented per load; fingerprints of replaced loads are dropped.
+    private var loadGeneration = 0
+    private var sourceChanged = false
     private var actualPageCount: Int = 0
+    private var needsInitialPosition = false
 
     // PDF dimensions (from first page)
     private var pdfPageWidth: CGFloat = 0
@@ -54,10 +97,25 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
     // Image cache
     private var imageCache = NSCache<NSNumber, UIImage>()
 
+    private var parsedHighlights: [PdfHighlight] = []
+    private var parsedAnnotations: [Int: AnnotationPage] = [:]
+    private let linkCache = PdfLinkCache()
+    private let drawing = PageDrawing()
+
+    // Throttled scroll events
+    private var lastScrollEventTime: CFTimeInterval = 0
+    private var visiblePages: [[String: Any]] = []
+
     // Gesture recognizers
     private var doubleTapGesture: UITapGestureRecognizer!
     private var edgeTapGesture: UITapGestureRecognizer!
     private var middleTapGesture: UITapGestureRecognizer!
+    private var longPressGesture: UILongPressGestureRecognizer!
+    private var drawingGesture: UIPanGestureRecognizer!
+
+    // Page overlays (React children), zoomed and scrolled with the pages
+    private var overlayContainer: PageOverlayContainerView!
+    private var overlays: [PdfPageOverlayView] = []
 
     // MARK: - Initialization
 
@@ -101,6 +159,11 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         collectionView.register(PdfPageCell.self, forCellWithReuseIdentifier: PdfPageCell.reuseId)
         scrollView.addSubview(collectionView)
 
+        overlayContainer = PageOverlayContainerView { [weak self] page in
+            self?.overlayRect(page)
+        }
+        collectionView.addSubview(overlayContainer)
+
         // Double tap to zoom (only works in middle zone)
         doubleTapGesture = UITapGestureRecognizer(target: self, action: #selector(handleDoubleTap(_:)))
         doubleTapGesture.numberOfTapsRequired = 2
@@ -119,11 +182,38 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         middleTapGesture.require(toFail: doubleTapGesture)
         middleTapGesture.delegate = self
         addGestureRecognizer(middleTapGesture)
+
+        longPressGesture = UILongPressGestureRecognizer(target: self, action: #selector(handleLongPress(_:)))
+        longPressGesture.delegate = self
+        addGestureRecognizer(longPressGesture)
+
+        // One finger draws in drawing modes; two fingers scroll and zoom
+        drawingGesture = UIPanGestureRecognizer(target: self, action: #selector(handleDrawing(_:)))
+        drawingGesture.minimumNumberOfTouches = 1
+        drawingGesture.maximumNumberOfTouches = 1
+        drawingGesture.isEnabled = false
+        drawingGesture.delegate = self
+        addGestureRecognizer(drawingGesture)
+
+        drawing.onPageChanged = { [weak self] page in
+            self?.configureStrokes(page: page)
+        }
+        drawing.onStrokeEnd = { [weak self] event in
+            self?.onStrokeEnd?(event)
+        }
+        drawing.onStrokeRemoved = { [weak self] event in
+            self?.onStrokeRemoved?(event)
+        }
+        drawing.onStrokesCleared = { [weak self] event in
+            self?.onStrokesCleared?(event)
+        }
     }
 
     // MARK: - Tap Handling
 
     @objc private func handleDoubleTap(_ gesture: UITapGestureRecognizer) {
+        sendPageGesture(onPageDoubleTap, gesture)
+
         // Toggle zoom: if zoomed in, reset to 1.0; otherwise zoom to maxZoom
         if scrollView.zoomScale > minZoom {
             UIView.animate(withDuration: 0.3) {
@@ -137,6 +227,9 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
     }
 
     @objc private func handleEdgeTap(_ gesture: UITapGestureRecognizer) {
+        if handleLinkTap(gesture) { return }
+        // Before the edge tap scrolls the content away
+        sendPageGesture(onPageTap, gesture)
         let tapLocation = gesture.location(in: self)
 
         let viewportHeight = bounds.height
@@ -209,9 +302,124 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
     }
 
     @objc private func handleMiddleTap(_ gesture: UITapGestureRecognizer) {
+        if handleLinkTap(gesture) { return }
+        sendPageGesture(onPageTap, gesture)
         onMiddleClick?([:])
     }
 
+    @objc private func handleLongPress(_ gesture: UILongPressGestureRecognizer) {
+        if gesture.state == .began {
+            sendPageGesture(onPageLongPress, gesture)
+        }
+    }
+
+    /// Report the page and point of the page under a gesture, if any.
+    private func sendPageGesture(_ event: RCTDirectEventBlock?, _ gesture: UIGestureRecognizer) {
+        guard let event, let hit = pagePoint(of: gesture) else { return }
+        event(PdfGeometry.pagePointEvent(
+            page: hit.page,
+            point: hit.point,
+            pageSize: CGSize(width: pdfPageWidth, height: pdfPageHeight)
+        ))
+    }
+
+    /// Page under a gesture, and the point normalized to that page.
+    private func pagePoint(of gesture: UIGestureRecognizer) -> (page: Int, point: CGPoint)? {
+        // The collection view is the zoomed view, so this is in the unscaled
+        // page list.
+        return pagePoint(at: gesture.location(in: collectionView))
+    }
+
+    /// Page under a point of the unscaled page list, and the point normalized
+    /// to that page.
+    private func pagePoint(at location: CGPoint) -> (page: Int, point: CGPoint)? {
+        guard let pageSize = listPageSize() else { return nil }
+        guard location.x >= 0, location.x <= pageSize.width, location.y >= 0 else { return nil }
+        let page = Int(location.y / pageSize.height)
+        guard page < actualPageCount else { return nil }
+        return (page, point(location, onPage: page, pageSize: pageSize))
+    }
+
+    /// Point of the unscaled page list normalized to a page, possibly outside
+    /// of the page.
+    private func point(_ location: CGPoint, onPage page: Int, pageSize: CGSize) -> CGPoint {
+        return CGPoint(
+            x: location.x / pageSize.width,
+            y: (location.y - CGFloat(page) * pageSize.height) / pageSize.height
+        )
+    }
+
+    /// Size of a page in the unscaled page list, or nil before load.
+    private func listPageSize() -> CGSize? {
+        guard bounds.width > 0, pdfPageWidth > 0, pdfPageHeight > 0 else { return nil }
+        return CGSize(width: bounds.width, height: bounds.width * (pdfPageHeight / pdfPageWidth))
+    }
+
+    /// Follow the internal link under a tap, or report it to React.
+    /// - Returns: false if there is no link under the tap
+    private func handleLinkTap(_ gesture: UIGestureRecognizer) -> Bool {
+        guard let hit = pagePoint(of: gesture),
+              let link = linkCache.link(at: hit.point, on: hit.page) else { return false }
+        if let target = link.page, followInternalLinks {
+            scrollToPage(target, animated: true)
+        } else {
+            onLinkPress?(link.json)
+        }
+        return true
+    }
+
+    // MARK: - Drawing
+
+    @objc private func handleDrawing(_ gesture: UIPanGestureRecognizer) {
+        let location = gesture.location(in: collectionView)
+        let scale = scrollView.zoomScale
+        switch gesture.state {
+        case .began:
+            // Start where the finger went down, before the pan was recognized
+            let translation = gesture.translation(in: collectionView)
+            let start = CGPoint(x: location.x - translation.x, y: location.y - translation.y)
+            guard let hit = pagePoint(at: start) else { return }
+            drawing.begin(page: hit.page, point: hit.point, scale: scale)
+            if let pageSize = listPageSize(), drawing.activePage >= 0 {
+                drawing.move(to: point(location, onPage: drawing.activePage, pageSize: pageSize), scale: scale)
+            }
+        case .changed:
+            guard drawing.activePage >= 0, let pageSize = listPageSize() else { return }
+            drawing.move(to: point(location, onPage: drawing.activePage, pageSize: pageSize), scale: scale)
+        case .ended:
+            drawing.end()
+        default:
+            drawing.cancel()
+        }
+    }
+
+    private func updateDrawingMode() {
+        if !drawing.setMode(drawingMode) {
+            onPdfError?(["code": PdfErrorCode.invalidArgument.rawValue, "message": "Unknown drawingMode '\(drawingMode)'."])
+        }
+        let isDrawing = drawing.isDrawing
+        drawingGesture.isEnabled = isDrawing
+        scrollView.panGestureRecognizer.minimumNumberOfTouches = isDrawing ? 2 : 1
+        doubleTapGesture.isEnabled = !isDrawing
+        edgeTapGesture.isEnabled = !isDrawing
+        middleTapGesture.isEnabled = !isDrawing
+        longPressGesture.isEnabled = !isDrawing
+    }
+
+    private func loadStrokes() {
+        do {
+            try drawing.setStrokes(strokes)
+        } catch {
+            onPdfError?(["code": PdfErrorCode.invalidArgument.rawValue, "message": "Failed to parse strokes: \(error.localizedDescription)"])
+        }
+    }
+
+    private func configureStrokes(page: Int) {
+        let indexPath = IndexPath(item: page, section: 0)
+        guard let cell = collectionView.cellForItem(at: indexPath) as? PdfPageCell else { return }
+        cell.setStrokes(drawing.strokes(on: page), active: drawing.activeStroke(on: page))
+    }
+
     private func zoomRectForScale(_ scale: CGFloat, center: CGPoint) -> CGRect {
         let size = CGSize(
             width: scrollView.bounds.width / scale,
@@ -241,6 +449,7 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         previousBoundsWidth = bounds.width
 
         updateCollectionViewSize()
+        applyInitialPosition()
     }
 
     private func updateCollectionViewSize() {
@@ -251,6 +460,8 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         let totalHeight = (pageHeight) * CGFloat(actualPageCount)
 
         collectionView.frame = CGRect(x: 0, y: 0, width: viewWidth, height: totalHeight)
+        overlayContainer.frame = CGRect(x: 0, y: 0, width: viewWidth, height: totalHeight)
+        overlayContainer.setNeedsLayout()
         scrollView.contentSize = CGSize(width: viewWidth, height: totalHeight)
 
         // Invalidate layout to recalculate cell sizes
@@ -296,21 +507,36 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
 
     // MARK: - PDF Loading
 
+    override func didSetProps(_ changedProps: [String]!) {
+        super.didSetProps(changedProps)
+        // Reload once source and password are both applied.
+        if sourceChanged {
+            sourceChanged = false
+            reloadPdf()
+        }
+    }
+
     private func reloadPdf() {
         guard !source.isEmpty, !isReloading else { return }
         isReloading = true
+        loadGeneration += 1
+        pendingLoadCompleteEvent = nil
 
         // Clear cache
         imageCache.removeAllObjects()
+        linkCache.reset(source: source, password: password)
+        drawing.cancel()
         pdfDocument = nil
 
-        // Load PDF document
-        let url = URL(fileURLWithPath: source)
-        guard let document = CGPDFDocument(url as CFURL) else {
-            onPdfError?(["message": "Failed to open PDF: \(source)"])
+        // Load PDF document (or share the one opened by PdfUtil.open())
+        guard let opened = PdfDocumentRegistry.cgDocument(source: source, password: password, onError: {
+            onPdfError?(["code": $0.code, "message": $0.message])
+        }) else {
             isReloading = false
             return
         }
+        let document = opened.document
+        documentPath = opened.path
 
         pdfDocument = document
 
@@ -327,23 +553,47 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         }
 
         actualPageCount = document.numberOfPages
+        currentPage = 0
+        visiblePages = []
+        needsInitialPosition = true
 
         isReloading = false
         collectionView.reloadData()
         updateCollectionViewSize()
 
-        // Notify load complete
-        let loadCompleteEvent: [String: Any] = [
-            "width": pdfPageWidth,
-            "height": pdfPageHeight,
-            "pageCount": actualPageCount
-        ]
-        if let callback = onPdfLoadComplete {
-            callback(loadCompleteEvent)
-        } else {
-            // Store for later when callback is set (race condition workaround)
-            pendingLoadCompleteEvent = loadCompleteEvent
+        // Notify load complete once the document is hashed.
+        let generation = loadGeneration
+        PdfFingerprint.compute(path: documentPath) { [weak self] fingerprint in
+            guard let self = self, generation == self.loadGeneration else { return }
+            let loadCompleteEvent: [String: Any] = [
+                "width": self.pdfPageWidth,
+                "height": self.pdfPageHeight,
+                "pageCount": self.actualPageCount,
+                "fingerprint": fingerprint ?? ""
+            ]
+            if let callback = self.onPdfLoadComplete {
+                callback(loadCompleteEvent)
+            } else {
+                // Store for later when callback is set (race condition workaround)
+                self.pendingLoadCompleteEvent = loadCompleteEvent
+            }
         }
+
+        // Deferred to layoutSubviews if the view has no size yet.
+        applyInitialPosition()
+    }
+
+    /// Position a newly loaded document at the initial page and zoom, before
+    /// its first frame is drawn.
+    private func applyInitialPosition() {
+        guard needsInitialPosition, bounds.width > 0, pdfPageWidth > 0, pdfPageHeight > 0 else { return }
+        needsInitialPosition = false
+
+        scrollView.zoomScale = max(minZoom, min(maxZoom, initialZoom))
+        let page = max(0, min(initialPage, actualPageCount - 1))
+        let pageHeight = bounds.width * (pdfPageHeight / pdfPageWidth)
+        let yOffset = CGFloat(page) * pageHeight * scrollView.zoomScale - scrollView.contentInset.top
+        scrollView.contentOffset = CGPoint(x: 0, y: yOffset)
     }
 
     // MARK: - UICollectionViewDataSource
@@ -369,10 +619,65 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
                 }
             }
         }
+        configureHighlights(cell, page: indexPath.item)
 
         return cell
     }
 
+    // MARK: - Highlights
+
+    private func configureHighlights(_ cell: PdfPageCell, page: Int) {
+        var rects: [NormalizedRect] = []
+        var activeRects: [NormalizedRect] = []
+        for (index, highlight) in parsedHighlights.enumerated() where highlight.page == page {
+            if index == activeHighlight {
+                activeRects.append(contentsOf: highlight.rects)
+            } else {
+                rects.append(contentsOf: highlight.rects)
+            }
+        }
+        cell.setHighlights(rects, active: activeRects, color: highlightColor, activeColor: activeHighlightColor)
+        cell.setAnnotation(parsedAnnotations[page])
+        cell.setStrokes(drawing.strokes(on: page), active: drawing.activeStroke(on: page))
+        cell.setLinkAreas(showLinkAreas ? linkCache.links(on: page).map { $0.rect } : [])
+    }
+
+    private func updateVisibleHighlights() {
+        for indexPath in collectionView.indexPathsForVisibleItems {
+            if let cell = collectionView.cellForItem(at: indexPath) as? PdfPageCell {
+                configureHighlights(cell, page: indexPath.item)
+            }
+        }
+    }
+
+    // MARK: - Page Overlays
+
+    override func didUpdateReactSubviews() {
+        // React children are page overlays, shown by the overlay container
+        overlays = reactSubviews()?.compactMap { $0 as? PdfPageOverlayView } ?? []
+        for overlay in overlays {
+            overlay.onPageChanged = { [weak self] in
+                self?.overlayContainer.setNeedsLayout()
+            }
+        }
+        overlayContainer.setOverlays(overlays)
+        collectionView.bringSubviewToFront(overlayContainer)
+    }
+
+    /// Rect of a page in the collection view, or nil if it does not exist.
+    private func overlayRect(_ page: Int) -> CGRect? {
+        guard page >= 0, page < actualPageCount, pdfPageWidth > 0, pdfPageHeight > 0 else { return nil }
+        let pageHeight = bounds.width * (pdfPageHeight / pdfPageWidth)
+        return CGRect(x: 0, y: CGFloat(page) * pageHeight, width: bounds.width, height: pageHeight)
+    }
+
+    // MARK: - UICollectionViewDelegate
+
+    func collectionView(_ collectionView: UICollectionView, willDisplay cell: UICollectionViewCell, forItemAt indexPath: IndexPath) {
+        // Keep overlays above newly added cells
+        collectionView.bringSubviewToFront(overlayContainer)
+    }
+
     // MARK: - UICollectionViewDelegateFlowLayout
 
     func collectionView(_ collectionView: UICollectionView, layout collectionViewLayout: UICollectionViewLayout, sizeForItemAt indexPath: IndexPath) -> CGSize {
@@ -394,10 +699,75 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
     func scrollViewDidZoom(_ scrollView: UIScrollView) {
         updateContentInset()
         onZoomChange?(["scale": scrollView.zoomScale])
+        viewportDidChange()
     }
 
     func scrollViewDidScroll(_ scrollView: UIScrollView) {
         updateCurrentPage()
+        viewportDidChange()
+    }
+
+    // MARK: - Scroll Events
+
+    /// Schedule onPdfScroll and onVisiblePagesChange, at most once per
+    /// scrollEventThrottle. The final position is always reported.
+    private func viewportDidChange() {
+        guard onPdfScroll != nil || onVisiblePagesChange != nil else { return }
+        NSObject.cancelPreviousPerformRequests(withTarget: self, selector: #selector(dispatchScrollEvents), object: nil)
+        let throttle = max(0, scrollEventThrottle) / 1000
+        let elapsed = CACurrentMediaTime() - lastScrollEventTime
+        if elapsed >= throttle {
+            dispatchScrollEvents()
+        } else {
+            perform(#selector(dispatchScrollEvents), with: nil, afterDelay: throttle - elapsed)
+        }
+    }
+
+    @objc private func dispatchScrollEvents() {
+        guard bounds.width > 0, pdfPageWidth > 0, pdfPageHeight > 0, actualPageCount > 0 else { return }
+        lastScrollEventTime = CACurrentMediaTime()
+
+        let scale = scrollView.zoomScale
+        onPdfScroll?([
+            "contentOffset": ["x": scrollView.contentOffset.x, "y": scrollView.contentOffset.y],
+            "contentSize": ["width": scrollView.contentSize.width, "height": scrollView.contentSize.height],
+            "scale": scale
+        ])
+
+        // Viewport in unscaled page list coordinates.
+        let pageWidth = bounds.width
+        let pageHeight = pageWidth * (pdfPageHeight / pdfPageWidth)
+        let viewport = CGRect(
+            x: scrollView.contentOffset.x / scale,
+            y: scrollView.contentOffset.y / scale,
+            width: scrollView.bounds.width / scale,
+            height: scrollView.bounds.height / scale
+        )
+        var pages: [[String: Any]] = []
+        let firstPage = max(0, Int(viewport.minY / pageHeight))
+        let lastPage = min(actualPageCount - 1, Int(viewport.maxY / pageHeight))
+        if firstPage <= lastPage {
+            for page in firstPage...lastPage {
+                let pageRect = CGRect(x: 0, y: CGFloat(page) * pageHeight, width: pageWidth, height: pageHeight)
+                let visible = pageRect.intersection(viewport)
+                guard !visible.isNull, visible.width > 0, visible.height > 0 else { continue }
+                let rect: [String: CGFloat] = [
+                    "x": visible.minX / pageWidth,
+                    "y": (visible.minY - pageRect.minY) / pageHeight,
+                    "width": visible.width / pageWidth,
+                    "height": visible.height / pageHeight
+                ]
+                pages.append([
+                    "page": page,
+                    "visibleRect": rect,
+                    "visibleFraction": rect["width"]! * rect["height"]!
+                ])
+            }
+        }
+        if !(pages as NSArray).isEqual(to: visiblePages) {
+            visiblePages = pages
+            onVisiblePagesChange?(["pages": pages])
+        }
     }
 
     private func updateCurrentPage() {
@@ -444,6 +814,12 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         }
     }
 
+    /// Zoom to a scale (within the zoom limits) around a point of the
+    /// viewport, or its center.
+    func setZoom(_ scale: CGFloat, focalPoint: CGPoint?, animated: Bool) {
+        scrollView.setZoomScale(scale, focalPoint: focalPoint, animated: animated)
+    }
+
     func scrollToPage(_ page: Int, animated: Bool) {
         guard page >= 0, page < actualPageCount else { return }
 
@@ -454,6 +830,45 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
         scrollView.setContentOffset(CGPoint(x: 0, y: yOffset * scrollView.zoomScale), animated: animated)
     }
 
+    /// Zoom so that a rect (normalized to page dimensions) fills the viewport,
+    /// within the zoom limits.
+    func zoomToRect(page: Int, rect: CGRect, animated: Bool) {
+        guard page >= 0, page < actualPageCount, pdfPageWidth > 0, pdfPageHeight > 0 else { return }
+
+        let pageWidth = bounds.width
+        let pageHeight = pageWidth * (pdfPageHeight / pdfPageWidth)
+        let targetRect = CGRect(
+            x: rect.minX * pageWidth,
+            y: CGFloat(page) * pageHeight + rect.minY * pageHeight,
+            width: rect.width * pageWidth,
+            height: rect.height * pageHeight
+        )
+        scrollView.zoom(to: targetRect, animated: animated)
+    }
+
+    /// Show a page at a zoom level, with the top left corner of the viewport
+    /// at an offset normalized to page dimensions. Inverse of viewState().
+    func restoreLocation(page: Int, offset: CGPoint, scale: CGFloat) {
+        guard page >= 0, page < actualPageCount, bounds.width > 0, pdfPageWidth > 0, pdfPageHeight > 0 else { return }
+
+        scrollView.zoomScale = max(minZoom, min(maxZoom, scale))
+        let zoomScale = scrollView.zoomScale
+        let pageWidth = bounds.width
+        let pageHeight = pageWidth * (pdfPageHeight / pdfPageWidth)
+        let inset = scrollView.contentInset
+        let maxX = max(-inset.left, scrollView.contentSize.width - scrollView.bounds.width + inset.right)
+        let maxY = max(-inset.top, scrollView.contentSize.height - scrollView.bounds.height + inset.bottom)
+        scrollView.contentOffset = CGPoint(
+            x: max(-inset.left, min(maxX, offset.x * pageWidth * zoomScale)),
+            y: max(-inset.top, min(maxY, (CGFloat(page) + offset.y) * pageHeight * zoomScale))
+        )
+    }
+
+    /// Remove the strokes of a page, or of every page if `page` is negative.
+    func clearStrokes(page: Int) {
+        drawing.clear(page: page)
+    }
+
     // MARK: - Cleanup
 
     func clearCache() {
@@ -462,6 +877,11 @@ class ZoomablePdfScrollView: UIView, UIScrollViewDelegate, UICollectionViewDataS
 
     // MARK: - UIGestureRecognizerDelegate
 
+    func gestureRecognizer(_ gestureRecognizer: UIGestureRecognizer, shouldReceive touch: UITouch) -> Bool {
+        // Taps on overlay content belong to the overlay
+        return !PdfPageOverlayView.contains(touch.view)
+    }
+
   override func gestureRecognizerShouldBegin(_ gestureRecognizer: UIGestureRecognizer) -> Bool {
         let tapLocation = gestureRecognizer.location(in: self)
         let edgeRatio = edgeTapZone / 100.0
@@ -491,6 +911,7 @@ private class PdfPageCell: UICollectionViewCell {
     static let reuseId = "PdfPageCell"
 
     private let imageView = UIImageView()
+    private let highlightView = HighlightOverlayView()
 
     override init(frame: CGRect) {
         super.init(frame: frame)
@@ -508,14 +929,65 @@ private class PdfPageCell: UICollectionViewCell {
         imageView.frame = contentView.bounds
         imageView.autoresizingMask = [.flexibleWidth, .flexibleHeight]
         contentView.addSubview(imageView)
+
+        highlightView.frame = contentView.bounds
+        highlightView.autoresizingMask = [.flexibleWidth, .flexibleHeight]
+        contentView.addSubview(highlightView)
     }
 
     func setImage(_ image: UIImage?) {
         imageView.image = image
     }
 
+    func setHighlights(_ rects: [NormalizedRect], active: [NormalizedRect], color: UIColor?, activeColor: UIColor?) {
+        if let color {
+            highlightView.highlightColor = color
+        }
+        if let activeColor {
+            highlightView.activeHighlightColor = activeColor
+        }
+        highlightView.rects = rects
+        highlightView.activeRects = active
+    }
+
+    func setAnnotation(_ annotation: AnnotationPage?) {
+        highlightView.annotation = annotation
+    }
+
+    func setStrokes(_ strokes: [DrawingStroke], active: DrawingStroke?) {
+        highlightView.strokes = strokes
+        highlightView.activeStroke = active
+    }
+
+    func setLinkAreas(_ rects: [NormalizedRect]) {
+        highlightView.linkRects = rects
+    }
+
     override func prepareForReuse() {
         super.prepareForReuse()
         imageView.image = nil
     }
 }
+
+// MARK: - PdfViewStateProvider
+
+extension ZoomablePdfScrollView: PdfViewStateProvider {
+
+    func viewState() -> [String: Any] {
+        var offset: [String: CGFloat] = ["x": 0, "y": 0]
+        if pdfPageWidth > 0, pdfPageHeight > 0, bounds.width > 0 {
+            let pageWidth = bounds.width
+            let pageHeight = pageWidth * (pdfPageHeight / pdfPageWidth)
+            let origin = collectionView.convert(scrollView.bounds.origin, from: scrollView)
+            offset = [
+                "x": origin.x / pageWidth,
+                "y": (origin.y - CGFloat(currentPage) * pageHeight) / pageHeight
+            ]
+        }
+        return [
+            "page": currentPage,
+            "scale": scrollView.zoomScale,
+            "offset": offset
+        ]
+    }
+}
@@ -27,4 +27,44 @@ class ZoomablePdfScrollViewManager: RCTViewManager {
             view.scrollToPage(page, animated: animated)
         }
     }
+
+    @objc func zoomToRect(_ node: NSNumber, page: Int, x: CGFloat, y: CGFloat, width: CGFloat, height: CGFloat, animated: Bool) {
+        guard let uiManager = bridge.uiManager else { return }
+        uiManager.addUIBlock { (_, viewRegistry) in
+            guard let viewRegistry,
+                  let view = viewRegistry[node] as? ZoomablePdfScrollView else { return }
+            view.zoomToRect(page: page, rect: CGRect(x: x, y: y, width: width, height: height), animated: animated)
+        }
+    }
+
+    @objc func setZoom(_ node: NSNumber, scale: CGFloat, focalX: NSNumber?, focalY: NSNumber?, animated: Bool) {
+        guard let uiManager = bridge.uiManager else { return }
+        var focalPoint: CGPoint?
+        if let focalX, let focalY {
+            focalPoint = CGPoint(x: CGFloat(focalX.doubleValue), y: CGFloat(focalY.doubleValue))
+        }
+        uiManager.addUIBlock { (_, viewRegistry) in
+            guard let viewRegistry,
+                  let view = viewRegistry[node] as? ZoomablePdfScrollView else { return }
+            view.setZoom(scale, focalPoint: focalPoint, animated: animated)
+        }
+    }
+
+    @objc func restoreLocation(_ node: NSNumber, page: Int, x: CGFloat, y: CGFloat, scale: CGFloat) {
+        guard let uiManager = bridge.uiManager else { return }
+        uiManager.addUIBlock { (_, viewRegistry) in
+            guard let viewRegistry,
+                  let view = viewRegistry[node] as? ZoomablePdfScrollView else { return }
+            view.restoreLocation(page: page, offset: CGPoint(x: x, y: y), scale: scale)
+        }
+    }
+
+    @objc func clearStrokes(_ node: NSNumber, page: Int) {
+        guard let uiManager = bridge.uiManager else { return }
+        uiManager.addUIBlock { (_, viewRegistry) in
+            guard let viewRegistry,
+                  let view = viewRegistry[node] as? ZoomablePdfScrollView else { return }
+            view.clearStrokes(page: page)
+        }
+    }
 }
@@ -1,4 +1,9 @@
-import React, { useCallback, useRef, useImperativeHandle, forwardRef } from 'react';
+import React, {
+  useCallback,
+  useRef,
+  useImperativeHandle,
+  forwardRef,
+} from 'react';
 import {
   findNodeHandle,
   LayoutChangeEvent,
@@ -9,11 +14,15 @@ import {
 } from 'react-native';
 import type { DrawingMode, DrawingStroke, DrawingTool } from './drawing/types';
 import { DEFAULT_DRAWING_TOOL } from './drawing/types';
+import type { PdfErrorEvent } from './errors';
+import type { PdfLoadProgressEvent } from './PdfCache';
+import { useSourcePath, type DocumentProps } from './source';
 import { asPath } from './Util';
+import type { PdfPageTapEvent } from './viewer';
 
 // --- Event types ---
 
-export type ErrorEvent = { message: string };
+export type ErrorEvent = PdfErrorEvent;
 
 export type LoadCompleteEvent = { height: number; width: number };
 
@@ -40,6 +49,7 @@ export type ZoomChangeEvent = {
 type NativeDrawablePdfViewProps = {
   // PDF props
   source: string;
+  password?: string;
   page: number;
   resizeMode?: 'contain' | 'fitWidth';
   annotation?: string;
@@ -70,17 +80,20 @@ type NativeDrawablePdfViewProps = {
   onZoomPanStart: (event: NativeSyntheticEvent<{}>) => void;
   onZoomPanEnd: (event: NativeSyntheticEvent<{}>) => void;
   onSingleTap: (event: NativeSyntheticEvent<{}>) => void;
+  onPageTap: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onPageDoubleTap: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onPageLongPress: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
 
   style?: ViewStyle;
 };
 
 // --- Public Props ---
 
-export type NativeDrawablePdfViewProps_Public = {
+export type NativeDrawablePdfViewProps_Public = DocumentProps & {
   /**
-   * Document to display.
+   * Password to open an encrypted document.
    */
-  source: string;
+  password?: string;
 
   /**
    * Page (0-indexed) of document to display.
@@ -142,6 +155,11 @@ export type NativeDrawablePdfViewProps_Public = {
    */
   onError?: (event: ErrorEvent) => void;
 
+  /**
+   * Callback while a remote source downloads.
+   */
+  onLoadProgress?: (event: PdfLoadProgressEvent) => void;
+
   /**
    * Callback for measuring the native view.
    */
@@ -198,6 +216,23 @@ export type NativeDrawablePdfViewProps_Public = {
    */
   onSingleTap?: () => void;
 
+  /**
+   * Callback when user taps a page in view mode, with the tapped point.
+   */
+  onPageTap?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user double taps a page in view mode, with the tapped
+   * point.
+   */
+  onPageDoubleTap?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user long presses a page in view mode, with the pressed
+   * point.
+   */
+  onPageLongPress?: (event: PdfPageTapEvent) => void;
+
   style?: ViewStyle;
 };
 
@@ -248,7 +283,7 @@ export const NativeDrawablePdfView = forwardRef<
   NativeDrawablePdfViewProps_Public
 >(function NativeDrawablePdfView(props, ref) {
   const {
-    source,
+    password,
     page,
     resizeMode,
     annotationStr,
@@ -260,6 +295,7 @@ export const NativeDrawablePdfView = forwardRef<
     maxZoom = 3,
     zoomEnabled = true,
     onError,
+    onLoadProgress,
     onLayout,
     onLoadComplete,
     onDrawingStart,
@@ -271,10 +307,14 @@ export const NativeDrawablePdfView = forwardRef<
     onZoomPanStart,
     onZoomPanEnd,
     onSingleTap,
+    onPageTap,
+    onPageDoubleTap,
+    onPageLongPress,
     style,
   } = props;
 
   const viewRef = useRef<any>(null);
+  const sourcePath = useSourcePath(props, { onLoadProgress, onError });
 
   // Expose imperative methods
   useImperativeHandle(ref, () => ({
@@ -381,10 +421,32 @@ export const NativeDrawablePdfView = forwardRef<
     [onSingleTap]
   );
 
+  const handlePageTap = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageTap?.(event.nativeEvent);
+    },
+    [onPageTap]
+  );
+
+  const handlePageDoubleTap = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageDoubleTap?.(event.nativeEvent);
+    },
+    [onPageDoubleTap]
+  );
+
+  const handlePageLongPress = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageLongPress?.(event.nativeEvent);
+    },
+    [onPageLongPress]
+  );
+
   return (
     <RNDrawablePdfView
       ref={viewRef}
-      source={asPath(source)}
+      source={sourcePath}
+      password={password}
       page={page}
       resizeMode={resizeMode}
       annotation={asPath(annotation)}
@@ -409,7 +471,10 @@ export const NativeDrawablePdfView = forwardRef<
       onZoomPanStart={handleZoomPanStart}
       onZoomPanEnd={handleZoomPanEnd}
       onSingleTap={handleSingleTap}
+      onPageTap={handlePageTap}
+      onPageDoubleTap={handlePageDoubleTap}
+      onPageLongPress={handlePageLongPress}
       style={style}
     />
   );
-});
\ No newline at end of file
+});
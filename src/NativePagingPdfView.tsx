@@ -1,44 +1,88 @@
 import React, {
   useCallback,
+  useEffect,
   useRef,
   useImperativeHandle,
   forwardRef,
 } from 'react';
 import {
-  findNodeHandle,
   LayoutChangeEvent,
   NativeSyntheticEvent,
   processColor,
   requireNativeComponent,
-  UIManager,
   ViewStyle,
 } from 'react-native';
-import { asPath } from './Util';
+import { type PdfAnnotations, useAnnotationsJson } from './annotations';
+import {
+  type PageStrokeEndEvent,
+  type PageStrokeRemovedEvent,
+  type PageStrokesClearedEvent,
+  usePageStrokesJson,
+} from './drawing/pageStrokes';
+import {
+  DEFAULT_DRAWING_TOOL,
+  type DrawingMode,
+  type DrawingStroke,
+  type DrawingTool,
+  type PageStrokes,
+} from './drawing/types';
+import { type PdfHighlight, useHighlightNavigation } from './highlights';
+import type { OutlineItem, PdfLink } from './PdfUtil';
+import type { PdfErrorEvent } from './errors';
+import type { PdfLoadProgressEvent } from './PdfCache';
+import { type RenderPageOverlay, usePageOverlays } from './overlays';
+import { type DocumentProps, useSourcePath } from './source';
+import {
+  type PdfPageTapEvent,
+  type PdfViewerRef,
+  useViewerCommands,
+} from './viewer';
 
 // --- Event types ---
 
-export type PagingPdfErrorEvent = { message: string };
+export type PagingPdfErrorEvent = PdfErrorEvent;
 
 export type PagingPdfLoadCompleteEvent = {
   width: number;
   height: number;
   pageCount: number;
+  /**
+   * Document fingerprint, see `PdfUtil.getMetadata()`.
+   */
+  fingerprint: string;
 };
 
 export type PagingPdfPageChangeEvent = { page: number };
 
 export type PagingPdfZoomChangeEvent = { scale: number };
 
-export type PagingPdfTapEvent = { position: 'top' | 'bottom' | 'left' | 'right' };
+export type PagingPdfTapEvent = {
+  position: 'top' | 'bottom' | 'left' | 'right';
+};
 
 // --- Native Props ---
 
 type NativePagingPdfViewProps = {
   source: string;
+  password: string;
   minZoom: number;
   maxZoom: number;
+  initialPage: number;
+  initialZoom: number;
   edgeTapZone: number;
   pdfBackgroundColor?: ReturnType<typeof processColor>;
+  annotations: string;
+  highlights: string;
+  activeHighlight: number;
+  highlightColor?: ReturnType<typeof processColor>;
+  activeHighlightColor?: ReturnType<typeof processColor>;
+  followInternalLinks: boolean;
+  showLinkAreas: boolean;
+  drawingMode: string;
+  strokeColor: string;
+  strokeWidth: number;
+  strokeOpacity: number;
+  strokes: string;
 
   onLayout?: (event: LayoutChangeEvent) => void;
   onPdfError: (event: NativeSyntheticEvent<PagingPdfErrorEvent>) => void;
@@ -49,17 +93,29 @@ type NativePagingPdfViewProps = {
   onZoomChange: (event: NativeSyntheticEvent<PagingPdfZoomChangeEvent>) => void;
   onTap: (event: NativeSyntheticEvent<PagingPdfTapEvent>) => void;
   onMiddleClick: (event: NativeSyntheticEvent<{}>) => void;
+  onPageTap: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onPageDoubleTap: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onPageLongPress: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onLinkPress: (event: NativeSyntheticEvent<PdfLink>) => void;
+  onStrokeEnd: (event: NativeSyntheticEvent<PageStrokeEndEvent>) => void;
+  onStrokeRemoved: (
+    event: NativeSyntheticEvent<PageStrokeRemovedEvent>
+  ) => void;
+  onStrokesCleared: (
+    event: NativeSyntheticEvent<PageStrokesClearedEvent>
+  ) => void;
 
+  children?: React.ReactNode;
   style?: ViewStyle;
 };
 
 // --- Public Props ---
 
-export type NativePagingPdfViewProps_Public = {
+export type NativePagingPdfViewProps_Public = DocumentProps & {
   /**
-   * Path to PDF document.
+   * Password to open an encrypted PDF document.
    */
-  source: string;
+  password?: string;
 
   /**
    * Minimum zoom level. Default: 1.
@@ -71,6 +127,18 @@ export type NativePagingPdfViewProps_Public = {
    */
   maxZoom?: number;
 
+  /**
+   * Page (0-indexed) to open the document at. Only read when a document
+   * loads. Default: 0.
+   */
+  initialPage?: number;
+
+  /**
+   * Zoom level to open the document at, within `minZoom` / `maxZoom`. Only
+   * read when a document loads. Default: 1.
+   */
+  initialZoom?: number;
+
   /**
    * Edge tap zone size as percentage (0-50). Default: 15.
    * Left and right edges of this size will trigger scroll on tap.
@@ -85,11 +153,74 @@ export type NativePagingPdfViewProps_Public = {
    */
   backgroundColor?: string;
 
+  /**
+   * Annotations to draw over pages (PAS v1 format), keyed by page. Drawn as
+   * vectors, so they stay sharp at every zoom level.
+   */
+  annotations?: PdfAnnotations;
+
+  /**
+   * Regions to highlight, e.g. matches from `PdfUtil.search()`.
+   * Navigate between them with `findNext()` / `findPrevious()`.
+   */
+  highlights?: PdfHighlight[];
+
+  /**
+   * Fill color of highlights. Default: translucent yellow.
+   */
+  highlightColor?: string;
+
+  /**
+   * Fill color of the highlight selected by `findNext()` / `findPrevious()`.
+   * Default: translucent orange.
+   */
+  activeHighlightColor?: string;
+
+  /**
+   * Scroll to the target page when user taps a link within the document.
+   * Default: true.
+   */
+  followInternalLinks?: boolean;
+
+  /**
+   * Outline the tap areas of links, for debugging. Default: false.
+   */
+  showLinkAreas?: boolean;
+
+  /**
+   * Drawing mode. Default: 'view'.
+   * - 'view': No drawing, touches swipe, scroll and zoom
+   * - 'draw': One finger draws with `drawingTool`
+   * - 'erase': One finger erases the strokes it touches
+   * - 'highlight': One finger draws with a highlighter
+   * While drawing, two fingers scroll and zoom the page, swiping does not
+   * change pages, and tap callbacks are off.
+   */
+  drawingMode?: DrawingMode;
+
+  /**
+   * Drawing tool configuration. Default: `DEFAULT_DRAWING_TOOL`.
+   */
+  drawingTool?: DrawingTool;
+
+  /**
+   * Strokes to draw over pages, keyed by page. Drawn with the page, so they
+   * stay aligned as it scrolls and zooms. Add strokes from `onStrokeEnd` and
+   * drop them in `onStrokeRemoved` / `onStrokesCleared` to keep them on
+   * screen.
+   */
+  strokes?: PageStrokes;
+
   /**
    * Callback when an error occurs.
    */
   onError?: (event: PagingPdfErrorEvent) => void;
 
+  /**
+   * Callback while a remote source downloads.
+   */
+  onLoadProgress?: (event: PdfLoadProgressEvent) => void;
+
   /**
    * Callback for measuring the native view.
    */
@@ -121,25 +252,63 @@ export type NativePagingPdfViewProps_Public = {
    */
   onMiddleClick?: () => void;
 
-  style?: ViewStyle;
-};
+  /**
+   * Callback when user taps a page, with the tapped point.
+   */
+  onPageTap?: (event: PdfPageTapEvent) => void;
 
-// --- Ref type ---
+  /**
+   * Callback when user double taps a page, with the tapped point.
+   */
+  onPageDoubleTap?: (event: PdfPageTapEvent) => void;
 
-export type NativePagingPdfViewRef = {
   /**
-   * Reset zoom to default (scale = 1).
+   * Callback when user long presses a page, with the pressed point.
    */
-  resetZoom: () => void;
+  onPageLongPress?: (event: PdfPageTapEvent) => void;
 
   /**
-   * Scroll to specific page.
+   * Callback when user taps a link that the viewer does not follow: links
+   * out of the document (e.g. open `uri` with `Linking.openURL()`), and
+   * internal links if `followInternalLinks` is false. Taps on links do not
+   * trigger other tap callbacks.
    */
-  scrollToPage: (page: number, animated?: boolean) => void;
+  onLinkPress?: (link: PdfLink) => void;
+
+  /**
+   * Callback when a stroke is completed, with the page it was drawn on.
+   */
+  onStrokeEnd?: (stroke: DrawingStroke, page: number) => void;
+
+  /**
+   * Callback when a stroke is removed (erased), with its page.
+   */
+  onStrokeRemoved?: (strokeId: string, page: number) => void;
+
+  /**
+   * Callback for each page whose strokes `clearStrokes()` removed.
+   */
+  onStrokesCleared?: (page: number) => void;
+
+  /**
+   * Render React content over a page, e.g. markers or buttons. Overlays are
+   * sized like the page at zoom level 1 and follow it as it scrolls and
+   * zooms. Touches on overlay content go to the overlay; elsewhere they
+   * reach the page.
+   */
+  renderPageOverlay?: RenderPageOverlay;
+
+  style?: ViewStyle;
 };
 
+// --- Ref type ---
+
+export type NativePagingPdfViewRef = PdfViewerRef;
+
 // --- Native component ---
 
+const NO_HIGHLIGHTS: PdfHighlight[] = [];
+
 const RNPagingPdfView =
   requireNativeComponent<NativePagingPdfViewProps>('RNPagingPdfView');
 
@@ -152,7 +321,8 @@ const RNPagingPdfView =
  * Features:
  * - Horizontal page swiping (like a book)
  * - Per-page pinch-to-zoom
- * - Page swiping is disabled while zoomed in
+ * - Page swiping is disabled while zoomed in or drawing
+ * - Freehand drawing on pages
  * - Double-tap to zoom in/out
  *
  * Supported platforms: iOS, Android
@@ -162,47 +332,85 @@ export const NativePagingPdfView = forwardRef<
   NativePagingPdfViewProps_Public
 >(function NativePagingPdfView(props, ref) {
   const {
-    source,
+    password = '',
     minZoom = 1,
     maxZoom = 3,
+    initialPage = 0,
+    initialZoom = 1,
     edgeTapZone = 15,
     backgroundColor,
+    annotations,
+    highlights = NO_HIGHLIGHTS,
+    highlightColor,
+    activeHighlightColor,
+    followInternalLinks = true,
+    showLinkAreas = false,
+    drawingMode = 'view',
+    drawingTool = DEFAULT_DRAWING_TOOL,
+    strokes,
     onError,
+    onLoadProgress,
     onLayout,
     onLoadComplete,
     onPageChange,
     onZoomChange,
     onTap,
     onMiddleClick,
+    onPageTap,
+    onPageDoubleTap,
+    onPageLongPress,
+    onLinkPress,
+    onStrokeEnd,
+    onStrokeRemoved,
+    onStrokesCleared,
+    renderPageOverlay,
     style,
   } = props;
 
   const viewRef = useRef<any>(null);
+  const sourcePath = useSourcePath(props, { onLoadProgress, onError });
+
+  const fingerprintRef = useRef<string>();
+  useEffect(() => {
+    // Locations of the previous document no longer apply.
+    fingerprintRef.current = undefined;
+  }, [sourcePath]);
+  const commands = useViewerCommands(viewRef, fingerprintRef);
+  const {
+    overlays,
+    onLayout: layoutOverlays,
+    onLoad: loadOverlays,
+    onZoomChange: zoomOverlays,
+    onPagesShown: showOverlayPages,
+  } = usePageOverlays(renderPageOverlay, sourcePath);
+  const annotationsJson = useAnnotationsJson(annotations);
+  const strokesJson = usePageStrokesJson(strokes);
+  const { highlightsJson, activeHighlight, findNext, findPrevious } =
+    useHighlightNavigation(highlights, commands.zoomToRect);
 
   // Expose imperative methods
   useImperativeHandle(ref, () => ({
-    resetZoom: () => {
-      if (viewRef.current) {
-        const handle = findNodeHandle(viewRef.current);
-        if (handle) {
-          UIManager.dispatchViewManagerCommand(handle, 'resetZoom', []);
-        }
-      }
-    },
-    scrollToPage: (page: number, animated = true) => {
-      if (viewRef.current) {
-        const handle = findNodeHandle(viewRef.current);
-        if (handle) {
-          UIManager.dispatchViewManagerCommand(handle, 'scrollToPage', [
-            page,
-            animated,
-          ]);
-        }
+    ...commands,
+    findNext,
+    findPrevious,
+    goToOutlineItem: (item: OutlineItem, animated = true) => {
+      if (item.page != null) {
+        commands.goToPage(item.page, { animated });
       }
     },
+    scrollToPage: (page: number, animated = true) =>
+      commands.goToPage(page, { animated }),
   }));
 
   // Event handlers
+  const handleLayout = useCallback(
+    (event: LayoutChangeEvent) => {
+      layoutOverlays(event);
+      onLayout?.(event);
+    },
+    [layoutOverlays, onLayout]
+  );
+
   const handlePdfError = useCallback(
     (event: NativeSyntheticEvent<PagingPdfErrorEvent>) => {
       onError?.(event.nativeEvent);
@@ -212,23 +420,29 @@ export const NativePagingPdfView = forwardRef<
 
   const handlePdfLoadComplete = useCallback(
     (event: NativeSyntheticEvent<PagingPdfLoadCompleteEvent>) => {
+      const { width, height, pageCount, fingerprint } = event.nativeEvent;
+      fingerprintRef.current = fingerprint;
+      loadOverlays(width, height, pageCount);
+      showOverlayPages([Math.max(0, Math.min(initialPage, pageCount - 1))]);
       onLoadComplete?.(event.nativeEvent);
     },
-    [onLoadComplete]
+    [onLoadComplete, loadOverlays, showOverlayPages, initialPage]
   );
 
   const handlePageChange = useCallback(
     (event: NativeSyntheticEvent<PagingPdfPageChangeEvent>) => {
+      showOverlayPages([event.nativeEvent.page]);
       onPageChange?.(event.nativeEvent.page);
     },
-    [onPageChange]
+    [onPageChange, showOverlayPages]
   );
 
   const handleZoomChange = useCallback(
     (event: NativeSyntheticEvent<PagingPdfZoomChangeEvent>) => {
+      zoomOverlays(event.nativeEvent.scale);
       onZoomChange?.(event.nativeEvent.scale);
     },
-    [onZoomChange]
+    [onZoomChange, zoomOverlays]
   );
 
   const handleTap = useCallback(
@@ -242,22 +456,100 @@ export const NativePagingPdfView = forwardRef<
     onMiddleClick?.();
   }, [onMiddleClick]);
 
+  const handlePageTap = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageTap?.(event.nativeEvent);
+    },
+    [onPageTap]
+  );
+
+  const handlePageDoubleTap = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageDoubleTap?.(event.nativeEvent);
+    },
+    [onPageDoubleTap]
+  );
+
+  const handlePageLongPress = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageLongPress?.(event.nativeEvent);
+    },
+    [onPageLongPress]
+  );
+
+  const handleLinkPress = useCallback(
+    (event: NativeSyntheticEvent<PdfLink>) => {
+      onLinkPress?.(event.nativeEvent);
+    },
+    [onLinkPress]
+  );
+
+  const handleStrokeEnd = useCallback(
+    (event: NativeSyntheticEvent<PageStrokeEndEvent>) => {
+      const { id, color, width, opacity, path, page } = event.nativeEvent;
+      onStrokeEnd?.({ id, color, width, opacity, path }, page);
+    },
+    [onStrokeEnd]
+  );
+
+  const handleStrokeRemoved = useCallback(
+    (event: NativeSyntheticEvent<PageStrokeRemovedEvent>) => {
+      onStrokeRemoved?.(event.nativeEvent.id, event.nativeEvent.page);
+    },
+    [onStrokeRemoved]
+  );
+
+  const handleStrokesCleared = useCallback(
+    (event: NativeSyntheticEvent<PageStrokesClearedEvent>) => {
+      onStrokesCleared?.(event.nativeEvent.page);
+    },
+    [onStrokesCleared]
+  );
+
   return (
     <RNPagingPdfView
       ref={viewRef}
-      source={asPath(source)}
+      source={sourcePath}
+      password={password}
       minZoom={minZoom}
       maxZoom={maxZoom}
+      initialPage={initialPage}
+      initialZoom={initialZoom}
       edgeTapZone={Math.max(0, Math.min(50, edgeTapZone))}
-      pdfBackgroundColor={backgroundColor ? processColor(backgroundColor) : undefined}
-      onLayout={onLayout}
+      pdfBackgroundColor={
+        backgroundColor ? processColor(backgroundColor) : undefined
+      }
+      annotations={annotationsJson}
+      highlights={highlightsJson}
+      activeHighlight={activeHighlight}
+      highlightColor={highlightColor ? processColor(highlightColor) : undefined}
+      activeHighlightColor={
+        activeHighlightColor ? processColor(activeHighlightColor) : undefined
+      }
+      followInternalLinks={followInternalLinks}
+      showLinkAreas={showLinkAreas}
+      drawingMode={drawingMode}
+      strokeColor={drawingTool.color}
+      strokeWidth={drawingTool.strokeWidth}
+      strokeOpacity={drawingTool.opacity}
+      strokes={strokesJson}
+      onLayout={handleLayout}
       onPdfError={handlePdfError}
       onPdfLoadComplete={handlePdfLoadComplete}
       onPageChange={handlePageChange}
       onZoomChange={handleZoomChange}
       onTap={handleTap}
       onMiddleClick={handleMiddleClick}
+      onPageTap={handlePageTap}
+      onPageDoubleTap={handlePageDoubleTap}
+      onPageLongPress={handlePageLongPress}
+      onLinkPress={handleLinkPress}
+      onStrokeEnd={handleStrokeEnd}
+      onStrokeRemoved={handleStrokeRemoved}
+      onStrokesCleared={handleStrokesCleared}
       style={style}
-    />
+    >
+      {overlays}
+    </RNPagingPdfView>
   );
 });
@@ -1,22 +1,17 @@
-import React, {
-  useCallback,
-  useRef,
-  useImperativeHandle,
-  forwardRef,
-} from 'react';
+import React, { useRef, useImperativeHandle, forwardRef } from 'react';
+import type { LayoutChangeEvent, ViewStyle } from 'react-native';
+import type { PdfErrorEvent } from './errors';
 import {
-  findNodeHandle,
-  LayoutChangeEvent,
-  NativeSyntheticEvent,
-  requireNativeComponent,
-  UIManager,
-  ViewStyle,
-} from 'react-native';
-import { asPath } from './Util';
+  NativeDrawablePdfView,
+  type NativeDrawablePdfViewRef,
+} from './NativeDrawablePdfView';
+import type { PdfLoadProgressEvent } from './PdfCache';
+import type { DocumentProps } from './source';
+import type { PdfPageTapEvent } from './viewer';
 
 // --- Event types ---
 
-export type ErrorEvent = { message: string };
+export type ErrorEvent = PdfErrorEvent;
 
 export type LoadCompleteEvent = { height: number; width: number };
 
@@ -26,40 +21,13 @@ export type ZoomChangeEvent = {
   offsetY: number;
 };
 
-// --- Native Props ---
-
-type NativeSimplePdfViewProps = {
-  // PDF props
-  source: string;
-  page: number;
-  resizeMode?: 'contain' | 'fitWidth';
-  annotation?: string;
-  annotationStr?: string;
-
-  // Zoom props
-  minZoom: number;
-  maxZoom: number;
-  zoomEnabled: boolean;
-
-  // Events
-  onLayout?: (event: LayoutChangeEvent) => void;
-  onPdfError: (event: NativeSyntheticEvent<ErrorEvent>) => void;
-  onPdfLoadComplete: (event: NativeSyntheticEvent<LoadCompleteEvent>) => void;
-  onZoomChange: (event: NativeSyntheticEvent<ZoomChangeEvent>) => void;
-  onZoomPanStart: (event: NativeSyntheticEvent<{}>) => void;
-  onZoomPanEnd: (event: NativeSyntheticEvent<{}>) => void;
-  onSingleTap: (event: NativeSyntheticEvent<{}>) => void;
-
-  style?: ViewStyle;
-};
-
 // --- Public Props ---
 
-export type NativeSimplePdfViewProps_Public = {
+export type NativeSimplePdfViewProps_Public = DocumentProps & {
   /**
-   * Document to display.
+   * Password to open an encrypted document.
    */
-  source: string;
+  password?: string;
 
   /**
    * Page (0-indexed) of document to display.
@@ -101,6 +69,11 @@ export type NativeSimplePdfViewProps_Public = {
    */
   onError?: (event: ErrorEvent) => void;
 
+  /**
+   * Callback while a remote source downloads.
+   */
+  onLoadProgress?: (event: PdfLoadProgressEvent) => void;
+
   /**
    * Callback for measuring the native view.
    */
@@ -132,6 +105,21 @@ export type NativeSimplePdfViewProps_Public = {
    */
   onSingleTap?: () => void;
 
+  /**
+   * Callback when user taps a page, with the tapped point.
+   */
+  onPageTap?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user double taps a page, with the tapped point.
+   */
+  onPageDoubleTap?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user long presses a page, with the pressed point.
+   */
+  onPageLongPress?: (event: PdfPageTapEvent) => void;
+
   style?: ViewStyle;
 };
 
@@ -144,10 +132,7 @@ export type NativeSimplePdfViewRef = {
   resetZoom: () => void;
 };
 
-// --- Native component ---
-
-const RNSimplePdfView =
-  requireNativeComponent<NativeSimplePdfViewProps>('RNSimplePdfView');
+// --- Component ---
 
 /**
  * Lightweight native PDF view with zoom support (no drawing).
@@ -161,8 +146,8 @@ const RNSimplePdfView =
  * - Pan when zoomed in
  * - Annotations rendering
  *
- * Use this component when you don't need drawing capabilities and want
- * a lighter-weight PDF viewer.
+ * Use this component when you don't need drawing capabilities. It is backed
+ * by the native view of `NativeDrawablePdfView`, with drawing off.
  *
  * Supported platforms: Android, iOS
  */
@@ -170,101 +155,12 @@ export const NativeSimplePdfView = forwardRef<
   NativeSimplePdfViewRef,
   NativeSimplePdfViewProps_Public
 >(function NativeSimplePdfView(props, ref) {
-  const {
-    source,
-    page,
-    resizeMode,
-    annotationStr,
-    annotation,
-    minZoom = 1,
-    maxZoom = 3,
-    zoomEnabled = true,
-    onError,
-    onLayout,
-    onLoadComplete,
-    onZoomChange,
-    onZoomPanStart,
-    onZoomPanEnd,
-    onSingleTap,
-    style,
-  } = props;
-
-  const viewRef = useRef<any>(null);
+  const viewRef = useRef<NativeDrawablePdfViewRef>(null);
 
   // Expose imperative methods
   useImperativeHandle(ref, () => ({
-    resetZoom: () => {
-      if (viewRef.current) {
-        const handle = findNodeHandle(viewRef.current);
-        if (handle) {
-          UIManager.dispatchViewManagerCommand(handle, 'resetZoom', []);
-        }
-      }
-    },
+    resetZoom: () => viewRef.current?.resetZoom(),
   }));
 
-  // Event handlers
-  const handlePdfError = useCallback(
-    (event: NativeSyntheticEvent<ErrorEvent>) => {
-      onError?.(event.nativeEvent);
-    },
-    [onError]
-  );
-
-  const handlePdfLoadComplete = useCallback(
-    (event: NativeSyntheticEvent<LoadCompleteEvent>) => {
-      onLoadComplete?.(event.nativeEvent);
-    },
-    [onLoadComplete]
-  );
-
-  const handleZoomChange = useCallback(
-    (event: NativeSyntheticEvent<ZoomChangeEvent>) => {
-      onZoomChange?.(event.nativeEvent);
-    },
-    [onZoomChange]
-  );
-
-  const handleZoomPanStart = useCallback(
-    (_event: NativeSyntheticEvent<{}>) => {
-      onZoomPanStart?.();
-    },
-    [onZoomPanStart]
-  );
-
-  const handleZoomPanEnd = useCallback(
-    (_event: NativeSyntheticEvent<{}>) => {
-      onZoomPanEnd?.();
-    },
-    [onZoomPanEnd]
-  );
-
-  const handleSingleTap = useCallback(
-    (_event: NativeSyntheticEvent<{}>) => {
-      onSingleTap?.();
-    },
-    [onSingleTap]
-  );
-
-  return (
-    <RNSimplePdfView
-      ref={viewRef}
-      source={asPath(source)}
-      page={page}
-      resizeMode={resizeMode}
-      annotation={asPath(annotation)}
-      annotationStr={annotationStr}
-      minZoom={minZoom}
-      maxZoom={maxZoom}
-      zoomEnabled={zoomEnabled}
-      onLayout={onLayout}
-      onPdfError={handlePdfError}
-      onPdfLoadComplete={handlePdfLoadComplete}
-      onZoomChange={handleZoomChange}
-      onZoomPanStart={handleZoomPanStart}
-      onZoomPanEnd={handleZoomPanEnd}
-      onSingleTap={handleSingleTap}
-      style={style}
-    />
-  );
+  return <NativeDrawablePdfView {...props} ref={viewRef} />;
 });
@@ -1,34 +1,92 @@
 import React, {
   useCallback,
+  useEffect,
   useRef,
   useImperativeHandle,
   forwardRef,
 } from 'react';
 import {
-  findNodeHandle,
   LayoutChangeEvent,
   NativeSyntheticEvent,
   processColor,
   requireNativeComponent,
-  UIManager,
   ViewStyle,
 } from 'react-native';
-import { asPath } from './Util';
+import { type PdfAnnotations, useAnnotationsJson } from './annotations';
+import {
+  type PageStrokeEndEvent,
+  type PageStrokeRemovedEvent,
+  type PageStrokesClearedEvent,
+  usePageStrokesJson,
+} from './drawing/pageStrokes';
+import {
+  DEFAULT_DRAWING_TOOL,
+  type DrawingMode,
+  type DrawingStroke,
+  type DrawingTool,
+  type PageStrokes,
+} from './drawing/types';
+import { type PdfHighlight, useHighlightNavigation } from './highlights';
+import type { NormalizedRect, OutlineItem, PdfLink } from './PdfUtil';
+import type { PdfErrorEvent } from './errors';
+import type { PdfLoadProgressEvent } from './PdfCache';
+import { type RenderPageOverlay, usePageOverlays } from './overlays';
+import { type DocumentProps, useSourcePath } from './source';
+import {
+  type PdfPageTapEvent,
+  type PdfViewerRef,
+  useViewerCommands,
+} from './viewer';
 
 // --- Event types ---
 
-export type ZoomablePdfErrorEvent = { message: string };
+export type ZoomablePdfErrorEvent = PdfErrorEvent;
 
 export type ZoomablePdfLoadCompleteEvent = {
   width: number;
   height: number;
   pageCount: number;
+  /**
+   * Document fingerprint, see `PdfUtil.getMetadata()`.
+   */
+  fingerprint: string;
 };
 
 export type ZoomablePdfPageChangeEvent = { page: number };
 
 export type ZoomablePdfZoomChangeEvent = { scale: number };
 
+export type ZoomablePdfScrollEvent = {
+  /**
+   * Top left corner of the viewport relative to the top left corner of the
+   * first page, in points of the zoomed content.
+   */
+  contentOffset: { x: number; y: number };
+
+  /**
+   * Size of all pages at the current zoom, in points.
+   */
+  contentSize: { width: number; height: number };
+
+  scale: number;
+};
+
+export type PdfVisiblePage = {
+  page: number;
+
+  /**
+   * Part of the page inside the viewport, normalized to page dimensions.
+   */
+  visibleRect: NormalizedRect;
+
+  /**
+   * Share of the page area inside the viewport, 0-1.
+   */
+  visibleFraction: number;
+};
+
+type VisiblePagesChangeEvent = { pages: PdfVisiblePage[] };
+
 export type ZoomablePdfTapEvent = {
   position: 'top' | 'bottom' | 'left' | 'right';
 };
@@ -37,12 +95,28 @@ export type ZoomablePdfTapEvent = {
 
 type NativeZoomablePdfScrollViewProps = {
   source: string;
+  password: string;
   minZoom: number;
   maxZoom: number;
+  initialPage: number;
+  initialZoom: number;
+  scrollEventThrottle: number;
   edgeTapZone: number;
   pdfPaddingTop: number;
   pdfPaddingBottom: number;
   pdfBackgroundColor?: ReturnType<typeof processColor>;
+  annotations: string;
+  highlights: string;
+  activeHighlight: number;
+  highlightColor?: ReturnType<typeof processColor>;
+  activeHighlightColor?: ReturnType<typeof processColor>;
+  followInternalLinks: boolean;
+  showLinkAreas: boolean;
+  drawingMode: string;
+  strokeColor: string;
+  strokeWidth: number;
+  strokeOpacity: number;
+  strokes: string;
 
   onLayout?: (event: LayoutChangeEvent) => void;
   onPdfError: (event: NativeSyntheticEvent<ZoomablePdfErrorEvent>) => void;
@@ -57,17 +131,33 @@ type NativeZoomablePdfScrollViewProps = {
   ) => void;
   onTap: (event: NativeSyntheticEvent<ZoomablePdfTapEvent>) => void;
   onMiddleClick: (event: NativeSyntheticEvent<{}>) => void;
+  onPageTap: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onPageDoubleTap: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onPageLongPress: (event: NativeSyntheticEvent<PdfPageTapEvent>) => void;
+  onLinkPress: (event: NativeSyntheticEvent<PdfLink>) => void;
+  onStrokeEnd: (event: NativeSyntheticEvent<PageStrokeEndEvent>) => void;
+  onStrokeRemoved: (
+    event: NativeSyntheticEvent<PageStrokeRemovedEvent>
+  ) => void;
+  onStrokesCleared: (
+    event: NativeSyntheticEvent<PageStrokesClearedEvent>
+  ) => void;
+  onPdfScroll?: (event: NativeSyntheticEvent<ZoomablePdfScrollEvent>) => void;
+  onVisiblePagesChange?: (
+    event: NativeSyntheticEvent<VisiblePagesChangeEvent>
+  ) => void;
 
+  children?: React.ReactNode;
   style?: ViewStyle;
 };
 
 // --- Public Props ---
 
-export type NativeZoomablePdfScrollViewProps_Public = {
+export type NativeZoomablePdfScrollViewProps_Public = DocumentProps & {
   /**
-   * Path to PDF document.
+   * Password to open an encrypted PDF document.
    */
-  source: string;
+  password?: string;
 
   /**
    * Minimum zoom level. Default: 1.
@@ -79,6 +169,18 @@ export type NativeZoomablePdfScrollViewProps_Public = {
    */
   maxZoom?: number;
 
+  /**
+   * Page (0-indexed) to open the document at. Only read when a document
+   * loads. Default: 0.
+   */
+  initialPage?: number;
+
+  /**
+   * Zoom level to open the document at, within `minZoom` / `maxZoom`. Only
+   * read when a document loads. Default: 1.
+   */
+  initialZoom?: number;
+
   /**
    * Edge tap zone size as percentage (0-50). Default: 15.
    * Left and right edges of this size will trigger scroll on tap.
@@ -104,11 +206,73 @@ export type NativeZoomablePdfScrollViewProps_Public = {
    */
   pdfPaddingBottom?: number;
 
+  /**
+   * Annotations to draw over pages (PAS v1 format), keyed by page. Drawn as
+   * vectors, so they stay sharp at every zoom level.
+   */
+  annotations?: PdfAnnotations;
+
+  /**
+   * Regions to highlight, e.g. matches from `PdfUtil.search()`.
+   * Navigate between them with `findNext()` / `findPrevious()`.
+   */
+  highlights?: PdfHighlight[];
+
+  /**
+   * Fill color of highlights. Default: translucent yellow.
+   */
+  highlightColor?: string;
+
+  /**
+   * Fill color of the highlight selected by `findNext()` / `findPrevious()`.
+   * Default: translucent orange.
+   */
+  activeHighlightColor?: string;
+
+  /**
+   * Scroll to the target page when user taps a link within the document.
+   * Default: true.
+   */
+  followInternalLinks?: boolean;
+
+  /**
+   * Outline the tap areas of links, for debugging. Default: false.
+   */
+  showLinkAreas?: boolean;
+
+  /**
+   * Drawing mode. Default: 'view'.
+   * - 'view': No drawing, touches scroll and zoom
+   * - 'draw': One finger draws with `drawingTool`
+   * - 'erase': One finger erases the strokes it touches
+   * - 'highlight': One finger draws with a highlighter
+   * While drawing, two fingers scroll and zoom, and tap callbacks are off.
+   */
+  drawingMode?: DrawingMode;
+
+  /**
+   * Drawing tool configuration. Default: `DEFAULT_DRAWING_TOOL`.
+   */
+  drawingTool?: DrawingTool;
+
+  /**
+   * Strokes to draw over pages, keyed by page. Drawn with the page, so they
+   * stay aligned as it scrolls and zooms. Add strokes from `onStrokeEnd` and
+   * drop them in `onStrokeRemoved` / `onStrokesCleared` to keep them on
+   * screen.
+   */
+  strokes?: PageStrokes;
+
   /**
    * Callback when an error occurs.
    */
   onError?: (event: ZoomablePdfErrorEvent) => void;
 
+  /**
+   * Callback while a remote source downloads.
+   */
+  onLoadProgress?: (event: PdfLoadProgressEvent) => void;
+
   /**
    * Callback for measuring the native view.
    */
@@ -129,6 +293,24 @@ export type NativeZoomablePdfScrollViewProps_Public = {
    */
   onZoomChange?: (scale: number) => void;
 
+  /**
+   * Callback when the viewport moves, by scrolling or zooming.
+   */
+  onScroll?: (event: ZoomablePdfScrollEvent) => void;
+
+  /**
+   * Callback when the pages inside the viewport, or how much of them is
+   * visible, change. Pages are in order.
+   */
+  onVisiblePagesChange?: (pages: PdfVisiblePage[]) => void;
+
+  /**
+   * Minimum interval in milliseconds between `onScroll` (and
+   * `onVisiblePagesChange`) events. The final position is always reported.
+   * Default: 16.
+   */
+  scrollEventThrottle?: number;
+
   /**
    * Callback when user taps on scroll zones.
    * Landscape mode: 'top' = upper half, 'bottom' = lower half
@@ -141,25 +323,63 @@ export type NativeZoomablePdfScrollViewProps_Public = {
    */
   onMiddleClick?: () => void;
 
-  style?: ViewStyle;
-};
+  /**
+   * Callback when user taps a page, with the tapped point.
+   */
+  onPageTap?: (event: PdfPageTapEvent) => void;
 
-// --- Ref type ---
+  /**
+   * Callback when user double taps a page, with the tapped point.
+   */
+  onPageDoubleTap?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user long presses a page, with the pressed point.
+   */
+  onPageLongPress?: (event: PdfPageTapEvent) => void;
 
-export type NativeZoomablePdfScrollViewRef = {
   /**
-   * Reset zoom to default (scale = 1).
+   * Callback when user taps a link that the viewer does not follow: links
+   * out of the document (e.g. open `uri` with `Linking.openURL()`), and
+   * internal links if `followInternalLinks` is false. Taps on links do not
+   * trigger other tap callbacks.
    */
-  resetZoom: () => void;
+  onLinkPress?: (link: PdfLink) => void;
 
   /**
-   * Scroll to specific page.
+   * Callback when a stroke is completed, with the page it was drawn on.
    */
-  scrollToPage: (page: number, animated?: boolean) => void;
+  onStrokeEnd?: (stroke: DrawingStroke, page: number) => void;
+
+  /**
+   * Callback when a stroke is removed (erased), with its page.
+   */
+  onStrokeRemoved?: (strokeId: string, page: number) => void;
+
+  /**
+   * Callback for each page whose strokes `clearStrokes()` removed.
+   */
+  onStrokesCleared?: (page: number) => void;
+
+  /**
+   * Render React content over a page, e.g. markers or buttons. Overlays are
+   * sized like the page at zoom level 1 and follow it as it scrolls and
+   * zooms. Touches on overlay content go to the overlay; elsewhere they
+   * reach the page.
+   */
+  renderPageOverlay?: RenderPageOverlay;
+
+  style?: ViewStyle;
 };
 
+// --- Ref type ---
+
+export type NativeZoomablePdfScrollViewRef = PdfViewerRef;
+
 // --- Native component ---
 
+const NO_HIGHLIGHTS: PdfHighlight[] = [];
+
 const RNZoomablePdfScrollView =
   requireNativeComponent<NativeZoomablePdfScrollViewProps>(
     'RNZoomablePdfScrollView'
@@ -183,49 +403,90 @@ export const NativeZoomablePdfScrollView = forwardRef<
   NativeZoomablePdfScrollViewProps_Public
 >(function NativeZoomablePdfScrollView(props, ref) {
   const {
-    source,
+    password = '',
     minZoom = 1,
     maxZoom = 3,
+    initialPage = 0,
+    initialZoom = 1,
     edgeTapZone = 15,
     pdfPaddingTop = 0,
     pdfPaddingBottom = 0,
     backgroundColor,
+    annotations,
+    highlights = NO_HIGHLIGHTS,
+    highlightColor,
+    activeHighlightColor,
+    followInternalLinks = true,
+    showLinkAreas = false,
+    drawingMode = 'view',
+    drawingTool = DEFAULT_DRAWING_TOOL,
+    strokes,
     onError,
+    onLoadProgress,
     onLayout,
     onLoadComplete,
     onPageChange,
     onZoomChange,
     onTap,
     onMiddleClick,
+    onPageTap,
+    onPageDoubleTap,
+    onPageLongPress,
+    onLinkPress,
+    onStrokeEnd,
+    onStrokeRemoved,
+    onStrokesCleared,
+    onScroll,
+    onVisiblePagesChange,
+    renderPageOverlay,
+    scrollEventThrottle = 16,
     style,
   } = props;
 
   const viewRef = useRef<any>(null);
+  const sourcePath = useSourcePath(props, { onLoadProgress, onError });
+
+  const fingerprintRef = useRef<string>();
+  useEffect(() => {
+    // Locations of the previous document no longer apply.
+    fingerprintRef.current = undefined;
+  }, [sourcePath]);
+  const commands = useViewerCommands(viewRef, fingerprintRef);
+  const {
+    overlays,
+    onLayout: layoutOverlays,
+    onLoad: loadOverlays,
+    onZoomChange: zoomOverlays,
+    onPagesShown: showOverlayPages,
+  } = usePageOverlays(renderPageOverlay, sourcePath);
+  const annotationsJson = useAnnotationsJson(annotations);
+  const strokesJson = usePageStrokesJson(strokes);
+  const { highlightsJson, activeHighlight, findNext, findPrevious } =
+    useHighlightNavigation(highlights, commands.zoomToRect);
 
   // Expose imperative methods
   useImperativeHandle(ref, () => ({
-    resetZoom: () => {
-      if (viewRef.current) {
-        const handle = findNodeHandle(viewRef.current);
-        if (handle) {
-          UIManager.dispatchViewManagerCommand(handle, 'resetZoom', []);
-        }
-      }
-    },
-    scrollToPage: (page: number, animated = true) => {
-      if (viewRef.current) {
-        const handle = findNodeHandle(viewRef.current);
-        if (handle) {
-          UIManager.dispatchViewManagerCommand(handle, 'scrollToPage', [
-            page,
-            animated,
-          ]);
-        }
+    ...commands,
+    findNext,
+    findPrevious,
+    goToOutlineItem: (item: OutlineItem, animated = true) => {
+      if (item.page != null) {
+        commands.goToPage(item.page, { animated });
       }
     },
+    scrollToPage: (page: number, animated = true) =>
+      commands.goToPage(page, { animated }),
   }));
 
   // Event handlers
+  const handleLayout = useCallback(
+    (event: LayoutChangeEvent) => {
+      layoutOverlays(event);
+      onLayout?.(event);
+    },
+    [layoutOverlays, onLayout]
+  );
+
   const handlePdfError = useCallback(
     (event: NativeSyntheticEvent<ZoomablePdfErrorEvent>) => {
       onError?.(event.nativeEvent);
@@ -235,9 +496,13 @@ export const NativeZoomablePdfScrollView = forwardRef<
 
   const handlePdfLoadComplete = useCallback(
     (event: NativeSyntheticEvent<ZoomablePdfLoadCompleteEvent>) => {
+      const { width, height, pageCount, fingerprint } = event.nativeEvent;
+      fingerprintRef.current = fingerprint;
+      loadOverlays(width, height, pageCount);
+      showOverlayPages([Math.max(0, Math.min(initialPage, pageCount - 1))]);
       onLoadComplete?.(event.nativeEvent);
     },
-    [onLoadComplete]
+    [onLoadComplete, loadOverlays, showOverlayPages, initialPage]
   );
 
   const handlePageChange = useCallback(
@@ -249,9 +514,10 @@ export const NativeZoomablePdfScrollView = forwardRef<
 
   const handleZoomChange = useCallback(
     (event: NativeSyntheticEvent<ZoomablePdfZoomChangeEvent>) => {
+      zoomOverlays(event.nativeEvent.scale);
       onZoomChange?.(event.nativeEvent.scale);
     },
-    [onZoomChange]
+    [onZoomChange, zoomOverlays]
   );
 
   const handleTap = useCallback(
@@ -265,26 +531,125 @@ export const NativeZoomablePdfScrollView = forwardRef<
     onMiddleClick?.();
   }, [onMiddleClick]);
 
+  const handlePageTap = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageTap?.(event.nativeEvent);
+    },
+    [onPageTap]
+  );
+
+  const handlePageDoubleTap = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageDoubleTap?.(event.nativeEvent);
+    },
+    [onPageDoubleTap]
+  );
+
+  const handlePageLongPress = useCallback(
+    (event: NativeSyntheticEvent<PdfPageTapEvent>) => {
+      onPageLongPress?.(event.nativeEvent);
+    },
+    [onPageLongPress]
+  );
+
+  const handleLinkPress = useCallback(
+    (event: NativeSyntheticEvent<PdfLink>) => {
+      onLinkPress?.(event.nativeEvent);
+    },
+    [onLinkPress]
+  );
+
+  const handleStrokeEnd = useCallback(
+    (event: NativeSyntheticEvent<PageStrokeEndEvent>) => {
+      const { id, color, width, opacity, path, page } = event.nativeEvent;
+      onStrokeEnd?.({ id, color, width, opacity, path }, page);
+    },
+    [onStrokeEnd]
+  );
+
+  const handleStrokeRemoved = useCallback(
+    (event: NativeSyntheticEvent<PageStrokeRemovedEvent>) => {
+      onStrokeRemoved?.(event.nativeEvent.id, event.nativeEvent.page);
+    },
+    [onStrokeRemoved]
+  );
+
+  const handleStrokesCleared = useCallback(
+    (event: NativeSyntheticEvent<PageStrokesClearedEvent>) => {
+      onStrokesCleared?.(event.nativeEvent.page);
+    },
+    [onStrokesCleared]
+  );
+
+  const handleScroll = useCallback(
+    (event: NativeSyntheticEvent<ZoomablePdfScrollEvent>) => {
+      onScroll?.(event.nativeEvent);
+    },
+    [onScroll]
+  );
+
+  const handleVisiblePagesChange = useCallback(
+    (event: NativeSyntheticEvent<VisiblePagesChangeEvent>) => {
+      showOverlayPages(event.nativeEvent.pages.map(({ page }) => page));
+      onVisiblePagesChange?.(event.nativeEvent.pages);
+    },
+    [onVisiblePagesChange, showOverlayPages]
+  );
+
   return (
     <RNZoomablePdfScrollView
       ref={viewRef}
-      source={asPath(source)}
+      source={sourcePath}
+      password={password}
       minZoom={minZoom}
       maxZoom={maxZoom}
+      initialPage={initialPage}
+      initialZoom={initialZoom}
+      scrollEventThrottle={Math.max(0, scrollEventThrottle)}
       edgeTapZone={Math.max(0, Math.min(50, edgeTapZone))}
       pdfPaddingTop={Math.max(0, pdfPaddingTop)}
       pdfPaddingBottom={Math.max(0, pdfPaddingBottom)}
       pdfBackgroundColor={
         backgroundColor ? processColor(backgroundColor) : undefined
       }
-      onLayout={onLayout}
+      annotations={annotationsJson}
+      highlights={highlightsJson}
+      activeHighlight={activeHighlight}
+      highlightColor={highlightColor ? processColor(highlightColor) : undefined}
+      activeHighlightColor={
+        activeHighlightColor ? processColor(activeHighlightColor) : undefined
+      }
+      followInternalLinks={followInternalLinks}
+      showLinkAreas={showLinkAreas}
+      drawingMode={drawingMode}
+      strokeColor={drawingTool.color}
+      strokeWidth={drawingTool.strokeWidth}
+      strokeOpacity={drawingTool.opacity}
+      strokes={strokesJson}
+      onLayout={handleLayout}
       onPdfError={handlePdfError}
       onPdfLoadComplete={handlePdfLoadComplete}
       onPageChange={handlePageChange}
       onZoomChange={handleZoomChange}
       onTap={handleTap}
       onMiddleClick={handleMiddleClick}
+      onPageTap={handlePageTap}
+      onPageDoubleTap={handlePageDoubleTap}
+      onPageLongPress={handlePageLongPress}
+      onLinkPress={handleLinkPress}
+      onStrokeEnd={handleStrokeEnd}
+      onStrokeRemoved={handleStrokeRemoved}
+      onStrokesCleared={handleStrokesCleared}
+      // Unset callbacks let the native view skip computing events.
+      onPdfScroll={onScroll ? handleScroll : undefined}
+      onVisiblePagesChange={
+        onVisiblePagesChange || renderPageOverlay
+          ? handleVisiblePagesChange
+          : undefined
+      }
       style={style}
-    />
+    >
+      {overlays}
+    </RNZoomablePdfScrollView>
   );
 });
@@ -0,0 +1,373 @@
+import {
+  Image,
+  NativeEventEmitter,
+  NativeModules,
+  Platform,
+} from 'react-native';
+import { createPdfError } from './errors';
+import { asPath } from './Util';
+
+/**
+ * Document downloaded from a server into the managed cache before display.
+ */
+export type RemoteSource = {
+  /**
+   * http(s) url of the document.
+   */
+  uri: string;
+
+  /**
+   * Request headers, e.g. `Authorization`.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Identifies the cached file. Default: `uri`.
+   * Set this when the url of a document changes between requests, e.g. signed
+   * urls.
+   */
+  cacheKey?: string;
+
+  /**
+   * Milliseconds a cached file stays fresh. Once expired, the document is
+   * downloaded again; if that fails, the expired file is used.
+   * Default: never expires.
+   */
+  expiration?: number;
+};
+
+/**
+ * Document data held in memory, e.g. returned inline by an API.
+ */
+export type Base64Source = {
+  /**
+   * Base64 encoded document, optionally as a `data:` uri.
+   */
+  base64: string;
+};
+
+/**
+ * Document shipped in the app bundle.
+ */
+export type AssetSource = {
+  /**
+   * Result of `require('./document.pdf')`. Requires `pdf` in the
+   * `assetExts` of the Metro config.
+   */
+  asset: number;
+};
+
+/**
+ * Document to display. Strings are file paths, `file://`, `data:`, `http(s)://`
+ * or (Android only) `content://` uris.
+ *
+ * Sources other than local files are written to the managed cache (see
+ * `PdfCache`) before use.
+ */
+export type PdfSource = string | RemoteSource | Base64Source | AssetSource;
+
+export type PdfLoadProgressEvent = {
+  bytesWritten: number;
+
+  /**
+   * Size of the document in bytes, or -1 if the server did not report it.
+   */
+  totalBytes: number;
+};
+
+export type PdfCacheEntry = {
+  key: string;
+  uri: string;
+
+  /**
+   * Absolute path of the cached file.
+   */
+  path: string;
+
+  /**
+   * Size in bytes.
+   */
+  size: number;
+
+  /**
+   * Time of download, in milliseconds since epoch.
+   */
+  modified: number;
+};
+
+export type PruneOptions = {
+  /**
+   * Delete files downloaded more than this many milliseconds ago.
+   */
+  maxAge?: number;
+
+  /**
+   * Delete the oldest files until the cache is at most this many bytes.
+   */
+  maxSize?: number;
+};
+
+export type DownloadOptions = {
+  onProgress?: (event: PdfLoadProgressEvent) => void;
+
+  /**
+   * Abort the download. The promise rejects with code `CANCELLED`.
+   */
+  signal?: AbortSignal;
+};
+
+type PdfCacheType = {
+  /**
+   * Resolve a remote document to the path of its cached file, downloading it
+   * if it is not cached or has expired.
+   */
+  download(source: RemoteSource, options?: DownloadOptions): Promise<string>;
+
+  /**
+   * List all cached files.
+   */
+  list(): Promise<PdfCacheEntry[]>;
+
+  /**
+   * Delete cached files by age and total size. Resolves with the number of
+   * deleted files.
+   */
+  prune(options: PruneOptions): Promise<number>;
+
+  /**
+   * Delete the cached file of a key (`cacheKey` or `uri` of the source).
+   * Resolves with whether a file existed.
+   */
+  remove(key: string): Promise<boolean>;
+
+  /**
+   * Delete all cached files.
+   */
+  clear(): Promise<void>;
+};
+
+type PdfCacheNativeType = {
+  getCached(cacheKey: string): Promise<PdfCacheEntry | null>;
+  download(
+    uri: string,
+    headers: Record<string, string>,
+    cacheKey: string,
+    requestId: number
+  ): Promise<PdfCacheEntry>;
+  cancelDownload(requestId: number): void;
+  list(): Promise<PdfCacheEntry[]>;
+  remove(cacheKey: string): Promise<boolean>;
+  clear(): Promise<void>;
+  writeBase64(base64: string): Promise<PdfCacheEntry>;
+  copyContentUri(uri: string): Promise<PdfCacheEntry>;
+  copyRawResource(name: string): Promise<PdfCacheEntry>;
+};
+
+type NativeProgressEvent = PdfLoadProgressEvent & { requestId: number };
+
+const PdfCacheNative: PdfCacheNativeType = NativeModules.RNPdfCache;
+
+let nextRequestId = 1;
+let progressEmitter: NativeEventEmitter | undefined;
+
+function isFresh(entry: PdfCacheEntry, expiration?: number) {
+  return expiration == null || Date.now() - entry.modified < expiration;
+}
+
+/**
+ * Whether a uri must be downloaded before native views can open it.
+ */
+export function isRemoteUri(uri: string) {
+  return /^https?:\/\//i.test(uri);
+}
+
+/**
+ * Path of a source that native code can open directly, or undefined if it
+ * must be resolved with `resolveSourcePath()` first.
+ */
+export function localSourcePath(source: PdfSource): string | undefined {
+  const uri =
+    typeof source === 'string'
+      ? source
+      : 'uri' in source
+      ? source.uri
+      : undefined;
+  if (
+    uri == null ||
+    isRemoteUri(uri) ||
+    uri.startsWith('data:') ||
+    uri.startsWith('content://')
+  ) {
+    return undefined;
+  }
+  return asPath(uri);
+}
+
+/**
+ * Resolve a source to the path of a local file, writing inline and bundled
+ * documents to the cache and downloading remote ones.
+ */
+export async function resolveSourcePath(
+  source: PdfSource,
+  options: DownloadOptions = {}
+): Promise<string> {
+  const path = localSourcePath(source);
+  if (path != null) {
+    return path;
+  }
+
+  if (typeof source === 'string') {
+    return resolveUri(source, options);
+  }
+  if ('base64' in source) {
+    return writeBase64(source.base64);
+  }
+  if ('asset' in source) {
+    return resolveAsset(source.asset, options);
+  }
+  if (isRemoteUri(source.uri)) {
+    return PdfCache.download(source, options);
+  }
+  return resolveUri(source.uri, options);
+}
+
+async function resolveUri(uri: string, options: DownloadOptions) {
+  if (uri.startsWith('data:')) {
+    return writeBase64(uri);
+  }
+  if (uri.startsWith('content://')) {
+    if (Platform.OS !== 'android') {
+      throw createPdfError(
+        'NOT_SUPPORTED',
+        'content:// uris are only supported on Android.'
+      );
+    }
+    return (await PdfCacheNative.copyContentUri(uri)).path;
+  }
+  if (isRemoteUri(uri)) {
+    return PdfCache.download({ uri }, options);
+  }
+  return asPath(uri);
+}
+
+async function writeBase64(base64: string) {
+  // Strip the `data:application/pdf;base64,` prefix of data uris.
+  const data = base64.startsWith('data:')
+    ? base64.substring(base64.indexOf(',') + 1)
+    : base64;
+  return (await PdfCacheNative.writeBase64(data)).path;
+}
+
+async function resolveAsset(asset: number, options: DownloadOptions) {
+  const resolved = Image.resolveAssetSource(asset);
+  if (resolved == null) {
+    throw createPdfError('FILE_NOT_FOUND', `Asset ${asset} not found.`);
+  }
+
+  const { uri } = resolved;
+  if (isRemoteUri(uri)) {
+    // Served by the development server; always fetch the current version.
+    return PdfCache.download({ uri, expiration: 0 }, options);
+  }
+  if (uri.startsWith('file://') || uri.startsWith('/')) {
+    return asPath(uri);
+  }
+  if (Platform.OS === 'android') {
+    // Release builds bundle assets as raw resources, identified by name.
+    return (await PdfCacheNative.copyRawResource(uri)).path;
+  }
+  throw createPdfError('INVALID_ARGUMENT', `Unsupported asset uri ${uri}.`);
+}
+
+/**
+ * Manage documents downloaded from remote sources.
+ *
+ * Promises reject with an Error whose `code` is a `PdfErrorCode`.
+ */
+export const PdfCache: PdfCacheType = {
+  async download(source: RemoteSource, options: DownloadOptions = {}) {
+    const { uri, headers = {}, cacheKey = uri, expiration } = source;
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      throw createPdfError('CANCELLED', 'Download was cancelled.');
+    }
+
+    const cached = await PdfCacheNative.getCached(cacheKey);
+    if (cached != null && isFresh(cached, expiration)) {
+      return cached.path;
+    }
+    if (signal?.aborted) {
+      throw createPdfError('CANCELLED', 'Download was cancelled.');
+    }
+
+    const requestId = nextRequestId++;
+    const onAbort = () => PdfCacheNative.cancelDownload(requestId);
+    signal?.addEventListener('abort', onAbort);
+    if (!progressEmitter) {
+      progressEmitter = new NativeEventEmitter(NativeModules.RNPdfCache);
+    }
+    const subscription = onProgress
+      ? progressEmitter.addListener(
+          'PdfDownloadProgress',
+          ({
+            requestId: id,
+            bytesWritten,
+            totalBytes,
+          }: NativeProgressEvent) => {
+            if (id === requestId) {
+              onProgress({ bytesWritten, totalBytes });
+            }
+          }
+        )
+      : undefined;
+
+    try {
+      const entry = await PdfCacheNative.download(
+        uri,
+        headers,
+        cacheKey,
+        requestId
+      );
+      return entry.path;
+    } catch (e) {
+      // Prefer an expired copy over failing, e.g. while offline.
+      if (cached != null && !signal?.aborted) {
+        return cached.path;
+      }
+      throw e;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      subscription?.remove();
+    }
+  },
+  list() {
+    return PdfCacheNative.list();
+  },
+  async prune(options: PruneOptions) {
+    const { maxAge, maxSize } = options;
+    const entries = await PdfCacheNative.list();
+    // Newest first; files past the size budget are the oldest.
+    entries.sort((a, b) => b.modified - a.modified);
+
+    let totalSize = 0;
+    let removed = 0;
+    for (const entry of entries) {
+      totalSize += entry.size;
+      const expired = maxAge != null && Date.now() - entry.modified > maxAge;
+      const overBudget = maxSize != null && totalSize > maxSize;
+      if (expired || overBudget) {
+        totalSize -= entry.size;
+        if (await PdfCacheNative.remove(entry.key)) {
+          removed++;
+        }
+      }
+    }
+    return removed;
+  },
+  remove(key: string) {
+    return PdfCacheNative.remove(key);
+  },
+  clear() {
+    return PdfCacheNative.clear();
+  },
+};
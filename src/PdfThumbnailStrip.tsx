@@ -0,0 +1,365 @@
+import React, {
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  FlatList,
+  Image,
+  PixelRatio,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  ViewStyle,
+} from 'react-native';
+import type { PdfErrorEvent } from './errors';
+import { PdfUtil, type PageDim } from './PdfUtil';
+import type { PdfViewerRef } from './viewer';
+import { useSourcePath, type DocumentProps } from './source';
+
+// --- Props ---
+
+export type PdfThumbnailStripProps = DocumentProps & {
+  /**
+   * Password to open an encrypted PDF document.
+   */
+  password?: string;
+
+  /**
+   * Current page (0-indexed), e.g. from the viewer's `onPageChange`. The
+   * matching thumbnail is highlighted and kept in view.
+   */
+  page?: number;
+
+  /**
+   * Viewer to navigate when a thumbnail is tapped, via `goToPage()`.
+   */
+  viewerRef?: React.RefObject<PdfViewerRef | null>;
+
+  /**
+   * Callback when a thumbnail is tapped.
+   */
+  onPagePress?: (page: number) => void;
+
+  /**
+   * Callback when the document cannot be read.
+   */
+  onError?: (event: PdfErrorEvent) => void;
+
+  /**
+   * Lay out thumbnails in a row (true) or a column (false). Default: true.
+   */
+  horizontal?: boolean;
+
+  /**
+   * Width of a thumbnail in points. Height follows the page aspect ratio.
+   * Default: 60.
+   */
+  thumbnailWidth?: number;
+
+  /**
+   * Show the page number below each thumbnail. Default: true.
+   */
+  showPageNumbers?: boolean;
+
+  /**
+   * Border color of the current page thumbnail. Default: '#007aff'.
+   */
+  activeColor?: string;
+
+  style?: ViewStyle;
+};
+
+// --- Layout ---
+
+const SPACING = 8;
+const BORDER_WIDTH = 2;
+const LABEL_HEIGHT = 16;
+
+type ThumbnailLayout = {
+  width: number;
+  height: number;
+  /**
+   * Offset of the item along the scroll axis.
+   */
+  offset: number;
+  /**
+   * Size of the item along the scroll axis, including spacing.
+   */
+  length: number;
+};
+
+function computeLayouts(
+  pageSizes: PageDim[],
+  thumbnailWidth: number,
+  horizontal: boolean,
+  showPageNumbers: boolean
+): ThumbnailLayout[] {
+  const labelHeight = showPageNumbers ? LABEL_HEIGHT : 0;
+  // Start after the content container padding.
+  let offset = SPACING / 2;
+  return pageSizes.map((dim) => {
+    const height =
+      dim.width > 0 ? (thumbnailWidth * dim.height) / dim.width : 0;
+    const length = horizontal
+      ? thumbnailWidth + 2 * BORDER_WIDTH + SPACING
+      : height + 2 * BORDER_WIDTH + labelHeight + SPACING;
+    const layout = { width: thumbnailWidth, height, offset, length };
+    offset += length;
+    return layout;
+  });
+}
+
+// --- Thumbnail ---
+
+type ThumbnailProps = {
+  source: string;
+  password?: string;
+  page: number;
+  layout: ThumbnailLayout;
+  active: boolean;
+  activeColor: string;
+  showPageNumber: boolean;
+  onPress: (page: number) => void;
+};
+
+const Thumbnail = memo(function Thumbnail({
+  source,
+  password,
+  page,
+  layout,
+  active,
+  activeColor,
+  showPageNumber,
+  onPress,
+}: ThumbnailProps) {
+  const [uri, setUri] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    PdfUtil.renderPage(source, page, {
+      width: layout.width,
+      scale: PixelRatio.get(),
+      format: 'jpeg',
+      password,
+    }).then(
+      ({ path }) => {
+        if (!cancelled) {
+          setUri(`file://${path}`);
+        }
+      },
+      () => {
+        // Leave the placeholder; load errors are reported by the strip.
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [source, password, page, layout.width]);
+
+  const handlePress = useCallback(() => onPress(page), [onPress, page]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      accessibilityRole="button"
+      accessibilityLabel={`Page ${page + 1}`}
+      accessibilityState={{ selected: active }}
+      style={styles.item}
+    >
+      <View
+        style={[
+          styles.frame,
+          active && { borderColor: activeColor },
+          { width: layout.width + 2 * BORDER_WIDTH },
+        ]}
+      >
+        {uri ? (
+          <Image
+            source={{ uri }}
+            style={{ width: layout.width, height: layout.height }}
+          />
+        ) : (
+          <View
+            style={[
+              styles.placeholder,
+              { width: layout.width, height: layout.height },
+            ]}
+          />
+        )}
+      </View>
+      {showPageNumber && (
+        <Text style={[styles.label, active && { color: activeColor }]}>
+          {page + 1}
+        </Text>
+      )}
+    </Pressable>
+  );
+});
+
+// --- Component ---
+
+/**
+ * Virtualized list of page thumbnails for navigating a document.
+ *
+ * Pass the viewer's current page as `page` and its ref as `viewerRef` to keep
+ * strip and viewer in sync:
+ *
+ * ```tsx
+ * <PdfViewer ref={viewerRef} onPageChange={setPage} ... />
+ * <PdfThumbnailStrip source={source} page={page} viewerRef={viewerRef} />
+ * ```
+ */
+export function PdfThumbnailStrip(props: PdfThumbnailStripProps) {
+  const {
+    password,
+    page = 0,
+    viewerRef,
+    onPagePress,
+    onError,
+    horizontal = true,
+    thumbnailWidth = 60,
+    showPageNumbers = true,
+    activeColor = '#007aff',
+    style,
+  } = props;
+
+  const [pageSizes, setPageSizes] = useState<PageDim[]>([]);
+  const listRef = useRef<FlatList<number>>(null);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const sourcePath = useSourcePath(props, {
+    onError: (event) => onErrorRef.current?.(event),
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    setPageSizes([]);
+    if (!sourcePath) {
+      return;
+    }
+    PdfUtil.getPageSizes(sourcePath, { password }).then(
+      (sizes) => {
+        if (!cancelled) {
+          setPageSizes(sizes);
+        }
+      },
+      (e: { code?: PdfErrorEvent['code']; message?: string }) => {
+        if (!cancelled) {
+          onErrorRef.current?.({
+            code: e.code ?? 'UNKNOWN',
+            message: e.message ?? String(e),
+          });
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [sourcePath, password]);
+
+  const layouts = useMemo(
+    () =>
+      computeLayouts(pageSizes, thumbnailWidth, horizontal, showPageNumbers),
+    [pageSizes, thumbnailWidth, horizontal, showPageNumbers]
+  );
+  const pages = useMemo(() => layouts.map((_, i) => i), [layouts]);
+
+  // Keep the current page in view.
+  useEffect(() => {
+    if (page >= 0 && page < layouts.length) {
+      listRef.current?.scrollToIndex({
+        index: page,
+        viewPosition: 0.5,
+        animated: true,
+      });
+    }
+  }, [page, layouts]);
+
+  const handlePress = useCallback(
+    (pressed: number) => {
+      viewerRef?.current?.goToPage(pressed);
+      onPagePress?.(pressed);
+    },
+    [viewerRef, onPagePress]
+  );
+
+  const getItemLayout = useCallback(
+    (_: ArrayLike<number> | null | undefined, index: number) => ({
+      index,
+      offset: layouts[index]?.offset ?? 0,
+      length: layouts[index]?.length ?? 0,
+    }),
+    [layouts]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: number }) => (
+      <Thumbnail
+        source={sourcePath}
+        password={password}
+        page={item}
+        layout={layouts[item]!}
+        active={item === page}
+        activeColor={activeColor}
+        showPageNumber={showPageNumbers}
+        onPress={handlePress}
+      />
+    ),
+    [
+      sourcePath,
+      password,
+      layouts,
+      page,
+      activeColor,
+      showPageNumbers,
+      handlePress,
+    ]
+  );
+
+  return (
+    <FlatList
+      ref={listRef}
+      data={pages}
+      extraData={page}
+      horizontal={horizontal}
+      keyExtractor={String}
+      renderItem={renderItem}
+      getItemLayout={getItemLayout}
+      initialNumToRender={10}
+      windowSize={5}
+      showsHorizontalScrollIndicator={false}
+      showsVerticalScrollIndicator={false}
+      contentContainerStyle={styles.content}
+      style={style}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: SPACING / 2,
+  },
+  item: {
+    alignItems: 'center',
+    margin: SPACING / 2,
+  },
+  frame: {
+    borderWidth: BORDER_WIDTH,
+    borderColor: 'transparent',
+    borderRadius: 2,
+  },
+  placeholder: {
+    backgroundColor: '#e0e0e0',
+  },
+  label: {
+    height: LABEL_HEIGHT,
+    fontSize: 11,
+    lineHeight: LABEL_HEIGHT,
+    color: '#8e8e93',
+  },
+});
@@ -1,30 +1,592 @@
-import { NativeModules } from 'react-native';
-import { asPath } from './Util';
+import { NativeModules, processColor } from 'react-native';
+import { createPdfError } from './errors';
+import { resolveSourcePath, type PdfSource } from './PdfCache';
 
 export type PageDim = { height: number; width: number };
 
+/**
+ * Rectangle on a pdf page.
+ * Coordinates are normalized to 0-1 range relative to page dimensions,
+ * with the origin at the top left corner of the page.
+ */
+export type NormalizedRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Options for reading a document.
+ *
+ * Methods reject with code `PASSWORD_REQUIRED` or `PASSWORD_INCORRECT` if an
+ * encrypted document cannot be opened.
+ */
+export type OpenOptions = {
+  /**
+   * Password to open an encrypted document.
+   */
+  password?: string;
+};
+
+export type SearchOptions = OpenOptions & {
+  /**
+   * Match letter case exactly. Default: false.
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * Only match the query as a whole word. Default: false.
+   */
+  wholeWord?: boolean;
+
+  /**
+   * Maximum number of matches to return. Default: unlimited.
+   */
+  limit?: number;
+
+  /**
+   * Abort the search. The promise rejects with code `CANCELLED`.
+   */
+  signal?: AbortSignal;
+};
+
+export type SearchMatch = {
+  /**
+   * Page (0-indexed) containing the match.
+   */
+  page: number;
+
+  /**
+   * Bounds of the matched text, one rectangle per line.
+   */
+  rects: NormalizedRect[];
+
+  /**
+   * Text surrounding the match.
+   */
+  snippet: string;
+};
+
+export type TextWord = {
+  text: string;
+
+  /**
+   * Bounds of the word.
+   */
+  rect: NormalizedRect;
+};
+
+export type PageText = {
+  /**
+   * Page (0-indexed) the text is from.
+   */
+  page: number;
+
+  /**
+   * Plain text content of the page.
+   */
+  text: string;
+
+  /**
+   * Words of the page, in reading order.
+   */
+  words: TextWord[];
+};
+
+export type OutlineItem = {
+  title: string;
+
+  /**
+   * Destination page (0-indexed), or null if the item does not point to a
+   * page of this document.
+   */
+  page: number | null;
+
+  /**
+   * Nested outline items.
+   */
+  children: OutlineItem[];
+};
+
+export type PdfLink = {
+  /**
+   * Hit area of the link on its page.
+   */
+  rect: NormalizedRect;
+
+  /**
+   * `'uri'` links point outside the document, e.g. to a web page. `'goto'`
+   * links point to a page of the document.
+   */
+  type: 'uri' | 'goto';
+
+  /**
+   * Target of a `'uri'` link.
+   */
+  uri?: string;
+
+  /**
+   * Target page (0-indexed) of a `'goto'` link.
+   */
+  page?: number;
+};
+
+export type PdfMetadata = {
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  keywords: string | null;
+  creator: string | null;
+  producer: string | null;
+
+  /**
+   * ISO 8601 date string.
+   */
+  creationDate: string | null;
+
+  /**
+   * ISO 8601 date string.
+   */
+  modificationDate: string | null;
+
+  /**
+   * PDF specification version of the document, e.g. `'1.7'`.
+   */
+  pdfVersion: string | null;
+
+  encrypted: boolean;
+
+  /**
+   * Hash of the document contents. Unlike the file path, it stays the same
+   * when the same document is downloaded again.
+   */
+  fingerprint: string;
+};
+
+export type RenderPageOptions = OpenOptions & {
+  /**
+   * Width to fit the page into. Default: page width in pdf points.
+   */
+  width?: number;
+
+  /**
+   * Height to fit the page into. Default: page height in pdf points.
+   *
+   * If both `width` and `height` are set, the page is scaled to fit within
+   * both, keeping its aspect ratio.
+   */
+  height?: number;
+
+  /**
+   * Pixels per unit of `width` / `height`, e.g. `PixelRatio.get()`.
+   * Default: 1.
+   */
+  scale?: number;
+
+  /**
+   * Image file format. Default: 'png'.
+   */
+  format?: 'png' | 'jpeg';
+
+  /**
+   * Compression quality (0-1) of jpeg images. Default: 0.9.
+   */
+  quality?: number;
+
+  /**
+   * Fill behind the page content. Default: white.
+   */
+  backgroundColor?: string;
+};
+
+export type RenderedPage = {
+  /**
+   * Absolute path of the image file.
+   */
+  path: string;
+
+  /**
+   * Image width in pixels.
+   */
+  width: number;
+
+  /**
+   * Image height in pixels.
+   */
+  height: number;
+};
+
+/**
+ * Document kept open natively by `PdfUtil.open()`, so repeated reads skip
+ * parsing the file. Pass it to a viewer as `document` to display it without
+ * opening it again.
+ *
+ * Methods reject with code `INVALID_ARGUMENT` after `close()`.
+ */
+export type PdfDocument = {
+  /**
+   * Identifies the open document to native code.
+   */
+  readonly handle: string;
+
+  readonly pageCount: number;
+
+  /**
+   * Whether `close()` was called.
+   */
+  readonly closed: boolean;
+
+  /**
+   * Get the dimensions of every page.
+   */
+  pageSizes(): Promise<PageDim[]>;
+
+  /**
+   * Get the document information and fingerprint.
+   */
+  metadata(): Promise<PdfMetadata>;
+
+  /**
+   * Extract the text of a page (0-indexed), with per-word bounds.
+   */
+  getPageText(page: number): Promise<PageText>;
+
+  /**
+   * Get the links of a page (0-indexed).
+   */
+  getLinks(page: number): Promise<PdfLink[]>;
+
+  /**
+   * Render a page (0-indexed) to an image file.
+   */
+  renderPage(
+    page: number,
+    options?: Omit<RenderPageOptions, 'password'>
+  ): Promise<RenderedPage>;
+
+  /**
+   * Release the native document. Viewers still displaying it keep it open
+   * until they unmount or change document.
+   */
+  close(): void;
+};
+
 type PdfUtilType = {
+  /**
+   * Open a pdf and keep it open until `close()` is called on the result.
+   */
+  open(source: PdfSource, options?: OpenOptions): Promise<PdfDocument>;
+
   /**
    * Get the number of pages of a pdf.
    */
-  getPageCount(source: string): Promise<number>;
+  getPageCount(source: PdfSource, options?: OpenOptions): Promise<number>;
 
   /**
    * Get the dimensions of every page.
    */
-  getPageSizes(source: string): Promise<PageDim[]>;
+  getPageSizes(source: PdfSource, options?: OpenOptions): Promise<PageDim[]>;
+
+  /**
+   * Find all occurrences of `query` in the text of a pdf.
+   */
+  search(
+    source: PdfSource,
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchMatch[]>;
+
+  /**
+   * Extract the text of a page (0-indexed), with per-word bounds.
+   *
+   * Rejects with code `NO_TEXT_LAYER` if the page has no text layer (e.g. a scanned
+   * page).
+   */
+  getPageText(
+    source: PdfSource,
+    page: number,
+    options?: OpenOptions
+  ): Promise<PageText>;
+
+  /**
+   * Extract the text of every page, with per-word bounds.
+   *
+   * Pages without a text layer resolve with empty `text` and `words`. Rejects
+   * with code `NO_TEXT_LAYER` if no page of the document has a text layer.
+   */
+  getDocumentText(
+    source: PdfSource,
+    options?: OpenOptions
+  ): Promise<PageText[]>;
+
+  /**
+   * Get the outline (table of contents) of a pdf. Resolves with an empty array
+   * if the document has no outline.
+   *
+   * Rejects with code `NOT_SUPPORTED` for encrypted documents on Android.
+   */
+  getOutline(source: PdfSource, options?: OpenOptions): Promise<OutlineItem[]>;
+
+  /**
+   * Get the link annotations of a page (0-indexed). Links to other documents
+   * are skipped.
+   *
+   * Rejects with code `NOT_SUPPORTED` before Android 15 (API 35).
+   */
+  getLinks(
+    source: PdfSource,
+    page: number,
+    options?: OpenOptions
+  ): Promise<PdfLink[]>;
+
+  /**
+   * Get the document information and fingerprint of a pdf.
+   *
+   * Does not require the password of an encrypted document, but rejects if an
+   * incorrect one is given.
+   */
+  getMetadata(source: PdfSource, options?: OpenOptions): Promise<PdfMetadata>;
+
+  /**
+   * Render a page (0-indexed) to an image file.
+   *
+   * Images are cached on disk by document fingerprint and render options, so
+   * repeated calls return the existing file.
+   */
+  renderPage(
+    source: PdfSource,
+    page: number,
+    options?: RenderPageOptions
+  ): Promise<RenderedPage>;
+
+  /**
+   * Delete all images created by `renderPage()`.
+   */
+  clearThumbnailCache(): Promise<void>;
+};
+
+type PdfUtilNativeType = {
+  openDocument(
+    source: string,
+    password: string
+  ): Promise<{ handle: string; pageCount: number }>;
+  closeDocument(handle: string): void;
+  getPageCount(source: string, password: string): Promise<number>;
+  getPageSizes(source: string, password: string): Promise<PageDim[]>;
+  search(
+    source: string,
+    query: string,
+    options: {
+      caseSensitive: boolean;
+      wholeWord: boolean;
+      limit: number;
+      password: string;
+    },
+    requestId: number
+  ): Promise<SearchMatch[]>;
+  cancelSearch(requestId: number): void;
+  getPageText(
+    source: string,
+    page: number,
+    password: string
+  ): Promise<PageText>;
+  getDocumentText(source: string, password: string): Promise<PageText[]>;
+  getOutline(source: string, password: string): Promise<OutlineItem[]>;
+  getLinks(source: string, page: number, password: string): Promise<PdfLink[]>;
+  getMetadata(source: string, password: string): Promise<PdfMetadata>;
+  renderPage(
+    source: string,
+    page: number,
+    options: {
+      width: number;
+      height: number;
+      scale: number;
+      format: 'png' | 'jpeg';
+      quality: number;
+      backgroundColor?: ReturnType<typeof processColor>;
+      password: string;
+    }
+  ): Promise<RenderedPage>;
+  clearThumbnailCache(): Promise<void>;
 };
 
-const PdfUtilNative: PdfUtilType = NativeModules.RNPdfUtil;
+const PdfUtilNative: PdfUtilNativeType = NativeModules.RNPdfUtil;
+
+let nextRequestId = 1;
+
+function renderOptions(options: RenderPageOptions) {
+  const {
+    width = 0,
+    height = 0,
+    scale = 1,
+    format = 'png',
+    quality = 0.9,
+    backgroundColor,
+    password = '',
+  } = options;
+  return {
+    width: Math.max(0, width),
+    height: Math.max(0, height),
+    scale: scale > 0 ? scale : 1,
+    format,
+    quality: Math.max(0, Math.min(1, quality)),
+    backgroundColor: backgroundColor
+      ? processColor(backgroundColor)
+      : undefined,
+    password,
+  };
+}
+
+function createPdfDocument(handle: string, pageCount: number): PdfDocument {
+  let closed = false;
+  let pageSizes: Promise<PageDim[]> | undefined;
+
+  const checkOpen = () => {
+    if (closed) {
+      throw createPdfError('INVALID_ARGUMENT', 'Document is closed.');
+    }
+  };
+
+  // The native document is already unlocked, so no password is passed.
+  return {
+    handle,
+    pageCount,
+    get closed() {
+      return closed;
+    },
+    async pageSizes() {
+      checkOpen();
+      if (!pageSizes) {
+        pageSizes = PdfUtilNative.getPageSizes(handle, '');
+        // Allow retrying after a failure.
+        pageSizes.catch(() => {
+          pageSizes = undefined;
+        });
+      }
+      return pageSizes;
+    },
+    async metadata() {
+      checkOpen();
+      return PdfUtilNative.getMetadata(handle, '');
+    },
+    async getPageText(page: number) {
+      checkOpen();
+      return PdfUtilNative.getPageText(handle, page, '');
+    },
+    async getLinks(page: number) {
+      checkOpen();
+      return PdfUtilNative.getLinks(handle, page, '');
+    },
+    async renderPage(
+      page: number,
+      options: Omit<RenderPageOptions, 'password'> = {}
+    ) {
+      checkOpen();
+      return PdfUtilNative.renderPage(handle, page, renderOptions(options));
+    },
+    close() {
+      if (!closed) {
+        closed = true;
+        PdfUtilNative.closeDocument(handle);
+      }
+    },
+  };
+}
 
 /**
  * Utility pdf actions.
+ *
+ * Sources that are not local files are resolved like the `source` of the
+ * viewers, so remote documents are downloaded first.
+ *
+ * Promises reject with an Error whose `code` is a `PdfErrorCode`.
  */
 export const PdfUtil: PdfUtilType = {
-  getPageCount(source: string) {
-    return PdfUtilNative.getPageCount(asPath(source));
+  async open(source: PdfSource, options: OpenOptions = {}) {
+    const path = await resolveSourcePath(source);
+    const { handle, pageCount } = await PdfUtilNative.openDocument(
+      path,
+      options.password ?? ''
+    );
+    return createPdfDocument(handle, pageCount);
+  },
+  async getPageCount(source: PdfSource, options: OpenOptions = {}) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.getPageCount(path, options.password ?? '');
+  },
+  async getPageSizes(source: PdfSource, options: OpenOptions = {}) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.getPageSizes(path, options.password ?? '');
+  },
+  async search(source: PdfSource, query: string, options: SearchOptions = {}) {
+    const {
+      caseSensitive = false,
+      wholeWord = false,
+      limit,
+      signal,
+      password = '',
+    } = options;
+    if (signal?.aborted) {
+      throw createPdfError('CANCELLED', 'Search was cancelled.');
+    }
+    if (query.length === 0) {
+      return [];
+    }
+
+    const path = await resolveSourcePath(source, { signal });
+    if (signal?.aborted) {
+      throw createPdfError('CANCELLED', 'Search was cancelled.');
+    }
+
+    const requestId = nextRequestId++;
+    const onAbort = () => PdfUtilNative.cancelSearch(requestId);
+    signal?.addEventListener('abort', onAbort);
+    return PdfUtilNative.search(
+      path,
+      query,
+      {
+        caseSensitive,
+        wholeWord,
+        limit: limit != null ? Math.max(0, limit) : -1,
+        password,
+      },
+      requestId
+    ).finally(() => signal?.removeEventListener('abort', onAbort));
+  },
+  async getPageText(
+    source: PdfSource,
+    page: number,
+    options: OpenOptions = {}
+  ) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.getPageText(path, page, options.password ?? '');
+  },
+  async getDocumentText(source: PdfSource, options: OpenOptions = {}) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.getDocumentText(path, options.password ?? '');
+  },
+  async getOutline(source: PdfSource, options: OpenOptions = {}) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.getOutline(path, options.password ?? '');
+  },
+  async getLinks(source: PdfSource, page: number, options: OpenOptions = {}) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.getLinks(path, page, options.password ?? '');
+  },
+  async getMetadata(source: PdfSource, options: OpenOptions = {}) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.getMetadata(path, options.password ?? '');
+  },
+  async renderPage(
+    source: PdfSource,
+    page: number,
+    options: RenderPageOptions = {}
+  ) {
+    const path = await resolveSourcePath(source);
+    return PdfUtilNative.renderPage(path, page, renderOptions(options));
   },
-  getPageSizes(source: string) {
-    return PdfUtilNative.getPageSizes(asPath(source));
+  clearThumbnailCache() {
+    return PdfUtilNative.clearThumbnailCache();
   },
 };
@@ -1,28 +1,67 @@
-import React, { forwardRef } from 'react';
+import React, {
+  forwardRef,
+  useCallback,
+  useContext,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  type ReactElement,
+  type Ref,
+  type RefAttributes,
+} from 'react';
 import type { LayoutChangeEvent, ViewStyle } from 'react-native';
+import type { PdfErrorEvent } from './errors';
+import type { PdfAnnotations } from './annotations';
+import type {
+  DrawingMode,
+  DrawingStroke,
+  DrawingTool,
+  PageStrokes,
+} from './drawing/types';
+import type { PdfHighlight } from './highlights';
+import type { PdfLoadProgressEvent } from './PdfCache';
+import type { PdfLink } from './PdfUtil';
+import { PdfViewerConnectionContext } from './PdfViewerProvider';
+import { sourceKey, type DocumentProps } from './source';
+import {
+  NativeDrawablePdfView,
+  type NativeDrawablePdfViewProps_Public,
+  type NativeDrawablePdfViewRef,
+} from './NativeDrawablePdfView';
 import { NativePagingPdfView } from './NativePagingPdfView';
+import {
+  NativeSimplePdfView,
+  type NativeSimplePdfViewProps_Public,
+  type NativeSimplePdfViewRef,
+} from './NativeSimplePdfView';
 import {
   NativeZoomablePdfScrollView,
-  type NativeZoomablePdfScrollViewRef,
+  type PdfVisiblePage,
+  type ZoomablePdfScrollEvent,
 } from './NativeZoomablePdfScrollView';
+import { useLocationPersistence } from './location';
+import type { RenderPageOverlay } from './overlays';
+import type { PdfLocation, PdfPageTapEvent, PdfViewerRef } from './viewer';
 
 // --- Unified Event Types ---
 
-export type PdfErrorEvent = { message: string };
-
 export type PdfLoadCompleteEvent = {
   width: number;
   height: number;
   pageCount: number;
+  /**
+   * Document fingerprint, see `PdfUtil.getMetadata()`.
+   */
+  fingerprint: string;
 };
 
 // --- Common Props ---
 
-type PdfViewerCommonProps = {
+type PdfViewerCommonProps = DocumentProps & {
   /**
-   * Path to PDF document.
+   * Password to open an encrypted PDF document.
    */
-  source: string;
+  password?: string;
 
   /**
    * Minimum zoom level. Default: 1.
@@ -34,6 +73,39 @@ type PdfViewerCommonProps = {
    */
   maxZoom?: number;
 
+  /**
+   * Page (0-indexed) to open the document at. Default: 0.
+   */
+  initialPage?: number;
+
+  /**
+   * Current page (0-indexed). The document opens at this page, and the
+   * viewer navigates when it changes. Update it from `onPageChange` to keep
+   * it in sync with user scrolling. Takes precedence over `initialPage`.
+   */
+  page?: number;
+
+  /**
+   * Zoom level to open the document at, within `minZoom` / `maxZoom`.
+   * Default: 1.
+   */
+  initialZoom?: number;
+
+  /**
+   * Location from `getLocation()` to show once the document loads. Ignored
+   * if it belongs to another document.
+   */
+  restoreLocation?: PdfLocation;
+
+  /**
+   * Save the reading position under this key, and restore it when the same
+   * document is opened with the same key. Positions are stored per document
+   * fingerprint, see `setPdfLocationStorage()`. `restoreLocation` takes
+   * precedence over a saved position. The position is saved once scrolling
+   * or zooming stops, when the app leaves the foreground, and on unmount.
+   */
+  persistenceKey?: string;
+
   /**
    * Edge tap zone size as percentage (0-50). Default: 15.
    */
@@ -45,11 +117,65 @@ type PdfViewerCommonProps = {
    */
   backgroundColor?: string;
 
+  /**
+   * Annotations to draw over pages (PAS v1 format), keyed by page. Drawn as
+   * vectors, so they stay sharp at every zoom level.
+   */
+  annotations?: PdfAnnotations;
+
+  /**
+   * Regions to highlight, e.g. matches from `PdfUtil.search()`.
+   * Navigate between them with `findNext()` / `findPrevious()`.
+   */
+  highlights?: PdfHighlight[];
+
+  /**
+   * Fill color of highlights.
+   */
+  highlightColor?: string;
+
+  /**
+   * Fill color of the highlight selected by `findNext()` / `findPrevious()`.
+   */
+  activeHighlightColor?: string;
+
+  /**
+   * Scroll to the target page when user taps a link within the document.
+   * Default: true.
+   */
+  followInternalLinks?: boolean;
+
+  /**
+   * Outline the tap areas of links, for debugging. Default: false.
+   */
+  showLinkAreas?: boolean;
+
+  /**
+   * Drawing mode. While drawing, one finger draws and two fingers scroll and
+   * zoom; the paging viewer does not change pages on swipe. Default: 'view'.
+   */
+  drawingMode?: DrawingMode;
+
+  /**
+   * Drawing tool configuration. Default: `DEFAULT_DRAWING_TOOL`.
+   */
+  drawingTool?: DrawingTool;
+
+  /**
+   * Strokes to draw over pages, keyed by page.
+   */
+  strokes?: PageStrokes;
+
   /**
    * Callback when an error occurs.
    */
   onError?: (event: PdfErrorEvent) => void;
 
+  /**
+   * Callback while a remote source downloads.
+   */
+  onLoadProgress?: (event: PdfLoadProgressEvent) => void;
+
   /**
    * Callback for measuring the native view.
    */
@@ -80,6 +206,49 @@ type PdfViewerCommonProps = {
    */
   onMiddleClick?: () => void;
 
+  /**
+   * Callback when user taps a page, with the tapped point.
+   */
+  onPageTap?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user double taps a page, with the tapped point.
+   */
+  onPageDoubleTap?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user long presses a page, with the pressed point.
+   */
+  onPageLongPress?: (event: PdfPageTapEvent) => void;
+
+  /**
+   * Callback when user taps a link that the viewer does not follow: links
+   * out of the document, and internal links if `followInternalLinks` is
+   * false.
+   */
+  onLinkPress?: (link: PdfLink) => void;
+
+  /**
+   * Callback when a stroke is completed, with the page it was drawn on.
+   */
+  onStrokeEnd?: (stroke: DrawingStroke, page: number) => void;
+
+  /**
+   * Callback when a stroke is removed (erased), with its page.
+   */
+  onStrokeRemoved?: (strokeId: string, page: number) => void;
+
+  /**
+   * Callback for each page whose strokes `clearStrokes()` removed.
+   */
+  onStrokesCleared?: (page: number) => void;
+
+  /**
+   * Render React content over a page. Overlays are sized like the page at
+   * zoom level 1 and follow it as it scrolls and zooms.
+   */
+  renderPageOverlay?: RenderPageOverlay;
+
   style?: ViewStyle;
 };
 
@@ -97,24 +266,216 @@ type ZoomableViewerProps = PdfViewerCommonProps & {
    * Extra padding at the bottom of the scroll content in points. Default: 0.
    */
   pdfPaddingBottom?: number;
+
+  /**
+   * Callback when the viewport moves, by scrolling or zooming.
+   */
+  onScroll?: (event: ZoomablePdfScrollEvent) => void;
+
+  /**
+   * Callback when the pages inside the viewport, or how much of them is
+   * visible, change.
+   */
+  onVisiblePagesChange?: (pages: PdfVisiblePage[]) => void;
+
+  /**
+   * Minimum interval in milliseconds between `onScroll` (and
+   * `onVisiblePagesChange`) events. Default: 16.
+   */
+  scrollEventThrottle?: number;
 };
 
 type PagingViewerProps = PdfViewerCommonProps & {
   viewerType: 'paging';
 };
 
-export type PdfViewerProps = ZoomableViewerProps | PagingViewerProps;
+type MultiPageViewerProps = ZoomableViewerProps | PagingViewerProps;
+
+/**
+ * Single page of the document, chosen by the `page` prop.
+ */
+type SingleViewerProps = NativeSimplePdfViewProps_Public & {
+  viewerType: 'single';
+};
+
+/**
+ * Single page of the document with drawing. Strokes belong to the displayed
+ * page.
+ */
+type DrawableViewerProps = NativeDrawablePdfViewProps_Public & {
+  viewerType: 'drawable';
+};
+
+export type PdfViewerProps =
+  | ZoomableViewerProps
+  | PagingViewerProps
+  | SingleViewerProps
+  | DrawableViewerProps;
+
+export type SinglePdfViewerRef = NativeSimplePdfViewRef;
 
-export type PdfViewerRef = NativeZoomablePdfScrollViewRef;
+export type DrawablePdfViewerRef = NativeDrawablePdfViewRef;
 
-export const PdfViewer = forwardRef<PdfViewerRef, PdfViewerProps>(
+export type { PdfViewerRef };
+
+/**
+ * PdfViewer with the ref type matching its `viewerType`.
+ */
+type PdfViewerComponent = {
+  (props: MultiPageViewerProps & RefAttributes<PdfViewerRef>): ReactElement;
+  (props: SingleViewerProps & RefAttributes<SinglePdfViewerRef>): ReactElement;
+  (
+    props: DrawableViewerProps & RefAttributes<DrawablePdfViewerRef>
+  ): ReactElement;
+  displayName?: string;
+};
+
+const MultiPageViewer = forwardRef<PdfViewerRef, MultiPageViewerProps>(
   (props, ref) => {
-    const { viewerType, ...rest } = props;
+    const {
+      viewerType,
+      page,
+      initialPage = 0,
+      restoreLocation,
+      persistenceKey,
+      onLoadComplete,
+      onPageChange,
+      onZoomChange,
+      ...rest
+    } = props;
+
+    const viewerRef = useRef<PdfViewerRef>(null);
+    useImperativeHandle(ref, () => viewerRef.current!);
+
+    // Documents open at the controlled page, if any.
+    const openPage = page ?? initialPage;
+
+    // Report state to an enclosing PdfViewerProvider.
+    const connection = useContext(PdfViewerConnectionContext);
+    useEffect(() => {
+      if (!connection) {
+        return;
+      }
+      connection.attach(viewerRef);
+      return () => connection.detach(viewerRef);
+    }, [connection]);
+
+    const documentKey = props.document
+      ? props.document.handle
+      : sourceKey(props.source);
+    useEffect(() => {
+      connection?.reset();
+    }, [connection, documentKey, viewerType]);
+
+    // Last page reported by the native view. A controlled `page` differing
+    // from it was changed by the parent.
+    const reportedPage = useRef(openPage);
+    const openPageRef = useRef(openPage);
+    openPageRef.current = openPage;
+    useEffect(() => {
+      reportedPage.current = openPageRef.current;
+    }, [documentKey, viewerType]);
+
+    useEffect(() => {
+      if (page != null && page !== reportedPage.current) {
+        reportedPage.current = page;
+        viewerRef.current?.goToPage(page);
+      }
+    }, [page]);
+
+    const persistence = useLocationPersistence(
+      viewerRef,
+      `${viewerType}:${documentKey}`,
+      persistenceKey,
+      restoreLocation
+    );
+
+    const handleLoadComplete = useCallback(
+      (event: PdfLoadCompleteEvent) => {
+        connection?.update({ isLoaded: true, pageCount: event.pageCount });
+        persistence.onLoad(event.fingerprint);
+        onLoadComplete?.(event);
+      },
+      [connection, persistence, onLoadComplete]
+    );
+
+    const handlePageChange = useCallback(
+      (current: number) => {
+        reportedPage.current = current;
+        connection?.update({ currentPage: current });
+        persistence.onChange({ page: current });
+        onPageChange?.(current);
+      },
+      [connection, persistence, onPageChange]
+    );
+
+    const handleZoomChange = useCallback(
+      (scale: number) => {
+        connection?.update({ scale });
+        persistence.onChange({ scale });
+        onZoomChange?.(scale);
+      },
+      [connection, persistence, onZoomChange]
+    );
+
+    const onScroll =
+      props.viewerType === 'zoomable' ? props.onScroll : undefined;
+    const handleScroll = useCallback(
+      (event: ZoomablePdfScrollEvent) => {
+        persistence.onScroll();
+        onScroll?.(event);
+      },
+      [persistence, onScroll]
+    );
+
+    const viewerProps = {
+      ...rest,
+      initialPage: openPage,
+      onLoadComplete: handleLoadComplete,
+      onPageChange: handlePageChange,
+      onZoomChange: handleZoomChange,
+      ref: viewerRef,
+    };
 
     if (viewerType === 'zoomable') {
-      return <NativeZoomablePdfScrollView {...rest} ref={ref} />;
+      return (
+        <NativeZoomablePdfScrollView
+          {...viewerProps}
+          onScroll={
+            persistenceKey != null || onScroll ? handleScroll : undefined
+          }
+        />
+      );
     }
 
-    return <NativePagingPdfView {...rest} ref={ref} />;
+    return <NativePagingPdfView {...viewerProps} />;
   }
 );
+
+type AnyPdfViewerRef = PdfViewerRef | SinglePdfViewerRef | DrawablePdfViewerRef;
+
+export const PdfViewer = forwardRef<AnyPdfViewerRef, PdfViewerProps>(
+  (props, ref) => {
+    // The single page viewers have their own page and ref APIs; the others
+    // share the PdfViewerRef features (provider, persistence, controlled
+    // page).
+    switch (props.viewerType) {
+      case 'single':
+        return (
+          <NativeSimplePdfView
+            {...props}
+            ref={ref as Ref<SinglePdfViewerRef>}
+          />
+        );
+      case 'drawable':
+        return (
+          <NativeDrawablePdfView
+            {...props}
+            ref={ref as Ref<DrawablePdfViewerRef>}
+          />
+        );
+      default:
+        return <MultiPageViewer {...props} ref={ref as Ref<PdfViewerRef>} />;
+    }
+  }
+) as PdfViewerComponent;
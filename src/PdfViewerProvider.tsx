@@ -0,0 +1,175 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { GoToPageOptions, PdfViewerRef, SetZoomOptions } from './viewer';
+
+export type PdfViewerState = {
+  /**
+   * Page (0-indexed) currently shown.
+   */
+  currentPage: number;
+
+  /**
+   * Number of pages, or 0 until loaded.
+   */
+  pageCount: number;
+
+  /**
+   * Current zoom level.
+   */
+  scale: number;
+
+  /**
+   * Whether the current document finished loading.
+   */
+  isLoaded: boolean;
+};
+
+export type PdfViewerControls = {
+  /**
+   * Show a page (0-indexed). Out of range pages are ignored.
+   */
+  goToPage: (page: number, options?: GoToPageOptions) => void;
+
+  /**
+   * Show the next page, if any.
+   */
+  next: () => void;
+
+  /**
+   * Show the previous page, if any.
+   */
+  prev: () => void;
+
+  /**
+   * Zoom to a scale (clamped to `minZoom` / `maxZoom`).
+   */
+  setZoom: (scale: number, options?: SetZoomOptions) => void;
+
+  /**
+   * Reset zoom to default.
+   */
+  resetZoom: () => void;
+};
+
+/**
+ * Link between the provider and the viewer inside it.
+ */
+type PdfViewerConnection = {
+  attach: (viewer: React.RefObject<PdfViewerRef | null>) => void;
+  detach: (viewer: React.RefObject<PdfViewerRef | null>) => void;
+  update: (state: Partial<PdfViewerState>) => void;
+  reset: () => void;
+};
+
+const INITIAL_STATE: PdfViewerState = {
+  currentPage: 0,
+  pageCount: 0,
+  scale: 1,
+  isLoaded: false,
+};
+
+const StateContext = createContext<PdfViewerState | undefined>(undefined);
+const ControlsContext = createContext<PdfViewerControls | undefined>(undefined);
+export const PdfViewerConnectionContext = createContext<
+  PdfViewerConnection | undefined
+>(undefined);
+
+/**
+ * Share the state of the `PdfViewer` inside it with other components, such
+ * as toolbars and page indicators, via `usePdfViewerState()` and
+ * `usePdfViewerControls()`.
+ *
+ * ```tsx
+ * <PdfViewerProvider>
+ *   <PdfViewer viewerType="paging" source={source} />
+ *   <Toolbar />
+ * </PdfViewerProvider>
+ * ```
+ *
+ * Wrap exactly one viewer; if there are several, the last mounted one is
+ * controlled.
+ */
+export function PdfViewerProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState(INITIAL_STATE);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const viewerRef = useRef<React.RefObject<PdfViewerRef | null>>();
+
+  const connection = useMemo<PdfViewerConnection>(
+    () => ({
+      attach: (viewer) => {
+        viewerRef.current = viewer;
+      },
+      detach: (viewer) => {
+        if (viewerRef.current === viewer) {
+          viewerRef.current = undefined;
+          setState(INITIAL_STATE);
+        }
+      },
+      update: (partial) => setState((prev) => ({ ...prev, ...partial })),
+      reset: () => setState(INITIAL_STATE),
+    }),
+    []
+  );
+
+  const goToPage = useCallback((page: number, options?: GoToPageOptions) => {
+    const { pageCount } = stateRef.current;
+    if (page >= 0 && page < pageCount) {
+      viewerRef.current?.current?.goToPage(page, options);
+    }
+  }, []);
+
+  const controls = useMemo<PdfViewerControls>(
+    () => ({
+      goToPage,
+      next: () => goToPage(stateRef.current.currentPage + 1),
+      prev: () => goToPage(stateRef.current.currentPage - 1),
+      setZoom: (scale: number, options?: SetZoomOptions) =>
+        viewerRef.current?.current?.setZoom(scale, options),
+      resetZoom: () => viewerRef.current?.current?.resetZoom(),
+    }),
+    [goToPage]
+  );
+
+  return (
+    <PdfViewerConnectionContext.Provider value={connection}>
+      <ControlsContext.Provider value={controls}>
+        <StateContext.Provider value={state}>{children}</StateContext.Provider>
+      </ControlsContext.Provider>
+    </PdfViewerConnectionContext.Provider>
+  );
+}
+
+/**
+ * State of the viewer inside the nearest `PdfViewerProvider`.
+ */
+export function usePdfViewerState(): PdfViewerState {
+  const state = useContext(StateContext);
+  if (!state) {
+    throw new Error(
+      'usePdfViewerState() must be used within a PdfViewerProvider.'
+    );
+  }
+  return state;
+}
+
+/**
+ * Controls of the viewer inside the nearest `PdfViewerProvider`. The
+ * returned object is stable, so components using only the controls do not
+ * re-render on page or zoom changes.
+ */
+export function usePdfViewerControls(): PdfViewerControls {
+  const controls = useContext(ControlsContext);
+  if (!controls) {
+    throw new Error(
+      'usePdfViewerControls() must be used within a PdfViewerProvider.'
+    );
+  }
+  return controls;
+}
@@ -0,0 +1,269 @@
+import { DeviceEventEmitter, NativeModules } from 'react-native';
+import { createPdfError } from '../errors';
+import { PdfCache, type PdfCacheEntry } from '../PdfCache';
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.RNPdfCache = {
+    getCached: jest.fn(),
+    download: jest.fn(),
+    cancelDownload: jest.fn(),
+    list: jest.fn(),
+    remove: jest.fn(() => Promise.resolve(true)),
+    addListener: jest.fn(),
+    removeListeners: jest.fn(),
+  };
+  return ReactNative;
+});
+
+const native = NativeModules.RNPdfCache as {
+  getCached: jest.Mock<Promise<PdfCacheEntry | null>, [string]>;
+  download: jest.Mock<
+    Promise<PdfCacheEntry>,
+    [string, Record<string, string>, string, number]
+  >;
+  cancelDownload: jest.Mock<void, [number]>;
+  list: jest.Mock<Promise<PdfCacheEntry[]>, []>;
+  remove: jest.Mock<Promise<boolean>, [string]>;
+};
+
+const NOW = 1_000_000_000;
+const MINUTE = 60 * 1000;
+
+function entry(key: string, size: number, ageMinutes: number): PdfCacheEntry {
+  return {
+    key,
+    uri: `https://example.com/${key}.pdf`,
+    path: `/cache/${key}.pdf`,
+    size,
+    modified: NOW - ageMinutes * MINUTE,
+  };
+}
+
+function removedKeys() {
+  return native.remove.mock.calls.map(([key]) => key);
+}
+
+describe('PdfCache.prune', () => {
+  beforeEach(() => {
+    native.list.mockReset();
+    native.remove.mockClear();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('removes the oldest files past the size budget', async () => {
+    native.list.mockResolvedValue([
+      entry('old', 40, 30),
+      entry('newest', 40, 1),
+      entry('oldest', 40, 60),
+      entry('new', 40, 10),
+    ]);
+
+    await expect(PdfCache.prune({ maxSize: 100 })).resolves.toBe(2);
+    expect(removedKeys()).toEqual(['old', 'oldest']);
+  });
+
+  it('keeps older files that still fit after a larger one is removed', async () => {
+    native.list.mockResolvedValue([
+      entry('newest', 60, 1),
+      entry('large', 60, 5),
+      entry('small', 30, 10),
+    ]);
+
+    await expect(PdfCache.prune({ maxSize: 100 })).resolves.toBe(1);
+    expect(removedKeys()).toEqual(['large']);
+  });
+
+  it('removes files older than maxAge', async () => {
+    native.list.mockResolvedValue([
+      entry('fresh', 10, 5),
+      entry('stale', 10, 120),
+    ]);
+
+    await expect(PdfCache.prune({ maxAge: 60 * MINUTE })).resolves.toBe(1);
+    expect(removedKeys()).toEqual(['stale']);
+  });
+
+  it('applies maxAge and maxSize together', async () => {
+    native.list.mockResolvedValue([
+      entry('stale', 10, 120),
+      entry('newest', 80, 1),
+      entry('older', 50, 20),
+    ]);
+
+    await expect(
+      PdfCache.prune({ maxAge: 60 * MINUTE, maxSize: 100 })
+    ).resolves.toBe(2);
+    expect(removedKeys()).toEqual(['older', 'stale']);
+  });
+
+  it('counts only files that were removed', async () => {
+    native.list.mockResolvedValue([entry('a', 10, 120), entry('b', 10, 130)]);
+    native.remove.mockResolvedValueOnce(false);
+
+    await expect(PdfCache.prune({ maxAge: MINUTE })).resolves.toBe(1);
+  });
+});
+
+/**
+ * The parts of AbortController that downloads use; Jest's environment does
+ * not provide one.
+ */
+function createAbortController() {
+  const listeners = new Set<() => void>();
+  const signal = {
+    aborted: false,
+    addEventListener: (_type: 'abort', listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_type: 'abort', listener: () => void) =>
+      listeners.delete(listener),
+  };
+  return {
+    signal: signal as unknown as AbortSignal,
+    abort() {
+      signal.aborted = true;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+describe('PdfCache.download', () => {
+  const URI = 'https://example.com/doc.pdf';
+
+  function emitProgress(
+    requestId: number,
+    bytesWritten: number,
+    totalBytes: number
+  ) {
+    DeviceEventEmitter.emit('PdfDownloadProgress', {
+      requestId,
+      bytesWritten,
+      totalBytes,
+    });
+  }
+
+  beforeEach(() => {
+    native.getCached.mockReset();
+    native.getCached.mockResolvedValue(null);
+    native.download.mockReset();
+    native.cancelDownload.mockReset();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports the progress of its own download', async () => {
+    native.download.mockImplementation(async (_uri, _headers, _key, id) => {
+      emitProgress(id, 10, 40);
+      emitProgress(id + 1, 99, 100);
+      emitProgress(id, 40, 40);
+      return entry('doc', 40, 0);
+    });
+    const onProgress = jest.fn();
+
+    await expect(
+      PdfCache.download(
+        { uri: URI, headers: { Authorization: 'Bearer 1' } },
+        { onProgress }
+      )
+    ).resolves.toBe('/cache/doc.pdf');
+
+    expect(native.download).toHaveBeenCalledWith(
+      URI,
+      { Authorization: 'Bearer 1' },
+      URI,
+      expect.any(Number)
+    );
+    expect(onProgress.mock.calls).toEqual([
+      [{ bytesWritten: 10, totalBytes: 40 }],
+      [{ bytesWritten: 40, totalBytes: 40 }],
+    ]);
+
+    // Stops listening once done.
+    const id = native.download.mock.calls[0][3];
+    emitProgress(id, 40, 40);
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses a fresh cached file without downloading', async () => {
+    native.getCached.mockResolvedValue(entry('doc', 40, 30));
+
+    await expect(
+      PdfCache.download({ uri: URI, cacheKey: 'doc', expiration: 60 * MINUTE })
+    ).resolves.toBe('/cache/doc.pdf');
+    expect(native.getCached).toHaveBeenCalledWith('doc');
+    expect(native.download).not.toHaveBeenCalled();
+  });
+
+  it('cancels the native download when aborted', async () => {
+    native.download.mockImplementation(
+      (_uri, _headers, _key, id) =>
+        new Promise((_, reject) => {
+          native.cancelDownload.mockImplementation((cancelled) => {
+            if (cancelled === id) {
+              reject(createPdfError('CANCELLED', 'Download was cancelled.'));
+            }
+          });
+        })
+    );
+    const controller = createAbortController();
+
+    const download = PdfCache.download(
+      { uri: URI },
+      { signal: controller.signal }
+    );
+    while (native.download.mock.calls.length === 0) {
+      await Promise.resolve();
+    }
+    controller.abort();
+
+    await expect(download).rejects.toEqual(
+      expect.objectContaining({ code: 'CANCELLED' })
+    );
+    expect(native.cancelDownload).toHaveBeenCalledWith(
+      native.download.mock.calls[0][3]
+    );
+  });
+
+  it('rejects without downloading if already aborted', async () => {
+    const controller = createAbortController();
+    controller.abort();
+
+    await expect(
+      PdfCache.download({ uri: URI }, { signal: controller.signal })
+    ).rejects.toEqual(expect.objectContaining({ code: 'CANCELLED' }));
+    expect(native.getCached).not.toHaveBeenCalled();
+    expect(native.download).not.toHaveBeenCalled();
+  });
+
+  it('rejects with the code of failed requests', async () => {
+    native.download.mockRejectedValue(
+      createPdfError('DOWNLOAD_FAILED', 'Server responded with HTTP 404.')
+    );
+
+    await expect(PdfCache.download({ uri: URI })).rejects.toEqual(
+      expect.objectContaining({
+        code: 'DOWNLOAD_FAILED',
+        message: 'Server responded with HTTP 404.',
+      })
+    );
+  });
+
+  it('falls back to an expired cached file if the request fails', async () => {
+    native.getCached.mockResolvedValue(entry('doc', 40, 120));
+    native.download.mockRejectedValue(
+      createPdfError('DOWNLOAD_FAILED', 'Server responded with HTTP 503.')
+    );
+
+    await expect(
+      PdfCache.download({ uri: URI, expiration: 60 * MINUTE })
+    ).resolves.toBe('/cache/doc.pdf');
+    expect(native.download).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,285 @@
+import React from 'react';
+import { AppState } from 'react-native';
+import TestRenderer, { act } from 'react-test-renderer';
+import {
+  setPdfLocationStorage,
+  useLocationPersistence,
+  type PdfLocationStorage,
+} from '../location';
+import type { PdfLocation, PdfViewerRef } from '../viewer';
+
+type Persistence = ReturnType<typeof useLocationPersistence>;
+
+const KEY = 'reader';
+
+function location(fingerprint: string, page: number, y = 0.25): PdfLocation {
+  return { page, offset: { x: 0, y }, scale: 2, fingerprint };
+}
+
+function storageKey(fingerprint: string) {
+  return `react-native-pdf-light:location:${KEY}:${fingerprint}`;
+}
+
+function createStorage(items: Record<string, string> = {}) {
+  return {
+    getItem: jest.fn(
+      (key: string): Promise<string | null> | string | null =>
+        items[key] ?? null
+    ),
+    setItem: jest.fn((key: string, value: string) => {
+      items[key] = value;
+    }),
+  };
+}
+
+function createViewer(current: () => PdfLocation) {
+  return {
+    getLocation: jest.fn(() => Promise.resolve(current())),
+    restoreLocation: jest.fn(() => true),
+  } as unknown as PdfViewerRef;
+}
+
+async function flushPromises() {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+let persistence: Persistence;
+
+function Harness(props: {
+  viewerRef: React.RefObject<PdfViewerRef | null>;
+  documentKey: string;
+}) {
+  persistence = useLocationPersistence(
+    props.viewerRef,
+    props.documentKey,
+    KEY,
+    undefined
+  );
+  return null;
+}
+
+function render(
+  viewerRef: React.RefObject<PdfViewerRef | null>,
+  documentKey = 'a'
+) {
+  let renderer!: TestRenderer.ReactTestRenderer;
+  act(() => {
+    renderer = TestRenderer.create(
+      <Harness viewerRef={viewerRef} documentKey={documentKey} />
+    );
+  });
+  return renderer;
+}
+
+async function load(fingerprint: string) {
+  await act(async () => {
+    persistence.onLoad(fingerprint);
+    await flushPromises();
+  });
+}
+
+describe('useLocationPersistence', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    storage = createStorage();
+    setPdfLocationStorage(storage as PdfLocationStorage);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('restores the stored location once the document loads', async () => {
+    const stored = location('fp1', 4);
+    storage = createStorage({ [storageKey('fp1')]: JSON.stringify(stored) });
+    setPdfLocationStorage(storage as PdfLocationStorage);
+    const viewer = createViewer(() => location('fp1', 0));
+    render({ current: viewer });
+
+    await load('fp1');
+
+    expect(viewer.restoreLocation).toHaveBeenCalledWith(stored);
+  });
+
+  it('does not save before the stored location is restored', async () => {
+    let resolveItem!: (value: string | null) => void;
+    storage.getItem.mockImplementation(
+      () => new Promise<string | null>((resolve) => (resolveItem = resolve))
+    );
+    const viewer = createViewer(() => location('fp1', 0));
+    render({ current: viewer });
+
+    persistence.onLoad('fp1');
+    persistence.onChange({ page: 1 });
+    jest.runAllTimers();
+    await act(flushPromises);
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    resolveItem(JSON.stringify(location('fp1', 6)));
+    await act(flushPromises);
+    expect(viewer.restoreLocation).toHaveBeenCalledWith(location('fp1', 6));
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it('saves the viewer location once changes settle', async () => {
+    let current = location('fp1', 0);
+    const viewer = createViewer(() => current);
+    render({ current: viewer });
+    await load('fp1');
+
+    current = location('fp1', 2);
+    persistence.onChange({ page: 2 });
+    current = location('fp1', 3);
+    persistence.onChange({ page: 3 });
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    await act(async () => {
+      jest.advanceTimersByTime(500);
+      await flushPromises();
+    });
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).toHaveBeenCalledWith(
+      storageKey('fp1'),
+      JSON.stringify(location('fp1', 3))
+    );
+  });
+
+  it('saves a pending location on unmount after the view detaches', async () => {
+    let current = location('fp1', 0);
+    const viewerRef: { current: PdfViewerRef | null } = {
+      current: createViewer(() => current),
+    };
+    const renderer = render(viewerRef);
+    await load('fp1');
+
+    current = location('fp1', 5);
+    await act(async () => {
+      persistence.onChange({ page: 5 });
+      await flushPromises();
+    });
+
+    viewerRef.current = null;
+    act(() => renderer.unmount());
+    await flushPromises();
+
+    expect(storage.setItem).toHaveBeenCalledWith(
+      storageKey('fp1'),
+      JSON.stringify(location('fp1', 5))
+    );
+  });
+
+  it('uses the reported page if the viewer cannot be asked', async () => {
+    const viewerRef: { current: PdfViewerRef | null } = {
+      current: createViewer(() => location('fp1', 0)),
+    };
+    const renderer = render(viewerRef);
+    await load('fp1');
+
+    viewerRef.current = null;
+    persistence.onChange({ page: 7 });
+    act(() => renderer.unmount());
+    await flushPromises();
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    const saved = JSON.parse(storage.setItem.mock.calls[0][1]);
+    expect(saved).toEqual({ ...location('fp1', 7), offset: { x: 0, y: 0 } });
+  });
+
+  it('saves the outgoing document when the document changes', async () => {
+    let current = location('fp1', 0);
+    const viewerRef = { current: createViewer(() => current) };
+    const renderer = render(viewerRef, 'a');
+    await load('fp1');
+
+    current = location('fp1', 8);
+    await act(async () => {
+      persistence.onChange({ page: 8 });
+      await flushPromises();
+    });
+
+    current = location('fp2', 0);
+    act(() => {
+      renderer.update(<Harness viewerRef={viewerRef} documentKey="b" />);
+    });
+    await flushPromises();
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).toHaveBeenCalledWith(
+      storageKey('fp1'),
+      JSON.stringify(location('fp1', 8))
+    );
+
+    // Nothing is saved for the new document until it loads.
+    persistence.onChange({ page: 1 });
+    jest.runAllTimers();
+    await flushPromises();
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves the offset within the page once scrolling stops', async () => {
+    let current = location('fp1', 3, 0.1);
+    const viewer = createViewer(() => current);
+    render({ current: viewer });
+    await load('fp1');
+
+    current = location('fp1', 3, 0.4);
+    persistence.onScroll();
+    current = location('fp1', 3, 0.6);
+    persistence.onScroll();
+
+    await act(async () => {
+      jest.advanceTimersByTime(500);
+      await flushPromises();
+    });
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).toHaveBeenCalledWith(
+      storageKey('fp1'),
+      JSON.stringify(location('fp1', 3, 0.6))
+    );
+  });
+
+  it('saves the current offset on unmount without a pending save', async () => {
+    let current = location('fp1', 3, 0.1);
+    const viewer = createViewer(() => current);
+    const renderer = render({ current: viewer });
+    await load('fp1');
+
+    current = location('fp1', 3, 0.7);
+    act(() => renderer.unmount());
+    await flushPromises();
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).toHaveBeenCalledWith(
+      storageKey('fp1'),
+      JSON.stringify(location('fp1', 3, 0.7))
+    );
+  });
+
+  it('saves the current offset when the app leaves the foreground', async () => {
+    const addEventListener = AppState.addEventListener as jest.Mock;
+    addEventListener.mockClear();
+    let current = location('fp1', 2, 0.1);
+    const viewer = createViewer(() => current);
+    render({ current: viewer });
+    await load('fp1');
+    const onAppStateChange = addEventListener.mock.calls[0][1];
+
+    current = location('fp1', 2, 0.9);
+    await act(async () => {
+      onAppStateChange('background');
+      await flushPromises();
+    });
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).toHaveBeenCalledWith(
+      storageKey('fp1'),
+      JSON.stringify(location('fp1', 2, 0.9))
+    );
+  });
+});
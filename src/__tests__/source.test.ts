@@ -0,0 +1,174 @@
+import { Image, NativeModules, Platform } from 'react-native';
+import { resolveSourcePath, type PdfCacheEntry } from '../PdfCache';
+import { sourceKey } from '../source';
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.RNPdfCache = {
+    getCached: jest.fn(),
+    download: jest.fn(),
+    writeBase64: jest.fn(),
+    copyContentUri: jest.fn(),
+    copyRawResource: jest.fn(),
+    addListener: jest.fn(),
+    removeListeners: jest.fn(),
+  };
+  return ReactNative;
+});
+
+type Mock = jest.Mock<Promise<PdfCacheEntry | null>>;
+
+const native = NativeModules.RNPdfCache as Record<
+  | 'getCached'
+  | 'download'
+  | 'writeBase64'
+  | 'copyContentUri'
+  | 'copyRawResource',
+  Mock
+>;
+
+function entry(path: string): PdfCacheEntry {
+  return { key: path, uri: path, path, size: 1, modified: 0 };
+}
+
+function asset(uri: string) {
+  return { uri, width: 0, height: 0, scale: 1 };
+}
+
+describe('resolveSourcePath', () => {
+  const os = Platform.OS;
+
+  beforeEach(() => {
+    for (const mock of Object.values(native)) {
+      mock.mockReset();
+    }
+    native.writeBase64.mockResolvedValue(entry('/cache/inline.pdf'));
+    native.copyContentUri.mockResolvedValue(entry('/cache/content.pdf'));
+    native.copyRawResource.mockResolvedValue(entry('/cache/raw.pdf'));
+    native.getCached.mockResolvedValue(null);
+    native.download.mockResolvedValue(entry('/cache/remote.pdf'));
+  });
+
+  afterEach(() => {
+    Platform.OS = os;
+    jest.restoreAllMocks();
+  });
+
+  it('passes local paths through', async () => {
+    await expect(resolveSourcePath('/docs/a.pdf')).resolves.toBe('/docs/a.pdf');
+    await expect(resolveSourcePath('file:///docs/a.pdf')).resolves.toBe(
+      '/docs/a.pdf'
+    );
+    await expect(
+      resolveSourcePath({ uri: 'file:///docs/b.pdf' })
+    ).resolves.toBe('/docs/b.pdf');
+    expect(native.writeBase64).not.toHaveBeenCalled();
+  });
+
+  it('writes base64 sources to the cache', async () => {
+    await expect(resolveSourcePath({ base64: 'JVBERi0x' })).resolves.toBe(
+      '/cache/inline.pdf'
+    );
+    expect(native.writeBase64).toHaveBeenCalledWith('JVBERi0x');
+  });
+
+  it('strips the prefix of data uris', async () => {
+    const uri = 'data:application/pdf;base64,JVBERi0x';
+    await expect(resolveSourcePath(uri)).resolves.toBe('/cache/inline.pdf');
+    await expect(resolveSourcePath({ base64: uri })).resolves.toBe(
+      '/cache/inline.pdf'
+    );
+    expect(native.writeBase64.mock.calls).toEqual([['JVBERi0x'], ['JVBERi0x']]);
+  });
+
+  it('copies content uris on Android', async () => {
+    Platform.OS = 'android';
+    const uri = 'content://downloads/1';
+    await expect(resolveSourcePath(uri)).resolves.toBe('/cache/content.pdf');
+    expect(native.copyContentUri).toHaveBeenCalledWith(uri);
+  });
+
+  it('rejects content uris on iOS', async () => {
+    Platform.OS = 'ios';
+    await expect(resolveSourcePath('content://downloads/1')).rejects.toEqual(
+      expect.objectContaining({ code: 'NOT_SUPPORTED' })
+    );
+    expect(native.copyContentUri).not.toHaveBeenCalled();
+  });
+
+  it('opens bundled assets in place', async () => {
+    jest
+      .spyOn(Image, 'resolveAssetSource')
+      .mockReturnValue(asset('file:///bundle/doc.pdf'));
+    await expect(resolveSourcePath({ asset: 1 })).resolves.toBe(
+      '/bundle/doc.pdf'
+    );
+  });
+
+  it('copies Android raw resource assets', async () => {
+    Platform.OS = 'android';
+    jest
+      .spyOn(Image, 'resolveAssetSource')
+      .mockReturnValue(asset('assets_doc'));
+    await expect(resolveSourcePath({ asset: 1 })).resolves.toBe(
+      '/cache/raw.pdf'
+    );
+    expect(native.copyRawResource).toHaveBeenCalledWith('assets_doc');
+  });
+
+  it('downloads assets served by the development server', async () => {
+    const uri = 'http://localhost:8081/assets/doc.pdf';
+    jest.spyOn(Image, 'resolveAssetSource').mockReturnValue(asset(uri));
+    native.getCached.mockResolvedValue(entry('/cache/stale.pdf'));
+
+    await expect(resolveSourcePath({ asset: 1 })).resolves.toBe(
+      '/cache/remote.pdf'
+    );
+    expect(native.download).toHaveBeenCalledWith(
+      uri,
+      {},
+      uri,
+      expect.any(Number)
+    );
+  });
+
+  it('rejects unknown assets', async () => {
+    jest.spyOn(Image, 'resolveAssetSource').mockReturnValue(null as never);
+    await expect(resolveSourcePath({ asset: 99 })).rejects.toEqual(
+      expect.objectContaining({ code: 'FILE_NOT_FOUND' })
+    );
+  });
+});
+
+describe('sourceKey', () => {
+  it('identifies paths and local uris by themselves', () => {
+    expect(sourceKey('/docs/a.pdf')).toBe('/docs/a.pdf');
+    expect(sourceKey({ uri: 'file:///docs/a.pdf' })).toBe('file:///docs/a.pdf');
+  });
+
+  it('identifies inline and bundled documents by content', () => {
+    expect(sourceKey({ base64: 'JVBERi0x' })).toBe(
+      sourceKey({ base64: 'JVBERi0x' })
+    );
+    expect(sourceKey({ base64: 'JVBERi0x' })).not.toBe(
+      sourceKey({ base64: 'JVBERi0y' })
+    );
+    expect(sourceKey({ asset: 1 })).not.toBe(sourceKey({ asset: 2 }));
+    expect(sourceKey({ asset: 1 })).not.toBe(sourceKey('1'));
+  });
+
+  it('compares remote sources by value', () => {
+    const source = {
+      uri: 'https://example.com/a.pdf',
+      headers: { Authorization: 'Bearer 1' },
+    };
+    expect(sourceKey(source)).toBe(sourceKey({ ...source }));
+    expect(sourceKey(source)).not.toBe(
+      sourceKey({ ...source, headers: { Authorization: 'Bearer 2' } })
+    );
+    expect(sourceKey(source)).not.toBe(sourceKey({ ...source, cacheKey: 'a' }));
+    expect(sourceKey(source)).not.toBe(
+      sourceKey({ ...source, expiration: 1000 })
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import React from 'react';
+import { NativeModules } from 'react-native';
+import TestRenderer, { act } from 'react-test-renderer';
+import { usePdfDocument, type PdfDocumentState } from '../usePdfDocument';
+
+jest.mock('react-native', () => {
+  const ReactNative = jest.requireActual('react-native');
+  ReactNative.NativeModules.RNPdfUtil = {
+    openDocument: jest.fn(),
+    getPageSizes: jest.fn(),
+    closeDocument: jest.fn(),
+  };
+  return ReactNative;
+});
+
+const native = NativeModules.RNPdfUtil as {
+  openDocument: jest.Mock;
+  getPageSizes: jest.Mock;
+  closeDocument: jest.Mock;
+};
+
+const PAGE_SIZES = [{ width: 612, height: 792 }];
+
+async function flushPromises() {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+const states: Record<string, PdfDocumentState> = {};
+
+function Consumer(props: { name: string; source: string }) {
+  states[props.name] = usePdfDocument(props.source);
+  return null;
+}
+
+async function render(element: React.ReactElement) {
+  let renderer!: TestRenderer.ReactTestRenderer;
+  await act(async () => {
+    renderer = TestRenderer.create(element);
+    await flushPromises();
+  });
+  return renderer;
+}
+
+describe('usePdfDocument', () => {
+  let nextHandle: number;
+
+  beforeEach(() => {
+    nextHandle = 1;
+    native.openDocument.mockReset();
+    native.openDocument.mockImplementation(() =>
+      Promise.resolve({ handle: `pdfdocument:${nextHandle++}`, pageCount: 1 })
+    );
+    native.getPageSizes.mockReset();
+    native.getPageSizes.mockResolvedValue(PAGE_SIZES);
+    native.closeDocument.mockReset();
+  });
+
+  it('shares one native document between components', async () => {
+    const renderer = await render(
+      <>
+        <Consumer name="a" source="/doc.pdf" />
+        <Consumer name="b" source="/doc.pdf" />
+      </>
+    );
+
+    expect(native.openDocument).toHaveBeenCalledTimes(1);
+    expect(states.a.status).toBe('ready');
+    expect(states.a.pageSizes).toEqual(PAGE_SIZES);
+    expect(states.b.document).toBe(states.a.document);
+
+    await act(async () => renderer.unmount());
+  });
+
+  it('closes the document once the last component unmounts', async () => {
+    const renderer = await render(
+      <>
+        <Consumer name="a" source="/doc.pdf" />
+        <Consumer name="b" source="/doc.pdf" />
+      </>
+    );
+
+    await act(async () => {
+      renderer.update(<Consumer name="a" source="/doc.pdf" />);
+      await flushPromises();
+    });
+    expect(native.closeDocument).not.toHaveBeenCalled();
+
+    await act(async () => {
+      renderer.unmount();
+      await flushPromises();
+    });
+    expect(native.closeDocument).toHaveBeenCalledWith('pdfdocument:1');
+  });
+
+  it('does not report the previous document while a new source loads', async () => {
+    const renderer = await render(<Consumer name="a" source="/first.pdf" />);
+    expect(states.a.document?.handle).toBe('pdfdocument:1');
+
+    let resolveOpen!: (value: { handle: string; pageCount: number }) => void;
+    native.openDocument.mockImplementationOnce(
+      () => new Promise((resolve) => (resolveOpen = resolve))
+    );
+    await act(async () => {
+      renderer.update(<Consumer name="a" source="/second.pdf" />);
+      await flushPromises();
+    });
+    expect(states.a.status).toBe('loading');
+    expect(states.a.document).toBeUndefined();
+    expect(native.closeDocument).toHaveBeenCalledWith('pdfdocument:1');
+
+    await act(async () => {
+      resolveOpen({ handle: 'pdfdocument:9', pageCount: 1 });
+      await flushPromises();
+    });
+    expect(states.a.document?.handle).toBe('pdfdocument:9');
+
+    await act(async () => renderer.unmount());
+  });
+
+  it('retries a failed load on next use', async () => {
+    native.openDocument.mockRejectedValueOnce(
+      Object.assign(new Error('Bad file'), { code: 'INVALID_PDF' })
+    );
+    const first = await render(<Consumer name="a" source="/doc.pdf" />);
+    expect(states.a.status).toBe('error');
+    expect(states.a.error).toEqual({
+      code: 'INVALID_PDF',
+      message: 'Bad file',
+    });
+    await act(async () => first.unmount());
+
+    const second = await render(<Consumer name="a" source="/doc.pdf" />);
+    expect(native.openDocument).toHaveBeenCalledTimes(2);
+    expect(states.a.status).toBe('ready');
+    await act(async () => second.unmount());
+  });
+
+  it('opens a fresh document on reload', async () => {
+    const renderer = await render(<Consumer name="a" source="/doc.pdf" />);
+    expect(states.a.document?.handle).toBe('pdfdocument:1');
+
+    await act(async () => {
+      states.a.reload();
+      await flushPromises();
+    });
+    expect(native.openDocument).toHaveBeenCalledTimes(2);
+    expect(states.a.document?.handle).toBe('pdfdocument:2');
+    expect(native.closeDocument).toHaveBeenCalledWith('pdfdocument:1');
+
+    await act(async () => renderer.unmount());
+  });
+});
@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+
+/**
+ * Freehand stroke of a PAS v1 annotation page.
+ */
+export type PdfAnnotationStroke = {
+  /**
+   * Stroke color, "#RRGGBB" or "#RRGGBBAA".
+   */
+  color: string;
+
+  /**
+   * Stroke width in points at zoom level 1.
+   */
+  width: number;
+
+  /**
+   * Points of the stroke as [x, y], normalized to 0-1 range relative to page
+   * dimensions.
+   */
+  path: [number, number][];
+};
+
+/**
+ * Text of a PAS v1 annotation page.
+ */
+export type PdfAnnotationText = {
+  /**
+   * Text color, "#RRGGBB" or "#RRGGBBAA".
+   */
+  color: string;
+
+  /**
+   * Font size, relative to a page 1000 points wide.
+   */
+  fontSize: number;
+
+  /**
+   * Top left corner of the text as [x, y], normalized to 0-1 range relative
+   * to page dimensions.
+   */
+  point: [number, number];
+
+  str: string;
+};
+
+/**
+ * Annotations of a single page, in PAS v1 format.
+ */
+export type PdfAnnotationPage = {
+  strokes: PdfAnnotationStroke[];
+  text: PdfAnnotationText[];
+};
+
+/**
+ * Annotation pages keyed by page (0-indexed). Pages without an entry have no
+ * annotations.
+ */
+export type PdfAnnotations = { [page: number]: PdfAnnotationPage };
+
+/**
+ * Convert PdfAnnotations to JSON string for native component.
+ */
+function annotationsToJson(annotations: PdfAnnotations | undefined): string {
+  if (annotations == null) return '';
+  const pages: PdfAnnotations = {};
+  for (const [page, { strokes, text }] of Object.entries(annotations)) {
+    pages[Number(page)] = { strokes: strokes ?? [], text: text ?? [] };
+  }
+  return Object.keys(pages).length === 0 ? '' : JSON.stringify(pages);
+}
+
+/**
+ * Serialized `annotations` prop, recomputed only when the annotations change.
+ */
+export function useAnnotationsJson(
+  annotations: PdfAnnotations | undefined
+): string {
+  return useMemo(() => annotationsToJson(annotations), [annotations]);
+}
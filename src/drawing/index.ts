@@ -1,11 +1,9 @@
-export {
-  DEFAULT_DRAWING_TOOL,
-  DEFAULT_HIGHLIGHTER_TOOL,
-} from './types';
+export { DEFAULT_DRAWING_TOOL, DEFAULT_HIGHLIGHTER_TOOL } from './types';
 
 export type {
   DrawingMode,
   DrawingStroke,
   DrawingTool,
   PageAnnotations,
-} from './types';
\ No newline at end of file
+  PageStrokes,
+} from './types';
@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import type { DrawingStroke, PageStrokes } from './types';
+
+/**
+ * Native `onStrokeEnd` event of the multi page viewers.
+ */
+export type PageStrokeEndEvent = DrawingStroke & { page: number };
+
+/**
+ * Native `onStrokeRemoved` event of the multi page viewers.
+ */
+export type PageStrokeRemovedEvent = { id: string; page: number };
+
+/**
+ * Native `onStrokesCleared` event of the multi page viewers.
+ */
+export type PageStrokesClearedEvent = { page: number };
+
+/**
+ * Convert PageStrokes to JSON string for native component.
+ */
+function pageStrokesToJson(strokes: PageStrokes | undefined): string {
+  if (strokes == null) return '';
+  const pages: PageStrokes = {};
+  for (const [page, pageStrokes] of Object.entries(strokes)) {
+    if (pageStrokes != null && pageStrokes.length > 0) {
+      pages[Number(page)] = pageStrokes;
+    }
+  }
+  return Object.keys(pages).length === 0 ? '' : JSON.stringify(pages);
+}
+
+/**
+ * Serialized `strokes` prop, recomputed only when the strokes change.
+ */
+export function usePageStrokesJson(strokes: PageStrokes | undefined): string {
+  return useMemo(() => pageStrokesToJson(strokes), [strokes]);
+}
@@ -55,4 +55,10 @@ export const DEFAULT_HIGHLIGHTER_TOOL: DrawingTool = {
   color: '#FFFF00',
   strokeWidth: 20,
   opacity: 0.3,
-};
\ No newline at end of file
+};
+
+/**
+ * Strokes of the multi page viewers, keyed by page (0-indexed). Pages without
+ * an entry have no strokes.
+ */
+export type PageStrokes = { [page: number]: DrawingStroke[] };
@@ -0,0 +1,55 @@
+/**
+ * Reason an operation failed. Shared by the error events of all viewers and
+ * `PdfUtil` promise rejections.
+ */
+export type PdfErrorCode =
+  /** Source file does not exist. */
+  | 'FILE_NOT_FOUND'
+  /** Source file is not a readable pdf. */
+  | 'INVALID_PDF'
+  /** Document is encrypted and no password was given. */
+  | 'PASSWORD_REQUIRED'
+  /** Document is encrypted and the given password is wrong. */
+  | 'PASSWORD_INCORRECT'
+  /** Requested page does not exist in the document. */
+  | 'PAGE_OUT_OF_RANGE'
+  /** Page could not be drawn, e.g. insufficient memory. */
+  | 'RENDER_FAILED'
+  /** A prop or argument has an invalid value. */
+  | 'INVALID_ARGUMENT'
+  /** Operation is not available on this platform or OS version. */
+  | 'NOT_SUPPORTED'
+  /** Page or document has no text layer, e.g. a scanned document. */
+  | 'NO_TEXT_LAYER'
+  /** Operation was aborted by the caller. */
+  | 'CANCELLED'
+  /** Remote source could not be downloaded, e.g. network error or HTTP error status. */
+  | 'DOWNLOAD_FAILED'
+  | 'UNKNOWN';
+
+export type PdfErrorEvent = {
+  code: PdfErrorCode;
+  message: string;
+};
+
+/**
+ * Check whether a `PdfUtil` rejection carries a `PdfErrorCode`.
+ */
+export function isPdfError(
+  error: unknown
+): error is Error & { code: PdfErrorCode } {
+  return (
+    error instanceof Error &&
+    typeof (error as { code?: unknown }).code === 'string'
+  );
+}
+
+/**
+ * Create an Error carrying a `PdfErrorCode`, like native promise rejections.
+ */
+export function createPdfError(
+  code: PdfErrorCode,
+  message: string
+): Error & { code: PdfErrorCode } {
+  return Object.assign(new Error(message), { code });
+}
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { NormalizedRect } from './PdfUtil';
+
+/**
+ * Highlighted region of a page, e.g. a search match from `PdfUtil.search()`.
+ */
+export type PdfHighlight = {
+  /**
+   * Page (0-indexed) the highlight is on.
+   */
+  page: number;
+
+  /**
+   * Highlighted rectangles, normalized to 0-1 range relative to page
+   * dimensions.
+   */
+  rects: NormalizedRect[];
+};
+
+/**
+ * Zoom level targeted when navigating to a highlight.
+ */
+const FOCUS_ZOOM = 2;
+
+/**
+ * Convert PdfHighlight[] to JSON string for native component.
+ */
+function highlightsToJson(highlights: PdfHighlight[]): string {
+  if (highlights.length === 0) return '';
+  return JSON.stringify(highlights.map(({ page, rects }) => ({ page, rects })));
+}
+
+/**
+ * Region of the page to bring into view so that the highlight is visible and
+ * readable.
+ */
+function focusRect(highlight: PdfHighlight): NormalizedRect {
+  if (highlight.rects.length === 0) {
+    return { x: 0, y: 0, width: 1, height: 1 };
+  }
+
+  let left = 1;
+  let top = 1;
+  let right = 0;
+  let bottom = 0;
+  for (const rect of highlight.rects) {
+    left = Math.min(left, rect.x);
+    top = Math.min(top, rect.y);
+    right = Math.max(right, rect.x + rect.width);
+    bottom = Math.max(bottom, rect.y + rect.height);
+  }
+
+  // Pad small matches, so the view does not zoom in further than FOCUS_ZOOM.
+  const width = Math.min(1, Math.max(right - left, 1 / FOCUS_ZOOM));
+  const height = Math.min(1, Math.max(bottom - top, 1 / FOCUS_ZOOM));
+  const centerX = (left + right) / 2;
+  const centerY = (top + bottom) / 2;
+  return {
+    x: Math.max(0, Math.min(1 - width, centerX - width / 2)),
+    y: Math.max(0, Math.min(1 - height, centerY - height / 2)),
+    width,
+    height,
+  };
+}
+
+/**
+ * Track the active highlight and navigate between highlights.
+ *
+ * The active highlight resets whenever the highlighted regions change.
+ */
+export function useHighlightNavigation(
+  highlights: PdfHighlight[],
+  zoomToRect: (page: number, rect: NormalizedRect) => void
+) {
+  const [activeHighlight, setActiveHighlight] = useState(-1);
+  const activeRef = useRef(-1);
+  const highlightsJson = useMemo(
+    () => highlightsToJson(highlights),
+    [highlights]
+  );
+
+  useEffect(() => {
+    activeRef.current = -1;
+    setActiveHighlight(-1);
+  }, [highlightsJson]);
+
+  const focus = useCallback(
+    (direction: 1 | -1) => {
+      const count = highlights.length;
+      if (count === 0) {
+        return -1;
+      }
+
+      const index =
+        activeRef.current < 0
+          ? direction === 1
+            ? 0
+            : count - 1
+          : (activeRef.current + direction + count) % count;
+      activeRef.current = index;
+      setActiveHighlight(index);
+
+      const highlight = highlights[index];
+      zoomToRect(highlight.page, focusRect(highlight));
+      return index;
+    },
+    [highlights, zoomToRect]
+  );
+
+  const findNext = useCallback(() => focus(1), [focus]);
+  const findPrevious = useCallback(() => focus(-1), [focus]);
+
+  return { highlightsJson, activeHighlight, findNext, findPrevious };
+}
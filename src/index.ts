@@ -1,24 +1,43 @@
-// export {
-//   NativeDrawablePdfView,
-//   NativeDrawablePdfViewProps_Public as NativeDrawablePdfViewProps,
-//   NativeDrawablePdfViewRef,
-// } from './NativeDrawablePdfView';
-// export { DEFAULT_DRAWING_TOOL, DEFAULT_HIGHLIGHTER_TOOL } from './drawing';
-// export type {
-//   DrawingMode,
-//   DrawingStroke,
-//   DrawingTool,
-//   PageAnnotations,
-// } from './drawing';
-// export { PageDim, PdfUtil } from './PdfUtil';
-// export {
-//   NativeSimplePdfView,
-//   NativeSimplePdfViewProps_Public as NativeSimplePdfViewProps,
-//   NativeSimplePdfViewRef,
-//   ErrorEvent,
-//   LoadCompleteEvent,
-//   ZoomChangeEvent,
-// } from './NativeSimplePdfView';
+export {
+  NativeDrawablePdfView,
+  NativeDrawablePdfViewProps_Public as NativeDrawablePdfViewProps,
+  NativeDrawablePdfViewRef,
+} from './NativeDrawablePdfView';
+export {
+  PdfUtil,
+  type PdfDocument,
+  type PageDim,
+  type NormalizedRect,
+  type SearchMatch,
+  type SearchOptions,
+  type OpenOptions,
+  type PageText,
+  type TextWord,
+  type OutlineItem,
+  type PdfLink,
+  type PdfMetadata,
+  type RenderPageOptions,
+  type RenderedPage,
+} from './PdfUtil';
+export {
+  PdfCache,
+  type PdfSource,
+  type RemoteSource,
+  type Base64Source,
+  type AssetSource,
+  type PdfLoadProgressEvent,
+  type PdfCacheEntry,
+  type PruneOptions,
+  type DownloadOptions,
+} from './PdfCache';
+export {
+  NativeSimplePdfView,
+  NativeSimplePdfViewProps_Public as NativeSimplePdfViewProps,
+  NativeSimplePdfViewRef,
+  ErrorEvent,
+  LoadCompleteEvent,
+  ZoomChangeEvent,
+} from './NativeSimplePdfView';
 export {
   NativeZoomablePdfScrollView,
   NativeZoomablePdfScrollViewProps_Public as NativeZoomablePdfScrollViewProps,
@@ -28,22 +47,72 @@ export {
   ZoomablePdfPageChangeEvent,
   ZoomablePdfZoomChangeEvent,
   ZoomablePdfTapEvent,
+  ZoomablePdfScrollEvent,
+  PdfVisiblePage,
 } from './NativeZoomablePdfScrollView';
-// export {
-//   NativePagingPdfView,
-//   NativePagingPdfViewProps_Public as NativePagingPdfViewProps,
-//   NativePagingPdfViewRef,
-//   PagingPdfErrorEvent,
-//   PagingPdfLoadCompleteEvent,
-//   PagingPdfPageChangeEvent,
-//   PagingPdfZoomChangeEvent,
-//   PagingPdfTapEvent,
-// } from './NativePagingPdfView';
+export {
+  NativePagingPdfView,
+  NativePagingPdfViewProps_Public as NativePagingPdfViewProps,
+  NativePagingPdfViewRef,
+  PagingPdfErrorEvent,
+  PagingPdfLoadCompleteEvent,
+  PagingPdfPageChangeEvent,
+  PagingPdfZoomChangeEvent,
+  PagingPdfTapEvent,
+} from './NativePagingPdfView';
+
+export type { PdfHighlight } from './highlights';
+
+export { DEFAULT_DRAWING_TOOL, DEFAULT_HIGHLIGHTER_TOOL } from './drawing';
+export type {
+  DrawingMode,
+  DrawingStroke,
+  DrawingTool,
+  PageAnnotations,
+  PageStrokes,
+} from './drawing';
+
+export type {
+  PdfAnnotations,
+  PdfAnnotationPage,
+  PdfAnnotationStroke,
+  PdfAnnotationText,
+} from './annotations';
+
+export { usePdfDocument, type PdfDocumentState } from './usePdfDocument';
+
+export {
+  PdfThumbnailStrip,
+  type PdfThumbnailStripProps,
+} from './PdfThumbnailStrip';
 
 export {
   PdfViewer,
   type PdfViewerProps,
   type PdfViewerRef,
-  type PdfErrorEvent,
+  type SinglePdfViewerRef,
+  type DrawablePdfViewerRef,
   type PdfLoadCompleteEvent,
 } from './PdfViewer';
+
+export type {
+  PdfViewState,
+  PdfLocation,
+  PdfPageTapEvent,
+  GoToPageOptions,
+  SetZoomOptions,
+} from './viewer';
+
+export { setPdfLocationStorage, type PdfLocationStorage } from './location';
+
+export type { PdfPageOverlayLayout, RenderPageOverlay } from './overlays';
+
+export {
+  PdfViewerProvider,
+  usePdfViewerState,
+  usePdfViewerControls,
+  type PdfViewerState,
+  type PdfViewerControls,
+} from './PdfViewerProvider';
+
+export { isPdfError, type PdfErrorCode, type PdfErrorEvent } from './errors';
@@ -0,0 +1,287 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+} from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import type { PdfLocation, PdfViewerRef } from './viewer';
+
+/**
+ * Key-value store for reading positions. `AsyncStorage` from
+ * `@react-native-async-storage/async-storage` fits as is; synchronous stores
+ * can return values directly.
+ */
+export type PdfLocationStorage = {
+  getItem(key: string): Promise<string | null> | string | null;
+  setItem(key: string, value: string): Promise<void> | void;
+};
+
+function createMemoryStorage(): PdfLocationStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+let storage = createMemoryStorage();
+
+/**
+ * Set where viewers with a `persistenceKey` save reading positions. Default:
+ * in memory, so positions are lost when the app restarts.
+ *
+ * ```ts
+ * setPdfLocationStorage(AsyncStorage);
+ * ```
+ */
+export function setPdfLocationStorage(adapter: PdfLocationStorage) {
+  storage = adapter;
+}
+
+// Delay before saving, so scrolling through pages writes once.
+const SAVE_DELAY = 500;
+
+function storageKey(persistenceKey: string, fingerprint: string) {
+  return `react-native-pdf-light:location:${persistenceKey}:${fingerprint}`;
+}
+
+function parseLocation(value: string | null): PdfLocation | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  try {
+    const location = JSON.parse(value);
+    return typeof location?.page === 'number' &&
+      typeof location.scale === 'number' &&
+      typeof location.offset?.x === 'number' &&
+      typeof location.offset?.y === 'number' &&
+      typeof location.fingerprint === 'string'
+      ? location
+      : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function writeLocation(persistenceKey: string, location: PdfLocation) {
+  Promise.resolve()
+    .then(() =>
+      storage.setItem(
+        storageKey(persistenceKey, location.fingerprint),
+        JSON.stringify(location)
+      )
+    )
+    .catch(() => {
+      // Unwritable storage; the position is not saved.
+    });
+}
+
+/**
+ * Page or zoom level reported by the viewer.
+ */
+export type PdfLocationChange = { page?: number; scale?: number };
+
+/**
+ * Restore a location once a document loads, and save the location of
+ * documents viewed with a `persistenceKey`, keyed by document fingerprint.
+ * `documentKey` identifies the displayed document before it loads.
+ */
+export function useLocationPersistence(
+  viewerRef: React.RefObject<PdfViewerRef | null>,
+  documentKey: string,
+  persistenceKey: string | undefined,
+  restoreLocation: PdfLocation | undefined
+) {
+  const persistenceKeyRef = useRef(persistenceKey);
+  persistenceKeyRef.current = persistenceKey;
+  const restoreLocationRef = useRef(restoreLocation);
+  restoreLocationRef.current = restoreLocation;
+
+  // Fingerprint of the loaded document, once its location was restored;
+  // saving earlier would overwrite the stored location.
+  const fingerprintRef = useRef<string>();
+  const loadId = useRef(0);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Last known location of the loaded document, and the key to save it
+  // under. Written as is when the viewer cannot be asked: once the native
+  // view detached, or shows the next document.
+  const lastLocation = useRef<{ key: string; location: PdfLocation }>();
+
+  const cancelSave = useCallback(() => {
+    clearTimeout(saveTimer.current);
+    saveTimer.current = undefined;
+  }, []);
+
+  // Update the last location from the viewer, which has the exact offset.
+  const refresh = useCallback(() => {
+    const fingerprint = fingerprintRef.current;
+    const key = persistenceKeyRef.current;
+    const viewer = viewerRef.current;
+    if (fingerprint == null || key == null || viewer == null) {
+      return Promise.resolve();
+    }
+    return viewer.getLocation().then(
+      (location) => {
+        if (
+          location.fingerprint === fingerprint &&
+          fingerprintRef.current === fingerprint
+        ) {
+          lastLocation.current = { key, location };
+        }
+      },
+      () => {
+        // The viewer unmounted or the document changed; keep the last
+        // location.
+      }
+    );
+  }, [viewerRef]);
+
+  const writeLast = useCallback(() => {
+    const last = lastLocation.current;
+    if (last && fingerprintRef.current != null) {
+      writeLocation(last.key, last.location);
+    }
+  }, []);
+
+  const save = useCallback(() => {
+    saveTimer.current = undefined;
+    refresh().then(() => {
+      // Rescheduled meanwhile.
+      if (saveTimer.current == null) {
+        writeLast();
+      }
+    });
+  }, [refresh, writeLast]);
+
+  const scheduleSave = useCallback(() => {
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(save, SAVE_DELAY);
+  }, [save]);
+
+  // Save the current location now.
+  const flush = useCallback(() => {
+    cancelSave();
+    refresh().then(writeLast);
+  }, [cancelSave, refresh, writeLast]);
+
+  const onChange = useCallback(
+    ({ page, scale }: PdfLocationChange) => {
+      const fingerprint = fingerprintRef.current;
+      const key = persistenceKeyRef.current;
+      if (fingerprint == null || key == null) {
+        return;
+      }
+      // Follow the reported page and zoom level right away; the offset
+      // within a new page is unknown until refresh() resolves.
+      const location: PdfLocation = lastLocation.current?.location ?? {
+        page: 0,
+        offset: { x: 0, y: 0 },
+        scale: 1,
+        fingerprint,
+      };
+      lastLocation.current = {
+        key,
+        location: {
+          ...location,
+          page: page ?? location.page,
+          offset:
+            page == null || page === location.page
+              ? location.offset
+              : { x: location.offset.x, y: 0 },
+          scale: scale ?? location.scale,
+        },
+      };
+      refresh();
+      scheduleSave();
+    },
+    [refresh, scheduleSave]
+  );
+
+  // Scrolling moves the offset within the page; the save asks the viewer for
+  // it once scrolling stops.
+  const onScroll = useCallback(() => {
+    if (fingerprintRef.current != null && persistenceKeyRef.current != null) {
+      scheduleSave();
+    }
+  }, [scheduleSave]);
+
+  const onLoad = useCallback(
+    (fingerprint: string) => {
+      const id = ++loadId.current;
+      fingerprintRef.current = undefined;
+      const restored = restoreLocationRef.current;
+      const key = persistenceKeyRef.current;
+      if (restored || key == null) {
+        if (restored) {
+          viewerRef.current?.restoreLocation(restored);
+        }
+        fingerprintRef.current = fingerprint;
+        if (key != null && restored?.fingerprint === fingerprint) {
+          lastLocation.current = { key, location: restored };
+        } else {
+          refresh();
+        }
+        return;
+      }
+
+      Promise.resolve(storage.getItem(storageKey(key, fingerprint)))
+        .then(
+          (value) => {
+            const location = parseLocation(value);
+            if (location && id === loadId.current) {
+              viewerRef.current?.restoreLocation(location);
+              lastLocation.current = { key, location };
+            }
+          },
+          () => {
+            // Unreadable storage; start from the initial position.
+          }
+        )
+        .then(() => {
+          if (id === loadId.current) {
+            fingerprintRef.current = fingerprint;
+            if (lastLocation.current == null) {
+              refresh();
+            }
+          }
+        });
+    },
+    [viewerRef, refresh]
+  );
+
+  // Save the outgoing document, and stop saving until the new one loads.
+  // The viewer already shows the new document, so the last location is
+  // written as is.
+  useEffect(() => {
+    cancelSave();
+    writeLast();
+    loadId.current++;
+    fingerprintRef.current = undefined;
+    lastLocation.current = undefined;
+  }, [documentKey, cancelSave, writeLast]);
+
+  // Save when the app leaves the foreground.
+  useEffect(() => {
+    const onAppStateChange = (state: AppStateStatus) => {
+      if (state !== 'active') {
+        flush();
+      }
+    };
+    AppState.addEventListener('change', onAppStateChange);
+    return () => AppState.removeEventListener('change', onAppStateChange);
+  }, [flush]);
+
+  // Save on unmount. Layout effect cleanups run before the viewer ref
+  // detaches, so the viewer can still be asked for its location.
+  useLayoutEffect(() => flush, [flush]);
+
+  return useMemo(
+    () => ({ onLoad, onChange, onScroll }),
+    [onLoad, onChange, onScroll]
+  );
+}
@@ -0,0 +1,159 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  LayoutChangeEvent,
+  requireNativeComponent,
+  StyleProp,
+  StyleSheet,
+  ViewStyle,
+} from 'react-native';
+
+/**
+ * Size of a page overlay, in points at zoom level 1. Overlays zoom with
+ * their page, so lay out content relative to this size.
+ *
+ * The viewers draw every page in a frame with the first page's aspect ratio,
+ * so all overlays of a document have the same size.
+ */
+export type PdfPageOverlayLayout = {
+  width: number;
+  height: number;
+
+  /**
+   * Current zoom level, e.g. to keep content at a constant screen size by
+   * scaling it by `1 / scale`.
+   */
+  scale: number;
+};
+
+/**
+ * Render React content over a page (0-indexed). Called for the visible
+ * pages and their neighbours.
+ */
+export type RenderPageOverlay = (
+  page: number,
+  layout: PdfPageOverlayLayout
+) => React.ReactNode;
+
+type NativePdfPageOverlayProps = {
+  page: number;
+  pointerEvents: 'box-none';
+  style: StyleProp<ViewStyle>;
+  children?: React.ReactNode;
+};
+
+const RNPdfPageOverlay =
+  requireNativeComponent<NativePdfPageOverlayProps>('RNPdfPageOverlay');
+
+const NO_PAGES: number[] = [];
+
+/**
+ * Page overlays of a viewer, rendered as children of the native view, which
+ * positions them over their pages. The viewer reports its layout, document,
+ * zoom and shown pages; `documentKey` identifies the displayed document
+ * before it loads.
+ */
+export function usePageOverlays(
+  renderPageOverlay: RenderPageOverlay | undefined,
+  documentKey: string
+) {
+  const [viewWidth, setViewWidth] = useState(0);
+  const [pageInfo, setPageInfo] = useState<{
+    aspectRatio: number;
+    pageCount: number;
+  }>();
+  const [scale, setScale] = useState(1);
+  const [shownPages, setShownPages] = useState(NO_PAGES);
+
+  // Skip re-rendering for viewers without overlays.
+  const enabledRef = useRef(renderPageOverlay != null);
+  enabledRef.current = renderPageOverlay != null;
+
+  // Overlays of the previous document no longer apply.
+  useEffect(() => {
+    setPageInfo(undefined);
+    setShownPages(NO_PAGES);
+    setScale(1);
+  }, [documentKey]);
+
+  const onLayout = useCallback((event: LayoutChangeEvent) => {
+    setViewWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const onLoad = useCallback(
+    (width: number, height: number, pageCount: number) => {
+      setPageInfo(
+        width > 0 && height > 0
+          ? { aspectRatio: height / width, pageCount }
+          : undefined
+      );
+    },
+    []
+  );
+
+  const onZoomChange = useCallback((zoom: number) => {
+    if (enabledRef.current) {
+      setScale(zoom);
+    }
+  }, []);
+
+  const onPagesShown = useCallback((pages: number[]) => {
+    if (enabledRef.current) {
+      setShownPages((prev) =>
+        prev.length === pages.length && prev.every((p, i) => p === pages[i])
+          ? prev
+          : pages
+      );
+    }
+  }, []);
+
+  // Shown pages and their neighbours, so overlays are ready when scrolled
+  // into view.
+  const pages = useMemo(() => {
+    const pageCount = pageInfo?.pageCount ?? 0;
+    const result = new Set<number>();
+    for (const page of shownPages) {
+      for (let p = page - 1; p <= page + 1; p++) {
+        if (p >= 0 && p < pageCount) {
+          result.add(p);
+        }
+      }
+    }
+    return Array.from(result).sort((a, b) => a - b);
+  }, [shownPages, pageInfo]);
+
+  let overlays: React.ReactNode = null;
+  if (renderPageOverlay && pageInfo && viewWidth > 0) {
+    // The frame the viewer draws each page in, not the page's own size.
+    const layout = {
+      width: viewWidth,
+      height: viewWidth * pageInfo.aspectRatio,
+      scale,
+    };
+    overlays = pages.map((page) => (
+      <RNPdfPageOverlay
+        key={page}
+        page={page}
+        pointerEvents="box-none"
+        style={[styles.overlay, { width: layout.width, height: layout.height }]}
+      >
+        {renderPageOverlay(page, layout)}
+      </RNPdfPageOverlay>
+    ));
+  }
+
+  return { overlays, onLayout, onLoad, onZoomChange, onPagesShown };
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+  },
+});
@@ -0,0 +1,119 @@
+/* global AbortController */
+import { useEffect, useRef, useState } from 'react';
+import type { PdfErrorEvent } from './errors';
+import {
+  isRemoteUri,
+  localSourcePath,
+  resolveSourcePath,
+  type PdfLoadProgressEvent,
+  type PdfSource,
+} from './PdfCache';
+import type { PdfDocument } from './PdfUtil';
+
+type SourceCallbacks = {
+  onLoadProgress?: (event: PdfLoadProgressEvent) => void;
+  onError?: (event: PdfErrorEvent) => void;
+};
+
+/**
+ * Document props of the viewers: a source to open, or a document opened with
+ * `PdfUtil.open()`.
+ */
+export type DocumentProps =
+  | {
+      /**
+       * Path to PDF document, or a remote, base64 or bundled document.
+       */
+      source: PdfSource;
+      document?: undefined;
+    }
+  | {
+      source?: undefined;
+
+      /**
+       * Document opened with `PdfUtil.open()`, in place of `source`.
+       */
+      document: PdfDocument;
+    };
+
+/**
+ * Identity of a source that must be resolved asynchronously. Sources are
+ * commonly passed as new objects each render, so compare them by value.
+ */
+export function sourceKey(source: PdfSource): string {
+  if (typeof source === 'string') {
+    return source;
+  }
+  if ('base64' in source) {
+    return `base64:${source.base64}`;
+  }
+  if ('asset' in source) {
+    return `asset:${source.asset}`;
+  }
+  if (!isRemoteUri(source.uri)) {
+    return source.uri;
+  }
+  return JSON.stringify([
+    source.cacheKey ?? source.uri,
+    source.uri,
+    source.headers ?? {},
+    source.expiration ?? null,
+  ]);
+}
+
+/**
+ * Resolve a source to a local path for the native views.
+ *
+ * Local files and open documents resolve immediately; other sources resolve
+ * to an empty path until they have been written to the cache.
+ */
+export function useSourcePath(
+  { source, document }: DocumentProps,
+  callbacks: SourceCallbacks
+): string {
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  // Native code accepts document handles in place of a path.
+  const localPath =
+    document != null ? document.handle : localSourcePath(source);
+  const key = localPath == null ? sourceKey(source!) : undefined;
+  const [resolved, setResolved] = useState<{ key?: string; path: string }>({
+    path: '',
+  });
+
+  useEffect(() => {
+    if (key == null) {
+      return;
+    }
+
+    const controller = new AbortController();
+    resolveSourcePath(sourceRef.current!, {
+      signal: controller.signal,
+      onProgress: (event) => callbacksRef.current.onLoadProgress?.(event),
+    }).then(
+      (path) => {
+        if (!controller.signal.aborted) {
+          setResolved({ key, path });
+        }
+      },
+      (e: { code?: PdfErrorEvent['code']; message?: string }) => {
+        if (!controller.signal.aborted) {
+          callbacksRef.current.onError?.({
+            code: e.code ?? 'UNKNOWN',
+            message: e.message ?? String(e),
+          });
+        }
+      }
+    );
+    return () => controller.abort();
+  }, [key]);
+
+  if (localPath != null) {
+    return localPath;
+  }
+  // Do not show the previous document while a new one resolves.
+  return resolved.key === key ? resolved.path : '';
+}
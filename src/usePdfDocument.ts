@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PdfErrorEvent } from './errors';
+import type { PdfSource } from './PdfCache';
+import {
+  PdfUtil,
+  type OpenOptions,
+  type PageDim,
+  type PdfDocument,
+} from './PdfUtil';
+import { sourceKey } from './source';
+
+export type PdfDocumentState = {
+  status: 'loading' | 'ready' | 'error';
+
+  /**
+   * Open document, e.g. to pass to a viewer as `document`. Closed
+   * automatically once no component uses it.
+   */
+  document?: PdfDocument;
+
+  /**
+   * Number of pages, or 0 until ready.
+   */
+  pageCount: number;
+
+  /**
+   * Dimensions of every page, or empty until ready.
+   */
+  pageSizes: PageDim[];
+
+  /**
+   * Reason the document failed to load, if `status` is `'error'`.
+   */
+  error?: PdfErrorEvent;
+
+  /**
+   * Open the document again, e.g. after the file changed or a load error.
+   */
+  reload(): void;
+};
+
+type LoadedDocument = { document: PdfDocument; pageSizes: PageDim[] };
+
+type Load = {
+  refs: number;
+  promise: Promise<LoadedDocument>;
+};
+
+// In-flight and loaded documents by source, shared by all components using
+// the same source.
+const loads = new Map<string, Load>();
+
+const NO_PAGES: PageDim[] = [];
+
+function acquire(
+  key: string,
+  source: PdfSource,
+  options: OpenOptions,
+  fresh: boolean
+): Load {
+  let load = fresh ? undefined : loads.get(key);
+  if (!load) {
+    const promise = PdfUtil.open(source, options).then(async (document) => {
+      try {
+        return { document, pageSizes: await document.pageSizes() };
+      } catch (e) {
+        document.close();
+        throw e;
+      }
+    });
+    const created: Load = { refs: 0, promise };
+    // Retry failed loads on next use.
+    promise.catch(() => {
+      if (loads.get(key) === created) {
+        loads.delete(key);
+      }
+    });
+    loads.set(key, created);
+    load = created;
+  }
+  load.refs++;
+  return load;
+}
+
+function release(key: string, load: Load) {
+  load.refs--;
+  if (load.refs > 0) {
+    return;
+  }
+  if (loads.get(key) === load) {
+    loads.delete(key);
+  }
+  load.promise.then(
+    ({ document }) => document.close(),
+    () => {}
+  );
+}
+
+/**
+ * Open a document and read its page sizes.
+ *
+ * Components loading the same source share one native document. The result
+ * always matches the current `source`; results of a previous source are
+ * discarded.
+ *
+ * ```tsx
+ * const { status, document, pageSizes } = usePdfDocument(source);
+ * if (status === 'ready') {
+ *   return <PdfViewer viewerType="paging" document={document!} />;
+ * }
+ * ```
+ */
+export function usePdfDocument(
+  source: PdfSource,
+  options: OpenOptions = {}
+): PdfDocumentState {
+  const { password = '' } = options;
+  const key = JSON.stringify([sourceKey(source), password]);
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+
+  const [generation, setGeneration] = useState(0);
+  const reloadRef = useRef(false);
+  const [result, setResult] = useState<{
+    key: string;
+    generation: number;
+    loaded?: LoadedDocument;
+    error?: PdfErrorEvent;
+  }>();
+
+  useEffect(() => {
+    const fresh = reloadRef.current;
+    reloadRef.current = false;
+
+    let active = true;
+    const load = acquire(key, sourceRef.current, { password }, fresh);
+    load.promise.then(
+      (loaded) => {
+        if (active) {
+          setResult({ key, generation, loaded });
+        }
+      },
+      (e: { code?: PdfErrorEvent['code']; message?: string }) => {
+        if (active) {
+          setResult({
+            key,
+            generation,
+            error: {
+              code: e.code ?? 'UNKNOWN',
+              message: e.message ?? String(e),
+            },
+          });
+        }
+      }
+    );
+    return () => {
+      active = false;
+      release(key, load);
+    };
+  }, [key, password, generation]);
+
+  const reload = useCallback(() => {
+    reloadRef.current = true;
+    setGeneration((value) => value + 1);
+  }, []);
+
+  // Do not report the previous document while a new one loads.
+  const current =
+    result?.key === key && result.generation === generation
+      ? result
+      : undefined;
+  if (current?.loaded) {
+    return {
+      status: 'ready',
+      document: current.loaded.document,
+      pageCount: current.loaded.document.pageCount,
+      pageSizes: current.loaded.pageSizes,
+      reload,
+    };
+  }
+  return {
+    status: current?.error ? 'error' : 'loading',
+    pageCount: 0,
+    pageSizes: NO_PAGES,
+    error: current?.error,
+    reload,
+  };
+}
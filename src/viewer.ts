@@ -0,0 +1,288 @@
+import { useCallback, useMemo } from 'react';
+import { findNodeHandle, NativeModules, UIManager } from 'react-native';
+import { createPdfError } from './errors';
+import type { NormalizedRect, OutlineItem } from './PdfUtil';
+
+export type PdfViewState = {
+  /**
+   * Page (0-indexed) currently shown.
+   */
+  page: number;
+
+  /**
+   * Current zoom level.
+   */
+  scale: number;
+
+  /**
+   * Top left corner of the viewport relative to the top left corner of
+   * `page`, normalized to page dimensions. Values are outside the 0-1 range
+   * when the viewport starts beside or above the page.
+   */
+  offset: { x: number; y: number };
+};
+
+/**
+ * Reading position in a document, e.g. to restore it in a later session.
+ * Plain data; safe to serialize as JSON.
+ */
+export type PdfLocation = {
+  /**
+   * Page (0-indexed).
+   */
+  page: number;
+
+  /**
+   * Top left corner of the viewport relative to `page`, normalized to page
+   * dimensions, as in `PdfViewState`.
+   */
+  offset: { x: number; y: number };
+
+  /**
+   * Zoom level.
+   */
+  scale: number;
+
+  /**
+   * Fingerprint of the document the location belongs to, see
+   * `PdfUtil.getMetadata()`.
+   */
+  fingerprint: string;
+};
+
+/**
+ * Point of a page under a tap, double tap or long press, relative to the top
+ * left corner of the page.
+ */
+export type PdfPageTapEvent = {
+  /**
+   * Page (0-indexed).
+   */
+  page: number;
+
+  /**
+   * Position normalized to page dimensions (0-1).
+   */
+  x: number;
+  y: number;
+
+  /**
+   * Position in PDF points.
+   */
+  pdfX: number;
+  pdfY: number;
+};
+
+export type GoToPageOptions = {
+  /**
+   * Default: true.
+   */
+  animated?: boolean;
+};
+
+export type SetZoomOptions = {
+  /**
+   * Point of the view (in points) that stays in place. Default: center of
+   * the view.
+   */
+  focalPoint?: { x: number; y: number };
+
+  /**
+   * Default: true.
+   */
+  animated?: boolean;
+};
+
+/**
+ * Imperative API of the viewers, the same for every `viewerType`.
+ */
+export type PdfViewerRef = {
+  /**
+   * Show a page (0-indexed). Out of range pages are ignored.
+   */
+  goToPage: (page: number, options?: GoToPageOptions) => void;
+
+  /**
+   * Show the next page, if any.
+   */
+  nextPage: () => void;
+
+  /**
+   * Show the previous page, if any.
+   */
+  prevPage: () => void;
+
+  /**
+   * Zoom to a scale, clamped to `minZoom` / `maxZoom`.
+   */
+  setZoom: (scale: number, options?: SetZoomOptions) => void;
+
+  /**
+   * Reset zoom to default.
+   */
+  resetZoom: () => void;
+
+  /**
+   * Show a page and zoom so that a rect (normalized to page dimensions)
+   * fills the view, within the zoom limits.
+   */
+  zoomToRect: (
+    page: number,
+    rect: NormalizedRect,
+    options?: GoToPageOptions
+  ) => void;
+
+  /**
+   * Resolve with the page (0-indexed) currently shown.
+   */
+  getCurrentPage: () => Promise<number>;
+
+  /**
+   * Resolve with the current page, zoom and scroll position.
+   */
+  getViewState: () => Promise<PdfViewState>;
+
+  /**
+   * Resolve with the current reading position of the loaded document.
+   */
+  getLocation: () => Promise<PdfLocation>;
+
+  /**
+   * Show a location from `getLocation()`, without animation. Returns false,
+   * doing nothing, if no document is loaded or the location belongs to
+   * another document.
+   */
+  restoreLocation: (location: PdfLocation) => boolean;
+
+  /**
+   * Select the next highlight, scrolling and zooming so it is visible.
+   * Returns the index of the selected highlight, or -1 if there are none.
+   */
+  findNext: () => number;
+
+  /**
+   * Select the previous highlight, scrolling and zooming so it is visible.
+   * Returns the index of the selected highlight, or -1 if there are none.
+   */
+  findPrevious: () => number;
+
+  /**
+   * Scroll to the page an outline item (from `PdfUtil.getOutline()`) points
+   * to. Does nothing for items without a destination page.
+   */
+  goToOutlineItem: (item: OutlineItem, animated?: boolean) => void;
+
+  /**
+   * Remove the drawn strokes of a page, or of every page. Reports each page
+   * that had strokes to `onStrokesCleared`.
+   */
+  clearStrokes: (page?: number) => void;
+
+  /**
+   * Scroll to specific page.
+   *
+   * @deprecated Use `goToPage()`.
+   */
+  scrollToPage: (page: number, animated?: boolean) => void;
+};
+
+type PdfViewerNativeType = {
+  getViewState(viewTag: number): Promise<PdfViewState>;
+};
+
+const PdfViewerNative: PdfViewerNativeType = NativeModules.RNPdfViewer;
+
+/**
+ * Commands of a native viewer, other than highlight navigation. The zoomable
+ * and paging views implement the same commands. `fingerprintRef` holds the
+ * fingerprint of the loaded document.
+ */
+export function useViewerCommands(
+  viewRef: React.RefObject<any>,
+  fingerprintRef: React.RefObject<string | undefined>
+) {
+  const dispatch = useCallback(
+    (command: string, args: unknown[]) => {
+      const handle = viewRef.current ? findNodeHandle(viewRef.current) : null;
+      if (handle) {
+        UIManager.dispatchViewManagerCommand(handle, command, args);
+      }
+    },
+    [viewRef]
+  );
+
+  const getViewState = useCallback(async () => {
+    const handle = viewRef.current ? findNodeHandle(viewRef.current) : null;
+    if (handle == null) {
+      throw createPdfError('INVALID_ARGUMENT', 'Viewer is not mounted.');
+    }
+    return PdfViewerNative.getViewState(handle);
+  }, [viewRef]);
+
+  return useMemo(() => {
+    const goToPage = (page: number, options: GoToPageOptions = {}) =>
+      dispatch('scrollToPage', [page, options.animated ?? true]);
+    const zoomToRect = (
+      page: number,
+      rect: NormalizedRect,
+      options: GoToPageOptions = {}
+    ) =>
+      dispatch('zoomToRect', [
+        page,
+        rect.x,
+        rect.y,
+        rect.width,
+        rect.height,
+        options.animated ?? true,
+      ]);
+    // Relative to the page the native view currently shows.
+    const goToRelativePage = (delta: number) =>
+      getViewState().then(
+        ({ page }) => goToPage(page + delta),
+        () => {}
+      );
+
+    return {
+      goToPage,
+      nextPage: () => {
+        goToRelativePage(1);
+      },
+      prevPage: () => {
+        goToRelativePage(-1);
+      },
+      setZoom: (scale: number, options: SetZoomOptions = {}) => {
+        const { focalPoint, animated = true } = options;
+        dispatch('setZoom', [
+          scale,
+          focalPoint?.x ?? null,
+          focalPoint?.y ?? null,
+          animated,
+        ]);
+      },
+      resetZoom: () => dispatch('resetZoom', []),
+      clearStrokes: (page?: number) => dispatch('clearStrokes', [page ?? -1]),
+      zoomToRect,
+      getCurrentPage: async () => (await getViewState()).page,
+      getViewState,
+      getLocation: async (): Promise<PdfLocation> => {
+        const fingerprint = fingerprintRef.current;
+        if (fingerprint == null) {
+          throw createPdfError('INVALID_ARGUMENT', 'No document is loaded.');
+        }
+        const { page, offset, scale } = await getViewState();
+        return { page, offset, scale, fingerprint };
+      },
+      restoreLocation: (location: PdfLocation) => {
+        if (
+          fingerprintRef.current == null ||
+          location.fingerprint !== fingerprintRef.current
+        ) {
+          return false;
+        }
+        const { page, offset, scale } = location;
+        dispatch('restoreLocation', [page, offset.x, offset.y, scale]);
+        return true;
+      },
+    };
+  }, [dispatch, getViewState, fingerprintRef]);
+}